@@ -48,6 +48,7 @@ import {
 import { OverridePermissions } from '../types/labor-category';
 import { useSystemSettings } from '../hooks/useSystemSettings';
 import LCATManagement from './LCATManagement';
+import PremiumTableEditor from './PremiumTableEditor';
 
 interface User {
   id: string;
@@ -81,7 +82,7 @@ function TabPanel(props: TabPanelProps) {
 
 const AdminDashboard: React.FC = () => {
   const [currentTab, setCurrentTab] = useState(0);
-  const { settings, setWrapRate, setMinimumProfitRate } = useSystemSettings();
+  const { settings, setWrapRate, setMinimumProfitRate, setPremiumTable } = useSystemSettings();
   const [users, setUsers] = useState<User[]>([
     {
       id: '1',
@@ -482,6 +483,12 @@ const AdminDashboard: React.FC = () => {
                 </CardContent>
               </Card>
             </Grid>
+            <Grid item xs={12}>
+              <PremiumTableEditor
+                {...(settings.premiumTable ? { premiumTable: settings.premiumTable } : {})}
+                onSave={setPremiumTable}
+              />
+            </Grid>
           </Grid>
         </TabPanel>
 
@@ -29,7 +29,18 @@ import {
   TrendingUp as TrendingUpIcon,
 } from '@mui/icons-material';
 import { LaborCategoryInput, ValidationError } from '../types/labor-category';
-import { CalculationResult } from '@pricing-calculator/types';
+import { CalculationResult, CalculationTrace, ContractType } from '@pricing-calculator/types';
+import { CalculationTraces, CeilingRates } from '@pricing-calculator/core';
+import CalculationTraceDialog from './CalculationTraceDialog';
+
+const FEE_LABELS: Record<ContractType, string> = {
+  'FFP': 'Profit',
+  'T&M': 'Fee in Rates',
+  'LH': 'Fee in Rates',
+  'CPFF': 'Fixed Fee',
+  'CPIF': 'Target Fee',
+  'CPAF': 'Base Fee',
+};
 
 interface CalculationResultsProps {
   result: CalculationResult | null;
@@ -44,6 +55,19 @@ const CalculationResults: React.FC<CalculationResultsProps> = ({
   validationWarnings,
   isLoading = false,
 }) => {
+  const [selectedTrace, setSelectedTrace] = React.useState<CalculationTrace | null>(null);
+
+  // Explain results that came back without a trace so any figure can be clicked through
+  const trace = React.useMemo(
+    () => result ? result.trace ?? CalculationTraces.explain(result) : null,
+    [result]
+  );
+  const showTrace = (target: string) => {
+    const found = [...(trace?.laborCategories ?? []), ...(trace?.otherDirectCosts ?? []), ...(trace?.totals ?? [])]
+      .find(candidate => candidate.target === target);
+    setSelectedTrace(found ?? null);
+  };
+
   if (isLoading) {
     return (
       <Card elevation={2} sx={{ mt: 3 }}>
@@ -88,10 +112,16 @@ const CalculationResults: React.FC<CalculationResultsProps> = ({
     return hours.toLocaleString('en-US', { maximumFractionDigits: 0 });
   };
 
+  const hasCeilingRates = result.laborCategories.some(lc => lc.ceilingRate !== undefined);
+
   return (
     <Box mt={3}>
       {/* Total Project Cost - Prominent Display */}
-      <Card elevation={3} sx={{ mb: 3, background: 'linear-gradient(135deg, #1976d2 0%, #1565c0 100%)', color: 'white' }}>
+      <Card
+        elevation={3}
+        onClick={() => showTrace('totals.totalCost')}
+        sx={{ mb: 3, background: 'linear-gradient(135deg, #1976d2 0%, #1565c0 100%)', color: 'white', cursor: 'pointer' }}
+      >
         <CardContent sx={{ textAlign: 'center', py: 4 }}>
           <Typography variant="h3" fontWeight="bold" gutterBottom>
             {formatCurrency(result.totals.totalCost)}
@@ -180,6 +210,182 @@ const CalculationResults: React.FC<CalculationResultsProps> = ({
           </Card>
         </Grid>
 
+        {/* Contract-Type Totals */}
+        {result.contract && (
+          <Grid item xs={12}>
+            <Card elevation={2}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom fontWeight="bold" display="flex" alignItems="center">
+                  <TrendingUpIcon sx={{ mr: 1 }} />
+                  {result.contract.contractType} Pricing
+                </Typography>
+                <Box mt={2}>
+                  {[
+                    { label: 'Estimated Cost', value: result.contract.estimatedCost },
+                    { label: FEE_LABELS[result.contract.contractType], value: result.contract.fee },
+                    { label: 'Risk Contingency', value: result.contract.contingency },
+                    { label: 'Award Fee Pool', value: result.contract.awardFeePool },
+                    { label: 'Minimum Fee', value: result.contract.minimumFee },
+                    { label: 'Maximum Fee', value: result.contract.maximumFee },
+                    { label: 'Ceiling Price', value: result.contract.ceilingPrice },
+                  ].filter(row => row.value !== undefined).map(row => (
+                    <Box key={row.label} display="flex" justifyContent="space-between" alignItems="center" py={1}>
+                      <Typography variant="body1">{row.label}:</Typography>
+                      <Typography variant="h6" fontWeight="bold">
+                        {formatCurrency(row.value as number)}
+                      </Typography>
+                    </Box>
+                  ))}
+                  {result.contract.contractorShare !== undefined && (
+                    <Box display="flex" justifyContent="space-between" alignItems="center" py={1}>
+                      <Typography variant="body1">Share Ratio (Government/Contractor):</Typography>
+                      <Typography variant="h6" fontWeight="bold">
+                        {Math.round((1 - result.contract.contractorShare) * 100)}/{Math.round(result.contract.contractorShare * 100)}
+                      </Typography>
+                    </Box>
+                  )}
+                  <Divider sx={{ my: 1 }} />
+                  <Box display="flex" justifyContent="space-between" alignItems="center" py={1}>
+                    <Typography variant="h6" fontWeight="bold">Total Price:</Typography>
+                    <Typography variant="h5" fontWeight="bold" color="primary">
+                      {formatCurrency(result.contract.totalPrice)}
+                    </Typography>
+                  </Box>
+                  {result.contract.warnings.map(warning => (
+                    <Alert key={warning} severity="warning" sx={{ mt: 1 }}>
+                      {warning}
+                    </Alert>
+                  ))}
+                </Box>
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+
+        {/* Prime vs Subcontractor Totals */}
+        {result.totals.subcontracting && (
+          <Grid item xs={12}>
+            <Card elevation={2}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom fontWeight="bold" display="flex" alignItems="center">
+                  <PeopleIcon sx={{ mr: 1 }} />
+                  Prime vs Subcontractor
+                </Typography>
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell />
+                        <TableCell align="right">Cost</TableCell>
+                        <TableCell align="right">Price</TableCell>
+                        <TableCell align="right">Profit</TableCell>
+                        {result.workshare && <TableCell align="right">Workshare (Cost)</TableCell>}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell>Prime</TableCell>
+                        <TableCell align="right">{formatCurrency(result.totals.subcontracting.primeCost)}</TableCell>
+                        <TableCell align="right">{formatCurrency(result.totals.subcontracting.primePrice)}</TableCell>
+                        <TableCell align="right">{formatCurrency(result.totals.subcontracting.primeProfit)}</TableCell>
+                        {result.workshare && (
+                          <TableCell align="right">{formatPercentage(result.workshare.overall.primeCostShare)}</TableCell>
+                        )}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Subcontractors</TableCell>
+                        <TableCell align="right">{formatCurrency(result.totals.subcontracting.subcontractorCost)}</TableCell>
+                        <TableCell align="right">{formatCurrency(result.totals.subcontracting.subcontractorPrice)}</TableCell>
+                        <TableCell align="right">{formatCurrency(result.totals.subcontracting.subcontractorProfit)}</TableCell>
+                        {result.workshare && (
+                          <TableCell align="right">{formatPercentage(1 - result.workshare.overall.primeCostShare)}</TableCell>
+                        )}
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+                {result.workshare?.requirement && (
+                  <Alert severity={result.workshare.compliant ? 'success' : 'error'} sx={{ mt: 1 }}>
+                    Prime performs {formatPercentage(result.workshare.primeShare ?? 0)} of labor {result.workshare.requirement.basis};{' '}
+                    {result.workshare.requirement.citation ?? 'limitations on subcontracting'} requires at least{' '}
+                    {formatPercentage(result.workshare.requirement.minimumPrimeShare)}
+                    {(result.workshare.periodsBelowMinimum?.length ?? 0) > 0 && (
+                      <> ({result.workshare.periods
+                        .filter(period => result.workshare?.periodsBelowMinimum?.includes(period.periodId))
+                        .map(period => period.name)
+                        .join(', ')} below minimum)</>
+                    )}
+                  </Alert>
+                )}
+                {result.laborCategories.filter(lc => lc.exceedsMaxSubcontractorRate).map(lc => (
+                  <Alert key={lc.id || lc.title} severity="warning" sx={{ mt: 1 }}>
+                    {lc.title}: sub rate {formatCurrency(lc.finalSubcontractorRate ?? 0)} exceeds the
+                    maximum {formatCurrency(lc.maxSubcontractorRate ?? 0)} that still earns minimum profit
+                  </Alert>
+                ))}
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+
+        {/* Position Slots */}
+        {result.positionSlots && result.positionSlots.length > 0 && (
+          <Grid item xs={12}>
+            <Card elevation={2}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom fontWeight="bold" display="flex" alignItems="center">
+                  <PeopleIcon sx={{ mr: 1 }} />
+                  Position Slots
+                </Typography>
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Position / Assignee</TableCell>
+                        <TableCell align="right">FTE</TableCell>
+                        <TableCell align="right">Hours</TableCell>
+                        <TableCell align="right">Cost</TableCell>
+                        <TableCell align="right">Price</TableCell>
+                        <TableCell align="right">Profit</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {result.positionSlots.map(slot => (
+                        <React.Fragment key={slot.slotId}>
+                          <TableRow
+                            sx={{
+                              '& td': { fontWeight: 'bold' },
+                              ...((result.findings ?? []).some(finding => finding.slotId === slot.slotId)
+                                ? { backgroundColor: '#e8f4fd' } : {}),
+                            }}
+                          >
+                            <TableCell>{slot.projectRole ? `${slot.projectRole} (${slot.title})` : slot.title}</TableCell>
+                            <TableCell align="right">{slot.fte}</TableCell>
+                            <TableCell align="right">{formatHours(slot.effectiveHours)}</TableCell>
+                            <TableCell align="right">{formatCurrency(slot.cost)}</TableCell>
+                            <TableCell align="right">{formatCurrency(slot.price)}</TableCell>
+                            <TableCell align="right">{formatCurrency(slot.profit)}</TableCell>
+                          </TableRow>
+                          {slot.assignees.map(assignee => (
+                            <TableRow key={assignee.lineId || assignee.assigneeName}>
+                              <TableCell sx={{ pl: 4 }}>{assignee.assigneeName || 'Unnamed'}</TableCell>
+                              <TableCell align="right">{assignee.capacity}</TableCell>
+                              <TableCell align="right">{formatHours(assignee.effectiveHours)}</TableCell>
+                              <TableCell align="right">{formatCurrency(assignee.cost)}</TableCell>
+                              <TableCell align="right">{formatCurrency(assignee.price)}</TableCell>
+                              <TableCell align="right">{formatCurrency(assignee.profit)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </React.Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+
         {/* Labor Categories Breakdown */}
         <Grid item xs={12}>
           <Card elevation={2}>
@@ -200,16 +406,41 @@ const CalculationResults: React.FC<CalculationResultsProps> = ({
                       <TableCell sx={{ fontWeight: 'bold' }} align="center">Clearance</TableCell>
                       <TableCell sx={{ fontWeight: 'bold' }} align="center">Location</TableCell>
                       <TableCell sx={{ fontWeight: 'bold' }} align="right">Burdened Rate</TableCell>
+                      {hasCeilingRates && (
+                        <TableCell sx={{ fontWeight: 'bold' }} align="right">Final Rate Discount</TableCell>
+                      )}
                       <TableCell sx={{ fontWeight: 'bold' }} align="right">Total Cost</TableCell>
                     </TableRow>
                   </TableHead>
                   <TableBody>
-                    {result.laborCategories.map((category, index) => (
-                      <TableRow key={category.id || index} hover>
+                    {result.laborCategories.map((category, index) => {
+                      const lineFindings = (result.findings ?? []).filter(finding => finding.lineIndex === index);
+                      const severity = lineFindings.some(finding => finding.severity === 'error') ? 'error'
+                        : lineFindings.some(finding => finding.severity === 'warning') ? 'warning' : undefined;
+                      return (
+                      <TableRow
+                        key={category.id || index}
+                        hover
+                        onClick={() => showTrace(`laborCategories[${index}].totalCost`)}
+                        sx={{
+                          cursor: 'pointer',
+                          ...(severity ? { backgroundColor: severity === 'error' ? '#fdecea' : '#fff4e5' } : {}),
+                        }}
+                      >
                         <TableCell>
                           <Typography variant="body2" fontWeight="medium">
                             {category.title}
                           </Typography>
+                          {lineFindings.map(finding => (
+                            <Typography
+                              key={finding.type}
+                              variant="caption"
+                              display="block"
+                              color={finding.severity === 'error' ? 'error' : finding.severity === 'warning' ? 'warning.main' : 'text.secondary'}
+                            >
+                              {finding.message}
+                            </Typography>
+                          ))}
                         </TableCell>
                         <TableCell align="right">
                           {formatCurrency(category.baseRate)}
@@ -228,7 +459,7 @@ const CalculationResults: React.FC<CalculationResultsProps> = ({
                             label={category.clearanceLevel}
                             size="small"
                             color={
-                              category.clearanceLevel === 'Top Secret' ? 'error' :
+                              category.clearanceLevel === 'Top Secret' || category.clearanceLevel.startsWith('TS/SCI') ? 'error' :
                               category.clearanceLevel === 'Secret' ? 'warning' :
                               category.clearanceLevel === 'Public Trust' ? 'info' : 'default'
                             }
@@ -250,16 +481,35 @@ const CalculationResults: React.FC<CalculationResultsProps> = ({
                             {formatCurrency(category.burdenedRate)}
                           </Typography>
                         </TableCell>
+                        {hasCeilingRates && (
+                          <TableCell align="right">
+                            <Typography
+                              variant="body2"
+                              fontWeight="bold"
+                              color={category.exceedsCeilingRate ? 'error' : 'secondary'}
+                            >
+                              {category.ceilingDiscount !== undefined ? formatPercentage(category.ceilingDiscount) : 'N/A'}
+                            </Typography>
+                          </TableCell>
+                        )}
                         <TableCell align="right">
                           <Typography variant="body2" fontWeight="bold" color="primary">
                             {formatCurrency(category.totalCost)}
                           </Typography>
                         </TableCell>
                       </TableRow>
-                    ))}
+                      );
+                    })}
                   </TableBody>
                 </Table>
               </TableContainer>
+              {(result.periods ?? []).flatMap(period => period.laborCategories
+                .filter(lc => lc.exceedsCeilingRate)
+                .map(lc => (
+                  <Alert key={`${period.periodId}-${lc.id || lc.title}`} severity="error" sx={{ mt: 1 }}>
+                    {lc.title}: {period.name} rate of ${CeilingRates.proposedRate(lc).toFixed(2)} exceeds the LCAT ceiling of ${(lc.ceilingRate ?? 0).toFixed(2)}
+                  </Alert>
+                )))}
             </CardContent>
           </Card>
         </Grid>
@@ -286,7 +536,12 @@ const CalculationResults: React.FC<CalculationResultsProps> = ({
                     </TableHead>
                     <TableBody>
                       {result.otherDirectCosts.map((odc, index) => (
-                        <TableRow key={odc.id || index} hover>
+                        <TableRow
+                          key={odc.id || index}
+                          hover
+                          onClick={() => showTrace(`otherDirectCosts[${index}].totalAmount`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
                           <TableCell>
                             <Typography variant="body2" fontWeight="medium">
                               {odc.description}
@@ -316,6 +571,8 @@ const CalculationResults: React.FC<CalculationResultsProps> = ({
           </Grid>
         )}
       </Grid>
+
+      <CalculationTraceDialog trace={selectedTrace} onClose={() => setSelectedTrace(null)} />
     </Box>
   );
 };
@@ -0,0 +1,117 @@
+/**
+ * Calculation Trace Dialog Component
+ * Shows how a figure was calculated, step by step, with the setting source of each input
+ */
+
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { CalculationTrace, TraceStep } from '@pricing-calculator/types';
+
+interface CalculationTraceDialogProps {
+  trace: CalculationTrace | null;
+  onClose: () => void;
+}
+
+const formatStepValue = (step: TraceStep) => {
+  switch (step.unit) {
+    case 'currency':
+    case 'rate':
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(step.value);
+    case 'percent':
+      return `${(step.value * 100).toFixed(2)}%`;
+    case 'factor':
+      return step.value.toFixed(6);
+    default:
+      return step.value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+};
+
+const TraceTable: React.FC<{ trace: CalculationTrace }> = ({ trace }) => (
+  <TableContainer sx={{ mb: 3 }}>
+    <Table size="small">
+      <TableHead>
+        <TableRow sx={{ backgroundColor: '#f5f5f5' }}>
+          <TableCell sx={{ fontWeight: 'bold' }}>Step</TableCell>
+          <TableCell sx={{ fontWeight: 'bold' }} align="right">Value</TableCell>
+          <TableCell sx={{ fontWeight: 'bold' }}>Formula</TableCell>
+          <TableCell sx={{ fontWeight: 'bold' }}>Source</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {trace.steps.map((step, index) => (
+          <TableRow key={`${step.label}-${index}`}>
+            <TableCell>
+              <Typography variant="body2">{step.label}</Typography>
+              {step.detail && (
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {step.detail}
+                </Typography>
+              )}
+            </TableCell>
+            <TableCell align="right">{formatStepValue(step)}</TableCell>
+            <TableCell>
+              <Typography variant="body2" color="text.secondary">{step.formula ?? ''}</Typography>
+            </TableCell>
+            <TableCell>
+              {step.source && (
+                <Chip
+                  label={step.source}
+                  size="small"
+                  variant="outlined"
+                  color={step.source === 'override' ? 'warning' : step.source === 'calculated' ? 'default' : 'primary'}
+                />
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </TableContainer>
+);
+
+export const CalculationTraceDialog: React.FC<CalculationTraceDialogProps> = ({ trace, onClose }) => {
+  return (
+    <Dialog open={trace !== null} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {trace ? `How ${trace.label} was calculated` : ''}
+      </DialogTitle>
+
+      <DialogContent>
+        {trace && (
+          <Box>
+            <TraceTable trace={trace} />
+            {(trace.children ?? []).map(child => (
+              <Box key={child.target}>
+                <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+                  {child.label}
+                </Typography>
+                <TraceTable trace={child} />
+              </Box>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CalculationTraceDialog;
@@ -92,9 +92,10 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
 
     try {
       const options: ExportOptions = {
-        projectName,
-        contractVehicle,
-        template: template as 'basic' | 'va-spruce' | 'gsa-mas'
+        ...(projectName ? { projectName } : {}),
+        ...(contractVehicle ? { contractVehicle } : {}),
+        template: template as 'basic' | 'va-spruce' | 'gsa-mas',
+        includeSensitivity: true
       };
 
       if (template === 'basic') {
@@ -3,7 +3,7 @@
  * Orchestrates all pricing components into a unified interface
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   Box,
   Typography,
@@ -38,6 +38,8 @@ import {
   Compare as CompareIcon,
   Edit as EditIcon,
   AdminPanelSettings as AdminIcon,
+  History as HistoryIcon,
+  ContentCopy as TemplateIcon,
 } from '@mui/icons-material';
 
 // Import existing components
@@ -47,11 +49,19 @@ import ContractVehicleSelector from './ContractVehicleSelector';
 import ExportPanel from './ExportPanel';
 import AdminDashboard from './AdminDashboard';
 import ProjectSelectionDialog from './ProjectSelectionDialog';
+import ProjectHistoryDrawer from './ProjectHistoryDrawer';
+import TemplateSelectionDialog from './TemplateSelectionDialog';
+import ProjectConflictDialog, { ConflictResolution, MergeableProject } from './ProjectConflictDialog';
+import PriceToWinPanel from './PriceToWinPanel';
+import SensitivityTornadoChart from './SensitivityTornadoChart';
 import ProjectService, { ProjectData } from '../services/project.service';
+import SystemSettingsService from '../services/system-settings.service';
 
 // Import types
 import { LaborCategoryInput, ValidationError } from '../types/labor-category';
-import { CalculationResult, PricingSettings, LaborCategoryInput as LaborCategoryInputType } from '@pricing-calculator/types';
+import { CalculationInput, CalculationResult, PricingSettings, PriceToWinResult, ProjectTemplate, ProjectVersion } from '@pricing-calculator/types';
+import { ProjectInputs } from '@pricing-calculator/core';
+import CalculationService from '../services/calculation.service';
 
 interface LocalProjectData {
   id: string;
@@ -64,6 +74,7 @@ interface LocalProjectData {
   feeRate: number;
   laborCategories: LaborCategoryInput[];
   otherDirectCosts: any[];
+  version?: number | undefined; // Server version the local copy is based on; unset until saved
 }
 
 interface TabPanelProps {
@@ -103,6 +114,12 @@ const IntegratedPricingCalculator: React.FC = () => {
     otherDirectCosts: [],
   });
 
+  // One-year PoP from today; line start/end dates are pro-rated against it
+  const periodOfPerformance = useMemo(() => ({
+    startDate: new Date().toISOString().slice(0, 10),
+    endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+  }), []);
+
   // State for validation
   const [validationWarnings] = useState<ValidationError[]>([]);
 
@@ -118,6 +135,13 @@ const IntegratedPricingCalculator: React.FC = () => {
   const [editingProjectName, setEditingProjectName] = useState('');
   const [showAdminDashboard, setShowAdminDashboard] = useState(false);
   const [showProjectDialog, setShowProjectDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  const [newProjectAnchorEl, setNewProjectAnchorEl] = useState<null | HTMLElement>(null);
+  const [conflict, setConflict] = useState<{ mine: MergeableProject; theirs: MergeableProject } | null>(null);
+
+  // Projects only have a history once saved to the API
+  const isSavedProject = !projectData.id.startsWith('demo-project') && !projectData.id.startsWith('project-');
 
   const handleTabChange = (_: React.SyntheticEvent, newValue: number) => {
     setCurrentTab(newValue);
@@ -163,24 +187,32 @@ const IntegratedPricingCalculator: React.FC = () => {
   };
 
   const handleSaveProject = async () => {
+    await saveProject(projectData);
+  };
+
+  const saveProject = async (data: LocalProjectData) => {
     try {
       setSnackbarMessage('Saving project...');
       setSnackbarOpen(true);
       
-      const apiProjectData = ProjectService.convertFrontendProjectToApi(projectData);
-      console.log('🔍 IntegratedPricingCalculator.handleSaveProject - Original projectData:', JSON.stringify(projectData, null, 2));
+      const apiProjectData = ProjectService.convertFrontendProjectToApi(data);
+      console.log('🔍 IntegratedPricingCalculator.handleSaveProject - Original projectData:', JSON.stringify(data, null, 2));
       console.log('🔍 IntegratedPricingCalculator.handleSaveProject - Converted apiProjectData:', JSON.stringify(apiProjectData, null, 2));
       
       let response;
-      if (projectData.id.startsWith('demo-project') || projectData.id.startsWith('project-')) {
+      if (data.id.startsWith('demo-project') || data.id.startsWith('project-')) {
         // Create new project
         response = await ProjectService.createProject(apiProjectData);
       } else {
         // Update existing project
-        response = await ProjectService.updateProject(projectData.id, apiProjectData);
+        response = await ProjectService.updateProject(data.id, apiProjectData);
       }
       
-      if (response.success && response.project) {
+      if (response.conflict) {
+        // Someone else saved first; let the user decide what to keep
+        setConflict({ mine: data, theirs: response.conflict.project });
+        setSnackbarMessage(response.message);
+      } else if (response.success && response.project) {
         const updatedProject = ProjectService.convertApiProjectToFrontend(response.project);
         setProjectData(updatedProject);
         setSnackbarMessage('Project saved successfully!');
@@ -207,6 +239,49 @@ const IntegratedPricingCalculator: React.FC = () => {
     setSnackbarOpen(true);
   };
 
+  const handleResolveConflict = async (resolution: ConflictResolution, resolved: MergeableProject) => {
+    setConflict(null);
+    const next: LocalProjectData = {
+      ...projectData,
+      name: resolved.name,
+      contractVehicle: resolved.contractVehicle,
+      overheadRate: resolved.overheadRate,
+      gaRate: resolved.gaRate,
+      feeRate: resolved.feeRate,
+      laborCategories: resolved.laborCategories,
+      otherDirectCosts: resolved.otherDirectCosts,
+      version: resolved.version,
+    };
+
+    if (resolution === 'theirs') {
+      setProjectData(next);
+      setSnackbarMessage(`Loaded version ${resolved.version} from the server`);
+      setSnackbarOpen(true);
+      return;
+    }
+
+    setProjectData(next);
+    await saveProject(next);
+  };
+
+  const handleVersionRestored = (project: ProjectData, version: ProjectVersion) => {
+    const restored = ProjectService.convertApiProjectToFrontend(project);
+    setProjectData(prev => ({
+      ...prev,
+      name: restored.name,
+      lastModified: restored.lastModified,
+      contractVehicle: restored.contractVehicle,
+      overheadRate: restored.overheadRate,
+      gaRate: restored.gaRate,
+      feeRate: restored.feeRate,
+      laborCategories: restored.laborCategories,
+      otherDirectCosts: restored.otherDirectCosts,
+      version: restored.version,
+    }));
+    setSnackbarMessage(`Restored as version ${version.version}`);
+    setSnackbarOpen(true);
+  };
+
   const handleNewProject = () => {
     setProjectData({
       id: `project-${Date.now()}`,
@@ -222,9 +297,35 @@ const IntegratedPricingCalculator: React.FC = () => {
     });
     setSnackbarMessage('New project created!');
     setSnackbarOpen(true);
+    setNewProjectAnchorEl(null);
+    handleMenuClose();
+  };
+
+  const handleNewFromTemplate = () => {
+    setShowTemplateDialog(true);
+    setNewProjectAnchorEl(null);
     handleMenuClose();
   };
 
+  const handleTemplateProjectCreated = (project: ProjectData, template: ProjectTemplate) => {
+    const created = ProjectService.convertApiProjectToFrontend(project);
+    setProjectData({
+      id: created.id,
+      name: created.name,
+      lastModified: created.lastModified,
+      status: 'draft',
+      contractVehicle: created.contractVehicle,
+      overheadRate: created.overheadRate,
+      gaRate: created.gaRate,
+      feeRate: created.feeRate,
+      laborCategories: created.laborCategories,
+      otherDirectCosts: created.otherDirectCosts,
+      version: created.version,
+    });
+    setSnackbarMessage(`Project "${created.name}" created from template "${template.name}"`);
+    setSnackbarOpen(true);
+  };
+
   const handleExportExcel = async () => {
     if (!calculationResult) {
       setSnackbarMessage('No calculation results to export');
@@ -301,107 +402,86 @@ const IntegratedPricingCalculator: React.FC = () => {
     }));
   };
 
-  // Calculate project results
+  // Convert project data to the format expected by the calculation engine
+  const buildCalculationInput = useCallback((): CalculationInput => {
+    // Create pricing settings
+    const indirectRateStructure = SystemSettingsService.getInstance().getIndirectRateStructure();
+    const premiumTable = SystemSettingsService.getInstance().getPremiumTable();
+    const settings: PricingSettings = {
+      projectId: projectData.id,
+      overheadRate: projectData.overheadRate,
+      gaRate: projectData.gaRate,
+      feeRate: projectData.feeRate,
+      contractType: 'FFP' as any,
+      periodOfPerformance,
+      ...(indirectRateStructure ? { indirectRateStructure } : {}),
+      ...(premiumTable ? { premiumTable } : {}),
+    };
+
+    // Same line mapping the API uses for the saved project
+    return ProjectInputs.build(settings, projectData.laborCategories);
+  }, [projectData, periodOfPerformance]);
+
+  // Calculate project results on the server, which applies the contract vehicle and tenant rates
+  const latestCalculation = useRef(0);
   const calculateProject = useCallback(async () => {
     if (projectData.laborCategories.length === 0) {
       setCalculationResult(null);
       return;
     }
 
+    const calculation = ++latestCalculation.current;
     setIsCalculating(true);
-    try {
-      // Convert categories to the format expected by the calculation service
-      const laborCategories: LaborCategoryInputType[] = projectData.laborCategories.map(cat => ({
-        title: cat.title,
-        baseRate: cat.baseRate,
-        hours: cat.hours,
-        ftePercentage: cat.ftePercentage / 100, // Convert percentage to decimal
-        clearanceLevel: cat.clearanceLevel as any,
-        location: cat.location as any,
-      }));
+    const response = await CalculationService.calculateProject(buildCalculationInput(), projectData.contractVehicle);
+    // A later edit has started a newer calculation
+    if (calculation !== latestCalculation.current) {
+      return;
+    }
 
-      // Create pricing settings
-      const settings: PricingSettings = {
-        projectId: projectData.id,
-        overheadRate: projectData.overheadRate,
-        gaRate: projectData.gaRate,
-        feeRate: projectData.feeRate,
-        contractType: 'FFP' as any,
-        periodOfPerformance: {
-          startDate: new Date().toISOString(),
-          endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(), // 1 year from now
-        },
-      };
-
-      // Mock calculation (replace with actual API call)
-      const mockResult: CalculationResult = {
-        projectId: projectData.id,
-        calculatedAt: new Date().toISOString(),
-        settings,
-        laborCategories: laborCategories.map((lc, index) => {
-          const clearancePremium = lc.clearanceLevel === 'Top Secret' ? 0.20 : 
-                                 lc.clearanceLevel === 'Secret' ? 0.10 : 
-                                 lc.clearanceLevel === 'Public Trust' ? 0.05 : 0;
-          const clearanceAdjustedRate = lc.baseRate * (1 + clearancePremium);
-          const overheadAmount = clearanceAdjustedRate * projectData.overheadRate;
-          const gaAmount = (clearanceAdjustedRate + overheadAmount) * projectData.gaRate;
-          const feeAmount = (clearanceAdjustedRate + overheadAmount + gaAmount) * projectData.feeRate;
-          const burdenedRate = clearanceAdjustedRate + overheadAmount + gaAmount + feeAmount;
-          const totalCost = burdenedRate * lc.hours * lc.ftePercentage;
-
-          return {
-            id: `temp-${Date.now()}-${index}`,
-            title: lc.title,
-            baseRate: lc.baseRate,
-            hours: lc.hours,
-            ftePercentage: lc.ftePercentage,
-            effectiveHours: lc.hours * lc.ftePercentage,
-            clearanceLevel: lc.clearanceLevel as any,
-            location: lc.location as any,
-            clearancePremium,
-            clearanceAdjustedRate,
-            overheadAmount,
-            overheadRate: projectData.overheadRate,
-            gaAmount,
-            gaRate: projectData.gaRate,
-            feeAmount,
-            feeRate: projectData.feeRate,
-            totalCost,
-            burdenedRate,
-          };
-        }),
-        otherDirectCosts: [],
-        totals: {
-          laborCost: 0,
-          odcCost: 0,
-          totalCost: 0,
-          totalEffectiveHours: 0,
-          averageBurdenedRate: 0,
-        },
-        validationWarnings: validationWarnings,
-      };
-
-      // Calculate totals
-      const laborCost = mockResult.laborCategories.reduce((sum, lc) => sum + lc.totalCost, 0);
-      const totalEffectiveHours = mockResult.laborCategories.reduce((sum, lc) => sum + lc.effectiveHours, 0);
-      const averageBurdenedRate = totalEffectiveHours > 0 ? laborCost / totalEffectiveHours : 0;
-
-      mockResult.totals = {
-        laborCost,
-        odcCost: 0,
-        totalCost: laborCost,
-        totalEffectiveHours,
-        averageBurdenedRate,
-      };
-
-      setCalculationResult(mockResult);
-    } catch (error) {
-      console.error('Calculation error:', error);
+    if (response.success && response.result) {
+      setCalculationResult({ ...response.result, validationWarnings: validationWarnings });
+    } else {
+      console.error('Calculation error:', response.error);
       setCalculationResult(null);
-    } finally {
-      setIsCalculating(false);
     }
-  }, [projectData, validationWarnings]);
+    setIsCalculating(false);
+  }, [projectData, buildCalculationInput, validationWarnings]);
+
+  // Apply a price-to-win solution to the project
+  const handleApplyPriceToWin = (solution: PriceToWinResult) => {
+    const reason = solution.solveFor === 'ceilingDiscount'
+      ? `Price-to-win: ${(solution.value * 100).toFixed(2)}% discount off LCAT ceiling`
+      : `Price-to-win: fee rate ${(solution.value * 100).toFixed(2)}%`;
+
+    setProjectData(prev => ({
+      ...prev,
+      ...(solution.solveFor === 'feeRate' ? { feeRate: solution.value } : {}),
+      laborCategories: prev.laborCategories.map((cat, index) => {
+        const solved = solution.laborCategories[index];
+        if (!solved) return cat;
+
+        if (solution.solveFor === 'hoursScale') {
+          return { ...cat, hours: solved.hours };
+        }
+        if (solved.finalRate === undefined || solved.finalRate === cat.finalRate) {
+          return cat;
+        }
+        return {
+          ...cat,
+          finalRate: solved.finalRate,
+          finalRateMetadata: {
+            source: 'manual',
+            reason,
+            timestamp: new Date().toISOString(),
+            userId: 'current-user', // In real app, get from auth context
+          },
+        };
+      }),
+      lastModified: new Date().toISOString(),
+    }));
+    setSnackbarMessage('Price-to-win solution applied to project');
+    setSnackbarOpen(true);
+  };
 
   // Run calculation when inputs change
   useEffect(() => {
@@ -526,10 +606,18 @@ const IntegratedPricingCalculator: React.FC = () => {
             <Button
               variant="outlined"
               startIcon={<AddIcon />}
-              onClick={handleNewProject}
+              onClick={(e) => setNewProjectAnchorEl(e.currentTarget)}
             >
               New Project
             </Button>
+            <Button
+              variant="outlined"
+              startIcon={<HistoryIcon />}
+              onClick={() => setShowHistory(true)}
+              disabled={!isSavedProject}
+            >
+              History
+            </Button>
             <Button
               variant="outlined"
               startIcon={<DownloadIcon />}
@@ -688,6 +776,7 @@ const IntegratedPricingCalculator: React.FC = () => {
             overheadRate={projectData.overheadRate}
             gaRate={projectData.gaRate}
             feeRate={projectData.feeRate}
+            periodOfPerformance={periodOfPerformance}
           />
         </TabPanel>
 
@@ -719,6 +808,12 @@ const IntegratedPricingCalculator: React.FC = () => {
             isLoading={isCalculating}
           />
           
+          {calculationResult && (
+            <Box mt={4}>
+              <SensitivityTornadoChart input={buildCalculationInput()} />
+            </Box>
+          )}
+          
           <Box mt={4}>
             <ExportPanel
               calculationResult={calculationResult}
@@ -748,9 +843,12 @@ const IntegratedPricingCalculator: React.FC = () => {
           <Alert severity="info" sx={{ mb: 3 }}>
             Compare different pricing scenarios and analyze the impact of various rate changes.
           </Alert>
-          <Typography variant="body1" color="text.secondary">
-            Scenario comparison functionality will be implemented here.
-          </Typography>
+
+          <PriceToWinPanel
+            input={buildCalculationInput()}
+            {...(projectData.contractVehicle ? { contractVehicle: projectData.contractVehicle } : {})}
+            onApply={handleApplyPriceToWin}
+          />
         </TabPanel>
       </Paper>
 
@@ -772,6 +870,10 @@ const IntegratedPricingCalculator: React.FC = () => {
           <AddIcon sx={{ mr: 1 }} />
           New Project
         </MenuItem>
+        <MenuItem onClick={handleNewFromTemplate}>
+          <TemplateIcon sx={{ mr: 1 }} />
+          New from Template
+        </MenuItem>
         <Divider />
         <MenuItem onClick={handleExportExcel}>
           <DownloadIcon sx={{ mr: 1 }} />
@@ -788,6 +890,22 @@ const IntegratedPricingCalculator: React.FC = () => {
         </MenuItem>
       </Menu>
 
+      {/* New Project Menu */}
+      <Menu
+        anchorEl={newProjectAnchorEl}
+        open={Boolean(newProjectAnchorEl)}
+        onClose={() => setNewProjectAnchorEl(null)}
+      >
+        <MenuItem onClick={handleNewProject}>
+          <AddIcon sx={{ mr: 1 }} />
+          Blank Project
+        </MenuItem>
+        <MenuItem onClick={handleNewFromTemplate}>
+          <TemplateIcon sx={{ mr: 1 }} />
+          Start from Template
+        </MenuItem>
+      </Menu>
+
       {/* Snackbar for notifications */}
       <Snackbar
         open={snackbarOpen}
@@ -823,6 +941,30 @@ const IntegratedPricingCalculator: React.FC = () => {
         onClose={() => setShowProjectDialog(false)}
         onSelectProject={handleSelectProject}
       />
+
+      {/* Template Selection Dialog */}
+      <TemplateSelectionDialog
+        open={showTemplateDialog}
+        onClose={() => setShowTemplateDialog(false)}
+        onProjectCreated={handleTemplateProjectCreated}
+      />
+
+      {/* Save Conflict Dialog */}
+      <ProjectConflictDialog
+        open={conflict !== null}
+        mine={conflict?.mine ?? null}
+        theirs={conflict?.theirs ?? null}
+        onResolve={handleResolveConflict}
+        onCancel={() => setConflict(null)}
+      />
+
+      {/* Version History Drawer */}
+      <ProjectHistoryDrawer
+        open={showHistory}
+        projectId={isSavedProject ? projectData.id : null}
+        onClose={() => setShowHistory(false)}
+        onRestored={handleVersionRestored}
+      />
     </Box>
   );
 };
@@ -55,6 +55,7 @@ interface LaborCategoriesInputProps {
   overheadRate: number;
   gaRate: number;
   feeRate: number;
+  periodOfPerformance?: { startDate: string; endDate: string }; // Pro-rates hours on lines with start/end dates
   disabled?: boolean;
 }
 
@@ -68,9 +69,10 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
   overheadRate,
   gaRate,
   feeRate,
+  periodOfPerformance,
   disabled = false,
 }) => {
-  const { settings, calculateWrapAmount, calculateMinimumProfitAmount } = useSystemSettings();
+  const { settings, getSalaryPricing, calculateSalaryBreakdown } = useSystemSettings();
   const [editingState, setEditingState] = useState<EditingState>({});
   const [originalCategories, setOriginalCategories] = useState<LaborCategoryInput[]>([]);
   const [errors, setErrors] = useState<Record<string, ValidationError[]>>({});
@@ -110,9 +112,11 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
 
   // Calculate summary whenever categories or rates change
   useEffect(() => {
-    const newSummary = LaborCategoryService.calculateSummary(categories, overheadRate, gaRate, feeRate);
+    const newSummary = LaborCategoryService.calculateSummary(
+      categories, overheadRate, gaRate, feeRate, getSalaryPricing(), periodOfPerformance
+    );
     setSummary(newSummary);
-  }, [categories, overheadRate, gaRate, feeRate]);
+  }, [categories, overheadRate, gaRate, feeRate, settings, periodOfPerformance]);
 
   // Force re-render when system settings change (for minimum profit calculation)
   useEffect(() => {
@@ -274,7 +278,9 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
   };
 
   const calculateCategoryResult = (category: LaborCategoryInput): LaborCategoryResult => {
-    return LaborCategoryService.calculateTotalCost(category, overheadRate, gaRate, feeRate);
+    return LaborCategoryService.calculateTotalCost(
+      category, overheadRate, gaRate, feeRate, getSalaryPricing(), periodOfPerformance
+    );
   };
 
 
@@ -454,7 +460,7 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
               <TableCell sx={{ fontWeight: 'bold' }} align="right">
                 <Box display="flex" alignItems="center" justifyContent="flex-end" gap={0.5}>
                   Effective Hours
-                  <Tooltip title="Calculated as Hours × FTE%">
+                  <Tooltip title="Calculated as Hours × FTE% × Capacity">
                     <InfoIcon fontSize="small" color="action" />
                   </Tooltip>
                 </Box>
@@ -612,10 +618,7 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
                             console.log('Updating category with role:', selectedRole.name, selectedRole.rate);
                             // Calculate Company Minimum Rate (Minimum Annual Revenue ÷ Effective Hours)
                             const effectiveHours = category.hours * (category.ftePercentage / 100);
-                            const wrapAmount = calculateWrapAmount(selectedRole.rate);
-                            const minimumProfitAmount = calculateMinimumProfitAmount(selectedRole.rate, wrapAmount);
-                            const minimumAnnualRevenue = selectedRole.rate + wrapAmount + minimumProfitAmount;
-                            const minimumRate = Math.round((minimumAnnualRevenue / effectiveHours) * 100) / 100; // Round to 2 decimal places
+                            const { minimumAnnualRevenue, companyMinimumRate: minimumRate } = calculateSalaryBreakdown(selectedRole.rate, effectiveHours);
                             console.log(`Converting minimum annual revenue ${formatCurrencyWithCommas(minimumAnnualRevenue, false)} to minimum rate: ${formatCurrencyWithCommas(minimumRate, true)} (÷ ${formatNumberWithCommas(effectiveHours)} effective hours)`);
                             
                             // Batch all updates into a single state change
@@ -711,15 +714,8 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
                   {/* Company Minimum Rate */}
                   <TableCell align="right">
                     <Typography variant="body2" fontWeight="bold" color="primary">
-                      {(() => {
-                        const effectiveHours = result.effectiveHours;
-                        const companyRoleRate = Number(category.companyRoleRate || 0);
-                        const wrapAmount = calculateWrapAmount(companyRoleRate);
-                        const minimumProfitAmount = calculateMinimumProfitAmount(companyRoleRate, wrapAmount);
-                        const minimumAnnualRevenue = companyRoleRate + wrapAmount + minimumProfitAmount;
-                        const minimumRate = effectiveHours > 0 ? minimumAnnualRevenue / effectiveHours : 0;
-                        return formatCurrencySmart(minimumRate);
-                      })()}
+                      {/* Minimum rate is per person, so capacity is excluded */}
+                      {formatCurrencySmart(result.companyMinimumRate)}
                     </Typography>
                   </TableCell>
 
@@ -934,6 +930,37 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
                     <Typography variant="body2" fontWeight="medium">
                       {result.effectiveHours.toLocaleString()}
                     </Typography>
+                    {editing ? (
+                      <Box display="flex" flexDirection="column" gap={0.5} mt={0.5}>
+                        <TextField
+                          size="small"
+                          type="date"
+                          label="Start"
+                          value={category.startDate ?? ''}
+                          onChange={(e) => updateCategory(index, 'startDate', e.target.value || undefined)}
+                          error={!!getFieldError(index, 'startDate')}
+                          disabled={disabled}
+                          InputLabelProps={{ shrink: true }}
+                          sx={{ width: 150 }}
+                        />
+                        <TextField
+                          size="small"
+                          type="date"
+                          label="End"
+                          value={category.endDate ?? ''}
+                          onChange={(e) => updateCategory(index, 'endDate', e.target.value || undefined)}
+                          error={!!getFieldError(index, 'endDate')}
+                          helperText={getFieldError(index, 'endDate')}
+                          disabled={disabled}
+                          InputLabelProps={{ shrink: true }}
+                          sx={{ width: 150 }}
+                        />
+                      </Box>
+                    ) : (result.startDate || result.endDate) && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {result.startDate ?? 'PoP start'} – {result.endDate ?? 'PoP end'}
+                      </Typography>
+                    )}
                   </TableCell>
 
                   {/* Hidden: Clearance Level */}
@@ -992,14 +1019,7 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
                   {/* Minimum Annual Revenue */}
                   <TableCell align="right">
                     <Typography variant="body2" fontWeight="bold" color="success.main">
-                      {(() => {
-                        const companyRoleRate = Number(category.companyRoleRate || 0);
-                        const wrapAmount = calculateWrapAmount(companyRoleRate);
-                        const minimumProfitAmount = calculateMinimumProfitAmount(companyRoleRate, wrapAmount);
-                        const minimumAnnualRevenue = companyRoleRate + wrapAmount + minimumProfitAmount;
-                        
-                        return formatCurrencySmart(minimumAnnualRevenue);
-                      })()}
+                      {formatCurrencySmart(result.minimumAnnualRevenue)}
                     </Typography>
                   </TableCell>
 
@@ -1014,7 +1034,7 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
                   <TableCell align="right">
                     <Box>
                       <Typography variant="body2" fontWeight="bold" color="secondary">
-                        {formatCurrencySmart(calculateWrapAmount(Number(category.companyRoleRate || 0)))}
+                        {formatCurrencySmart(result.wrapAmount)}
                       </Typography>
                     </Box>
                   </TableCell>
@@ -1023,7 +1043,7 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
                   <TableCell align="right">
                     <Box>
                       <Typography variant="body2" fontWeight="bold" color="success.main">
-                        {formatCurrencySmart(calculateMinimumProfitAmount(Number(category.companyRoleRate || 0), calculateWrapAmount(Number(category.companyRoleRate || 0))))}
+                        {formatCurrencySmart(result.minimumProfitAmount)}
                       </Typography>
                     </Box>
                   </TableCell>
@@ -1045,50 +1065,21 @@ export const LaborCategoriesInput: React.FC<LaborCategoriesInputProps> = ({
                   {/* Actual Cost */}
                   <TableCell align="right">
                     <Typography variant="body2" fontWeight="bold" color="info.main">
-                      {(() => {
-                        const companyRoleRate = Number(category.companyRoleRate || 0);
-                        const wrapAmount = calculateWrapAmount(companyRoleRate);
-                        const capacity = category.capacity || 1;
-                        const actualCost = (companyRoleRate + wrapAmount) * capacity;
-                        
-                        return formatCurrencySmart(actualCost);
-                      })()}
+                      {formatCurrencySmart(result.actualCost)}
                     </Typography>
                   </TableCell>
 
                   {/* Actual Profit */}
                   <TableCell align="right">
                     <Typography variant="body2" fontWeight="bold" color="success.main">
-                      {(() => {
-                        const companyRoleRate = Number(category.companyRoleRate || 0);
-                        const wrapAmount = calculateWrapAmount(companyRoleRate);
-                        const capacity = category.capacity || 1;
-                        const totalCost = result.totalCost;
-                        const actualCost = (companyRoleRate + wrapAmount) * capacity;
-                        const actualProfit = totalCost - actualCost;
-                        
-                        return formatCurrencySmart(actualProfit);
-                      })()}
+                      {formatCurrencySmart(result.actualProfit)}
                     </Typography>
                   </TableCell>
 
                   {/* Actual Profit (%) */}
                   <TableCell align="right">
                     <Typography variant="body2" fontWeight="bold" color="success.main">
-                      {(() => {
-                        const companyRoleRate = Number(category.companyRoleRate || 0);
-                        const wrapAmount = calculateWrapAmount(companyRoleRate);
-                        const capacity = category.capacity || 1;
-                        const totalCost = result.totalCost;
-                        const actualCost = (companyRoleRate + wrapAmount) * capacity;
-                        const actualProfit = totalCost - actualCost;
-                        
-                        // Calculate percentage: Actual Profit / (Actual Cost + Actual Profit)
-                        const denominator = actualCost + actualProfit;
-                        const profitPercentage = denominator !== 0 ? (actualProfit / denominator) * 100 : 0;
-                        
-                        return `${profitPercentage.toFixed(1)}%`;
-                      })()}
+                      {`${(result.actualProfitPercentage * 100).toFixed(1)}%`}
                     </Typography>
                   </TableCell>
 
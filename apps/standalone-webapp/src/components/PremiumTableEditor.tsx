@@ -0,0 +1,178 @@
+/**
+ * Premium Table Editor Component
+ * Edits the tenant clearance premiums, location differentials and named locality differentials
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Grid,
+  IconButton,
+  InputAdornment,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, Save as SaveIcon } from '@mui/icons-material';
+import { ClearanceLevel, LocationType, PremiumTable } from '@pricing-calculator/types';
+import { PremiumTables } from '@pricing-calculator/core';
+
+interface PremiumTableEditorProps {
+  premiumTable?: PremiumTable;
+  onSave: (premiumTable: PremiumTable) => Promise<void>;
+}
+
+// Percent strings keyed by clearance level, location type or locality row
+type PercentMap = Record<string, string>;
+
+const toPercentMap = (rates: Partial<Record<string, number>>): PercentMap =>
+  Object.fromEntries(Object.entries(rates).map(([key, rate]) => [key, String(Math.round((rate ?? 0) * 10000) / 100)]));
+
+const fromPercent = (value: string | undefined): number => (parseFloat(value ?? '') || 0) / 100;
+
+const PremiumTableEditor: React.FC<PremiumTableEditorProps> = ({ premiumTable, onSave }) => {
+  const table = premiumTable ?? PremiumTables.DEFAULT;
+  const [clearance, setClearance] = useState<PercentMap>({});
+  const [locations, setLocations] = useState<PercentMap>({});
+  const [localities, setLocalities] = useState<Array<{ name: string; percent: string }>>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setClearance(toPercentMap({ ...PremiumTables.DEFAULT.clearancePremiums, ...table.clearancePremiums }));
+    setLocations(toPercentMap({ ...PremiumTables.DEFAULT.locationDifferentials, ...table.locationDifferentials }));
+    setLocalities(Object.entries(toPercentMap(table.localities ?? {})).map(([name, percent]) => ({ name, percent })));
+  }, [table]);
+
+  const handleSave = async () => {
+    const updated: PremiumTable = {
+      id: table.source === 'default' ? 'tenant' : table.id,
+      name: table.source === 'default' ? 'Tenant premiums' : table.name,
+      clearancePremiums: Object.fromEntries(
+        PremiumTables.CLEARANCE_LEVELS.map(level => [level, fromPercent(clearance[level])])
+      ) as Record<ClearanceLevel, number>,
+      locationDifferentials: Object.fromEntries(
+        PremiumTables.LOCATION_TYPES.map(location => [location, fromPercent(locations[location])])
+      ) as Record<LocationType, number>,
+      localities: Object.fromEntries(
+        localities.filter(row => row.name.trim()).map(row => [row.name.trim(), fromPercent(row.percent)])
+      ),
+    };
+
+    const validationErrors = PremiumTables.validate(updated);
+    setErrors(validationErrors);
+    setSaved(false);
+    if (validationErrors.length > 0) {
+      return;
+    }
+
+    try {
+      await onSave(updated);
+      setSaved(true);
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save premium table']);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={2}>
+          <Box>
+            <Typography variant="h6">Clearance Premiums &amp; Location Differentials</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Applied to base rates before indirects. Contract vehicles can override this table.
+            </Typography>
+          </Box>
+          <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave}>
+            Save
+          </Button>
+        </Box>
+
+        {errors.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>{errors.join(', ')}</Alert>
+        )}
+        {saved && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSaved(false)}>Premium table saved</Alert>
+        )}
+
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" gutterBottom>Clearance Premiums</Typography>
+            <Box display="flex" flexDirection="column" gap={1.5}>
+              {PremiumTables.CLEARANCE_LEVELS.map(level => (
+                <TextField
+                  key={level}
+                  label={level}
+                  type="number"
+                  size="small"
+                  value={clearance[level] ?? ''}
+                  onChange={(e) => setClearance(prev => ({ ...prev, [level]: e.target.value }))}
+                  InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+                />
+              ))}
+            </Box>
+          </Grid>
+
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" gutterBottom>Location Differentials</Typography>
+            <Box display="flex" flexDirection="column" gap={1.5}>
+              {PremiumTables.LOCATION_TYPES.map(location => (
+                <TextField
+                  key={location}
+                  label={location}
+                  type="number"
+                  size="small"
+                  value={locations[location] ?? ''}
+                  onChange={(e) => setLocations(prev => ({ ...prev, [location]: e.target.value }))}
+                  InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+                />
+              ))}
+            </Box>
+          </Grid>
+
+          <Grid item xs={12} md={4}>
+            <Typography variant="subtitle2" gutterBottom>Localities</Typography>
+            <Box display="flex" flexDirection="column" gap={1.5}>
+              {localities.map((row, index) => (
+                <Box key={index} display="flex" gap={1} alignItems="center">
+                  <TextField
+                    label="Locality"
+                    size="small"
+                    value={row.name}
+                    onChange={(e) => setLocalities(prev => prev.map((r, i) => i === index ? { ...r, name: e.target.value } : r))}
+                  />
+                  <TextField
+                    label="Differential"
+                    type="number"
+                    size="small"
+                    value={row.percent}
+                    onChange={(e) => setLocalities(prev => prev.map((r, i) => i === index ? { ...r, percent: e.target.value } : r))}
+                    InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+                    sx={{ width: 130 }}
+                  />
+                  <IconButton size="small" onClick={() => setLocalities(prev => prev.filter((_, i) => i !== index))}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => setLocalities(prev => [...prev, { name: '', percent: '0' }])}
+                sx={{ alignSelf: 'flex-start' }}
+              >
+                Add Locality
+              </Button>
+            </Box>
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PremiumTableEditor;
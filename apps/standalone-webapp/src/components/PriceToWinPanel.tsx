@@ -0,0 +1,235 @@
+/**
+ * Price-to-Win Panel Component
+ * Solves backwards from a target price to a fee rate, ceiling discount or hours scale
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+  AlertTitle,
+} from '@mui/material';
+import { GpsFixed as TargetIcon } from '@mui/icons-material';
+import {
+  CalculationInput,
+  PriceToWinResult,
+  PriceToWinTarget,
+  PriceToWinVariable,
+} from '@pricing-calculator/types';
+import CalculationService from '../services/calculation.service';
+import { formatCurrencySmart } from '../utils/number-formatting';
+
+interface PriceToWinPanelProps {
+  input: CalculationInput;
+  contractVehicle?: string;
+  onApply: (result: PriceToWinResult) => void;
+  disabled?: boolean;
+}
+
+const SOLVE_VARIABLE_LABELS: Record<PriceToWinVariable, string> = {
+  feeRate: 'Fee rate',
+  ceilingDiscount: 'Discount off LCAT ceiling rates',
+  hoursScale: 'Hours scaling',
+};
+
+const formatSolvedValue = (solveFor: PriceToWinVariable, value: number): string => {
+  return solveFor === 'hoursScale' ? `${value.toFixed(4)}×` : `${(value * 100).toFixed(2)}%`;
+};
+
+const PriceToWinPanel: React.FC<PriceToWinPanelProps> = ({
+  input,
+  contractVehicle,
+  onApply,
+  disabled = false,
+}) => {
+  const [targetType, setTargetType] = useState<PriceToWinTarget['type']>('totalPrice');
+  const [targetValue, setTargetValue] = useState('');
+  const [solveFor, setSolveFor] = useState<PriceToWinVariable>('feeRate');
+  const [isSolving, setIsSolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [solution, setSolution] = useState<PriceToWinResult | null>(null);
+
+  const handleSolve = async () => {
+    setIsSolving(true);
+    setError(null);
+
+    const response = await CalculationService.solvePriceToWin(
+      { ...input, target: { type: targetType, value: parseFloat(targetValue) || 0 }, solveFor },
+      contractVehicle
+    );
+
+    if (response.success && response.result) {
+      setSolution(response.result);
+    } else {
+      setSolution(null);
+      setError(response.error || response.message);
+    }
+    setIsSolving(false);
+  };
+
+  const formatTarget = (value: number) => targetType === 'blendedRate'
+    ? `${formatCurrencySmart(value)}/hr`
+    : formatCurrencySmart(value);
+
+  return (
+    <Card elevation={2}>
+      <CardContent>
+        <Box display="flex" alignItems="center" gap={1} mb={2}>
+          <TargetIcon color="primary" />
+          <Typography variant="h6">Price to Win</Typography>
+        </Box>
+
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={3}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Target</InputLabel>
+              <Select
+                label="Target"
+                value={targetType}
+                onChange={(e) => setTargetType(e.target.value as PriceToWinTarget['type'])}
+                disabled={disabled}
+              >
+                <MenuItem value="totalPrice">Total price</MenuItem>
+                <MenuItem value="blendedRate">Blended rate</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label={targetType === 'blendedRate' ? 'Target rate ($/hr)' : 'Target price ($)'}
+              value={targetValue}
+              onChange={(e) => setTargetValue(e.target.value)}
+              disabled={disabled}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Solve for</InputLabel>
+              <Select
+                label="Solve for"
+                value={solveFor}
+                onChange={(e) => setSolveFor(e.target.value as PriceToWinVariable)}
+                disabled={disabled}
+              >
+                {(Object.keys(SOLVE_VARIABLE_LABELS) as PriceToWinVariable[]).map(variable => (
+                  <MenuItem
+                    key={variable}
+                    value={variable}
+                    disabled={variable === 'hoursScale' && targetType === 'blendedRate'}
+                  >
+                    {SOLVE_VARIABLE_LABELS[variable]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={2}>
+            <Button
+              fullWidth
+              variant="contained"
+              onClick={handleSolve}
+              disabled={disabled || isSolving || !(parseFloat(targetValue) > 0) || input.laborCategories.length === 0}
+              startIcon={isSolving ? <CircularProgress size={16} /> : undefined}
+            >
+              Solve
+            </Button>
+          </Grid>
+        </Grid>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {solution && (
+          <Box mt={3}>
+            <Alert severity={solution.feasible ? 'success' : 'warning'} sx={{ mb: 2 }}>
+              <AlertTitle>
+                {SOLVE_VARIABLE_LABELS[solution.solveFor]}: {formatSolvedValue(solution.solveFor, solution.value)}
+              </AlertTitle>
+              {solution.feasible
+                ? `Achieves ${formatTarget(solution.achieved)} against a target of ${formatTarget(solution.target.value)}.`
+                : `Target cannot be reached. The closest price within constraints is ${formatTarget(solution.achieved)}.`}
+            </Alert>
+
+            {solution.bindingConstraints.length > 0 && (
+              <TableContainer sx={{ mb: 2 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Binding Constraint</TableCell>
+                      <TableCell align="right">Limit</TableCell>
+                      <TableCell align="right">Value</TableCell>
+                      <TableCell align="center">Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {solution.bindingConstraints.map((constraint, index) => (
+                      <TableRow key={`${constraint.type}-${constraint.laborCategoryId ?? index}`}>
+                        <TableCell>{constraint.message}</TableCell>
+                        <TableCell align="right">
+                          {constraint.type === 'company-minimum-rate' ? formatCurrencySmart(constraint.limit) : constraint.limit}
+                        </TableCell>
+                        <TableCell align="right">
+                          {constraint.type === 'company-minimum-rate' ? formatCurrencySmart(constraint.value) : constraint.value}
+                        </TableCell>
+                        <TableCell align="center">
+                          <Chip
+                            size="small"
+                            label={constraint.status}
+                            color={constraint.status === 'violated' ? 'error' : 'warning'}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+
+            {solution.constraints.some(constraint => constraint.status === 'fixed') && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Not repriced: {solution.constraints
+                  .filter(constraint => constraint.status === 'fixed')
+                  .map(constraint => constraint.message)
+                  .join('; ')}
+              </Typography>
+            )}
+
+            <Button
+              variant="outlined"
+              onClick={() => onApply(solution)}
+              disabled={disabled || !solution.feasible}
+            >
+              Apply to Project
+            </Button>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PriceToWinPanel;
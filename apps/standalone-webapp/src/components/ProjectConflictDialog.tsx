@@ -0,0 +1,237 @@
+/**
+ * Project Conflict Dialog Component
+ * Shown when a save is rejected because someone else saved first: lists the conflicting fields and labor lines
+ * and lets the user keep theirs, take the server's, or merge per labor line
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { OtherDirectCostInput } from '@pricing-calculator/types';
+import { ProjectVersions } from '@pricing-calculator/core';
+import { LaborCategoryInput } from '../types/labor-category';
+
+export interface MergeableProject {
+  name: string;
+  contractVehicle?: string | undefined;
+  overheadRate: number;
+  gaRate: number;
+  feeRate: number;
+  laborCategories: LaborCategoryInput[];
+  otherDirectCosts: OtherDirectCostInput[];
+  version?: number | undefined;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+type Side = 'mine' | 'theirs';
+
+type ProjectField = 'name' | 'contractVehicle' | 'overheadRate' | 'gaRate' | 'feeRate' | 'otherDirectCosts';
+
+interface ProjectConflictDialogProps {
+  open: boolean;
+  mine: MergeableProject | null;
+  theirs: MergeableProject | null;
+  onResolve: (resolution: ConflictResolution, project: MergeableProject) => void;
+  onCancel: () => void;
+}
+
+const PROJECT_FIELDS: Array<{ key: ProjectField; label: string }> = [
+  { key: 'name', label: 'Project name' },
+  { key: 'contractVehicle', label: 'Contract vehicle' },
+  { key: 'overheadRate', label: 'Overhead rate' },
+  { key: 'gaRate', label: 'G&A rate' },
+  { key: 'feeRate', label: 'Fee rate' },
+  { key: 'otherDirectCosts', label: 'Other direct costs' },
+];
+
+const lineKey = (line: LaborCategoryInput, index: number): string => line.id ? line.id : `#${index}`;
+
+// Copy one project field from the other side
+const takeField = <K extends ProjectField>(project: MergeableProject, from: MergeableProject, key: K): MergeableProject => {
+  project[key] = from[key];
+  return project;
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const ProjectConflictDialog: React.FC<ProjectConflictDialogProps> = ({
+  open,
+  mine,
+  theirs,
+  onResolve,
+  onCancel,
+}) => {
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+
+  // Conflicting project fields and labor lines, in the user's line order followed by lines only on the server
+  const conflicts = useMemo(() => {
+    if (!mine || !theirs) {
+      return { fields: [], lines: [] };
+    }
+
+    const fields = PROJECT_FIELDS.filter(field => JSON.stringify(mine[field.key]) !== JSON.stringify(theirs[field.key]));
+
+    const myLines = new Map(mine.laborCategories.map((line, index) => [lineKey(line, index), line]));
+    const theirLines = new Map(theirs.laborCategories.map((line, index) => [lineKey(line, index), line]));
+    const keys = [...new Set([...myLines.keys(), ...theirLines.keys()])];
+    const lines = keys.flatMap(key => {
+      const myLine = myLines.get(key);
+      const theirLine = theirLines.get(key);
+      const changes = ProjectVersions.compareFields(theirLine ?? {}, myLine ?? {});
+      return changes.length > 0
+        ? [{ key, title: myLine?.title ?? theirLine?.title ?? key, myLine, theirLine, changes }]
+        : [];
+    });
+
+    return { fields, lines };
+  }, [mine, theirs]);
+
+  useEffect(() => {
+    setChoices({});
+  }, [mine, theirs]);
+
+  if (!mine || !theirs) {
+    return null;
+  }
+
+  const choiceFor = (key: string): Side => choices[key] ?? 'mine';
+  const setChoice = (key: string, side: Side | null) => {
+    if (side) {
+      setChoices(prev => ({ ...prev, [key]: side }));
+    }
+  };
+
+  const handleMerge = () => {
+    const merged = conflicts.fields.reduce<MergeableProject>(
+      (project, field) => choiceFor(`field:${field.key}`) === 'theirs' ? takeField(project, theirs, field.key) : project,
+      { ...mine, version: theirs.version }
+    );
+
+    // Keep the user's line order; lines only on the server go at the end
+    const keys = [...new Set([
+      ...mine.laborCategories.map(lineKey),
+      ...theirs.laborCategories.map(lineKey),
+    ])];
+    const myLines = new Map(mine.laborCategories.map((line, index) => [lineKey(line, index), line]));
+    const theirLines = new Map(theirs.laborCategories.map((line, index) => [lineKey(line, index), line]));
+    merged.laborCategories = keys.flatMap(key => {
+      const line = choiceFor(`line:${key}`) === 'theirs' ? theirLines.get(key) : myLines.get(key);
+      return line ? [line] : [];
+    });
+
+    onResolve('merge', merged);
+  };
+
+  const sideToggle = (key: string) => (
+    <ToggleButtonGroup
+      size="small"
+      exclusive
+      value={choiceFor(key)}
+      onChange={(_, side: Side | null) => setChoice(key, side)}
+    >
+      <ToggleButton value="mine">Mine</ToggleButton>
+      <ToggleButton value="theirs">Server</ToggleButton>
+    </ToggleButtonGroup>
+  );
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>Project Changed Since You Opened It</DialogTitle>
+
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Someone saved version {theirs.version} while you were editing version {mine.version}.
+          Choose which changes to keep.
+        </Alert>
+
+        {conflicts.fields.length > 0 && (
+          <Table size="small" sx={{ mb: 3 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Field</TableCell>
+                <TableCell>Mine</TableCell>
+                <TableCell>Server</TableCell>
+                <TableCell align="right">Keep</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {conflicts.fields.map(field => (
+                <TableRow key={field.key}>
+                  <TableCell>{field.label}</TableCell>
+                  <TableCell>{field.key === 'otherDirectCosts' ? `${mine.otherDirectCosts.length} items` : formatValue(mine[field.key])}</TableCell>
+                  <TableCell>{field.key === 'otherDirectCosts' ? `${theirs.otherDirectCosts.length} items` : formatValue(theirs[field.key])}</TableCell>
+                  <TableCell align="right">{sideToggle(`field:${field.key}`)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {conflicts.lines.map(line => (
+          <Box key={line.key} mb={2}>
+            <Box display="flex" justifyContent="space-between" alignItems="center">
+              <Typography variant="subtitle2" fontWeight="bold">
+                {line.title}
+                {!line.myLine && ' (only on server)'}
+                {!line.theirLine && ' (only in your copy)'}
+              </Typography>
+              {sideToggle(`line:${line.key}`)}
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>Mine</TableCell>
+                  <TableCell>Server</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {line.changes.map(change => (
+                  <TableRow key={change.field}>
+                    <TableCell>{change.field}</TableCell>
+                    <TableCell>{formatValue(change.to)}</TableCell>
+                    <TableCell>{formatValue(change.from)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ))}
+
+        {conflicts.fields.length === 0 && conflicts.lines.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Your copy matches the server; saving again will keep it.
+          </Typography>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onResolve('theirs', theirs)}>Take Server's</Button>
+        <Button onClick={() => onResolve('mine', { ...mine, version: theirs.version })}>Keep Mine</Button>
+        <Button variant="contained" onClick={handleMerge}>Save Merge</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ProjectConflictDialog;
@@ -0,0 +1,257 @@
+/**
+ * Project History Drawer Component
+ * Lists saved project versions, compares any two and restores an older version as a new one
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Divider,
+  Drawer,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Restore as RestoreIcon } from '@mui/icons-material';
+import { ProjectFieldChange, ProjectVersion, ProjectVersionDiff } from '@pricing-calculator/types';
+import ProjectService, { ProjectData } from '../services/project.service';
+
+interface ProjectHistoryDrawerProps {
+  open: boolean;
+  projectId: string | null;
+  onClose: () => void;
+  onRestored: (project: ProjectData, version: ProjectVersion) => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const ChangeTable: React.FC<{ changes: ProjectFieldChange[] }> = ({ changes }) => (
+  <Table size="small" sx={{ mb: 1 }}>
+    <TableHead>
+      <TableRow>
+        <TableCell>Field</TableCell>
+        <TableCell>From</TableCell>
+        <TableCell>To</TableCell>
+      </TableRow>
+    </TableHead>
+    <TableBody>
+      {changes.map(change => (
+        <TableRow key={change.field}>
+          <TableCell>{change.field}</TableCell>
+          <TableCell>{formatValue(change.from)}</TableCell>
+          <TableCell>{formatValue(change.to)}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+export const ProjectHistoryDrawer: React.FC<ProjectHistoryDrawerProps> = ({
+  open,
+  projectId,
+  onClose,
+  onRestored,
+}) => {
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<ProjectVersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (!projectId) return;
+
+    setLoading(true);
+    setError(null);
+    const response = await ProjectService.getVersions(projectId);
+    if (response.success) {
+      setVersions(response.versions ?? []);
+      setCurrentVersion(response.currentVersion ?? null);
+    } else {
+      setError(response.error || response.message);
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) {
+      setSelected([]);
+      setDiff(null);
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  const handleToggle = (version: number) => {
+    setDiff(null);
+    setSelected(prev => prev.includes(version)
+      ? prev.filter(v => v !== version)
+      : [...prev, version].slice(-2));
+  };
+
+  const handleCompare = async () => {
+    const [first, second] = [...selected].sort((a, b) => a - b);
+    if (!projectId || first === undefined || second === undefined) return;
+
+    const response = await ProjectService.diffVersions(projectId, first, second);
+    if (response.success && response.diff) {
+      setDiff(response.diff);
+    } else {
+      setError(response.error || response.message);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!projectId) return;
+
+    const response = await ProjectService.restoreVersion(projectId, version, currentVersion ?? undefined);
+    if (response.success && response.project && response.version) {
+      onRestored(response.project, response.version);
+      loadVersions();
+    } else {
+      setError(response.error || response.message);
+    }
+  };
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: 520, p: 3 }}>
+        <Typography variant="h6" fontWeight="bold" gutterBottom>
+          Version History
+        </Typography>
+
+        {!projectId && (
+          <Alert severity="info">Save the project to start its version history.</Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {loading && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {projectId && !loading && (
+          <>
+            <List dense>
+              {versions.map(version => (
+                <ListItem
+                  key={version.id}
+                  secondaryAction={version.version !== currentVersion && (
+                    <Button size="small" startIcon={<RestoreIcon />} onClick={() => handleRestore(version.version)}>
+                      Restore
+                    </Button>
+                  )}
+                >
+                  <ListItemIcon>
+                    <Checkbox
+                      edge="start"
+                      checked={selected.includes(version.version)}
+                      onChange={() => handleToggle(version.version)}
+                    />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={
+                      <Box display="flex" alignItems="center" gap={1}>
+                        <Typography variant="body2" fontWeight="bold">Version {version.version}</Typography>
+                        {version.version === currentVersion && <Chip label="Current" size="small" color="primary" />}
+                        {version.totals && (
+                          <Typography variant="body2" color="text.secondary">
+                            {formatCurrency(version.totals.totalCost)}
+                          </Typography>
+                        )}
+                      </Box>
+                    }
+                    secondary={`${new Date(version.createdAt).toLocaleString()}${version.changes ? ` — ${version.changes}` : ''}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+
+            <Button variant="outlined" fullWidth disabled={selected.length !== 2} onClick={handleCompare}>
+              Compare Selected Versions
+            </Button>
+          </>
+        )}
+
+        {diff && (
+          <Box mt={3}>
+            <Divider sx={{ mb: 2 }} />
+            <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+              Version {diff.fromVersion} → Version {diff.toVersion}
+            </Typography>
+            {diff.priceDelta !== undefined && (
+              <Alert severity={diff.priceDelta > 0 ? 'warning' : diff.priceDelta < 0 ? 'success' : 'info'} sx={{ mb: 2 }}>
+                Total price {diff.priceDelta >= 0 ? 'up' : 'down'} {formatCurrency(Math.abs(diff.priceDelta))}
+                {diff.fromTotals && diff.toTotals && (
+                  <> ({formatCurrency(diff.fromTotals.totalCost)} → {formatCurrency(diff.toTotals.totalCost)})</>
+                )}
+              </Alert>
+            )}
+            {diff.project.length > 0 && (
+              <>
+                <Typography variant="body2" fontWeight="bold">Project</Typography>
+                <ChangeTable changes={diff.project} />
+              </>
+            )}
+            {diff.settings.length > 0 && (
+              <>
+                <Typography variant="body2" fontWeight="bold">Settings</Typography>
+                <ChangeTable changes={diff.settings} />
+              </>
+            )}
+            {[...diff.laborCategories, ...diff.otherDirectCosts].map(line => (
+              <Box key={`${line.change}-${line.key}`}>
+                <Box display="flex" alignItems="center" gap={1}>
+                  <Typography variant="body2" fontWeight="bold">{line.title || line.key}</Typography>
+                  <Chip
+                    label={line.change}
+                    size="small"
+                    color={line.change === 'added' ? 'success' : line.change === 'removed' ? 'error' : 'default'}
+                  />
+                </Box>
+                <ChangeTable changes={line.fields} />
+              </Box>
+            ))}
+            {diff.clinsChanged && (
+              <Typography variant="body2" color="text.secondary">The CLIN structure changed.</Typography>
+            )}
+            {diff.project.length === 0 && diff.settings.length === 0 && diff.laborCategories.length === 0
+              && diff.otherDirectCosts.length === 0 && !diff.clinsChanged && (
+              <Typography variant="body2" color="text.secondary">No differences.</Typography>
+            )}
+          </Box>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default ProjectHistoryDrawer;
@@ -1,9 +1,9 @@
 /**
  * Project Selection Dialog Component
- * Allows users to select and load existing projects
+ * Allows users to search, select and load existing projects; searching, sorting and paging run on the server
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -23,6 +23,9 @@ import {
   CircularProgress,
   Alert,
   Divider,
+  Grid,
+  MenuItem,
+  Pagination,
 } from '@mui/material';
 import {
   Search as SearchIcon,
@@ -30,8 +33,18 @@ import {
   Edit as EditIcon,
   FolderOpen as OpenIcon,
 } from '@mui/icons-material';
+import { ProjectSortField, ProjectStatus, ProjectSummary } from '@pricing-calculator/types';
 import ProjectService, { ProjectData } from '../services/project.service';
 
+const PAGE_SIZE = 10;
+
+const SORT_OPTIONS: Array<{ value: string; label: string; sortBy: ProjectSortField; sortOrder: 'asc' | 'desc' }> = [
+  { value: 'lastModified-desc', label: 'Last modified', sortBy: 'lastModified', sortOrder: 'desc' },
+  { value: 'totalCost-desc', label: 'Total price: high to low', sortBy: 'totalCost', sortOrder: 'desc' },
+  { value: 'totalCost-asc', label: 'Total price: low to high', sortBy: 'totalCost', sortOrder: 'asc' },
+  { value: 'name-asc', label: 'Name', sortBy: 'name', sortOrder: 'asc' },
+];
+
 interface ProjectSelectionDialogProps {
   open: boolean;
   onClose: () => void;
@@ -43,45 +56,34 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
   onClose,
   onSelectProject,
 }) => {
-  const [projects, setProjects] = useState<ProjectData[]>([]);
-  const [filteredProjects, setFilteredProjects] = useState<ProjectData[]>([]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [status, setStatus] = useState<ProjectStatus | ''>('');
+  const [sort, setSort] = useState('lastModified-desc');
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [opening, setOpening] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
 
-  // Load projects when dialog opens
-  useEffect(() => {
-    if (open) {
-      loadProjects();
-    }
-  }, [open]);
-
-  // Filter projects based on search term
-  useEffect(() => {
-    if (!searchTerm.trim()) {
-      setFilteredProjects(projects);
-    } else {
-      const filtered = projects.filter(project =>
-        project.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (project.description && project.description.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (project.tags && project.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())))
-      );
-      setFilteredProjects(filtered);
-    }
-  }, [projects, searchTerm]);
-
-  const loadProjects = async () => {
+  const loadProjects = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      
-      const response = await ProjectService.getProjects();
-      
+
+      const sortOption = SORT_OPTIONS.find(option => option.value === sort);
+      const response = await ProjectService.getProjects({
+        ...(searchTerm.trim() ? { search: searchTerm.trim() } : {}),
+        ...(status ? { status } : {}),
+        ...(sortOption ? { sortBy: sortOption.sortBy, sortOrder: sortOption.sortOrder } : {}),
+        page,
+        limit: PAGE_SIZE,
+      });
+
       if (response.success && response.projects) {
-        const convertedProjects = response.projects.map(ProjectService.convertApiProjectToFrontend);
-        setProjects(convertedProjects);
-        setFilteredProjects(convertedProjects);
+        setProjects(response.projects);
+        setTotal(response.meta?.total ?? response.projects.length);
       } else {
         throw new Error(response.message || 'Failed to load projects');
       }
@@ -91,19 +93,37 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
     } finally {
       setLoading(false);
     }
-  };
+  }, [searchTerm, status, sort, page]);
+
+  // Search when the dialog opens and as the filters change, once typing pauses
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(loadProjects, 300);
+    return () => clearTimeout(timer);
+  }, [open, loadProjects]);
+
+  // A new search starts from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [searchTerm, status, sort]);
 
-  const handleSelectProject = (project: ProjectData) => {
+  const handleSelectProject = (project: ProjectSummary) => {
     setSelectedProjectId(project.id);
   };
 
-  const handleOpenProject = () => {
-    if (selectedProjectId) {
-      const project = projects.find(p => p.id === selectedProjectId);
-      if (project) {
-        onSelectProject(project);
-        onClose();
-      }
+  // Summaries leave out the project's lines; load the full project to open it
+  const handleOpenProject = async () => {
+    if (!selectedProjectId) return;
+
+    setOpening(true);
+    const response = await ProjectService.getProject(selectedProjectId);
+    setOpening(false);
+
+    if (response.success && response.project) {
+      onSelectProject(response.project);
+      onClose();
+    } else {
+      setError(response.error || response.message || 'Failed to load project');
     }
   };
 
@@ -115,13 +135,10 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
         const response = await ProjectService.deleteProject(projectId);
         
         if (response.success) {
-          // Remove project from local state
-          setProjects(prev => prev.filter(p => p.id !== projectId));
-          setFilteredProjects(prev => prev.filter(p => p.id !== projectId));
-          
           if (selectedProjectId === projectId) {
             setSelectedProjectId(null);
           }
+          await loadProjects();
         } else {
           throw new Error(response.message || 'Failed to delete project');
         }
@@ -132,6 +149,15 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
     }
   };
 
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
   const formatDate = (dateString: string) => {
     try {
       return new Date(dateString).toLocaleDateString('en-US', {
@@ -179,20 +205,50 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
           </Alert>
         )}
 
-        <TextField
-          fullWidth
-          placeholder="Search projects by name, description, or tags..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          InputProps={{
-            startAdornment: (
-              <InputAdornment position="start">
-                <SearchIcon />
-              </InputAdornment>
-            ),
-          }}
-          sx={{ mb: 2 }}
-        />
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} md={6}>
+            <TextField
+              fullWidth
+              placeholder="Search projects by name or description..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                ),
+              }}
+            />
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <TextField
+              select
+              fullWidth
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ProjectStatus | '')}
+            >
+              <MenuItem value="">All</MenuItem>
+              <MenuItem value="draft">Draft</MenuItem>
+              <MenuItem value="active">Active</MenuItem>
+              <MenuItem value="archived">Archived</MenuItem>
+            </TextField>
+          </Grid>
+          <Grid item xs={6} md={4}>
+            <TextField
+              select
+              fullWidth
+              label="Sort by"
+              value={sort}
+              onChange={(e) => setSort(e.target.value)}
+            >
+              {SORT_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+        </Grid>
 
         <Divider sx={{ mb: 2 }} />
 
@@ -203,10 +259,10 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
               Loading projects...
             </Typography>
           </Box>
-        ) : filteredProjects.length === 0 ? (
+        ) : projects.length === 0 ? (
           <Box textAlign="center" py={4}>
             <Typography variant="body1" color="text.secondary">
-              {searchTerm ? 'No projects match your search.' : 'No projects found.'}
+              {searchTerm || status ? 'No projects match your search.' : 'No projects found.'}
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
               Create a new project to get started.
@@ -214,7 +270,7 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
           </Box>
         ) : (
           <List>
-            {filteredProjects.map((project) => (
+            {projects.map((project) => (
               <ListItem
                 key={project.id}
                 button
@@ -258,8 +314,13 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
                           Modified: {formatDate(project.lastModified)}
                         </Typography>
                         <Typography variant="caption" color="text.secondary">
-                          Categories: {project.laborCategories.length}
+                          Categories: {project.laborCategoryCount}
                         </Typography>
+                        {project.totalCost > 0 && (
+                          <Typography variant="caption" color="text.secondary">
+                            Total: {formatCurrency(project.totalCost)}{project.stale && ' (recalculating)'}
+                          </Typography>
+                        )}
                         {project.tags && project.tags.length > 0 && (
                           <Box display="flex" gap={0.5}>
                             {project.tags.slice(0, 3).map((tag, index) => (
@@ -297,6 +358,20 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
             ))}
           </List>
         )}
+
+        {total > PAGE_SIZE && (
+          <Box display="flex" justifyContent="center" alignItems="center" gap={2} mt={2}>
+            <Pagination
+              count={Math.ceil(total / PAGE_SIZE)}
+              page={page}
+              onChange={(_, value) => setPage(value)}
+              size="small"
+            />
+            <Typography variant="caption" color="text.secondary">
+              {total} projects
+            </Typography>
+          </Box>
+        )}
       </DialogContent>
 
       <DialogActions>
@@ -306,8 +381,8 @@ export const ProjectSelectionDialog: React.FC<ProjectSelectionDialogProps> = ({
         <Button
           onClick={handleOpenProject}
           variant="contained"
-          disabled={!selectedProjectId}
-          startIcon={<OpenIcon />}
+          disabled={!selectedProjectId || opening}
+          startIcon={opening ? <CircularProgress size={16} /> : <OpenIcon />}
         >
           Open Project
         </Button>
@@ -0,0 +1,140 @@
+/**
+ * Sensitivity Tornado Chart Component
+ * Ranks pricing inputs by how far total price or profit swings when each is perturbed by ±X%
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  InputAdornment,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Tune as TuneIcon } from '@mui/icons-material';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { CalculationInput, SensitivityAnalysis } from '@pricing-calculator/types';
+import { SensitivityAnalysisService } from '@pricing-calculator/core';
+import { formatCurrencySmart } from '../utils/number-formatting';
+
+interface SensitivityTornadoChartProps {
+  input: CalculationInput;
+  maxInputs?: number;
+}
+
+const SensitivityTornadoChart: React.FC<SensitivityTornadoChartProps> = ({
+  input,
+  maxInputs = 10,
+}) => {
+  const [perturbationPercent, setPerturbationPercent] = useState('10');
+  const [sortBy, setSortBy] = useState<'price' | 'profit'>('price');
+
+  const { analysis, error } = useMemo((): { analysis: SensitivityAnalysis | null; error: string | null } => {
+    if (input.laborCategories.length === 0) {
+      return { analysis: null, error: null };
+    }
+
+    try {
+      const perturbation = (parseFloat(perturbationPercent) || 0) / 100;
+      return { analysis: SensitivityAnalysisService.analyze(input, { perturbation, sortBy }), error: null };
+    } catch (err) {
+      return { analysis: null, error: err instanceof Error ? err.message : 'Sensitivity analysis failed' };
+    }
+  }, [input, perturbationPercent, sortBy]);
+
+  // Bars are deltas from the base so the chart centers on zero
+  const chartData = useMemo(() => {
+    if (!analysis) {
+      return [];
+    }
+
+    const base = sortBy === 'profit' ? analysis.baseProfit : analysis.basePrice;
+    return analysis.items.slice(0, maxInputs).map(item => ({
+      label: item.label,
+      low: (sortBy === 'profit' ? item.lowProfit : item.lowPrice) - base,
+      high: (sortBy === 'profit' ? item.highProfit : item.highPrice) - base,
+    }));
+  }, [analysis, sortBy, maxInputs]);
+
+  return (
+    <Card elevation={2}>
+      <CardContent>
+        <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2} mb={2}>
+          <Box display="flex" alignItems="center" gap={1}>
+            <TuneIcon color="primary" />
+            <Typography variant="h6">Sensitivity Analysis</Typography>
+          </Box>
+          <Box display="flex" alignItems="center" gap={2}>
+            <TextField
+              size="small"
+              type="number"
+              label="Perturbation"
+              value={perturbationPercent}
+              onChange={(e) => setPerturbationPercent(e.target.value)}
+              InputProps={{
+                startAdornment: <InputAdornment position="start">±</InputAdornment>,
+                endAdornment: <InputAdornment position="end">%</InputAdornment>,
+              }}
+              inputProps={{ min: 1, max: 99, step: 1 }}
+              sx={{ width: 140 }}
+            />
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={sortBy}
+              onChange={(_e, value) => value && setSortBy(value)}
+            >
+              <ToggleButton value="price">Price</ToggleButton>
+              <ToggleButton value="profit">Profit</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error">{error}</Alert>
+        )}
+
+        {!error && chartData.length === 0 && (
+          <Alert severity="info">Add labor categories to see which inputs move the price most.</Alert>
+        )}
+
+        {analysis && chartData.length > 0 && (
+          <>
+            <Typography variant="body2" color="text.secondary" mb={1}>
+              Change in total {sortBy} from {formatCurrencySmart(sortBy === 'profit' ? analysis.baseProfit : analysis.basePrice)} when
+              each input moves ±{(analysis.perturbation * 100).toFixed(1)}%
+            </Typography>
+            <ResponsiveContainer width="100%" height={Math.max(200, chartData.length * 36 + 60)}>
+              <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ left: 24, right: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                <XAxis type="number" tickFormatter={(value: number) => formatCurrencySmart(value)} />
+                <YAxis type="category" dataKey="label" width={200} />
+                <Tooltip formatter={(value: number) => formatCurrencySmart(value)} />
+                <Legend />
+                <ReferenceLine x={0} stroke="#666" />
+                <Bar dataKey="low" name={`Input −${perturbationPercent}%`} stackId="swing" fill="#1976d2" />
+                <Bar dataKey="high" name={`Input +${perturbationPercent}%`} stackId="swing" fill="#ed6c02" />
+              </BarChart>
+            </ResponsiveContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensitivityTornadoChart;
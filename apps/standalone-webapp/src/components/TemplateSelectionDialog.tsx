@@ -0,0 +1,242 @@
+/**
+ * Template Selection Dialog Component
+ * Finds a project template by name, contract type or vehicle and starts a new project from it
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  InputAdornment,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { ContractType, ProjectTemplate } from '@pricing-calculator/types';
+import ProjectService, { ProjectData } from '../services/project.service';
+
+interface TemplateSelectionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onProjectCreated: (project: ProjectData, template: ProjectTemplate) => void;
+}
+
+const CONTRACT_TYPES: ContractType[] = ['FFP', 'T&M', 'LH', 'CPFF', 'CPIF', 'CPAF'];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const TemplateSelectionDialog: React.FC<TemplateSelectionDialogProps> = ({
+  open,
+  onClose,
+  onProjectCreated,
+}) => {
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [search, setSearch] = useState('');
+  const [contractType, setContractType] = useState('');
+  const [contractVehicle, setContractVehicle] = useState('');
+  const [selected, setSelected] = useState<ProjectTemplate | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [startDate, setStartDate] = useState(today());
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const response = await ProjectService.getTemplates({
+      ...(search.trim() ? { search: search.trim() } : {}),
+      ...(contractType ? { contractType } : {}),
+      ...(contractVehicle.trim() ? { contractVehicle: contractVehicle.trim() } : {}),
+    });
+    if (response.success) {
+      setTemplates(response.templates ?? []);
+    } else {
+      setError(response.error || response.message);
+    }
+    setLoading(false);
+  }, [search, contractType, contractVehicle]);
+
+  // Search as the filters change, once typing pauses
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(loadTemplates, 300);
+    return () => clearTimeout(timer);
+  }, [open, loadTemplates]);
+
+  useEffect(() => {
+    if (open) {
+      setSelected(null);
+      setStartDate(today());
+    }
+  }, [open]);
+
+  const handleSelect = (template: ProjectTemplate) => {
+    setSelected(template);
+    setProjectName(template.name);
+  };
+
+  const handleCreate = async () => {
+    if (!selected || !projectName.trim()) return;
+
+    setCreating(true);
+    setError(null);
+    const response = await ProjectService.instantiateTemplate(selected.id, {
+      name: projectName.trim(),
+      ...(startDate ? { startDate } : {}),
+    });
+    setCreating(false);
+
+    if (response.success && response.project) {
+      onProjectCreated(response.project, selected);
+      onClose();
+    } else {
+      setError(response.error || response.message);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Start from Template</DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} sx={{ mt: 0, mb: 2 }}>
+          <Grid item xs={12} md={5}>
+            <TextField
+              fullWidth
+              size="small"
+              placeholder="Search templates..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                ),
+              }}
+            />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Contract type"
+              value={contractType}
+              onChange={(e) => setContractType(e.target.value)}
+            >
+              <MenuItem value="">All</MenuItem>
+              {CONTRACT_TYPES.map(type => (
+                <MenuItem key={type} value={type}>{type}</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={6} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Contract vehicle"
+              value={contractVehicle}
+              onChange={(e) => setContractVehicle(e.target.value)}
+            />
+          </Grid>
+        </Grid>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : templates.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            No templates match. Save a project as a template to reuse it here.
+          </Typography>
+        ) : (
+          <List dense sx={{ maxHeight: 320, overflow: 'auto' }}>
+            {templates.map(template => (
+              <ListItemButton
+                key={template.id}
+                selected={selected?.id === template.id}
+                onClick={() => handleSelect(template)}
+              >
+                <ListItemText
+                  primary={
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <Typography variant="body2" fontWeight="bold">{template.name}</Typography>
+                      <Chip label={template.category} size="small" />
+                      {template.contractVehicle && (
+                        <Chip label={template.contractVehicle} size="small" variant="outlined" />
+                      )}
+                    </Box>
+                  }
+                  secondary={[
+                    template.description,
+                    `${template.project.laborCategories.length} labor categories`,
+                    `used ${template.usageCount} time${template.usageCount === 1 ? '' : 's'}`,
+                  ].filter(Boolean).join(' — ')}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+
+        {selected && (
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid item xs={12} md={8}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Project name"
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="Period of performance start"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                helperText="Template dates move to this start"
+              />
+            </Grid>
+          </Grid>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleCreate}
+          disabled={!selected || !projectName.trim() || creating}
+        >
+          {creating ? 'Creating...' : 'Create Project'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TemplateSelectionDialog;
@@ -5,6 +5,7 @@
 
 import { useState, useEffect } from 'react';
 import SystemSettingsService from '../services/system-settings.service';
+import { PremiumTable } from '@pricing-calculator/types';
 import { SystemSettings } from '../types/system-settings';
 
 export const useSystemSettings = () => {
@@ -74,10 +75,6 @@ export const useSystemSettings = () => {
     }
   };
 
-  const calculateWrapAmount = (annualSalary: number) => {
-    return SystemSettingsService.getInstance().calculateWrapAmount(annualSalary);
-  };
-
   const getMinimumProfitRate = () => {
     return SystemSettingsService.getInstance().getMinimumProfitRate();
   };
@@ -92,8 +89,22 @@ export const useSystemSettings = () => {
     }
   };
 
-  const calculateMinimumProfitAmount = (annualSalary: number, wrapAmount: number) => {
-    return SystemSettingsService.getInstance().calculateMinimumProfitAmount(annualSalary, wrapAmount);
+  const setPremiumTable = async (premiumTable: PremiumTable) => {
+    try {
+      await SystemSettingsService.getInstance().setPremiumTable(premiumTable);
+      setSettings(SystemSettingsService.getInstance().getSettings());
+    } catch (error) {
+      console.error('useSystemSettings: Failed to set premium table:', error);
+      throw error;
+    }
+  };
+
+  const getSalaryPricing = () => {
+    return SystemSettingsService.getInstance().getSalaryPricing();
+  };
+
+  const calculateSalaryBreakdown = (annualSalary: number, annualHours: number) => {
+    return SystemSettingsService.getInstance().calculateSalaryBreakdown(annualSalary, annualHours);
   };
 
   return {
@@ -102,9 +113,10 @@ export const useSystemSettings = () => {
     updateSettings,
     getWrapRate,
     setWrapRate,
-    calculateWrapAmount,
     getMinimumProfitRate,
     setMinimumProfitRate,
-    calculateMinimumProfitAmount,
+    setPremiumTable,
+    getSalaryPricing,
+    calculateSalaryBreakdown,
   };
 };
@@ -31,7 +31,8 @@ import ValidationAlert from '../components/ValidationAlert';
 import ContractVehicleSelector from '../components/ContractVehicleSelector';
 import UserPermissionsSelector from '../components/UserPermissionsSelector';
 import CalculationResults from '../components/CalculationResults';
-import { CalculationResult, PricingSettings, LaborCategoryInput as LaborCategoryInputType, OtherDirectCostInput } from '@pricing-calculator/types';
+import { CalculationResult, PricingSettings, LaborCategoryCalculationInput, OtherDirectCostInput } from '@pricing-calculator/types';
+import { PricingCalculationEngine } from '@pricing-calculator/core';
 
 export const LaborCategoriesDemo: React.FC = () => {
   const [categories, setCategories] = useState<LaborCategoryInput[]>([
@@ -301,15 +302,16 @@ export const LaborCategoriesDemo: React.FC = () => {
 
     setIsCalculating(true);
     try {
-      // Convert categories to the format expected by the calculation service
-      const laborCategories: LaborCategoryInputType[] = categories.map(cat => ({
+      // Convert categories to the format expected by the calculation engine
+      const laborCategories: LaborCategoryCalculationInput[] = categories.map(cat => ({
         id: cat.id || '',
         title: cat.title,
         baseRate: cat.baseRate,
         hours: cat.hours,
-        ftePercentage: cat.ftePercentage / 100, // Convert percentage to decimal
-        clearanceLevel: cat.clearanceLevel as any,
-        location: cat.location as any,
+        ftePercentage: cat.ftePercentage,
+        capacity: cat.capacity || 1,
+        clearanceLevel: cat.clearanceLevel,
+        location: cat.location,
       }));
 
       // Create pricing settings
@@ -319,62 +321,18 @@ export const LaborCategoriesDemo: React.FC = () => {
         gaRate,
         feeRate,
         contractType: 'FFP' as any,
-        periodOfPerformance: 12,
-        locationType: 'On-site' as any,
-      };
-
-      // For now, we'll use mock calculation since we don't have the API integration yet
-      // TODO: Replace with actual API call to calculation service
-      const mockResult: CalculationResult = {
-        projectId: 'demo-project',
-        calculatedAt: new Date().toISOString(),
-        settings,
-        laborCategories: laborCategories.map((lc, index) => ({
-          id: lc.id,
-          title: lc.title,
-          baseRate: lc.baseRate,
-          hours: lc.hours,
-          ftePercentage: lc.ftePercentage,
-          effectiveHours: lc.hours * lc.ftePercentage,
-          clearanceLevel: lc.clearanceLevel,
-          location: lc.location,
-          clearancePremium: lc.clearanceLevel === 'Top Secret' ? 0.20 : 
-                           lc.clearanceLevel === 'Secret' ? 0.10 : 
-                           lc.clearanceLevel === 'Public Trust' ? 0.05 : 0,
-          burdenedRate: lc.baseRate * (1 + lc.clearanceLevel === 'Top Secret' ? 0.20 : 
-                                      lc.clearanceLevel === 'Secret' ? 0.10 : 
-                                      lc.clearanceLevel === 'Public Trust' ? 0.05 : 0) * 
-                       (1 + overheadRate) * (1 + gaRate) * (1 + feeRate),
-          totalCost: lc.baseRate * (1 + (lc.clearanceLevel === 'Top Secret' ? 0.20 : 
-                                        lc.clearanceLevel === 'Secret' ? 0.10 : 
-                                        lc.clearanceLevel === 'Public Trust' ? 0.05 : 0)) * 
-                    (1 + overheadRate) * (1 + gaRate) * (1 + feeRate) * lc.hours * lc.ftePercentage,
-        })),
-        otherDirectCosts: [], // TODO: Add ODC support
-        totals: {
-          laborCost: 0, // Will be calculated below
-          odcCost: 0,
-          totalCost: 0, // Will be calculated below
-          totalEffectiveHours: 0, // Will be calculated below
-          averageBurdenedRate: 0, // Will be calculated below
+        periodOfPerformance: {
+          startDate: new Date().toISOString(),
+          endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(), // 1 year from now
         },
-        validationWarnings: validationWarnings,
       };
 
-      // Calculate totals
-      const laborCost = mockResult.laborCategories.reduce((sum, lc) => sum + lc.totalCost, 0);
-      const totalEffectiveHours = mockResult.laborCategories.reduce((sum, lc) => sum + lc.effectiveHours, 0);
-      const averageBurdenedRate = totalEffectiveHours > 0 ? laborCost / totalEffectiveHours : 0;
-
-      mockResult.totals = {
-        laborCost,
-        odcCost: 0,
-        totalCost: laborCost,
-        totalEffectiveHours,
-        averageBurdenedRate,
+      const result: CalculationResult = {
+        ...PricingCalculationEngine.calculateProject({ settings, laborCategories, otherDirectCosts: [] }),
+        validationWarnings: validationWarnings,
       };
 
-      setCalculationResult(mockResult);
+      setCalculationResult(result);
     } catch (error) {
       console.error('Calculation error:', error);
       setCalculationResult(null);
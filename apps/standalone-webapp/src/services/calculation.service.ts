@@ -0,0 +1,90 @@
+/**
+ * Calculation Service
+ * Calls server-side calculation endpoints
+ */
+
+import { CalculationInput, CalculationResult, PriceToWinRequest, PriceToWinResult } from '@pricing-calculator/types';
+
+export interface CalculateResponse {
+  success: boolean;
+  result?: CalculationResult;
+  message: string;
+  error?: string;
+}
+
+export interface PriceToWinResponse {
+  success: boolean;
+  result?: PriceToWinResult;
+  message: string;
+  error?: string;
+}
+
+class CalculationService {
+  private static baseUrl = '/api/calculation';
+
+  /**
+   * Price a project with the contract vehicle's rates and the tenant's settings applied
+   */
+  public static async calculateProject(
+    input: CalculationInput,
+    contractVehicle?: string
+  ): Promise<CalculateResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/calculate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...input, contractVehicle }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to calculate project');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error calculating project:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to calculate project',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Solve for fee rate, ceiling discount or hours scale to hit a target price
+   */
+  public static async solvePriceToWin(
+    request: PriceToWinRequest,
+    contractVehicle?: string
+  ): Promise<PriceToWinResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/solve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...request, contractVehicle }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Failed to solve price-to-win');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error solving price-to-win:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to solve price-to-win',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+export default CalculationService;
@@ -9,6 +9,8 @@ export interface ExportOptions {
   projectName?: string;
   contractVehicle?: string;
   template?: 'basic' | 'va-spruce' | 'gsa-mas';
+  includeSensitivity?: boolean;
+  sensitivityPerturbation?: number; // ± share of each input (0.1 = ±10%)
 }
 
 export class ExportService {
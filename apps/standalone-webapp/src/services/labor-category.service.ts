@@ -3,34 +3,35 @@
  * Handles labor category calculations and validation
  */
 
+import { PricingCalculationEngine } from '@pricing-calculator/core';
+import { ClearanceLevel, PricingSettings, SalaryPricingSettings } from '@pricing-calculator/types';
 import { LaborCategoryInput, LaborCategoryResult, LaborCategorySummary, ValidationError } from '../types/labor-category';
+import SystemSettingsService from './system-settings.service';
 
-export class LaborCategoryService {
-  private static readonly CLEARANCE_PREMIUMS = {
-    'None': 0,
-    'Public Trust': 0.05,
-    'Secret': 0.10,
-    'Top Secret': 0.20,
-  };
+type PeriodOfPerformance = PricingSettings['periodOfPerformance'];
 
+export class LaborCategoryService {
   /**
-   * Calculate effective hours for a labor category
+   * Calculate effective hours for a labor category (Hours × FTE% × Capacity)
    */
-  public static calculateEffectiveHours(hours: number, ftePercentage: number): number {
-    return hours * (ftePercentage / 100);
+  public static calculateEffectiveHours(hours: number, ftePercentage: number, capacity: number = 1): number {
+    return PricingCalculationEngine.calculateEffectiveHours(hours, ftePercentage, capacity);
   }
 
   /**
    * Calculate clearance premium
    */
-  public static calculateClearancePremium(clearanceLevel: 'None' | 'Public Trust' | 'Secret' | 'Top Secret'): number {
-    return this.CLEARANCE_PREMIUMS[clearanceLevel];
+  public static calculateClearancePremium(clearanceLevel: ClearanceLevel): number {
+    return PricingCalculationEngine.calculateClearancePremium(
+      clearanceLevel,
+      SystemSettingsService.getInstance().getPremiumTable()
+    );
   }
 
   /**
    * Calculate clearance adjusted rate
    */
-  public static calculateClearanceAdjustedRate(baseRate: number, clearanceLevel: 'None' | 'Public Trust' | 'Secret' | 'Top Secret'): number {
+  public static calculateClearanceAdjustedRate(baseRate: number, clearanceLevel: ClearanceLevel): number {
     const premium = this.calculateClearancePremium(clearanceLevel);
     return baseRate * (1 + premium);
   }
@@ -45,55 +46,77 @@ export class LaborCategoryService {
     gaRate: number,
     feeRate: number
   ): number {
-    const clearanceAdjustedRate = this.calculateClearanceAdjustedRate(baseRate, clearanceLevel);
-    return clearanceAdjustedRate * (1 + overheadRate) * (1 + gaRate) * (1 + feeRate);
+    return PricingCalculationEngine.calculateBurdenRate(
+      baseRate,
+      clearanceLevel,
+      this.toPricingSettings(overheadRate, gaRate, feeRate)
+    );
   }
 
   /**
-   * Calculate total cost for a labor category
+   * Calculate total cost for a labor category (salary mode when salary pricing is given)
    */
   public static calculateTotalCost(
     laborCategory: LaborCategoryInput,
     overheadRate: number,
     gaRate: number,
-    feeRate: number
+    feeRate: number,
+    salaryPricing?: SalaryPricingSettings,
+    periodOfPerformance?: PeriodOfPerformance
   ): LaborCategoryResult {
-    const effectiveHours = this.calculateEffectiveHours(laborCategory.hours, laborCategory.ftePercentage);
-    const clearancePremium = this.calculateClearancePremium(laborCategory.clearanceLevel);
-    const clearanceAdjustedRate = this.calculateClearanceAdjustedRate(laborCategory.baseRate, laborCategory.clearanceLevel);
-    const burdenedRate = this.calculateBurdenedRate(
-      laborCategory.baseRate,
-      laborCategory.clearanceLevel,
-      overheadRate,
-      gaRate,
-      feeRate
-    );
+    const annualSalary = Number(laborCategory.companyRoleRate || 0);
+    const line = {
+      ...laborCategory,
+      capacity: laborCategory.capacity || 1,
+      ...(annualSalary > 0 ? { annualSalary } : {}),
+    };
+    const settings = this.toPricingSettings(overheadRate, gaRate, feeRate, salaryPricing, periodOfPerformance);
+    // Lines with start/end dates only carry hours for the part of the PoP they are staffed
+    const staffingFactor = periodOfPerformance
+      ? PricingCalculationEngine.calculateStaffingFactor(
+        line,
+        { id: 'base', name: 'Base Period', type: 'Base', ...periodOfPerformance },
+        settings
+      )
+      : 1;
+    const result = PricingCalculationEngine.calculateLaborCategory(line, settings, 1, staffingFactor);
 
-    const overheadAmount = clearanceAdjustedRate * overheadRate * effectiveHours;
-    const gaAmount = clearanceAdjustedRate * (1 + overheadRate) * gaRate * effectiveHours;
-    const feeAmount = clearanceAdjustedRate * (1 + overheadRate) * (1 + gaRate) * feeRate * effectiveHours;
-    const totalCost = laborCategory.finalRate * effectiveHours * laborCategory.capacity; // (Capacity × Effective Hours) × Final Rate
+    return {
+      ...result,
+      capacity: laborCategory.capacity || 1,
+      annualSalary: result.annualSalary ?? 0,
+      wrapAmount: result.wrapAmount ?? 0,
+      minimumProfitAmount: result.minimumProfitAmount ?? 0,
+      minimumAnnualRevenue: result.minimumAnnualRevenue ?? 0,
+      companyMinimumRate: result.companyMinimumRate ?? 0,
+      actualCost: result.actualCost ?? 0,
+      actualProfit: result.actualProfit ?? 0,
+      actualProfitPercentage: result.actualProfitPercentage ?? 0,
+    };
+  }
+
+  /**
+   * Build engine settings from project burden rates
+   */
+  private static toPricingSettings(
+    overheadRate: number,
+    gaRate: number,
+    feeRate: number,
+    salaryPricing?: SalaryPricingSettings,
+    periodOfPerformance: PeriodOfPerformance = { startDate: '', endDate: '' }
+  ): PricingSettings {
+    const indirectRateStructure = SystemSettingsService.getInstance().getIndirectRateStructure();
+    const premiumTable = SystemSettingsService.getInstance().getPremiumTable();
 
     return {
-      id: laborCategory.id || '',
-      title: laborCategory.title,
-      baseRate: laborCategory.baseRate,
-      hours: laborCategory.hours,
-      ftePercentage: laborCategory.ftePercentage,
-      capacity: laborCategory.capacity,
-      effectiveHours,
-      clearanceLevel: laborCategory.clearanceLevel,
-      location: laborCategory.location,
-      clearancePremium,
-      clearanceAdjustedRate,
-      overheadAmount,
       overheadRate,
-      gaAmount,
       gaRate,
-      feeAmount,
       feeRate,
-      totalCost,
-      burdenedRate,
+      contractType: 'FFP',
+      periodOfPerformance,
+      ...(salaryPricing ? { pricingMode: 'salary' as const, salaryPricing } : {}),
+      ...(indirectRateStructure ? { indirectRateStructure } : {}),
+      ...(premiumTable ? { premiumTable } : {}),
     };
   }
 
@@ -177,7 +200,9 @@ export class LaborCategoryService {
     categories: LaborCategoryInput[],
     overheadRate: number,
     gaRate: number,
-    feeRate: number
+    feeRate: number,
+    salaryPricing?: SalaryPricingSettings,
+    periodOfPerformance?: PeriodOfPerformance
   ): LaborCategorySummary {
     if (categories.length === 0) {
       return {
@@ -188,6 +213,10 @@ export class LaborCategoryService {
         totalBurdenedCost: 0,
         averageBaseRate: 0,
         averageBurdenedRate: 0,
+        totalCost: 0,
+        totalActualCost: 0,
+        totalActualProfit: 0,
+        averageActualProfitPercentage: 0,
       };
     }
 
@@ -197,9 +226,11 @@ export class LaborCategoryService {
     let totalBurdenedCost = 0;
     let totalBaseRate = 0;
     let totalBurdenedRate = 0;
+    let totalActualCost = 0;
+    let totalActualProfit = 0;
 
     categories.forEach(category => {
-      const result = this.calculateTotalCost(category, overheadRate, gaRate, feeRate);
+      const result = this.calculateTotalCost(category, overheadRate, gaRate, feeRate, salaryPricing, periodOfPerformance);
       
       totalHours += category.hours;
       totalEffectiveHours += result.effectiveHours;
@@ -207,6 +238,8 @@ export class LaborCategoryService {
       totalBurdenedCost += result.totalCost;
       totalBaseRate += category.baseRate;
       totalBurdenedRate += result.burdenedRate;
+      totalActualCost += result.actualCost;
+      totalActualProfit += result.actualProfit;
     });
 
     return {
@@ -217,6 +250,11 @@ export class LaborCategoryService {
       totalBurdenedCost,
       averageBaseRate: totalBaseRate / categories.length,
       averageBurdenedRate: totalBurdenedRate / categories.length,
+      totalCost: totalBurdenedCost,
+      totalActualCost,
+      totalActualProfit,
+      // Weighted by price, so this matches the project-level actual profit %
+      averageActualProfitPercentage: totalBurdenedCost > 0 ? totalActualProfit / totalBurdenedCost : 0,
     };
   }
 
@@ -4,6 +4,8 @@
  */
 
 import * as XLSX from 'xlsx';
+import { PricingCalculationEngine } from '@pricing-calculator/core';
+import { ClearanceLevel } from '@pricing-calculator/types';
 import {
   ContractVehicle,
   ProjectRole,
@@ -15,6 +17,7 @@ import {
   EnhancedLaborCategoryInput,
   EnhancedLaborCategoryResult,
 } from '../types/mapping';
+import SystemSettingsService from './system-settings.service';
 
 export class MappingService {
   private static baseUrl = '/api/lcat-management';
@@ -481,8 +484,22 @@ export class MappingService {
       category.baseRate
     );
 
+    // Subcontractor lines: the most the prime can pay the sub and still earn minimum profit at the proposed rate
+    const maxSubcontractorRate = category.primeOrSub === 'Subcontractor'
+      ? PricingCalculationEngine.calculateMaxSubcontractorRate(
+        category.finalProposalRate ?? burdenedRate,
+        SystemSettingsService.getInstance().getSalaryPricing().minimumProfitRate
+      )
+      : category.maxSubcontractorRate;
+    const subcontractorWarnings = maxSubcontractorRate !== undefined
+      && category.finalSubcontractorRate !== undefined
+      && category.finalSubcontractorRate > maxSubcontractorRate
+      ? [`Subcontractor rate exceeds the maximum of $${maxSubcontractorRate.toFixed(2)} that still earns minimum profit`]
+      : [];
+
     return {
       ...category,
+      ...(maxSubcontractorRate !== undefined ? { maxSubcontractorRate } : {}),
       effectiveHours,
       clearancePremium,
       clearanceAdjustedRate,
@@ -495,18 +512,16 @@ export class MappingService {
       burdenedRate,
       totalCost,
       escalationCalculation,
-      validationWarnings: validation.warnings,
+      validationWarnings: [...validation.warnings, ...subcontractorWarnings],
       validationErrors: validation.errors,
     };
   }
 
   private static getClearancePremium(clearanceLevel: string): number {
-    switch (clearanceLevel) {
-      case 'Top Secret': return 0.20;
-      case 'Secret': return 0.10;
-      case 'Public Trust': return 0.05;
-      default: return 0;
-    }
+    return PricingCalculationEngine.calculateClearancePremium(
+      clearanceLevel as ClearanceLevel,
+      SystemSettingsService.getInstance().getPremiumTable()
+    );
   }
 
   // Import/Export
@@ -3,12 +3,25 @@
  * Handles project persistence operations
  */
 
+import {
+  CreateTemplateRequest,
+  InstantiateTemplateRequest,
+  PaginationParams,
+  ProjectListResponse,
+  ProjectStatus,
+  ProjectSummary,
+  ProjectTemplate,
+  ProjectVersion,
+  ProjectVersionDiff,
+  TemplateSearchFilters,
+} from '@pricing-calculator/types';
+
 export interface ProjectData {
   id: string;
   name: string;
   description?: string;
   lastModified: string;
-  status: 'draft' | 'active' | 'archived';
+  status: ProjectStatus;
   contractVehicle?: string;
   overheadRate: number;
   gaRate: number;
@@ -16,12 +29,63 @@ export interface ProjectData {
   laborCategories: any[];
   otherDirectCosts: any[];
   tags?: string[];
+  version?: number;
+}
+
+export interface ProjectSearchParams extends PaginationParams {
+  search?: string; // Name or description
+  tags?: string[];
+  contractType?: string;
+  contractVehicle?: string;
+  status?: ProjectStatus;
+  createdBy?: string;
+  modifiedFrom?: string;
+  modifiedTo?: string;
+}
+
+export interface ProjectSearchResponse {
+  success: boolean;
+  projects?: ProjectSummary[];
+  meta?: ProjectListResponse['meta'];
+  message: string;
+  error?: string;
+}
+
+export interface ProjectConflict {
+  expectedVersion: number; // Version the rejected save was based on
+  currentVersion: number;
+  project: ProjectData; // Server's current project
 }
 
 export interface ProjectResponse {
   success: boolean;
   project?: ProjectData;
   projects?: ProjectData[];
+  conflict?: ProjectConflict; // Only when the save was rejected as stale
+  message: string;
+  error?: string;
+}
+
+export interface ProjectVersionsResponse {
+  success: boolean;
+  versions?: ProjectVersion[];
+  currentVersion?: number;
+  version?: ProjectVersion;
+  diff?: ProjectVersionDiff;
+  project?: ProjectData;
+  message: string;
+  error?: string;
+}
+
+export interface ProjectTemplatesResponse {
+  success: boolean;
+  templates?: ProjectTemplate[];
+  total?: number;
+  page?: number;
+  limit?: number;
+  hasMore?: boolean;
+  template?: ProjectTemplate;
+  project?: ProjectData; // Project created from a template
   message: string;
   error?: string;
 }
@@ -30,26 +94,10 @@ class ProjectService {
   private static baseUrl = '/api/pricing';
 
   /**
-   * Get all projects
+   * Search projects; one page of summaries, with the total match count in meta
    */
-  public static async getProjects(): Promise<ProjectResponse> {
-    try {
-      const response = await fetch(`${this.baseUrl}/projects`);
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Failed to fetch projects');
-      }
-
-      return data;
-    } catch (error) {
-      console.error('Error fetching projects:', error);
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to fetch projects',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
+  public static async getProjects(params: ProjectSearchParams = {}): Promise<ProjectSearchResponse> {
+    return this.request(`${this.baseUrl}/projects?${this.queryString(params)}`, 'Failed to fetch projects');
   }
 
   /**
@@ -128,7 +176,7 @@ class ProjectService {
   }
 
   /**
-   * Update an existing project
+   * Update an existing project; a save based on a stale version comes back with the server's project as a conflict
    */
   public static async updateProject(id: string, projectData: Partial<ProjectData>): Promise<ProjectResponse> {
     try {
@@ -136,12 +184,26 @@ class ProjectService {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...(projectData.version !== undefined ? { 'If-Match': `"${projectData.version}"` } : {}),
         },
         body: JSON.stringify(projectData),
       });
       
       const data = await response.json();
       
+      if (response.status === 409 && data.project) {
+        return {
+          success: false,
+          conflict: {
+            expectedVersion: data.expectedVersion,
+            currentVersion: data.currentVersion,
+            project: this.convertApiProjectToFrontend(data.project),
+          },
+          message: data.message || 'Project was changed by someone else',
+          error: data.error,
+        };
+      }
+      
       if (!response.ok) {
         throw new Error(data.message || 'Failed to update project');
       }
@@ -183,6 +245,119 @@ class ProjectService {
     }
   }
 
+  /**
+   * Get a project's versions, newest first
+   */
+  public static async getVersions(id: string): Promise<ProjectVersionsResponse> {
+    return this.request(`${this.baseUrl}/projects/${id}/versions`, 'Failed to fetch project versions');
+  }
+
+  /**
+   * Diff two versions of a project
+   */
+  public static async diffVersions(id: string, from: number, to: number): Promise<ProjectVersionsResponse> {
+    return this.request(
+      `${this.baseUrl}/projects/${id}/versions/diff?from=${from}&to=${to}`,
+      'Failed to compare project versions'
+    );
+  }
+
+  /**
+   * Restore an older version of a project as a new version; refused when the project has moved past currentVersion
+   */
+  public static async restoreVersion(
+    id: string,
+    version: number,
+    currentVersion?: number,
+    changeNote?: string
+  ): Promise<ProjectVersionsResponse> {
+    return this.request(
+      `${this.baseUrl}/projects/${id}/versions/${version}/restore`,
+      'Failed to restore project version',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(currentVersion !== undefined ? { 'If-Match': `"${currentVersion}"` } : {}),
+        },
+        body: JSON.stringify(changeNote ? { changeNote } : {}),
+      }
+    );
+  }
+
+  /**
+   * Search templates; most used first
+   */
+  public static async getTemplates(filters: TemplateSearchFilters = {}): Promise<ProjectTemplatesResponse> {
+    return this.request(`${this.baseUrl}/templates?${this.queryString(filters)}`, 'Failed to fetch templates');
+  }
+
+  /**
+   * Save a project as a template
+   */
+  public static async createTemplate(request: CreateTemplateRequest): Promise<ProjectTemplatesResponse> {
+    return this.request(`${this.baseUrl}/templates`, 'Failed to create template', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Create a project from a template
+   */
+  public static async instantiateTemplate(id: string, request: InstantiateTemplateRequest): Promise<ProjectTemplatesResponse> {
+    return this.request(`${this.baseUrl}/templates/${id}/instantiate`, 'Failed to create project from template', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Query string from the set parameters; arrays are sent comma-separated
+   */
+  private static queryString(params: object): string {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+        query.set(key, Array.isArray(value) ? value.join(',') : String(value));
+      }
+    });
+    return query.toString();
+  }
+
+  /**
+   * Call a search, version or template endpoint, returning failures as an unsuccessful response
+   */
+  private static async request<T extends { success: boolean; message: string; error?: string }>(
+    url: string,
+    failureMessage: string,
+    init?: RequestInit
+  ): Promise<T> {
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || failureMessage);
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : failureMessage,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      } as T;
+    }
+  }
+
   /**
    * Convert API project format to frontend format
    */
@@ -194,7 +369,7 @@ class ProjectService {
       name: apiProject.name,
       description: apiProject.description,
       lastModified: apiProject.updatedAt,
-      status: 'draft', // Default status
+      status: apiProject.status || 'draft',
       contractVehicle: apiProject.contractVehicle,
       overheadRate: apiProject.settings?.overheadRate || 0.30,
       gaRate: apiProject.settings?.gaRate || 0.15,
@@ -202,6 +377,7 @@ class ProjectService {
       laborCategories: apiProject.laborCategories || apiProject.laborCategoriesData || [],
       otherDirectCosts: apiProject.otherDirectCosts || [],
       tags: apiProject.tags || [],
+      version: apiProject.version,
     };
     
     console.log('🔍 ProjectService.convertApiProjectToFrontend - Output:', JSON.stringify(converted, null, 2));
@@ -224,7 +400,9 @@ class ProjectService {
       },
       laborCategories: frontendProject.laborCategories,
       otherDirectCosts: frontendProject.otherDirectCosts,
+      status: frontendProject.status,
       tags: frontendProject.tags,
+      version: frontendProject.version,
     };
   }
 }
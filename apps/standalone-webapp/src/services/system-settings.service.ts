@@ -3,6 +3,8 @@
  * Handles system-wide configuration settings with backend persistence
  */
 
+import { PricingCalculationEngine } from '@pricing-calculator/core';
+import { IndirectRateStructure, PremiumTable, SalaryBreakdown, SalaryPricingSettings } from '@pricing-calculator/types';
 import { SystemSettings, SystemSettingsUpdate } from '../types/system-settings';
 
 class SystemSettingsService {
@@ -37,6 +39,8 @@ class SystemSettingsService {
         this.settings = {
           wrapRate: data.settings.wrapRate,
           minimumProfitRate: data.settings.minimumProfitRate,
+          ...(data.settings.indirectRateStructure ? { indirectRateStructure: data.settings.indirectRateStructure } : {}),
+          ...(data.settings.premiumTable ? { premiumTable: data.settings.premiumTable } : {}),
         };
         console.log('SystemSettingsService: Loaded settings from backend:', this.settings);
       } else {
@@ -86,17 +90,6 @@ class SystemSettingsService {
     await this.saveToBackend();
   }
 
-  /**
-   * Calculate wrap amount for a given annual salary
-   */
-  public calculateWrapAmount(annualSalary: number): number {
-    // Ensure value is a number, not a string
-    const annualSalaryNum = typeof annualSalary === 'string' ? parseFloat(annualSalary) : annualSalary;
-    const result = Math.round((this.settings.wrapRate * annualSalaryNum / 100) * 100) / 100;
-    
-    return result;
-  }
-
   /**
    * Get minimum profit rate
    */
@@ -114,17 +107,43 @@ class SystemSettingsService {
   }
 
   /**
-   * Calculate minimum profit amount for a given annual salary and wrap amount
+   * Get engine salary pricing settings (wrap and minimum profit rates as decimals)
    */
-  public calculateMinimumProfitAmount(annualSalary: number, wrapAmount: number): number {
-    // Ensure values are numbers, not strings
-    const annualSalaryNum = typeof annualSalary === 'string' ? parseFloat(annualSalary) : annualSalary;
-    const wrapAmountNum = typeof wrapAmount === 'string' ? parseFloat(wrapAmount) : wrapAmount;
-    
-    const totalCost = annualSalaryNum + wrapAmountNum;
-    const result = Math.round((this.settings.minimumProfitRate * totalCost / 100) * 100) / 100;
-    
-    return result;
+  public getSalaryPricing(): SalaryPricingSettings {
+    return {
+      wrapRate: this.settings.wrapRate / 100,
+      minimumProfitRate: this.settings.minimumProfitRate / 100,
+    };
+  }
+
+  /**
+   * Get the tenant indirect rate structure, if one is defined
+   */
+  public getIndirectRateStructure(): IndirectRateStructure | undefined {
+    return this.settings.indirectRateStructure;
+  }
+
+  /**
+   * Get the tenant clearance premium and location differential table, if one is loaded
+   */
+  public getPremiumTable(): PremiumTable | undefined {
+    return this.settings.premiumTable;
+  }
+
+  /**
+   * Set the tenant premium table
+   */
+  public async setPremiumTable(premiumTable: PremiumTable): Promise<void> {
+    this.settings.premiumTable = premiumTable;
+    this.settings.updatedAt = new Date().toISOString();
+    await this.saveToBackend();
+  }
+
+  /**
+   * Calculate wrap, minimum profit and company minimum rate for an annual salary
+   */
+  public calculateSalaryBreakdown(annualSalary: number, annualHours: number): SalaryBreakdown {
+    return PricingCalculationEngine.calculateSalaryBreakdown(Number(annualSalary) || 0, this.getSalaryPricing(), annualHours);
   }
 
   /**
@@ -140,6 +159,7 @@ class SystemSettingsService {
         body: JSON.stringify({
           wrapRate: this.settings.wrapRate,
           minimumProfitRate: this.settings.minimumProfitRate,
+          ...(this.settings.premiumTable ? { premiumTable: this.settings.premiumTable } : {}),
         }),
       });
 
@@ -3,6 +3,8 @@
  * Defines interfaces for labor category input and management
  */
 
+import { ClearanceLevel, FinalRateMetadata } from '@pricing-calculator/types';
+
 export interface LaborCategoryInput {
   id?: string;
   title: string;
@@ -10,7 +12,7 @@ export interface LaborCategoryInput {
   hours: number;
   ftePercentage: number;
   capacity: number; // Number of identical LCATs needed
-  clearanceLevel: 'None' | 'Public Trust' | 'Secret' | 'Top Secret';
+  clearanceLevel: ClearanceLevel;
   location: 'Remote' | 'On-site' | 'Hybrid';
   // LCAT Integration fields
   lcatId?: string;
@@ -29,12 +31,12 @@ export interface LaborCategoryInput {
   companyRoleRate: number;
   // Final Rate with metadata
   finalRate: number;
-  finalRateMetadata: {
-    source: 'lcat' | 'company' | 'manual';
-    reason?: string;
-    timestamp?: string;
-    userId?: string;
-  };
+  finalRateMetadata: FinalRateMetadata; // source 'goal-seek' records the target profit in reason
+  // Staffing window; effective hours are pro-rated to the part of the PoP inside it
+  startDate?: string;
+  endDate?: string;
+  startSprint?: number;
+  sprintCount?: number;
 }
 
 export interface LaborCategoryResult {
@@ -45,7 +47,7 @@ export interface LaborCategoryResult {
   ftePercentage: number;
   capacity: number; // Number of identical LCATs needed
   effectiveHours: number;
-  clearanceLevel: 'None' | 'Public Trust' | 'Secret' | 'Top Secret';
+  clearanceLevel: ClearanceLevel;
   location: 'Remote' | 'On-site' | 'Hybrid';
   clearancePremium: number;
   clearanceAdjustedRate: number;
@@ -66,6 +68,9 @@ export interface LaborCategoryResult {
   actualCost: number;
   actualProfit: number;
   actualProfitPercentage: number;
+  // Resolved staffing window, when the line has dates or sprints
+  startDate?: string;
+  endDate?: string;
 }
 
 export interface LaborCategorySummary {
@@ -3,10 +3,14 @@
  * Defines interfaces for system-wide configuration settings
  */
 
+import { IndirectRateStructure, PremiumTable } from '@pricing-calculator/types';
+
 export interface SystemSettings {
   id?: string;
   wrapRate: number; // System-wide wrap rate percentage
   minimumProfitRate: number; // System-wide minimum profit rate percentage
+  indirectRateStructure?: IndirectRateStructure; // Tenant indirect rate pools; omitted uses overhead → G&A
+  premiumTable?: PremiumTable; // Tenant clearance premiums and location differentials; omitted uses the standard table
   createdAt?: string;
   updatedAt?: string;
   updatedBy?: string;
@@ -15,6 +19,7 @@ export interface SystemSettings {
 export interface SystemSettingsUpdate {
   wrapRate?: number;
   minimumProfitRate?: number;
+  premiumTable?: PremiumTable;
   updatedBy?: string;
 }
 
@@ -0,0 +1,16 @@
+/**
+ * Application logger
+ * Winston logger configured from LOG_LEVEL and LOG_FORMAT (json or plain text)
+ */
+
+import winston from 'winston';
+
+const { combine, errors, json, printf, timestamp } = winston.format;
+
+const text = printf(({ level, message, timestamp: time, stack }) => `${time} ${level}: ${stack || message}`);
+
+export const logger = winston.createLogger({
+  level: process.env['LOG_LEVEL'] || 'info',
+  format: combine(timestamp(), errors({ stack: true }), process.env['LOG_FORMAT'] === 'json' ? json() : text),
+  transports: [new winston.transports.Console()],
+});
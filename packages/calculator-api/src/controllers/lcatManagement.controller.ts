@@ -5,7 +5,9 @@
 
 import { Request, Response } from 'express';
 import { Op } from 'sequelize';
+import { PremiumTables, WorkshareCompliance } from '@pricing-calculator/core';
 import { CompanyRole, LCAT, ProjectRole, RateValidationRule, ContractVehicle } from '../models';
+import { ProjectSummaryService } from '../services/project-summary.service';
 
 export class LCATManagementController {
   // Helper function to map clearance values
@@ -62,6 +64,7 @@ export class LCATManagementController {
       });
       
       if (updated) {
+        await ProjectSummaryService.markStaleForCompanyRoles([String(id)]);
         const companyRole = await CompanyRole.findByPk(id);
         res.json(companyRole);
       } else {
@@ -81,6 +84,7 @@ export class LCATManagementController {
       });
       
       if (deleted) {
+        await ProjectSummaryService.markStaleForCompanyRoles([String(id)]);
         res.status(204).send();
       } else {
         res.status(404).json({ error: 'Company role not found' });
@@ -127,6 +131,7 @@ export class LCATManagementController {
       });
       
       if (updated) {
+        await ProjectSummaryService.markStaleForLcats([String(id)]);
         const lcat = await LCAT.findByPk(id);
         res.json(lcat);
       } else {
@@ -146,6 +151,7 @@ export class LCATManagementController {
       });
       
       if (deleted) {
+        await ProjectSummaryService.markStaleForLcats([String(id)]);
         res.status(204).send();
       } else {
         res.status(404).json({ error: 'LCAT not found' });
@@ -393,6 +399,9 @@ export class LCATManagementController {
         }
       }
 
+      // Imported LCATs and roles may replace ones projects were priced on
+      await ProjectSummaryService.markAllStale();
+
       res.json({
         message: 'Bulk import completed successfully',
         results
@@ -422,6 +431,19 @@ export class LCATManagementController {
 
   public static async createContractVehicle(req: Request, res: Response): Promise<void> {
     try {
+      const premiumErrors = req.body.premiumTable ? PremiumTables.validate(req.body.premiumTable) : [];
+      if (premiumErrors.length > 0) {
+        res.status(400).json({ error: 'Invalid premium table', details: premiumErrors.join(', ') });
+        return;
+      }
+      const workshareErrors = req.body.workshareRequirement
+        ? WorkshareCompliance.validateRequirement(req.body.workshareRequirement)
+        : [];
+      if (workshareErrors.length > 0) {
+        res.status(400).json({ error: 'Invalid workshare requirement', details: workshareErrors.join(', ') });
+        return;
+      }
+
       const contractVehicle = await ContractVehicle.create({
         ...req.body,
         tenantId: '00000000-0000-0000-0000-000000000000', // In real app, get from auth context
@@ -437,7 +459,21 @@ export class LCATManagementController {
   public static async updateContractVehicle(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const [updated] = await ContractVehicle.update(req.body, {
+      const premiumErrors = req.body.premiumTable ? PremiumTables.validate(req.body.premiumTable) : [];
+      if (premiumErrors.length > 0) {
+        res.status(400).json({ error: 'Invalid premium table', details: premiumErrors.join(', ') });
+        return;
+      }
+      const workshareErrors = req.body.workshareRequirement
+        ? WorkshareCompliance.validateRequirement(req.body.workshareRequirement)
+        : [];
+      if (workshareErrors.length > 0) {
+        res.status(400).json({ error: 'Invalid workshare requirement', details: workshareErrors.join(', ') });
+        return;
+      }
+
+      const previous = await ContractVehicle.findByPk(id);
+      const [updated, vehicles] = await ContractVehicle.update(req.body, {
         where: { id },
         returning: true
       });
@@ -447,6 +483,8 @@ export class LCATManagementController {
         return;
       }
       
+      // Match projects on the old name and code as well as any new ones
+      await ProjectSummaryService.markStaleForContractVehicles([...(previous ? [previous] : []), ...vehicles]);
       res.json({ message: 'Contract vehicle updated successfully' });
     } catch (error) {
       console.error('Error updating contract vehicle:', error);
@@ -457,15 +495,14 @@ export class LCATManagementController {
   public static async deleteContractVehicle(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const deleted = await ContractVehicle.destroy({
-        where: { id }
-      });
-      
-      if (deleted === 0) {
+      const vehicle = await ContractVehicle.findByPk(id);
+      if (!vehicle) {
         res.status(404).json({ error: 'Contract vehicle not found' });
         return;
       }
       
+      await vehicle.destroy();
+      await ProjectSummaryService.markStaleForContractVehicles([vehicle]);
       res.json({ message: 'Contract vehicle deleted successfully' });
     } catch (error) {
       console.error('Error deleting contract vehicle:', error);
@@ -489,6 +526,8 @@ export class LCATManagementController {
       await sequelize.query('TRUNCATE TABLE contract_vehicles CASCADE');
       
       console.log('✅ All LCAT management data cleared successfully');
+
+      await ProjectSummaryService.markAllStale();
       
       res.json({
         message: 'All data cleared successfully',
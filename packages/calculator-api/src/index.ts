@@ -12,6 +12,7 @@ import dotenv from 'dotenv';
 import { ModelManager } from './models';
 import { MigrationRunner } from './migrations/migrate';
 import { AuthService } from './services/auth.service';
+import { ProjectSummaryService } from './services/project-summary.service';
 import authRoutes from './routes/auth.routes';
 import pricingRoutes from './routes/pricing.routes';
 import calculationRoutes from './routes/calculation.routes';
@@ -191,6 +192,9 @@ async function startServer() {
     AuthService.initializePassport();
     console.log('✅ Authentication initialized');
 
+    // Recompute project summaries marked stale by rate and settings changes
+    ProjectSummaryService.startBackgroundRefresh();
+
     // Start server
     app.listen(PORT, () => {
       console.log(`🚀 Pricing Calculator API running on port ${PORT}`);
@@ -209,6 +213,7 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n🔄 Shutting down gracefully...');
+  ProjectSummaryService.stopBackgroundRefresh();
   await ModelManager.closeConnection();
   await MigrationRunner.close();
   process.exit(0);
@@ -0,0 +1,25 @@
+/**
+ * Migration: Add Rounding Policy Fields
+ * Adds roundingPolicy to system_settings (tenant default) and contract_vehicles (per-vehicle override)
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('system_settings', 'roundingPolicy', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    comment: 'Tenant rounding policy; null uses the engine default',
+  });
+
+  await queryInterface.addColumn('contract_vehicles', 'roundingPolicy', {
+    type: DataTypes.JSON,
+    allowNull: true,
+    comment: 'Rounding policy override for this contract vehicle',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('contract_vehicles', 'roundingPolicy');
+  await queryInterface.removeColumn('system_settings', 'roundingPolicy');
+};
@@ -0,0 +1,18 @@
+/**
+ * Migration: Add Indirect Rate Structure
+ * Adds indirectRateStructure to system_settings (tenant-defined indirect rate pools)
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('system_settings', 'indirectRateStructure', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    comment: 'Tenant indirect rate structure; null uses the engine default overhead → G&A chain',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('system_settings', 'indirectRateStructure');
+};
@@ -0,0 +1,35 @@
+/**
+ * Migration: Add Premium Tables
+ * Adds premiumTable to system_settings (tenant default) and contract_vehicles (per-vehicle override),
+ * and adds the TS/SCI clearance levels to labor_categories
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+const TS_SCI_LEVELS = ['TS/SCI', 'TS/SCI with CI Poly', 'TS/SCI with FS Poly'];
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('system_settings', 'premiumTable', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    comment: 'Tenant clearance premiums and location differentials; null uses the standard table',
+  });
+
+  await queryInterface.addColumn('contract_vehicles', 'premiumTable', {
+    type: DataTypes.JSON,
+    allowNull: true,
+    comment: 'Premium table override for this contract vehicle',
+  });
+
+  for (const level of TS_SCI_LEVELS) {
+    await queryInterface.sequelize.query(
+      `ALTER TYPE "enum_labor_categories_clearanceLevel" ADD VALUE IF NOT EXISTS '${level}'`
+    );
+  }
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  // Postgres cannot drop enum values; the TS/SCI levels are left in place
+  await queryInterface.removeColumn('contract_vehicles', 'premiumTable');
+  await queryInterface.removeColumn('system_settings', 'premiumTable');
+};
@@ -0,0 +1,18 @@
+/**
+ * Migration: Add Workshare Requirement
+ * Adds workshareRequirement to contract_vehicles for limitations-on-subcontracting compliance
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('contract_vehicles', 'workshareRequirement', {
+    type: DataTypes.JSON,
+    allowNull: true,
+    comment: 'Minimum prime workshare, basis and enforcement for limitations on subcontracting',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('contract_vehicles', 'workshareRequirement');
+};
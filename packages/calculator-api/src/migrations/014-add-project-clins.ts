@@ -0,0 +1,19 @@
+/**
+ * Migration: Add Project CLINs
+ * Adds clinsData to pricing_projects for optional CLIN / task structures
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('pricing_projects', 'clinsData', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    defaultValue: [],
+    comment: 'CLIN / task tree with per-CLIN labor lines, ODCs and periods',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('pricing_projects', 'clinsData');
+};
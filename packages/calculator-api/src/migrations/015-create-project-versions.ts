@@ -0,0 +1,68 @@
+/**
+ * Migration: Create Project Versions
+ * Creates pricing_project_versions for immutable per-save project snapshots
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.createTable('pricing_project_versions', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    tenantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    projectId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'pricing_projects',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    changeNote: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: '',
+    },
+    snapshot: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      comment: 'Settings, labor lines, ODCs, CLINs and project fields as saved',
+    },
+    totals: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Totals computed at save; null when the project did not calculate',
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  });
+
+  await queryInterface.addIndex('pricing_project_versions', ['projectId']);
+  await queryInterface.addIndex('pricing_project_versions', ['projectId', 'version'], {
+    unique: true,
+    name: 'pricing_project_versions_project_version_unique',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable('pricing_project_versions');
+};
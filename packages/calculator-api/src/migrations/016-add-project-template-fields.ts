@@ -0,0 +1,33 @@
+/**
+ * Migration: Add Project Template Fields
+ * Adds template category, visibility and usage count to pricing_projects for projects saved as templates
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('pricing_projects', 'templateCategory', {
+    type: DataTypes.STRING(20),
+    allowNull: true,
+    comment: 'FFP, T&M, CPFF or General; only set on templates',
+  });
+
+  await queryInterface.addColumn('pricing_projects', 'isPublicTemplate', {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  });
+
+  await queryInterface.addColumn('pricing_projects', 'usageCount', {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+    comment: 'Projects created from this template',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('pricing_projects', 'usageCount');
+  await queryInterface.removeColumn('pricing_projects', 'isPublicTemplate');
+  await queryInterface.removeColumn('pricing_projects', 'templateCategory');
+};
@@ -0,0 +1,26 @@
+/**
+ * Migration: Add Project Status
+ * Adds status to pricing_projects and indexes the columns project search filters and sorts on
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('pricing_projects', 'status', {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: 'draft',
+    comment: 'draft, active or archived',
+  });
+
+  await queryInterface.addIndex('pricing_projects', ['status']);
+  await queryInterface.addIndex('pricing_projects', ['updatedAt']);
+  await queryInterface.addIndex('pricing_projects', ['tags'], { using: 'GIN' });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeIndex('pricing_projects', ['tags']);
+  await queryInterface.removeIndex('pricing_projects', ['updatedAt']);
+  await queryInterface.removeIndex('pricing_projects', ['status']);
+  await queryInterface.removeColumn('pricing_projects', 'status');
+};
@@ -0,0 +1,38 @@
+/**
+ * Migration: Add Project Calculation Summary
+ * Adds the persisted calculation summary to pricing_projects so listings need not recalculate every project
+ */
+
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('pricing_projects', 'calculationSummary', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    comment: 'Totals, margin, headcount, engine version and calculatedAt; null when the project does not calculate',
+  });
+
+  await queryInterface.addColumn('pricing_projects', 'totalCost', {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: true,
+    comment: 'Total price from calculationSummary, for sorting',
+  });
+
+  // Existing projects start stale so the background refresh calculates them
+  await queryInterface.addColumn('pricing_projects', 'summaryStale', {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  });
+
+  await queryInterface.addIndex('pricing_projects', ['totalCost']);
+  await queryInterface.addIndex('pricing_projects', ['summaryStale']);
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeIndex('pricing_projects', ['summaryStale']);
+  await queryInterface.removeIndex('pricing_projects', ['totalCost']);
+  await queryInterface.removeColumn('pricing_projects', 'summaryStale');
+  await queryInterface.removeColumn('pricing_projects', 'totalCost');
+  await queryInterface.removeColumn('pricing_projects', 'calculationSummary');
+};
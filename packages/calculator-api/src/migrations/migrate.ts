@@ -4,12 +4,22 @@
 
 import { Sequelize } from 'sequelize';
 import { DatabaseService } from '../config/database';
+import { logger } from '../config/logger';
 import { up as createTables } from './001-create-tables';
 import { up as fixTenantIdColumns } from './002-fix-tenant-id-columns';
 import { up as createPricingTables } from './003-create-pricing-tables';
 import { up as createLcatManagementTables } from './005-create-lcat-management-tables';
 import { up as addLaborCategoriesJsonField } from './008-add-labor-categories-json-field';
 import { up as addContractVehicleField } from './009-add-contract-vehicle-field';
+import { up as addRoundingPolicyFields } from './010-add-rounding-policy-fields';
+import { up as addIndirectRateStructure } from './011-add-indirect-rate-structure';
+import { up as addPremiumTables } from './012-add-premium-tables';
+import { up as addWorkshareRequirement } from './013-add-workshare-requirement';
+import { up as addProjectClins } from './014-add-project-clins';
+import { up as createProjectVersions } from './015-create-project-versions';
+import { up as addProjectTemplateFields } from './016-add-project-template-fields';
+import { up as addProjectStatus } from './017-add-project-status';
+import { up as addProjectCalculationSummary } from './018-add-project-calculation-summary';
 
 export class MigrationRunner {
   private static sequelize: Sequelize;
@@ -22,7 +32,7 @@ export class MigrationRunner {
 
   public static async runMigrations(): Promise<void> {
     try {
-      console.log('🔄 Running database migrations...');
+      logger.info('🔄 Running database migrations...');
       
       // Create migrations table if it doesn't exist
       await this.createMigrationsTable();
@@ -33,7 +43,7 @@ export class MigrationRunner {
       );
       
       if (results1.length === 0) {
-        console.log('📝 Running migration: 001-create-tables');
+        logger.info('📝 Running migration: 001-create-tables');
         await createTables(this.sequelize.getQueryInterface());
         
         // Record migration as completed
@@ -41,9 +51,9 @@ export class MigrationRunner {
           "INSERT INTO migrations (name, executed_at) VALUES ('001-create-tables', NOW())"
         );
         
-        console.log('✅ Migration 001-create-tables completed successfully');
+        logger.info('✅ Migration 001-create-tables completed successfully');
       } else {
-        console.log('⏭️  Migration 001-create-tables already executed, skipping');
+        logger.info('⏭️  Migration 001-create-tables already executed, skipping');
       }
 
       // Run migration 002-fix-tenant-id-columns
@@ -52,7 +62,7 @@ export class MigrationRunner {
       );
       
       if (results2.length === 0) {
-        console.log('📝 Running migration: 002-fix-tenant-id-columns');
+        logger.info('📝 Running migration: 002-fix-tenant-id-columns');
         await fixTenantIdColumns(this.sequelize.getQueryInterface());
         
         // Record migration as completed
@@ -60,9 +70,9 @@ export class MigrationRunner {
           "INSERT INTO migrations (name, executed_at) VALUES ('002-fix-tenant-id-columns', NOW())"
         );
         
-        console.log('✅ Migration 002-fix-tenant-id-columns completed successfully');
+        logger.info('✅ Migration 002-fix-tenant-id-columns completed successfully');
       } else {
-        console.log('⏭️  Migration 002-fix-tenant-id-columns already executed, skipping');
+        logger.info('⏭️  Migration 002-fix-tenant-id-columns already executed, skipping');
       }
 
       // Run migration 003-create-pricing-tables
@@ -71,7 +81,7 @@ export class MigrationRunner {
       );
       
       if (results3.length === 0) {
-        console.log('📝 Running migration: 003-create-pricing-tables');
+        logger.info('📝 Running migration: 003-create-pricing-tables');
         await createPricingTables(this.sequelize.getQueryInterface());
         
         // Record migration as completed
@@ -79,9 +89,9 @@ export class MigrationRunner {
           "INSERT INTO migrations (name, executed_at) VALUES ('003-create-pricing-tables', NOW())"
         );
         
-        console.log('✅ Migration 003-create-pricing-tables completed successfully');
+        logger.info('✅ Migration 003-create-pricing-tables completed successfully');
       } else {
-        console.log('⏭️  Migration 003-create-pricing-tables already executed, skipping');
+        logger.info('⏭️  Migration 003-create-pricing-tables already executed, skipping');
       }
 
       // Run migration 005-create-lcat-management-tables
@@ -90,7 +100,7 @@ export class MigrationRunner {
       );
       
       if (results5.length === 0) {
-        console.log('📝 Running migration: 005-create-lcat-management-tables');
+        logger.info('📝 Running migration: 005-create-lcat-management-tables');
         await createLcatManagementTables(this.sequelize.getQueryInterface());
         
         // Record migration as completed
@@ -98,9 +108,9 @@ export class MigrationRunner {
           "INSERT INTO migrations (name, executed_at) VALUES ('005-create-lcat-management-tables', NOW())"
         );
         
-        console.log('✅ Migration 005-create-lcat-management-tables completed successfully');
+        logger.info('✅ Migration 005-create-lcat-management-tables completed successfully');
       } else {
-        console.log('⏭️  Migration 005-create-lcat-management-tables already executed, skipping');
+        logger.info('⏭️  Migration 005-create-lcat-management-tables already executed, skipping');
       }
 
       // Run migration 008-add-labor-categories-json-field
@@ -109,7 +119,7 @@ export class MigrationRunner {
       );
       
       if (results8.length === 0) {
-        console.log('📝 Running migration: 008-add-labor-categories-json-field');
+        logger.info('📝 Running migration: 008-add-labor-categories-json-field');
         await addLaborCategoriesJsonField(this.sequelize.getQueryInterface());
         
         // Record migration as completed
@@ -117,9 +127,9 @@ export class MigrationRunner {
           "INSERT INTO migrations (name, executed_at) VALUES ('008-add-labor-categories-json-field', NOW())"
         );
         
-        console.log('✅ Migration 008-add-labor-categories-json-field completed successfully');
+        logger.info('✅ Migration 008-add-labor-categories-json-field completed successfully');
       } else {
-        console.log('⏭️  Migration 008-add-labor-categories-json-field already executed, skipping');
+        logger.info('⏭️  Migration 008-add-labor-categories-json-field already executed, skipping');
       }
 
       // Run migration 009-add-contract-vehicle-field
@@ -128,7 +138,7 @@ export class MigrationRunner {
       );
       
       if (results9.length === 0) {
-        console.log('📝 Running migration: 009-add-contract-vehicle-field');
+        logger.info('📝 Running migration: 009-add-contract-vehicle-field');
         await addContractVehicleField(this.sequelize.getQueryInterface());
         
         // Record migration as completed
@@ -136,14 +146,185 @@ export class MigrationRunner {
           "INSERT INTO migrations (name, executed_at) VALUES ('009-add-contract-vehicle-field', NOW())"
         );
         
-        console.log('✅ Migration 009-add-contract-vehicle-field completed successfully');
+        logger.info('✅ Migration 009-add-contract-vehicle-field completed successfully');
       } else {
-        console.log('⏭️  Migration 009-add-contract-vehicle-field already executed, skipping');
+        logger.info('⏭️  Migration 009-add-contract-vehicle-field already executed, skipping');
+      }
+
+      // Run migration 010-add-rounding-policy-fields
+      const [results10] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '010-add-rounding-policy-fields'"
+      );
+      
+      if (results10.length === 0) {
+        logger.info('📝 Running migration: 010-add-rounding-policy-fields');
+        await addRoundingPolicyFields(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('010-add-rounding-policy-fields', NOW())"
+        );
+        
+        logger.info('✅ Migration 010-add-rounding-policy-fields completed successfully');
+      } else {
+        logger.info('⏭️  Migration 010-add-rounding-policy-fields already executed, skipping');
+      }
+
+      // Run migration 011-add-indirect-rate-structure
+      const [results11] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '011-add-indirect-rate-structure'"
+      );
+      
+      if (results11.length === 0) {
+        logger.info('📝 Running migration: 011-add-indirect-rate-structure');
+        await addIndirectRateStructure(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('011-add-indirect-rate-structure', NOW())"
+        );
+        
+        logger.info('✅ Migration 011-add-indirect-rate-structure completed successfully');
+      } else {
+        logger.info('⏭️  Migration 011-add-indirect-rate-structure already executed, skipping');
+      }
+
+      // Run migration 012-add-premium-tables
+      const [results12] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '012-add-premium-tables'"
+      );
+      
+      if (results12.length === 0) {
+        logger.info('📝 Running migration: 012-add-premium-tables');
+        await addPremiumTables(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('012-add-premium-tables', NOW())"
+        );
+        
+        logger.info('✅ Migration 012-add-premium-tables completed successfully');
+      } else {
+        logger.info('⏭️  Migration 012-add-premium-tables already executed, skipping');
+      }
+
+      // Run migration 013-add-workshare-requirement
+      const [results13] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '013-add-workshare-requirement'"
+      );
+      
+      if (results13.length === 0) {
+        logger.info('📝 Running migration: 013-add-workshare-requirement');
+        await addWorkshareRequirement(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('013-add-workshare-requirement', NOW())"
+        );
+        
+        logger.info('✅ Migration 013-add-workshare-requirement completed successfully');
+      } else {
+        logger.info('⏭️  Migration 013-add-workshare-requirement already executed, skipping');
+      }
+
+      // Run migration 014-add-project-clins
+      const [results14] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '014-add-project-clins'"
+      );
+      
+      if (results14.length === 0) {
+        logger.info('📝 Running migration: 014-add-project-clins');
+        await addProjectClins(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('014-add-project-clins', NOW())"
+        );
+        
+        logger.info('✅ Migration 014-add-project-clins completed successfully');
+      } else {
+        logger.info('⏭️  Migration 014-add-project-clins already executed, skipping');
+      }
+
+      // Run migration 015-create-project-versions
+      const [results15] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '015-create-project-versions'"
+      );
+      
+      if (results15.length === 0) {
+        logger.info('📝 Running migration: 015-create-project-versions');
+        await createProjectVersions(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('015-create-project-versions', NOW())"
+        );
+        
+        logger.info('✅ Migration 015-create-project-versions completed successfully');
+      } else {
+        logger.info('⏭️  Migration 015-create-project-versions already executed, skipping');
+      }
+
+      // Run migration 016-add-project-template-fields
+      const [results16] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '016-add-project-template-fields'"
+      );
+      
+      if (results16.length === 0) {
+        logger.info('📝 Running migration: 016-add-project-template-fields');
+        await addProjectTemplateFields(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('016-add-project-template-fields', NOW())"
+        );
+        
+        logger.info('✅ Migration 016-add-project-template-fields completed successfully');
+      } else {
+        logger.info('⏭️  Migration 016-add-project-template-fields already executed, skipping');
+      }
+
+      // Run migration 017-add-project-status
+      const [results17] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '017-add-project-status'"
+      );
+      
+      if (results17.length === 0) {
+        logger.info('📝 Running migration: 017-add-project-status');
+        await addProjectStatus(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('017-add-project-status', NOW())"
+        );
+        
+        logger.info('✅ Migration 017-add-project-status completed successfully');
+      } else {
+        logger.info('⏭️  Migration 017-add-project-status already executed, skipping');
+      }
+
+      // Run migration 018-add-project-calculation-summary
+      const [results18] = await this.sequelize.query(
+        "SELECT * FROM migrations WHERE name = '018-add-project-calculation-summary'"
+      );
+      
+      if (results18.length === 0) {
+        logger.info('📝 Running migration: 018-add-project-calculation-summary');
+        await addProjectCalculationSummary(this.sequelize.getQueryInterface());
+        
+        // Record migration as completed
+        await this.sequelize.query(
+          "INSERT INTO migrations (name, executed_at) VALUES ('018-add-project-calculation-summary', NOW())"
+        );
+        
+        logger.info('✅ Migration 018-add-project-calculation-summary completed successfully');
+      } else {
+        logger.info('⏭️  Migration 018-add-project-calculation-summary already executed, skipping');
       }
       
-      console.log('✅ All migrations completed successfully');
+      logger.info('✅ All migrations completed successfully');
     } catch (error) {
-      console.error('❌ Migration failed:', error);
+      logger.error('❌ Migration failed:', error);
       throw error;
     }
   }
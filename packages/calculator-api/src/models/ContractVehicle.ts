@@ -6,6 +6,7 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
 import { sequelize } from '../config/database';
+import { PremiumTable, RoundingPolicy, WorkshareRequirement } from '@pricing-calculator/types';
 
 export interface ContractVehicleAttributes {
   id: string;
@@ -21,6 +22,9 @@ export interface ContractVehicleAttributes {
   maxGaRate: number; // Maximum allowed G&A rate for this vehicle
   maxFeeRate: number; // Maximum allowed fee rate for this vehicle
   complianceRequirements: string[]; // Array of compliance requirements
+  roundingPolicy?: RoundingPolicy | null; // Overrides the tenant rounding policy for this vehicle
+  premiumTable?: PremiumTable | null; // Overrides the tenant premium table for this vehicle
+  workshareRequirement?: WorkshareRequirement | null; // Limitations on subcontracting: minimum prime share of the work
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -44,6 +48,9 @@ export class ContractVehicle extends Model<ContractVehicleAttributes, ContractVe
   public maxGaRate!: number;
   public maxFeeRate!: number;
   public complianceRequirements!: string[];
+  public roundingPolicy?: RoundingPolicy | null;
+  public premiumTable?: PremiumTable | null;
+  public workshareRequirement?: WorkshareRequirement | null;
   public isActive!: boolean;
   public createdAt!: Date;
   public updatedAt!: Date;
@@ -141,6 +148,19 @@ export class ContractVehicle extends Model<ContractVehicleAttributes, ContractVe
           allowNull: false,
           defaultValue: [],
         },
+        roundingPolicy: {
+          type: DataTypes.JSON,
+          allowNull: true,
+        },
+        premiumTable: {
+          type: DataTypes.JSON,
+          allowNull: true,
+        },
+        workshareRequirement: {
+          type: DataTypes.JSON,
+          allowNull: true,
+          comment: 'Minimum prime workshare, basis and enforcement for limitations on subcontracting',
+        },
         isActive: {
           type: DataTypes.BOOLEAN,
           allowNull: false,
@@ -6,7 +6,8 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
 import { sequelize } from '../config/database';
-import { ClearanceLevel, LocationType } from '@pricing-calculator/types';
+import { ClearanceLevel, LocationType, PremiumTable } from '@pricing-calculator/types';
+import { PremiumTables, PricingCalculationEngine } from '@pricing-calculator/core';
 
 export interface LaborCategoryAttributes {
   id: string;
@@ -49,16 +50,10 @@ export class LaborCategory extends Model<LaborCategoryAttributes, LaborCategoryC
   }
 
   /**
-   * Calculate clearance premium based on clearance level
+   * Calculate clearance premium based on clearance level (defaults to the standard premium table)
    */
-  public getClearancePremium(): number {
-    const premiums: Record<ClearanceLevel, number> = {
-      'None': 0,
-      'Public Trust': 0.05,
-      'Secret': 0.10,
-      'Top Secret': 0.20
-    };
-    return premiums[this.clearanceLevel];
+  public getClearancePremium(premiumTable?: PremiumTable): number {
+    return PricingCalculationEngine.calculateClearancePremium(this.clearanceLevel, premiumTable);
   }
 
   /**
@@ -159,7 +154,7 @@ export class LaborCategory extends Model<LaborCategoryAttributes, LaborCategoryC
           },
         },
         clearanceLevel: {
-          type: DataTypes.ENUM('None', 'Public Trust', 'Secret', 'Top Secret'),
+          type: DataTypes.ENUM(...PremiumTables.CLEARANCE_LEVELS),
           allowNull: false,
           defaultValue: 'None',
         },
@@ -5,6 +5,7 @@
 
 import { DataTypes, Model, Optional } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
+import { OtherDirectCostInput } from '@pricing-calculator/types';
 import { sequelize } from '../config/database';
 
 export type ODCategory = 'Travel' | 'Equipment' | 'Software' | 'Other';
@@ -38,6 +39,20 @@ export class OtherDirectCost extends Model<OtherDirectCostAttributes, OtherDirec
   public updatedAt!: Date;
   public deletedAt?: Date;
 
+  /**
+   * This ODC as an engine input
+   */
+  public toOtherDirectCostInput(): OtherDirectCostInput {
+    return {
+      id: this.id,
+      description: this.description,
+      amount: Number(this.amount),
+      category: this.category,
+      taxable: this.taxable,
+      taxRate: Number(this.taxRate),
+    };
+  }
+
   /**
    * Calculate tax amount for this ODC item
    */
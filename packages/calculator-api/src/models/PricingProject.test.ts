@@ -0,0 +1,112 @@
+import { StoredLaborCategory } from '@pricing-calculator/types';
+import { PricingProject } from './PricingProject';
+
+const stored: StoredLaborCategory = {
+  id: 'sub',
+  title: 'Cloud Engineer',
+  baseRate: 95,
+  hours: 1920,
+  ftePercentage: 100,
+  capacity: 0.5,
+  clearanceLevel: 'Secret',
+  location: 'On-site',
+  finalRate: 160,
+  finalRateMetadata: { source: 'manual', reason: 'Negotiated' },
+  companyRoleId: 'role-1',
+  companyRoleRate: 140000,
+  escalationRate: 0.04,
+  lcatId: 'lcat-1',
+  lcatRate: 175,
+  clearancePremium: 0.12,
+  locality: 'DC Metro',
+  primeOrSub: 'Subcontractor',
+  subcontractorCompany: 'Acme',
+  finalSubcontractorRate: 120,
+  slotId: 'slot-1',
+  assigneeName: 'J. Doe',
+  startDate: '2025-03-01',
+  endDate: '2025-09-30',
+  startSprint: 2,
+  sprintCount: 6,
+};
+
+const project = (laborCategoriesData: StoredLaborCategory[]): PricingProject => PricingProject.build({
+  id: 'project-1',
+  tenantId: 'tenant',
+  name: 'Mapping',
+  settings: {
+    overheadRate: 0.3,
+    gaRate: 0.1,
+    feeRate: 0.08,
+    contractType: 'FFP',
+    periodOfPerformance: { startDate: '2025-01-01', endDate: '2025-12-31' },
+  },
+  laborCategoriesData,
+  createdBy: 'user',
+  updatedBy: 'user',
+});
+
+describe('PricingProject.toCalculationInput', () => {
+  beforeAll(() => {
+    PricingProject.initModel();
+  });
+
+  it('maps every engine field of a stored line', () => {
+    const input = project([stored]).toCalculationInput();
+
+    expect(input.settings.projectId).toBe('project-1');
+    expect(input.laborCategories).toEqual([{
+      id: 'sub',
+      title: 'Cloud Engineer',
+      baseRate: 95,
+      hours: 1920,
+      ftePercentage: 100,
+      capacity: 0.5,
+      clearanceLevel: 'Secret',
+      location: 'On-site',
+      finalRate: 160,
+      finalRateMetadata: { source: 'manual', reason: 'Negotiated' },
+      companyRoleId: 'role-1',
+      escalationRate: 0.04,
+      annualSalary: 140000,
+      ceilingRate: 175,
+      lcatId: 'lcat-1',
+      clearancePremium: 0.12,
+      locality: 'DC Metro',
+      primeOrSub: 'Subcontractor',
+      subcontractorCompany: 'Acme',
+      finalSubcontractorRate: 120,
+      slotId: 'slot-1',
+      assigneeName: 'J. Doe',
+      startDate: '2025-03-01',
+      endDate: '2025-09-30',
+      startSprint: 2,
+      sprintCount: 6,
+    }]);
+  });
+
+  it('leaves out unset optional fields and keeps a stored salary without a company role rate', () => {
+    const [line] = project([{
+      title: 'Analyst',
+      baseRate: 60,
+      hours: 2080,
+      ftePercentage: 100,
+      clearanceLevel: 'None',
+      location: 'Remote',
+      companyRoleRate: 0,
+      finalRate: 0,
+      annualSalary: 90000,
+    }]).toCalculationInput().laborCategories;
+
+    expect(line).toEqual({
+      title: 'Analyst',
+      baseRate: 60,
+      hours: 2080,
+      ftePercentage: 100,
+      capacity: 1,
+      clearanceLevel: 'None',
+      location: 'Remote',
+      annualSalary: 90000,
+    });
+  });
+});
@@ -3,10 +3,23 @@
  * Represents a pricing project with settings, labor categories, and other direct costs
  */
 
-import { DataTypes, Model, Optional } from 'sequelize';
+import { DataTypes, Model, Optional, Transaction } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
 import { sequelize } from '../config/database';
-import { PricingSettings, ContractType } from '@pricing-calculator/types';
+import {
+  PricingSettings,
+  ContractType,
+  PricingPeriod,
+  CalculationInput,
+  ClinCalculationInput,
+  ClinInput,
+  OtherDirectCostInput,
+  ProjectCalculationSummary,
+  ProjectStatus,
+  ProjectTemplate,
+  StoredLaborCategory,
+} from '@pricing-calculator/types';
+import { ContractTypes, ProjectInputs } from '@pricing-calculator/core';
 import { LaborCategory } from './LaborCategory';
 import { OtherDirectCost } from './OtherDirectCost';
 
@@ -19,8 +32,16 @@ export interface PricingProjectAttributes {
   settings: PricingSettings;
   version: number;
   isTemplate: boolean;
+  templateCategory?: ProjectTemplate['category']; // Only set on templates
+  isPublicTemplate: boolean;
+  usageCount: number; // Projects created from this template
+  status: ProjectStatus;
+  calculationSummary?: ProjectCalculationSummary | null; // Recalculated on save; null when the project does not calculate
+  totalCost?: number | null; // Denormalized from calculationSummary for sorting
+  summaryStale: boolean; // Referenced rates or settings changed since the summary was calculated
   tags: string[];
-  laborCategoriesData: any[]; // Store complex labor category data as JSON
+  laborCategoriesData: StoredLaborCategory[]; // Store complex labor category data as JSON
+  clinsData?: ClinInput[]; // Optional CLIN / task tree, each CLIN with its own lines, ODCs and periods
   createdBy: string;
   updatedBy: string;
   createdAt: Date;
@@ -28,7 +49,7 @@ export interface PricingProjectAttributes {
   deletedAt?: Date;
 }
 
-export interface PricingProjectCreationAttributes extends Optional<PricingProjectAttributes, 'id' | 'description' | 'version' | 'isTemplate' | 'tags' | 'createdAt' | 'updatedAt' | 'deletedAt'> {}
+export interface PricingProjectCreationAttributes extends Optional<PricingProjectAttributes, 'id' | 'description' | 'clinsData' | 'version' | 'isTemplate' | 'templateCategory' | 'isPublicTemplate' | 'usageCount' | 'status' | 'calculationSummary' | 'totalCost' | 'summaryStale' | 'tags' | 'createdAt' | 'updatedAt' | 'deletedAt'> {}
 
 export class PricingProject extends Model<PricingProjectAttributes, PricingProjectCreationAttributes> implements PricingProjectAttributes {
   public id!: string;
@@ -39,8 +60,16 @@ export class PricingProject extends Model<PricingProjectAttributes, PricingProje
   public settings!: PricingSettings;
   public version!: number;
   public isTemplate!: boolean;
+  public templateCategory?: ProjectTemplate['category'];
+  public isPublicTemplate!: boolean;
+  public usageCount!: number;
+  public status!: ProjectStatus;
+  public calculationSummary?: ProjectCalculationSummary | null;
+  public totalCost?: number | null;
+  public summaryStale!: boolean;
   public tags!: string[];
-  public laborCategoriesData!: any[]; // Store complex labor category data as JSON
+  public laborCategoriesData!: StoredLaborCategory[]; // Store complex labor category data as JSON
+  public clinsData?: ClinInput[];
   public createdBy!: string;
   public updatedBy!: string;
   public createdAt!: Date;
@@ -85,8 +114,8 @@ export class PricingProject extends Model<PricingProjectAttributes, PricingProje
       errors.push('Fee rate must be between 0% and 100%');
     }
 
-    if (!this.settings.contractType || !['FFP', 'T&M', 'CPFF'].includes(this.settings.contractType)) {
-      errors.push('Contract type must be FFP, T&M, or CPFF');
+    if (!this.settings.contractType || !ContractTypes.TYPES.includes(this.settings.contractType)) {
+      errors.push('Contract type must be FFP, T&M, LH, CPFF, CPIF, or CPAF');
     }
 
     if (!this.settings.periodOfPerformance?.startDate || !this.settings.periodOfPerformance?.endDate) {
@@ -102,6 +131,16 @@ export class PricingProject extends Model<PricingProjectAttributes, PricingProje
       }
     }
 
+    if (this.settings.escalationRate !== undefined && this.settings.escalationRate < 0) {
+      errors.push('Escalation rate cannot be negative');
+    }
+
+    (this.settings.periods ?? []).forEach((period: PricingPeriod) => {
+      if (!period.startDate || !period.endDate || new Date(period.startDate) >= new Date(period.endDate)) {
+        errors.push(`${period.name || 'Period'} start date must be before end date`);
+      }
+    });
+
     return errors;
   }
 
@@ -145,16 +184,69 @@ export class PricingProject extends Model<PricingProjectAttributes, PricingProje
   /**
    * Get all other direct costs for this project
    */
-  public async getOtherDirectCosts(): Promise<OtherDirectCost[]> {
+  public async getOtherDirectCosts(transaction?: Transaction): Promise<OtherDirectCost[]> {
     const results = await OtherDirectCost.findAll({
       where: {
         projectId: this.id,
         tenantId: this.tenantId,
       },
+      ...(transaction ? { transaction } : {}),
     });
     return results as OtherDirectCost[];
   }
 
+  /**
+   * Other direct costs for this project as engine inputs
+   */
+  public async getOtherDirectCostInputs(transaction?: Transaction): Promise<OtherDirectCostInput[]> {
+    return (await this.getOtherDirectCosts(transaction)).map(odc => odc.toOtherDirectCostInput());
+  }
+
+  /**
+   * Build engine input from the stored settings and labor category JSON
+   */
+  public toCalculationInput(otherDirectCosts: OtherDirectCostInput[] = []): CalculationInput {
+    return ProjectInputs.build({ ...this.settings, projectId: this.id }, this.laborCategoriesData || [], otherDirectCosts);
+  }
+
+  /**
+   * Build CLIN engine input from the stored settings and CLIN tree
+   */
+  public toClinCalculationInput(includeOptional?: boolean): ClinCalculationInput {
+    return {
+      settings: { ...this.settings, projectId: this.id },
+      clins: this.clinsData || [],
+      ...(includeOptional !== undefined ? { includeOptional } : {}),
+    };
+  }
+
+  /**
+   * Template view of a project saved as a template
+   */
+  public toProjectTemplate(otherDirectCosts: OtherDirectCostInput[] = []): ProjectTemplate {
+    return {
+      id: this.id,
+      tenantId: this.tenantId,
+      name: this.name,
+      description: this.description || '',
+      project: {
+        name: this.name,
+        ...(this.description ? { description: this.description } : {}),
+        settings: this.settings,
+        laborCategories: this.laborCategoriesData || [],
+        otherDirectCosts,
+        isTemplate: true,
+        tags: this.tags || [],
+      },
+      ...(this.contractVehicle ? { contractVehicle: this.contractVehicle } : {}),
+      category: this.templateCategory || 'General',
+      isPublic: this.isPublicTemplate,
+      createdAt: new Date(this.createdAt).toISOString(),
+      createdBy: this.createdBy,
+      usageCount: this.usageCount,
+    };
+  }
+
   /**
    * Initialize the model
    */
@@ -199,6 +291,41 @@ export class PricingProject extends Model<PricingProjectAttributes, PricingProje
           defaultValue: false,
           field: 'isTemplate',
         },
+        templateCategory: {
+          type: DataTypes.STRING(20),
+          allowNull: true,
+        },
+        isPublicTemplate: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        usageCount: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        status: {
+          type: DataTypes.STRING(20),
+          allowNull: false,
+          defaultValue: 'draft',
+          validate: {
+            isIn: [['draft', 'active', 'archived']],
+          },
+        },
+        calculationSummary: {
+          type: DataTypes.JSONB,
+          allowNull: true,
+        },
+        totalCost: {
+          type: DataTypes.DECIMAL(15, 2),
+          allowNull: true,
+        },
+        summaryStale: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+        },
         tags: {
           type: DataTypes.ARRAY(DataTypes.TEXT),
           allowNull: false,
@@ -209,6 +336,11 @@ export class PricingProject extends Model<PricingProjectAttributes, PricingProje
           allowNull: true,
           defaultValue: [],
         },
+        clinsData: {
+          type: DataTypes.JSONB,
+          allowNull: true,
+          defaultValue: [],
+        },
         createdBy: {
           type: DataTypes.UUID,
           allowNull: false,
@@ -252,6 +384,9 @@ export class PricingProject extends Model<PricingProjectAttributes, PricingProje
           {
             fields: ['tenantId', 'isTemplate'],
           },
+          {
+            fields: ['status'],
+          },
         ],
         hooks: {
           beforeSave: (project: PricingProject) => {
@@ -0,0 +1,124 @@
+/**
+ * PricingProjectVersion Model
+ * Immutable snapshot of a pricing project taken on every save
+ */
+
+import { DataTypes, Model, Optional } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { sequelize } from '../config/database';
+import { PricingTotals, ProjectSnapshot, ProjectVersion } from '@pricing-calculator/types';
+
+export interface PricingProjectVersionAttributes {
+  id: string;
+  tenantId: string;
+  projectId: string;
+  version: number;
+  changeNote: string;
+  snapshot: ProjectSnapshot; // Settings, labor lines, ODCs, CLINs and project fields as saved
+  totals?: PricingTotals | null; // Computed at save; null when the project did not calculate
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface PricingProjectVersionCreationAttributes extends Optional<PricingProjectVersionAttributes, 'id' | 'changeNote' | 'totals' | 'createdAt'> {}
+
+export class PricingProjectVersion extends Model<PricingProjectVersionAttributes, PricingProjectVersionCreationAttributes> implements PricingProjectVersionAttributes {
+  public id!: string;
+  public tenantId!: string;
+  public projectId!: string;
+  public version!: number;
+  public changeNote!: string;
+  public snapshot!: ProjectSnapshot;
+  public totals?: PricingTotals | null;
+  public createdBy!: string;
+  public createdAt!: Date;
+
+  /**
+   * Shape the stored row as the shared ProjectVersion type
+   */
+  public toProjectVersion(): ProjectVersion {
+    return {
+      id: this.id,
+      projectId: this.projectId,
+      version: this.version,
+      changes: this.changeNote,
+      createdAt: new Date(this.createdAt).toISOString(),
+      createdBy: this.createdBy,
+      data: this.snapshot,
+      ...(this.totals ? { totals: this.totals } : {}),
+    };
+  }
+
+  /**
+   * Initialize the model
+   */
+  public static initModel(): void {
+    PricingProjectVersion.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: () => uuidv4(),
+          primaryKey: true,
+        },
+        tenantId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          field: 'tenantId',
+        },
+        projectId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          field: 'projectId',
+        },
+        version: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+        },
+        changeNote: {
+          type: DataTypes.TEXT,
+          allowNull: false,
+          defaultValue: '',
+          field: 'changeNote',
+        },
+        snapshot: {
+          type: DataTypes.JSONB,
+          allowNull: false,
+        },
+        totals: {
+          type: DataTypes.JSONB,
+          allowNull: true,
+        },
+        createdBy: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          field: 'createdBy',
+        },
+        createdAt: {
+          type: DataTypes.DATE,
+          allowNull: false,
+          defaultValue: DataTypes.NOW,
+        },
+      },
+      {
+        sequelize,
+        tableName: 'pricing_project_versions',
+        timestamps: true,
+        updatedAt: false, // Versions are never edited
+        indexes: [
+          {
+            fields: ['projectId'],
+          },
+          {
+            unique: true,
+            fields: ['projectId', 'version'],
+          },
+        ],
+        hooks: {
+          beforeUpdate: () => {
+            throw new Error('Project versions are immutable');
+          },
+        },
+      }
+    );
+  }
+}
@@ -6,12 +6,17 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
 import { sequelize } from '../config/database';
+import { IndirectRateStructure, PremiumTable, RoundingPolicy, SalaryPricingSettings } from '@pricing-calculator/types';
+import { Decimal, IndirectRateStructures, PremiumTables, RoundingPolicies } from '@pricing-calculator/core';
 
 export interface SystemSettingsAttributes {
   id: string;
   tenantId: string;
   wrapRate: number;
   minimumProfitRate: number;
+  roundingPolicy?: RoundingPolicy | null; // Tenant rounding policy; null uses the engine default
+  indirectRateStructure?: IndirectRateStructure | null; // Tenant indirect rate pools; null uses overhead → G&A
+  premiumTable?: PremiumTable | null; // Tenant clearance premiums and location differentials; null uses the standard table
   version: number;
   createdBy: string;
   updatedBy: string;
@@ -27,6 +32,9 @@ export class SystemSettings extends Model<SystemSettingsAttributes, SystemSettin
   public tenantId!: string;
   public wrapRate!: number;
   public minimumProfitRate!: number;
+  public roundingPolicy?: RoundingPolicy | null;
+  public indirectRateStructure?: IndirectRateStructure | null;
+  public premiumTable?: PremiumTable | null;
   public version!: number;
   public createdBy!: string;
   public updatedBy!: string;
@@ -46,25 +54,15 @@ export class SystemSettings extends Model<SystemSettingsAttributes, SystemSettin
   }
 
   /**
-   * Calculate wrap amount for a given annual salary
+   * Convert tenant wrap and minimum profit percentages into engine salary pricing settings
    */
-  public calculateWrapAmount(annualSalary: number): number {
-    const annualSalaryNum = typeof annualSalary === 'string' ? parseFloat(annualSalary) : annualSalary;
-    const result = Math.round((this.wrapRate * annualSalaryNum / 100) * 100) / 100;
-    return result;
-  }
+  public static toSalaryPricing(settings?: Partial<SystemSettingsAttributes> | null): SalaryPricingSettings {
+    const source = settings ?? SystemSettings.getDefaultSettings();
 
-  /**
-   * Calculate minimum profit amount for given annual salary and wrap amount
-   */
-  public calculateMinimumProfitAmount(annualSalary: number, wrapAmount: number): number {
-    const annualSalaryNum = typeof annualSalary === 'string' ? parseFloat(annualSalary) : annualSalary;
-    const wrapAmountNum = typeof wrapAmount === 'string' ? parseFloat(wrapAmount) : wrapAmount;
-    
-    const totalCost = annualSalaryNum + wrapAmountNum;
-    const result = Math.round((this.minimumProfitRate * totalCost / 100) * 100) / 100;
-    
-    return result;
+    return {
+      wrapRate: Decimal.from(source.wrapRate ?? 0).dividedBy(100).toNumber(),
+      minimumProfitRate: Decimal.from(source.minimumProfitRate ?? 0).dividedBy(100).toNumber(),
+    };
   }
 
   /**
@@ -81,6 +79,18 @@ export class SystemSettings extends Model<SystemSettingsAttributes, SystemSettin
       errors.push('Minimum profit rate must be between 0 and 100');
     }
 
+    if (this.roundingPolicy) {
+      errors.push(...RoundingPolicies.validate(this.roundingPolicy));
+    }
+
+    if (this.indirectRateStructure) {
+      errors.push(...IndirectRateStructures.validate(this.indirectRateStructure));
+    }
+
+    if (this.premiumTable) {
+      errors.push(...PremiumTables.validate(this.premiumTable));
+    }
+
     return errors;
   }
 
@@ -117,6 +127,18 @@ export class SystemSettings extends Model<SystemSettingsAttributes, SystemSettin
             max: 100,
           },
         },
+        roundingPolicy: {
+          type: DataTypes.JSONB,
+          allowNull: true,
+        },
+        indirectRateStructure: {
+          type: DataTypes.JSONB,
+          allowNull: true,
+        },
+        premiumTable: {
+          type: DataTypes.JSONB,
+          allowNull: true,
+        },
         version: {
           type: DataTypes.INTEGER,
           allowNull: false,
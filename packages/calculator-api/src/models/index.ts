@@ -5,6 +5,7 @@
 import { DatabaseService } from '../config/database';
 import { User } from './SimpleUser';
 import { PricingProject } from './PricingProject';
+import { PricingProjectVersion } from './PricingProjectVersion';
 import { LaborCategory } from './LaborCategory';
 import { OtherDirectCost } from './OtherDirectCost';
 import { AuditLog } from './AuditLog';
@@ -33,6 +34,7 @@ export class ModelManager {
       // Initialize all models
       User.initModel();
       PricingProject.initModel();
+      PricingProjectVersion.initModel();
       LaborCategory.initModel();
       OtherDirectCost.initModel();
       AuditLog.initModel();
@@ -68,6 +70,12 @@ export class ModelManager {
         as: 'project',
       });
 
+      PricingProject.hasMany(PricingProjectVersion, {
+        foreignKey: 'projectId',
+        as: 'versions',
+        onDelete: 'CASCADE',
+      });
+
       // LCAT Template associations - using JSON storage instead of many-to-many
 
       // Sync database (create tables if they don't exist)
@@ -85,6 +93,7 @@ export class ModelManager {
     return {
       User,
       PricingProject,
+      PricingProjectVersion,
       LaborCategory,
       OtherDirectCost,
       AuditLog,
@@ -106,5 +115,5 @@ export class ModelManager {
 }
 
 // Export models for use in other parts of the application
-export { User, PricingProject, LaborCategory, OtherDirectCost, AuditLog, ContractVehicle, A6Role, LaborCategoryTemplate, SystemSettings, CompanyRole, LCAT, ProjectRole, RateValidationRule };
+export { User, PricingProject, PricingProjectVersion, LaborCategory, OtherDirectCost, AuditLog, ContractVehicle, A6Role, LaborCategoryTemplate, SystemSettings, CompanyRole, LCAT, ProjectRole, RateValidationRule };
 export { DatabaseService } from '../config/database';
@@ -4,18 +4,25 @@
  */
 
 import express from 'express';
+import { ClearanceLevel, ClinCalculationInput, WorkCalendarSettings } from '@pricing-calculator/types';
+import { PremiumTables, RoundingPolicies, WorkCalendar } from '@pricing-calculator/core';
 import { PricingCalculationService, CalculationInput, ScenarioInput } from '../services/pricing-calculation.service';
+import { CalculationContextService } from '../services/calculation-context.service';
+import { PriceToWinService } from '../services/price-to-win.service';
+import { GoalSeekService } from '../services/goal-seek.service';
+import { MonteCarloService } from '../services/monte-carlo.service';
 
 const router = express.Router();
 
 /**
- * Calculate project pricing
+ * Calculate project pricing; pass explain: true for a step-by-step trace of every line and total
  */
 router.post('/calculate', async (req, res) => {
   try {
-    const input: CalculationInput = req.body;
+    const { contractVehicle, explain, ...body } = req.body;
+    const input: CalculationInput = await CalculationContextService.resolve(body, contractVehicle);
     
-    const result = PricingCalculationService.calculateProject(input);
+    const result = PricingCalculationService.calculateProject(input, { explain: explain === true });
     
     return res.json({
       success: true,
@@ -31,6 +38,191 @@ router.post('/calculate', async (req, res) => {
   }
 });
 
+/**
+ * Calculate a CLIN / task tree with per-CLIN and per-period subtotals
+ */
+router.post('/calculate-clins', async (req, res) => {
+  try {
+    const { contractVehicle, ...body } = req.body;
+
+    if (!body.settings || !Array.isArray(body.clins) || body.clins.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Settings and at least one CLIN are required'
+      });
+    }
+
+    const input: ClinCalculationInput = await CalculationContextService.resolveClins(body, contractVehicle);
+    const result = PricingCalculationService.calculateClins(input);
+
+    return res.json({
+      success: true,
+      result,
+      message: 'CLIN calculation completed successfully'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'CLIN calculation failed'
+    });
+  }
+});
+
+/**
+ * Solve for fee rate, ceiling discount or hours scale to hit a target price
+ */
+router.post('/solve', async (req, res) => {
+  try {
+    const { contractVehicle, target, solveFor, ...body } = req.body;
+
+    if (!target || !solveFor) {
+      return res.status(400).json({
+        success: false,
+        error: 'Target and solve variable are required'
+      });
+    }
+
+    const input: CalculationInput = await CalculationContextService.resolve(body, contractVehicle, { salaryPricing: true });
+    const result = PriceToWinService.solve({ ...input, target, solveFor });
+
+    return res.json({
+      success: true,
+      result,
+      message: result.feasible ? 'Price-to-win solve completed successfully' : 'Target price cannot be reached within constraints'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Price-to-win solve failed'
+    });
+  }
+});
+
+/**
+ * Goal seek final rates for a target profit percentage
+ */
+router.post('/goal-seek', async (req, res) => {
+  try {
+    const { contractVehicle, targetProfitPercentage, laborCategoryIds, ...body } = req.body;
+
+    if (targetProfitPercentage === undefined || targetProfitPercentage === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Target profit percentage is required'
+      });
+    }
+
+    const input: CalculationInput = await CalculationContextService.resolve(body, contractVehicle, { salaryPricing: true });
+    const result = GoalSeekService.solve({
+      ...input,
+      targetProfitPercentage,
+      ...(laborCategoryIds ? { laborCategoryIds } : {}),
+    });
+
+    return res.json({
+      success: true,
+      result,
+      message: 'Goal seek completed successfully'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Goal seek failed'
+    });
+  }
+});
+
+/**
+ * Monte Carlo cost-risk simulation against the bid price
+ */
+router.post('/simulate', async (req, res) => {
+  try {
+    const { contractVehicle, variables, iterations, seed, histogramBins, ...body } = req.body;
+
+    if (!variables) {
+      return res.status(400).json({
+        success: false,
+        error: 'Simulation variables are required'
+      });
+    }
+
+    const input: CalculationInput = await CalculationContextService.resolve(body, contractVehicle);
+    const result = MonteCarloService.simulate({
+      ...input,
+      variables,
+      ...(iterations !== undefined ? { iterations } : {}),
+      ...(seed !== undefined ? { seed } : {}),
+      ...(histogramBins !== undefined ? { histogramBins } : {}),
+    });
+
+    return res.json({
+      success: true,
+      result,
+      message: 'Simulation completed successfully'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Simulation failed'
+    });
+  }
+});
+
+/**
+ * Sensitivity analysis of total price and profit to each input
+ */
+router.post('/sensitivity', async (req, res) => {
+  try {
+    const { contractVehicle, perturbation, sortBy, ...body } = req.body;
+    const input: CalculationInput = await CalculationContextService.resolve(body, contractVehicle);
+
+    const result = PricingCalculationService.analyzeSensitivity(input, {
+      ...(perturbation !== undefined ? { perturbation } : {}),
+      ...(sortBy ? { sortBy } : {}),
+    });
+
+    return res.json({
+      success: true,
+      result,
+      message: 'Sensitivity analysis completed successfully'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Sensitivity analysis failed'
+    });
+  }
+});
+
+/**
+ * Pricing health report: findings for money-losing, under-target and over-allocated lines, scored 0-100
+ */
+router.post('/health', async (req, res) => {
+  try {
+    const { contractVehicle, ...body } = req.body;
+    const input: CalculationInput = await CalculationContextService.resolve(body, contractVehicle, { salaryPricing: true });
+
+    const result = PricingCalculationService.analyzeHealth(input);
+
+    return res.json({
+      success: true,
+      result,
+      message: 'Pricing health report completed successfully'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Pricing health report failed'
+    });
+  }
+});
+
 /**
  * Calculate individual labor category
  */
@@ -210,7 +402,7 @@ router.post('/burden-rate', async (req, res) => {
  */
 router.post('/effective-hours', async (req, res) => {
   try {
-    const { hours, ftePercentage } = req.body;
+    const { hours, ftePercentage, capacity } = req.body;
     
     if (hours === undefined || ftePercentage === undefined) {
       return res.status(400).json({
@@ -219,7 +411,7 @@ router.post('/effective-hours', async (req, res) => {
       });
     }
     
-    const effectiveHours = PricingCalculationService.calculateEffectiveHours(hours, ftePercentage);
+    const effectiveHours = PricingCalculationService.calculateEffectiveHours(hours, ftePercentage, capacity ?? 1);
     
     return res.json({
       success: true,
@@ -236,25 +428,92 @@ router.post('/effective-hours', async (req, res) => {
 });
 
 /**
- * Get clearance premium percentage
+ * Get available working hours for a date range: weekdays less federal holidays and leave
+ */
+router.get('/working-hours', async (req, res) => {
+  try {
+    const startDate = req.query['startDate'];
+    const endDate = req.query['endDate'];
+    
+    if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Start date and end date are required'
+      });
+    }
+    
+    const calendar: WorkCalendarSettings = {
+      ...(req.query['hoursPerDay'] !== undefined ? { hoursPerDay: Number(req.query['hoursPerDay']) } : {}),
+      ...(req.query['leaveHoursPerYear'] !== undefined ? { leaveHoursPerYear: Number(req.query['leaveHoursPerYear']) } : {}),
+    };
+    const calendarErrors = WorkCalendar.validate(calendar);
+    if (calendarErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: calendarErrors.join(', ')
+      });
+    }
+    
+    const workingHours = WorkCalendar.calculateWorkingHours(startDate, endDate, calendar);
+    
+    return res.json({
+      success: true,
+      workingHours,
+      message: 'Working hours calculated successfully'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Working hours calculation failed'
+    });
+  }
+});
+
+/**
+ * List built-in rounding policies
+ */
+router.get('/rounding-policies', async (_req, res) => {
+  try {
+    return res.json({
+      success: true,
+      policies: RoundingPolicies.list(),
+      defaultPolicy: RoundingPolicies.DEFAULT,
+      message: 'Rounding policies retrieved successfully'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to retrieve rounding policies'
+    });
+  }
+});
+
+/**
+ * Get clearance premium percentage from the tenant (or contract vehicle) premium table
  */
 router.get('/clearance-premium/:level', async (req, res) => {
   try {
     const { level } = req.params;
     
-    if (!level || !['None', 'Public Trust', 'Secret', 'Top Secret'].includes(level)) {
+    if (!level || !PremiumTables.CLEARANCE_LEVELS.includes(level as ClearanceLevel)) {
       return res.status(400).json({
         success: false,
         error: 'Invalid clearance level'
       });
     }
     
-    const premium = PricingCalculationService.calculateClearancePremium(level as any);
+    const contractVehicle = typeof req.query['contractVehicle'] === 'string' ? req.query['contractVehicle'] : undefined;
+    const premiumTable = await CalculationContextService.resolvePremiumTable(contractVehicle);
+    const premium = PricingCalculationService.calculateClearancePremium(level as ClearanceLevel, premiumTable);
     
     return res.json({
       success: true,
       clearanceLevel: level,
       premium,
+      premiumTable: premiumTable.name,
+      source: premiumTable.source,
       message: 'Clearance premium retrieved successfully'
     });
   } catch (error) {
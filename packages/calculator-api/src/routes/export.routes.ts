@@ -26,10 +26,14 @@ router.post('/excel', async (req, res) => {
     }
     
     // Perform calculation
-    const calculationResult = PricingCalculationService.calculateProject(calculationInput);
+    const calculationResult = PricingCalculationService.calculateProject(calculationInput, { explain: options.includeTrace === true });
+    
+    const sensitivity = options.includeSensitivity
+      ? PricingCalculationService.analyzeSensitivity(calculationInput, { perturbation: options.sensitivityPerturbation })
+      : undefined;
     
     // Export to Excel
-    const excelBuffer = await ExcelExportService.exportToExcel(calculationResult, options);
+    const excelBuffer = await ExcelExportService.exportToExcel(calculationResult, options, sensitivity);
     
     // Set response headers for file download
     const filename = `pricing-calculation-${new Date().toISOString().split('T')[0]}.xlsx`;
@@ -76,7 +80,7 @@ router.post('/excel/:template', async (req, res) => {
     }
     
     // Perform calculation
-    const calculationResult = PricingCalculationService.calculateProject(calculationInput);
+    const calculationResult = PricingCalculationService.calculateProject(calculationInput, { explain: options.includeTrace === true });
     
     // Set template in options
     const exportOptions: ExcelExportOptions = {
@@ -84,8 +88,12 @@ router.post('/excel/:template', async (req, res) => {
       template: template as 'basic' | 'va-spruce' | 'gsa-mas'
     };
     
+    const sensitivity = options.includeSensitivity
+      ? PricingCalculationService.analyzeSensitivity(calculationInput, { perturbation: options.sensitivityPerturbation })
+      : undefined;
+    
     // Export to Excel
-    const excelBuffer = await ExcelExportService.exportToExcel(calculationResult, exportOptions);
+    const excelBuffer = await ExcelExportService.exportToExcel(calculationResult, exportOptions, sensitivity);
     
     // Set response headers for file download
     const filename = `pricing-calculation-${template}-${new Date().toISOString().split('T')[0]}.xlsx`;
@@ -106,6 +114,46 @@ router.post('/excel/:template', async (req, res) => {
   }
 });
 
+/**
+ * Export a CLIN / task structure to Excel, one price table per CLIN
+ * POST /api/export/clins/excel
+ */
+router.post('/clins/excel', async (req, res) => {
+  try {
+    const { clinInput, options = {} } = req.body;
+
+    if (!clinInput || !Array.isArray(clinInput.clins) || clinInput.clins.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'CLIN input with at least one CLIN is required'
+      });
+    }
+
+    // Perform calculation
+    const clinResult = PricingCalculationService.calculateClins(clinInput);
+
+    // Export to Excel
+    const excelBuffer = await ExcelExportService.exportClinsToExcel(clinResult, options);
+
+    // Set response headers for file download
+    const filename = `pricing-clins-${new Date().toISOString().split('T')[0]}.xlsx`;
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Length', excelBuffer.length);
+
+    // Send Excel file
+    return res.send(excelBuffer);
+
+  } catch (error) {
+    console.error('Excel export error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to export to Excel',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * Get available export templates
  * GET /api/export/templates
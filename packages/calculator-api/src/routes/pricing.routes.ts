@@ -7,6 +7,14 @@ import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { PricingProject, LaborCategory, OtherDirectCost } from '../models';
 import { PricingSettings, LaborCategory as LaborCategoryType, OtherDirectCost as OtherDirectCostType } from '@pricing-calculator/types';
+import { ProjectSortField, ProjectStatus, ProjectTemplate } from '@pricing-calculator/types';
+import { PricingCalculationEngine } from '@pricing-calculator/core';
+import { CalculationContextService } from '../services/calculation-context.service';
+import { GoalSeekService } from '../services/goal-seek.service';
+import { PricingCalculationService } from '../services/pricing-calculation.service';
+import { PROJECT_SORT_FIELDS, ProjectSearchService } from '../services/project-search.service';
+import { ProjectTemplateService } from '../services/project-template.service';
+import { ProjectVersionService } from '../services/project-version.service';
 
 const router = express.Router();
 
@@ -195,81 +203,30 @@ router.get('/calculate/:projectId', async (req, res) => {
       where: { projectId }
     });
 
-    // Calculate totals
-    const settings = project.settings;
-    let totalLaborCost = 0;
-    let totalODCCost = 0;
-    let totalEffectiveHours = 0;
-
-    const laborResults = laborCategories.map(lc => {
-      const effectiveHours = lc.calculateEffectiveHours();
-      const clearanceAdjustedRate = lc.getClearanceAdjustedRate();
-      const burdenedRate = lc.calculateBurdenedRate(
-        settings.overheadRate,
-        settings.gaRate,
-        settings.feeRate
-      );
-      const totalCost = burdenedRate * effectiveHours;
-
-      totalLaborCost += totalCost;
-      totalEffectiveHours += effectiveHours;
-
-      return {
+    const calculation = PricingCalculationEngine.calculateProject({
+      settings: { ...project.settings, projectId: project.id },
+      laborCategories: laborCategories.map(lc => ({
         id: lc.id,
         title: lc.title,
-        baseRate: lc.baseRate,
-        hours: lc.hours,
-        ftePercentage: lc.ftePercentage,
-        effectiveHours,
+        baseRate: Number(lc.baseRate),
+        hours: Number(lc.hours),
+        ftePercentage: Number(lc.ftePercentage),
         clearanceLevel: lc.clearanceLevel,
         location: lc.location,
-        clearancePremium: lc.getClearancePremium(),
-        clearanceAdjustedRate,
-        overheadAmount: clearanceAdjustedRate * settings.overheadRate * effectiveHours,
-        overheadRate: settings.overheadRate,
-        gaAmount: clearanceAdjustedRate * (1 + settings.overheadRate) * settings.gaRate * effectiveHours,
-        gaRate: settings.gaRate,
-        feeAmount: clearanceAdjustedRate * (1 + settings.overheadRate) * (1 + settings.gaRate) * settings.feeRate * effectiveHours,
-        feeRate: settings.feeRate,
-        totalCost,
-        burdenedRate,
-      };
-    });
-
-    const odcResults = otherDirectCosts.map(odc => {
-      const taxAmount = Number(odc.calculateTaxAmount());
-      const totalAmount = Number(odc.calculateTotalAmount());
-      
-      totalODCCost += totalAmount;
-
-      return {
+      })),
+      otherDirectCosts: otherDirectCosts.map(odc => ({
         id: odc.id,
         description: odc.description,
         amount: Number(odc.amount),
         category: odc.category,
         taxable: odc.taxable,
-        taxAmount,
-        totalAmount,
-      };
+        taxRate: Number(odc.taxRate),
+      })),
     });
 
-    const totalProjectCost = totalLaborCost + totalODCCost;
-    const averageBurdenedRate = totalEffectiveHours > 0 ? totalLaborCost / totalEffectiveHours : 0;
-
     res.json({
       success: true,
-      calculation: {
-        laborCategories: laborResults,
-        otherDirectCosts: odcResults,
-        totals: {
-          totalLaborCost,
-          totalODCCost,
-          totalProjectCost,
-          totalEffectiveHours,
-          averageBurdenedRate,
-        },
-        settings,
-      },
+      calculation,
       message: 'Calculation completed successfully'
     });
   } catch (error) {
@@ -282,24 +239,79 @@ router.get('/calculate/:projectId', async (req, res) => {
 });
 
 /**
- * Get all projects
+ * Search projects, one page of summaries at a time
+ * GET /api/pricing/projects?search=&tags=a,b&contractType=&contractVehicle=&status=&createdBy=
+ *   &modifiedFrom=&modifiedTo=&sortBy=lastModified|totalCost|name&sortOrder=desc&page=1&limit=20
  */
 router.get('/projects', async (req, res) => {
   try {
-    const projects = await PricingProject.findAll({
-      include: [
-        { model: OtherDirectCost, as: 'otherDirectCosts' }
-      ],
-      order: [['updatedAt', 'DESC']]
-    });
+    const query = (key: string) => typeof req.query[key] === 'string' && req.query[key] ? String(req.query[key]) : undefined;
+    const search = query('search');
+    const contractType = query('contractType');
+    const contractVehicle = query('contractVehicle');
+    const status = query('status');
+    const createdBy = query('createdBy');
+    const modifiedFrom = query('modifiedFrom');
+    const modifiedTo = query('modifiedTo');
+    const sortBy = query('sortBy');
+    const sortOrder = query('sortOrder');
+    const page = Number(query('page'));
+    const limit = Number(query('limit'));
+    const tags = ([] as unknown[]).concat(req.query['tags'] ?? [])
+      .flatMap((tag): string[] => typeof tag === 'string' ? tag.split(',') : [])
+      .map(tag => tag.trim())
+      .filter(Boolean);
 
-    res.json({
+    if (status && !['draft', 'active', 'archived'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid status',
+        message: 'status must be draft, active or archived'
+      });
+    }
+
+    if ((sortBy && !PROJECT_SORT_FIELDS.includes(sortBy as ProjectSortField)) || (sortOrder && sortOrder !== 'asc' && sortOrder !== 'desc')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid sort',
+        message: `sortBy must be one of ${PROJECT_SORT_FIELDS.join(', ')} and sortOrder asc or desc`
+      });
+    }
+
+    const invalidDate = [modifiedFrom, modifiedTo].find(date => date !== undefined && !Number.isFinite(Date.parse(date)));
+    if (invalidDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date',
+        message: `${invalidDate} is not a valid date`
+      });
+    }
+
+    const result = await ProjectSearchService.search(
+      {
+        ...(search ? { name: search } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(contractType ? { contractType } : {}),
+        ...(contractVehicle ? { contractVehicle } : {}),
+        ...(status ? { status: status as ProjectStatus } : {}),
+        ...(createdBy ? { createdBy } : {}),
+        ...(modifiedFrom || modifiedTo ? { dateRange: { start: modifiedFrom ?? '', end: modifiedTo ?? '' } } : {}),
+      },
+      {
+        ...(sortBy ? { sortBy } : {}),
+        ...(sortOrder === 'asc' || sortOrder === 'desc' ? { sortOrder } : {}),
+        ...(Number.isFinite(page) ? { page } : {}),
+        ...(Number.isFinite(limit) ? { limit } : {}),
+      }
+    );
+
+    return res.json({
       success: true,
-      projects,
+      ...result,
       message: 'Projects retrieved successfully'
     });
   } catch (error) {
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
       message: 'Failed to retrieve projects'
@@ -335,6 +347,7 @@ router.get('/projects/:id', async (req, res) => {
       });
     }
 
+    res.set('ETag', ProjectVersionService.etag(project.version));
     res.json({
       success: true,
       project,
@@ -363,7 +376,10 @@ router.post('/projects', async (req, res) => {
       settings,
       laborCategories = [],
       otherDirectCosts = [],
-      tags = []
+      clins = [],
+      tags = [],
+      status,
+      changeNote
     } = req.body;
 
     if (!name || !name.trim()) {
@@ -402,15 +418,19 @@ router.post('/projects', async (req, res) => {
       contractVehicle: contractVehicle,
       settings: mergedSettings,
       laborCategoriesData: laborCategories, // Store as JSON data
+      clinsData: clins,
       otherDirectCosts,
       tags,
+      ...(status ? { status } : {}),
       createdBy: uuidv4(), // In real app, get from auth context
       updatedBy: uuidv4(), // In real app, get from auth context
     });
 
     console.log('🔍 API /projects - Project created successfully:', project.id);
 
-    res.status(201).json({
+    await ProjectVersionService.snapshot(project, changeNote || 'Created');
+
+    res.status(201).set('ETag', ProjectVersionService.etag(project.version)).json({
       success: true,
       project,
       message: 'Project created successfully'
@@ -429,6 +449,7 @@ router.post('/projects', async (req, res) => {
 
 /**
  * Update an existing project
+ * Requires the version the changes are based on, as "version" in the body or an If-Match ETag; stale saves get a 409
  */
 router.put('/projects/:id', async (req, res) => {
   try {
@@ -442,11 +463,24 @@ router.put('/projects/:id', async (req, res) => {
       settings,
       laborCategories,
       otherDirectCosts,
-      tags
+      clins,
+      tags,
+      status,
+      changeNote,
+      version
     } = req.body;
 
-    const project = await PricingProject.findByPk(id);
-    if (!project) {
+    const expectedVersion = ProjectVersionService.expectedVersion(version, req.get('If-Match'));
+    if (expectedVersion === undefined) {
+      return res.status(428).json({
+        success: false,
+        error: 'Project version is required',
+        message: 'Send the version your changes are based on as "version" or an If-Match header'
+      });
+    }
+
+    const current = await PricingProject.findByPk(id);
+    if (!current) {
       return res.status(404).json({
         success: false,
         error: 'Project not found',
@@ -454,41 +488,70 @@ router.put('/projects/:id', async (req, res) => {
       });
     }
 
-    // Update project fields
-    const updateData: any = {
-      updatedBy: uuidv4(), // In real app, get from auth context
-      updatedAt: new Date()
-    };
+    if (current.version !== expectedVersion) {
+      return res.status(409).set('ETag', ProjectVersionService.etag(current.version)).json({
+        success: false,
+        ...ProjectVersionService.conflict(current, expectedVersion)
+      });
+    }
+
+    // Keep the state being overwritten when the project predates versioning
+    await ProjectVersionService.ensureSnapshot(current);
 
-    if (name !== undefined) updateData.name = name.trim();
-    if (description !== undefined) updateData.description = description?.trim();
-    if (contractVehicle !== undefined) updateData.contractVehicle = contractVehicle;
-    if (settings !== undefined) {
-      // Merge provided settings with existing project settings to preserve required fields
-      const existingSettings = project.settings;
-      const mergedSettings = {
-        ...existingSettings,
-        ...settings,
-        // Ensure periodOfPerformance is properly merged
-        periodOfPerformance: {
-          ...existingSettings.periodOfPerformance,
-          ...settings.periodOfPerformance,
-        },
+    // Update project fields; every save is a new version
+    const { project, saved } = await ProjectVersionService.update(id, expectedVersion, async locked => {
+      const updateData: any = {
+        updatedAt: new Date()
       };
-      updateData.settings = mergedSettings;
+
+      if (name !== undefined) updateData.name = name.trim();
+      if (description !== undefined) updateData.description = description?.trim();
+      if (contractVehicle !== undefined) updateData.contractVehicle = contractVehicle;
+      if (settings !== undefined) {
+        // Merge provided settings with existing project settings to preserve required fields
+        const existingSettings = locked.settings;
+        const mergedSettings = {
+          ...existingSettings,
+          ...settings,
+          // Ensure periodOfPerformance is properly merged
+          periodOfPerformance: {
+            ...existingSettings.periodOfPerformance,
+            ...settings.periodOfPerformance,
+          },
+        };
+        updateData.settings = mergedSettings;
+      }
+      if (laborCategories !== undefined) updateData.laborCategoriesData = laborCategories;
+      if (otherDirectCosts !== undefined) updateData.otherDirectCosts = otherDirectCosts;
+      if (clins !== undefined) updateData.clinsData = clins;
+      if (tags !== undefined) updateData.tags = tags;
+      if (status !== undefined) updateData.status = status;
+
+      console.log('🔍 API PUT /projects/:id - Update data:', JSON.stringify(updateData, null, 2));
+      return updateData;
+    }, changeNote || '');
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        message: `Project with ID ${id} does not exist`
+      });
+    }
+
+    if (!saved) {
+      return res.status(409).set('ETag', ProjectVersionService.etag(project.version)).json({
+        success: false,
+        ...ProjectVersionService.conflict(project, expectedVersion)
+      });
     }
-    if (laborCategories !== undefined) updateData.laborCategoriesData = laborCategories;
-    if (otherDirectCosts !== undefined) updateData.otherDirectCosts = otherDirectCosts;
-    if (tags !== undefined) updateData.tags = tags;
 
-    console.log('🔍 API PUT /projects/:id - Update data:', JSON.stringify(updateData, null, 2));
-    
-    await project.update(updateData);
     console.log('🔍 API PUT /projects/:id - Project updated successfully');
 
     // Fetch updated project
     const updatedProject = await PricingProject.findByPk(id);
 
+    res.set('ETag', ProjectVersionService.etag(project.version));
     res.json({
       success: true,
       project: updatedProject,
@@ -506,6 +569,468 @@ router.put('/projects/:id', async (req, res) => {
   }
 });
 
+/**
+ * Calculate a project's CLIN / task tree, optionally leaving optional CLINs out of the evaluated total
+ */
+router.get('/projects/:id/clins', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const includeOptional = req.query['includeOptional'] === undefined
+      ? undefined
+      : req.query['includeOptional'] !== 'false';
+
+    const project = await PricingProject.findByPk(id);
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        message: `Project with ID ${id} does not exist`
+      });
+    }
+
+    if (!project.clinsData || project.clinsData.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Project has no CLINs'
+      });
+    }
+
+    const input = await CalculationContextService.resolveClins(
+      project.toClinCalculationInput(includeOptional),
+      project.contractVehicle
+    );
+    const result = PricingCalculationService.calculateClins(input);
+
+    return res.json({
+      success: true,
+      result,
+      message: 'CLIN calculation completed successfully'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'CLIN calculation failed'
+    });
+  }
+});
+
+/**
+ * Goal seek project final rates for a target profit percentage, optionally saving them
+ * Saving checks the project version like PUT: "version" in the body or an If-Match ETag, else the version solved from
+ */
+router.post('/projects/:id/goal-seek', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { targetProfitPercentage, laborCategoryIds, apply = false, version } = req.body;
+
+    if (targetProfitPercentage === undefined || targetProfitPercentage === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Target profit percentage is required'
+      });
+    }
+
+    const project = await PricingProject.findByPk(id);
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        message: `Project with ID ${id} does not exist`
+      });
+    }
+
+    const input = await CalculationContextService.resolve(
+      project.toCalculationInput(),
+      project.contractVehicle,
+      { salaryPricing: true }
+    );
+    const result = GoalSeekService.solve({
+      ...input,
+      targetProfitPercentage,
+      ...(laborCategoryIds ? { laborCategoryIds } : {}),
+    });
+
+    if (!apply) {
+      return res.json({
+        success: true,
+        result,
+        applied: false,
+        message: 'Goal seek completed successfully'
+      });
+    }
+
+    const expectedVersion = ProjectVersionService.expectedVersion(version, req.get('If-Match')) ?? project.version;
+    if (project.version !== expectedVersion) {
+      return res.status(409).set('ETag', ProjectVersionService.etag(project.version)).json({
+        success: false,
+        ...ProjectVersionService.conflict(project, expectedVersion)
+      });
+    }
+
+    await ProjectVersionService.ensureSnapshot(project);
+
+    const { project: updated, saved } = await ProjectVersionService.update(id, expectedVersion, async locked => ({
+      laborCategoriesData: (locked.laborCategoriesData || []).map((lc, index) => {
+        const solved = result.lines.find(line => line.index === index);
+        const solvedInput = result.laborCategories[index];
+        return solved?.solved && solved.rate !== undefined && solvedInput
+          ? {
+            ...lc,
+            finalRate: solved.rate,
+            ...(solvedInput.finalRateMetadata ? { finalRateMetadata: solvedInput.finalRateMetadata } : {}),
+          }
+          : lc;
+      }),
+    }), `Goal seek final rates for ${(targetProfitPercentage * 100).toFixed(2)}% profit`);
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        message: `Project with ID ${id} does not exist`
+      });
+    }
+
+    if (!saved) {
+      return res.status(409).set('ETag', ProjectVersionService.etag(updated.version)).json({
+        success: false,
+        ...ProjectVersionService.conflict(updated, expectedVersion)
+      });
+    }
+
+    return res.set('ETag', ProjectVersionService.etag(updated.version)).json({
+      success: true,
+      result,
+      applied: true,
+      project: await PricingProject.findByPk(id),
+      message: 'Goal seek rates applied to project'
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Goal seek failed'
+    });
+  }
+});
+
+/**
+ * List a project's versions, newest first
+ */
+router.get('/projects/:id/versions', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const project = await PricingProject.findByPk(id);
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        message: `Project with ID ${id} does not exist`
+      });
+    }
+
+    const versions = await ProjectVersionService.list(id);
+
+    return res.json({
+      success: true,
+      versions,
+      currentVersion: project.version,
+      message: 'Project versions retrieved successfully'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to retrieve project versions'
+    });
+  }
+});
+
+/**
+ * Diff two versions of a project
+ * GET /api/pricing/projects/:id/versions/diff?from=1&to=2
+ */
+router.get('/projects/:id/versions/diff', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const from = Number(req.query['from']);
+    const to = Number(req.query['to']);
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to version numbers are required'
+      });
+    }
+
+    const diff = await ProjectVersionService.diff(id, from, to);
+
+    return res.json({
+      success: true,
+      diff,
+      message: 'Project versions compared successfully'
+    });
+  } catch (error) {
+    return res.status(404).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to compare project versions'
+    });
+  }
+});
+
+/**
+ * Get one version of a project
+ */
+router.get('/projects/:id/versions/:version', async (req, res) => {
+  try {
+    const { id, version } = req.params;
+    const found = await ProjectVersionService.find(id, Number(version));
+
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        error: 'Version not found',
+        message: `Version ${version} of project ${id} does not exist`
+      });
+    }
+
+    return res.json({
+      success: true,
+      version: found,
+      message: 'Project version retrieved successfully'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to retrieve project version'
+    });
+  }
+});
+
+/**
+ * Restore an older version of a project as a new version
+ * Checks the project version like PUT: "version" in the body or an If-Match ETag, else the version when the request arrived
+ */
+router.post('/projects/:id/versions/:version/restore', async (req, res) => {
+  try {
+    const { id, version } = req.params;
+    const { changeNote, version: bodyVersion } = req.body;
+
+    const project = await PricingProject.findByPk(id);
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        message: `Project with ID ${id} does not exist`
+      });
+    }
+
+    const expectedVersion = ProjectVersionService.expectedVersion(bodyVersion, req.get('If-Match')) ?? project.version;
+    if (project.version !== expectedVersion) {
+      return res.status(409).set('ETag', ProjectVersionService.etag(project.version)).json({
+        success: false,
+        ...ProjectVersionService.conflict(project, expectedVersion)
+      });
+    }
+
+    const { project: updated, saved, version: restored } = await ProjectVersionService.restore(
+      project,
+      Number(version),
+      expectedVersion,
+      changeNote
+    );
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        message: `Project with ID ${id} does not exist`
+      });
+    }
+
+    if (!saved || !restored) {
+      return res.status(409).set('ETag', ProjectVersionService.etag(updated.version)).json({
+        success: false,
+        ...ProjectVersionService.conflict(updated, expectedVersion)
+      });
+    }
+
+    return res.set('ETag', ProjectVersionService.etag(updated.version)).json({
+      success: true,
+      project: await PricingProject.findByPk(id),
+      version: restored,
+      message: `Version ${version} restored as version ${restored.version}`
+    });
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to restore project version'
+    });
+  }
+});
+
+/**
+ * Save a project as a template, without assignee names or salaries
+ */
+router.post('/templates', async (req, res) => {
+  try {
+    const { name, projectId } = req.body;
+
+    if (!name || !name.trim() || !projectId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Template name and projectId are required',
+        message: 'Please provide a template name and the project to save'
+      });
+    }
+
+    const project = await PricingProject.findByPk(projectId);
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        message: `Project with ID ${projectId} does not exist`
+      });
+    }
+
+    const template = await ProjectTemplateService.create(project, req.body);
+
+    return res.status(201).json({
+      success: true,
+      template,
+      message: 'Template created successfully'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to create template'
+    });
+  }
+});
+
+/**
+ * List templates, most used first
+ * GET /api/pricing/templates?search=&category=&contractType=&contractVehicle=&page=1&limit=20
+ */
+router.get('/templates', async (req, res) => {
+  try {
+    const query = (key: string) => typeof req.query[key] === 'string' && req.query[key] ? String(req.query[key]) : undefined;
+    const search = query('search');
+    const category = query('category');
+    const contractType = query('contractType');
+    const contractVehicle = query('contractVehicle');
+    const page = Number(query('page'));
+    const limit = Number(query('limit'));
+
+    const result = await ProjectTemplateService.search({
+      ...(search ? { search } : {}),
+      ...(category ? { category: category as ProjectTemplate['category'] } : {}),
+      ...(contractType ? { contractType } : {}),
+      ...(contractVehicle ? { contractVehicle } : {}),
+      ...(Number.isFinite(page) ? { page } : {}),
+      ...(Number.isFinite(limit) ? { limit } : {}),
+    });
+
+    return res.json({
+      success: true,
+      ...result,
+      message: 'Templates retrieved successfully'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to retrieve templates'
+    });
+  }
+});
+
+/**
+ * Get a template
+ */
+router.get('/templates/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const template = await ProjectTemplateService.find(id);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+        message: `Template with ID ${id} does not exist`
+      });
+    }
+
+    return res.json({
+      success: true,
+      template,
+      message: 'Template retrieved successfully'
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to retrieve template'
+    });
+  }
+});
+
+/**
+ * Create a project from a template; its dates move so the period of performance starts on startDate (default today)
+ */
+router.post('/templates/:id/instantiate', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, startDate } = req.body;
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Project name is required',
+        message: 'Please provide a valid project name'
+      });
+    }
+
+    if (startDate !== undefined && !Number.isFinite(Date.parse(startDate))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid start date',
+        message: `startDate ${startDate} is not a valid date`
+      });
+    }
+
+    const template = await ProjectTemplateService.findTemplate(id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+        message: `Template with ID ${id} does not exist`
+      });
+    }
+
+    const project = await ProjectTemplateService.instantiate(template, req.body);
+
+    return res.status(201).set('ETag', ProjectVersionService.etag(project.version)).json({
+      success: true,
+      project: await PricingProject.findByPk(project.id, {
+        include: [{ model: OtherDirectCost, as: 'otherDirectCosts' }]
+      }),
+      message: `Project created from template ${template.name}`
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      message: 'Failed to create project from template'
+    });
+  }
+});
+
 /**
  * Delete a project
  */
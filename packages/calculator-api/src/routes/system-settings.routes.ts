@@ -6,6 +6,8 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { SystemSettings } from '../models';
+import { ProjectSummaryService } from '../services/project-summary.service';
+import { IndirectRateStructures, PremiumTables, RoundingPolicies } from '@pricing-calculator/core';
 
 const router = express.Router();
 
@@ -38,6 +40,9 @@ router.get('/', async (req, res) => {
       settings: {
         wrapRate: settings.wrapRate,
         minimumProfitRate: settings.minimumProfitRate,
+        roundingPolicy: settings.roundingPolicy ?? RoundingPolicies.DEFAULT,
+        indirectRateStructure: settings.indirectRateStructure ?? IndirectRateStructures.DEFAULT,
+        premiumTable: settings.premiumTable ?? PremiumTables.DEFAULT,
         version: settings.version,
       },
       message: 'System settings retrieved successfully'
@@ -56,7 +61,40 @@ router.get('/', async (req, res) => {
  */
 router.put('/', async (req, res) => {
   try {
-    const { wrapRate, minimumProfitRate } = req.body;
+    const { wrapRate, minimumProfitRate, roundingPolicy, indirectRateStructure, premiumTable } = req.body;
+
+    if (roundingPolicy) {
+      const policyErrors = RoundingPolicies.validate(roundingPolicy);
+      if (policyErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: policyErrors.join(', '),
+          message: 'Invalid rounding policy'
+        });
+      }
+    }
+
+    if (indirectRateStructure) {
+      const structureErrors = IndirectRateStructures.validate(indirectRateStructure);
+      if (structureErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: structureErrors.join(', '),
+          message: 'Invalid indirect rate structure'
+        });
+      }
+    }
+
+    if (premiumTable) {
+      const premiumErrors = PremiumTables.validate(premiumTable);
+      if (premiumErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: premiumErrors.join(', '),
+          message: 'Invalid premium table'
+        });
+      }
+    }
     
     // For now, use a default tenant ID. In real app, get from auth context
     const tenantId = 'default-tenant';
@@ -71,6 +109,9 @@ router.put('/', async (req, res) => {
         tenantId,
         wrapRate: wrapRate ?? 87.5,
         minimumProfitRate: minimumProfitRate ?? 7.53,
+        roundingPolicy: roundingPolicy ?? null,
+        indirectRateStructure: indirectRateStructure ?? null,
+        premiumTable: premiumTable ?? null,
         version: 1,
         createdBy: uuidv4(), // In real app, get from auth context
         updatedBy: uuidv4(), // In real app, get from auth context
@@ -84,24 +125,36 @@ router.put('/', async (req, res) => {
 
       if (wrapRate !== undefined) updateData.wrapRate = wrapRate;
       if (minimumProfitRate !== undefined) updateData.minimumProfitRate = minimumProfitRate;
-      if (wrapRate !== undefined || minimumProfitRate !== undefined) {
+      if (roundingPolicy !== undefined) updateData.roundingPolicy = roundingPolicy;
+      if (indirectRateStructure !== undefined) updateData.indirectRateStructure = indirectRateStructure;
+      if (premiumTable !== undefined) updateData.premiumTable = premiumTable;
+      if (wrapRate !== undefined || minimumProfitRate !== undefined || roundingPolicy !== undefined
+        || indirectRateStructure !== undefined || premiumTable !== undefined) {
         updateData.version = settings.version + 1;
       }
 
       await settings.update(updateData);
     }
 
-    res.json({
+    // Wrap rates, rounding, indirect rates and premiums all feed project totals
+    if ([wrapRate, minimumProfitRate, roundingPolicy, indirectRateStructure, premiumTable].some(value => value !== undefined)) {
+      await ProjectSummaryService.markAllStale();
+    }
+
+    return res.json({
       success: true,
       settings: {
         wrapRate: settings.wrapRate,
         minimumProfitRate: settings.minimumProfitRate,
+        roundingPolicy: settings.roundingPolicy ?? RoundingPolicies.DEFAULT,
+        indirectRateStructure: settings.indirectRateStructure ?? IndirectRateStructures.DEFAULT,
+        premiumTable: settings.premiumTable ?? PremiumTables.DEFAULT,
         version: settings.version,
       },
       message: 'System settings updated successfully'
     });
   } catch (error) {
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
       message: 'Failed to update system settings'
@@ -109,117 +162,6 @@ router.put('/', async (req, res) => {
   }
 });
 
-/**
- * Calculate wrap amount
- */
-router.post('/calculate-wrap', async (req, res) => {
-  try {
-    const { annualSalary } = req.body;
-    
-    if (annualSalary === undefined || annualSalary === null) {
-      return res.status(400).json({
-        success: false,
-        error: 'Annual salary is required',
-        message: 'Please provide an annual salary value'
-      });
-    }
-
-    // For now, use a default tenant ID. In real app, get from auth context
-    const tenantId = 'default-tenant';
-    
-    let settings = await SystemSettings.findOne({
-      where: { tenantId }
-    });
-
-    if (!settings) {
-      settings = await SystemSettings.create({
-        tenantId,
-        wrapRate: 87.5,
-        minimumProfitRate: 7.53,
-        version: 1,
-        createdBy: uuidv4(),
-        updatedBy: uuidv4(),
-      });
-    }
-
-    const wrapAmount = settings.calculateWrapAmount(annualSalary);
-
-    res.json({
-      success: true,
-      wrapAmount,
-      wrapRate: settings.wrapRate,
-      annualSalary,
-      message: 'Wrap amount calculated successfully'
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      message: 'Failed to calculate wrap amount'
-    });
-  }
-});
-
-/**
- * Calculate minimum profit amount
- */
-router.post('/calculate-minimum-profit', async (req, res) => {
-  try {
-    const { annualSalary, wrapAmount } = req.body;
-    
-    if (annualSalary === undefined || annualSalary === null) {
-      return res.status(400).json({
-        success: false,
-        error: 'Annual salary is required',
-        message: 'Please provide an annual salary value'
-      });
-    }
-
-    if (wrapAmount === undefined || wrapAmount === null) {
-      return res.status(400).json({
-        success: false,
-        error: 'Wrap amount is required',
-        message: 'Please provide a wrap amount value'
-      });
-    }
-
-    // For now, use a default tenant ID. In real app, get from auth context
-    const tenantId = 'default-tenant';
-    
-    let settings = await SystemSettings.findOne({
-      where: { tenantId }
-    });
-
-    if (!settings) {
-      settings = await SystemSettings.create({
-        tenantId,
-        wrapRate: 87.5,
-        minimumProfitRate: 7.53,
-        version: 1,
-        createdBy: uuidv4(),
-        updatedBy: uuidv4(),
-      });
-    }
-
-    const minimumProfitAmount = settings.calculateMinimumProfitAmount(annualSalary, wrapAmount);
-
-    res.json({
-      success: true,
-      minimumProfitAmount,
-      minimumProfitRate: settings.minimumProfitRate,
-      annualSalary,
-      wrapAmount,
-      message: 'Minimum profit amount calculated successfully'
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      message: 'Failed to calculate minimum profit amount'
-    });
-  }
-});
-
 export default router;
 
 
@@ -0,0 +1,182 @@
+/**
+ * Calculation Context Service
+ * Fills calculation inputs with tenant and contract vehicle defaults stored in the database
+ */
+
+import { Op } from 'sequelize';
+import { ClinCalculationInput, ClinInput, PremiumTable, SettingSource, SettingSources } from '@pricing-calculator/types';
+import { ClinStructures, IndirectRateStructures, PremiumTables, RoundingPolicies } from '@pricing-calculator/core';
+import { ContractVehicle, CompanyRole, LCAT, SystemSettings } from '../models';
+import { CalculationInput } from './pricing-calculation.service';
+
+export class CalculationContextService {
+  /**
+   * Find a contract vehicle by name or code
+   */
+  public static async findContractVehicle(contractVehicle?: string): Promise<ContractVehicle | null> {
+    if (!contractVehicle) {
+      return null;
+    }
+
+    return ContractVehicle.findOne({
+      where: { [Op.or]: [{ name: contractVehicle }, { code: contractVehicle }] }
+    });
+  }
+
+  /**
+   * Resolve the premium table for a contract vehicle, falling back to the tenant table
+   */
+  public static async resolvePremiumTable(contractVehicle?: string): Promise<PremiumTable> {
+    // For now, use a default tenant ID. In real app, get from auth context
+    const tenantId = 'default-tenant';
+
+    const vehicle = await this.findContractVehicle(contractVehicle);
+    const tenantSettings = await SystemSettings.findOne({ where: { tenantId } });
+
+    return PremiumTables.resolve({
+      contractVehicle: vehicle?.premiumTable ?? null,
+      tenant: tenantSettings?.premiumTable ?? null,
+    });
+  }
+
+  /**
+   * Resolve escalation rates, rounding policy, indirect rate structure, premium table and salary pricing inputs for a calculation
+   */
+  public static async resolve(
+    input: CalculationInput,
+    contractVehicle?: string,
+    options: { salaryPricing?: boolean } = {}
+  ): Promise<CalculationInput> {
+    // For now, use a default tenant ID. In real app, get from auth context
+    const tenantId = 'default-tenant';
+
+    const vehicle = await this.findContractVehicle(contractVehicle);
+    const tenantSettings = await SystemSettings.findOne({ where: { tenantId } });
+
+    const escalationRate = input.settings.escalationRate ??
+      (vehicle ? Number(vehicle.escalationRate) : undefined);
+    // LCAT ceilings escalate at the vehicle's rate even when the project escalates differently
+    const ceilingEscalationRate = input.settings.ceilingEscalationRate ??
+      (vehicle ? Number(vehicle.escalationRate) : undefined);
+
+    const roundingPolicy = RoundingPolicies.resolve({
+      project: input.settings.roundingPolicy ?? null,
+      contractVehicle: vehicle?.roundingPolicy ?? null,
+      tenant: tenantSettings?.roundingPolicy ?? null,
+    });
+
+    const indirectRateStructure = IndirectRateStructures.resolve({
+      project: input.settings.indirectRateStructure ?? null,
+      tenant: tenantSettings?.indirectRateStructure ?? null,
+    });
+
+    const premiumTable = PremiumTables.resolve({
+      project: input.settings.premiumTable ?? null,
+      contractVehicle: vehicle?.premiumTable ?? null,
+      tenant: tenantSettings?.premiumTable ?? null,
+    });
+
+    const workshareRequirement = input.settings.workshareRequirement ?? vehicle?.workshareRequirement ?? undefined;
+
+    // Salary inputs are also needed outside salary mode to floor rates at the company minimum
+    const needsSalary = input.settings.pricingMode === 'salary' || options.salaryPricing === true;
+    const salaryPricing = needsSalary
+      ? input.settings.salaryPricing ?? SystemSettings.toSalaryPricing(tenantSettings)
+      : undefined;
+
+    const companyRoleIds = input.laborCategories
+      .filter(lc => (lc.escalationRate === undefined || (needsSalary && lc.annualSalary === undefined)) && lc.companyRoleId)
+      .map(lc => lc.companyRoleId as string);
+
+    const companyRoles = companyRoleIds.length > 0
+      ? await CompanyRole.findAll({ where: { id: companyRoleIds } })
+      : [];
+    const rateIncreases = new Map(companyRoles.map(role => [role.id, Number(role.rateIncrease)]));
+    const salaries = new Map(companyRoles.map(role => [role.id, Number(role.rate)]));
+
+    // Lines linked to an LCAT take its rate as their ceiling
+    const lcatIds = input.laborCategories
+      .filter(lc => lc.ceilingRate === undefined && lc.lcatId)
+      .map(lc => lc.lcatId as string);
+
+    const lcats = lcatIds.length > 0
+      ? await LCAT.findAll({ where: { id: lcatIds } })
+      : [];
+    const ceilingRates = new Map(lcats.map(lcat => [lcat.id, Number(lcat.rate)]));
+
+    // Where each resolved setting came from, for calculation traces
+    const sources = input.settings.settingSources ?? {};
+    const settingSources: SettingSources = {
+      ...(escalationRate !== undefined
+        ? { escalationRate: this.sourceOf(sources.escalationRate, input.settings.escalationRate, 'contract-vehicle') }
+        : {}),
+      ...(ceilingEscalationRate !== undefined
+        ? { ceilingEscalationRate: this.sourceOf(sources.ceilingEscalationRate, input.settings.ceilingEscalationRate, 'contract-vehicle') }
+        : {}),
+      ...(salaryPricing
+        ? { salaryPricing: this.sourceOf(sources.salaryPricing, input.settings.salaryPricing, 'tenant') }
+        : {}),
+      ...(workshareRequirement
+        ? { workshareRequirement: this.sourceOf(sources.workshareRequirement, input.settings.workshareRequirement, 'contract-vehicle') }
+        : {}),
+    };
+
+    return {
+      ...input,
+      settings: {
+        ...input.settings,
+        ...(escalationRate !== undefined ? { escalationRate } : {}),
+        ...(ceilingEscalationRate !== undefined ? { ceilingEscalationRate } : {}),
+        roundingPolicy,
+        indirectRateStructure,
+        premiumTable,
+        ...(workshareRequirement ? { workshareRequirement } : {}),
+        ...(salaryPricing ? { salaryPricing } : {}),
+        settingSources,
+      },
+      laborCategories: input.laborCategories.map(lc => {
+        const rateIncrease = lc.companyRoleId ? rateIncreases.get(lc.companyRoleId) : undefined;
+        const annualSalary = needsSalary && lc.companyRoleId ? salaries.get(lc.companyRoleId) : undefined;
+        const ceilingRate = lc.lcatId ? ceilingRates.get(lc.lcatId) : undefined;
+        return {
+          ...lc,
+          ...(lc.ceilingRate === undefined && ceilingRate !== undefined ? { ceilingRate } : {}),
+          ...(lc.escalationRate === undefined && rateIncrease !== undefined ? { escalationRate: rateIncrease } : {}),
+          ...(lc.annualSalary === undefined && annualSalary !== undefined ? { annualSalary } : {}),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Resolve a CLIN tree: settings once for the project, then each CLIN's lines as resolved above
+   */
+  public static async resolveClins(
+    input: ClinCalculationInput,
+    contractVehicle?: string
+  ): Promise<ClinCalculationInput> {
+    const lines = ClinStructures.flatten(input.clins).flatMap(clin => clin.laborCategories);
+    const resolved = await this.resolve({ settings: input.settings, laborCategories: lines, otherDirectCosts: [] }, contractVehicle);
+
+    // Hand the resolved lines back to their CLINs in the order they were flattened
+    let offset = 0;
+    const assign = (clins: ClinInput[]): ClinInput[] => clins.map(clin => {
+      const laborCategories = resolved.laborCategories.slice(offset, offset + clin.laborCategories.length);
+      offset += clin.laborCategories.length;
+      return {
+        ...clin,
+        laborCategories,
+        ...(clin.children ? { children: assign(clin.children) } : {}),
+      };
+    });
+
+    return { ...input, settings: resolved.settings, clins: assign(input.clins) };
+  }
+
+  /**
+   * Source of a resolved setting: an earlier resolution, the project when it set the value, otherwise the fallback
+   */
+  private static sourceOf(resolved: SettingSource | undefined, projectValue: unknown, fallback: SettingSource): SettingSource {
+    return resolved ?? (projectValue !== undefined ? 'project' : fallback);
+  }
+}
@@ -4,13 +4,17 @@
  */
 
 import ExcelJS from 'exceljs';
-import { CalculationResult, PricingSettings, LaborCategoryResult, OtherDirectCostResult } from '@pricing-calculator/types';
+import { CalculationResult, CalculationExplanation, CalculationTrace, ClinResult, ClinStructureResult, PricingSettings, LaborCategoryResult, OtherDirectCostResult, SensitivityAnalysis, WorkshareBreakdown, WorkshareReport } from '@pricing-calculator/types';
+import { ClinStructures } from '@pricing-calculator/core';
 
 export interface ExcelExportOptions {
   projectName?: string;
   contractVehicle?: string;
   includeFormulas?: boolean;
   template?: 'basic' | 'va-spruce' | 'gsa-mas';
+  includeSensitivity?: boolean;
+  sensitivityPerturbation?: number; // ± share of each input (0.1 = ±10%)
+  includeTrace?: boolean; // Explain the calculation step by step on its own sheet
 }
 
 export class ExcelExportService {
@@ -19,7 +23,8 @@ export class ExcelExportService {
    */
   static async exportToExcel(
     calculationResult: CalculationResult,
-    options: ExcelExportOptions = {}
+    options: ExcelExportOptions = {},
+    sensitivity?: SensitivityAnalysis
   ): Promise<Buffer> {
     const workbook = new ExcelJS.Workbook();
     
@@ -43,15 +48,297 @@ export class ExcelExportService {
       this.addOtherDirectCostsSheet(odcSheet, calculationResult.otherDirectCosts);
     }
     
+    // Create workshare sheet when subcontractors or a workshare requirement are involved
+    if (calculationResult.workshare) {
+      const workshareSheet = workbook.addWorksheet('Workshare');
+      this.addWorkshareSheet(workshareSheet, calculationResult.workshare);
+    }
+    
     // Create summary sheet
     const summarySheet = workbook.addWorksheet('Summary');
     this.addSummarySheet(summarySheet, calculationResult, options);
     
+    // Create sensitivity sheet if an analysis was run
+    if (sensitivity && sensitivity.items.length > 0) {
+      const sensitivitySheet = workbook.addWorksheet('Sensitivity');
+      this.addSensitivitySheet(sensitivitySheet, sensitivity);
+    }
+    
+    // Create trace sheet if the calculation was explained
+    if (calculationResult.trace) {
+      const traceSheet = workbook.addWorksheet('Calculation Trace');
+      this.addTraceSheet(traceSheet, calculationResult.trace);
+    }
+    
     // Generate Excel buffer
     const buffer = await workbook.xlsx.writeBuffer();
     return Buffer.from(buffer);
   }
   
+  /**
+   * Export a CLIN / task structure: a summary sheet plus one price table per CLIN
+   */
+  static async exportClinsToExcel(
+    clinResult: ClinStructureResult,
+    options: ExcelExportOptions = {}
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    
+    // Set workbook properties
+    workbook.creator = 'Agile6 Pricing Calculator';
+    workbook.lastModifiedBy = 'Agile6 Pricing Calculator';
+    workbook.created = new Date();
+    workbook.modified = new Date();
+    
+    const summarySheet = workbook.addWorksheet('CLIN Summary');
+    this.addClinSummarySheet(summarySheet, clinResult, options);
+    
+    // One price table per CLIN, sub-CLINs included
+    ClinStructures.flattenResults(clinResult.clins).forEach((clin: ClinResult) => {
+      // Sheet names are limited to 31 characters and cannot contain []:*?/\
+      const sheet = workbook.addWorksheet(`CLIN ${clin.number}`.replace(/[[\]:*?/\\]/g, '-').slice(0, 31));
+      this.addClinPriceTable(sheet, clin);
+    });
+    
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+  
+  /**
+   * Add CLIN summary sheet: each CLIN's price per period and in total, with the evaluated total
+   */
+  private static addClinSummarySheet(
+    worksheet: ExcelJS.Worksheet,
+    clinResult: ClinStructureResult,
+    options: ExcelExportOptions
+  ): void {
+    const periods = this.collectClinPeriods(clinResult.clins);
+    
+    // Set column widths
+    worksheet.getColumn('A').width = 15;
+    worksheet.getColumn('B').width = 35;
+    worksheet.getColumn('C').width = 12;
+    for (let col = 4; col <= periods.length + 4; col++) {
+      worksheet.getColumn(col).width = 16;
+    }
+    
+    // Title
+    worksheet.getCell('A1').value = options.projectName ? `${options.projectName} - CLIN Summary` : 'CLIN Summary';
+    worksheet.getCell('A1').font = { bold: true, size: 16 };
+    worksheet.getCell('A2').value = clinResult.includeOptional
+      ? 'Evaluated total includes optional CLINs'
+      : 'Evaluated total excludes optional CLINs';
+    
+    // Headers
+    const headerRow = 4;
+    const headers = ['CLIN', 'Title', 'Optional', ...periods.map(period => period.name), 'Total'];
+    headers.forEach((header, index) => {
+      const cell = worksheet.getCell(headerRow, index + 1);
+      cell.value = header;
+      cell.font = { bold: true };
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' }
+      };
+      cell.border = {
+        top: { style: 'thin' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' }
+      };
+    });
+    
+    // Data rows; sub-CLINs are indented under their parent and their price is part of the parent's
+    let row = headerRow + 1;
+    const addClinRows = (clins: ClinResult[], depth: number) => {
+      clins.forEach(clin => {
+        worksheet.getCell(row, 1).value = clin.number;
+        worksheet.getCell(row, 2).value = `${'  '.repeat(depth)}${clin.title}`;
+        worksheet.getCell(row, 3).value = clin.optional ? (clin.included ? 'Yes' : 'Yes (excluded)') : 'No';
+        periods.forEach((period, index) => {
+          const cell = worksheet.getCell(row, index + 4);
+          cell.value = clin.periods.find(p => p.periodId === period.periodId)?.totals.totalCost ?? 0;
+          cell.numFmt = '$#,##0.00';
+        });
+        worksheet.getCell(row, periods.length + 4).value = clin.totals.totalCost;
+        worksheet.getCell(row, periods.length + 4).numFmt = '$#,##0.00';
+        if (!clin.included) {
+          for (let col = 1; col <= periods.length + 4; col++) {
+            worksheet.getCell(row, col).font = { italic: true, color: { argb: 'FF808080' } };
+          }
+        }
+        row++;
+        addClinRows(clin.children, depth + 1);
+      });
+    };
+    addClinRows(clinResult.clins, 0);
+    
+    // Evaluated total and total with all options
+    const totalRows: Array<[string, number, Array<number | undefined>]> = [
+      ['EVALUATED TOTAL', clinResult.totals.totalCost,
+        periods.map(period => clinResult.periods.find(p => p.periodId === period.periodId)?.totals.totalCost)],
+      ['TOTAL WITH ALL OPTIONS', clinResult.totalsWithOptional.totalCost, []],
+    ];
+    totalRows.forEach(([label, total, periodTotals], index) => {
+      worksheet.getCell(row, 1).value = label;
+      worksheet.getCell(row, 1).font = { bold: true };
+      periodTotals.forEach((value, periodIndex) => {
+        worksheet.getCell(row, periodIndex + 4).value = value ?? 0;
+        worksheet.getCell(row, periodIndex + 4).numFmt = '$#,##0.00';
+      });
+      worksheet.getCell(row, periods.length + 4).value = total;
+      worksheet.getCell(row, periods.length + 4).numFmt = '$#,##0.00';
+      worksheet.getCell(row, periods.length + 4).font = { bold: true };
+      for (let col = 1; col <= periods.length + 4; col++) {
+        worksheet.getCell(row, col).border = {
+          top: { style: index === 0 ? 'medium' : 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' }
+        };
+      }
+      row++;
+    });
+  }
+  
+  /**
+   * Add one CLIN's price table: its own labor lines and ODCs by period, with the CLIN total including sub-CLINs
+   */
+  private static addClinPriceTable(
+    worksheet: ExcelJS.Worksheet,
+    clin: ClinResult
+  ): void {
+    const { result } = clin;
+    const periods = result.periods ?? [];
+    
+    // Set column widths
+    worksheet.getColumn('A').width = 35;
+    worksheet.getColumn('B').width = 15;
+    worksheet.getColumn('C').width = 15;
+    for (let col = 4; col <= periods.length + 4; col++) {
+      worksheet.getColumn(col).width = 16;
+    }
+    
+    // Title
+    worksheet.getCell('A1').value = `CLIN ${clin.number} - ${clin.title}`;
+    worksheet.getCell('A1').font = { bold: true, size: 16 };
+    if (clin.optional) {
+      worksheet.getCell('A2').value = clin.included ? 'Optional CLIN' : 'Optional CLIN (excluded from evaluated total)';
+    }
+    
+    // Headers
+    const headerRow = 4;
+    const headers = ['Item', 'Hours', 'Rate', ...periods.map(period => period.name), 'Total'];
+    headers.forEach((header, index) => {
+      const cell = worksheet.getCell(headerRow, index + 1);
+      cell.value = header;
+      cell.font = { bold: true };
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' }
+      };
+      cell.border = {
+        top: { style: 'thin' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' }
+      };
+    });
+    
+    // Labor lines; period lines are in the same order as the combined lines
+    let row = headerRow + 1;
+    result.laborCategories.forEach((lc: LaborCategoryResult, index: number) => {
+      worksheet.getCell(row, 1).value = lc.title;
+      worksheet.getCell(row, 2).value = lc.effectiveHours;
+      worksheet.getCell(row, 2).numFmt = '#,##0.00';
+      worksheet.getCell(row, 3).value = lc.burdenedRate;
+      worksheet.getCell(row, 3).numFmt = '$#,##0.00';
+      periods.forEach((period, periodIndex) => {
+        worksheet.getCell(row, periodIndex + 4).value = period.laborCategories[index]?.totalCost ?? 0;
+        worksheet.getCell(row, periodIndex + 4).numFmt = '$#,##0.00';
+      });
+      worksheet.getCell(row, periods.length + 4).value = lc.totalCost;
+      worksheet.getCell(row, periods.length + 4).numFmt = '$#,##0.00';
+      row++;
+    });
+    
+    // Other direct costs, in the period they are assigned to (the first period when unassigned)
+    result.otherDirectCosts.forEach((odc: OtherDirectCostResult) => {
+      const odcPeriodId = odc.periodId ?? periods[0]?.periodId;
+      worksheet.getCell(row, 1).value = odc.description;
+      periods.forEach((period, periodIndex) => {
+        worksheet.getCell(row, periodIndex + 4).value = period.periodId === odcPeriodId ? odc.totalAmount : 0;
+        worksheet.getCell(row, periodIndex + 4).numFmt = '$#,##0.00';
+      });
+      worksheet.getCell(row, periods.length + 4).value = odc.totalAmount;
+      worksheet.getCell(row, periods.length + 4).numFmt = '$#,##0.00';
+      row++;
+    });
+    
+    // Add borders to data rows
+    for (let dataRow = headerRow + 1; dataRow < row; dataRow++) {
+      for (let col = 1; col <= periods.length + 4; col++) {
+        worksheet.getCell(dataRow, col).border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' }
+        };
+      }
+    }
+    
+    // CLIN subtotal, then the total with sub-CLINs when there are any
+    const totalRows: Array<[string, number, Array<number | undefined>]> = [
+      [clin.children.length > 0 ? 'SUBTOTAL' : 'TOTAL', result.totals.totalCost, periods.map(period => period.totals.totalCost)],
+    ];
+    if (clin.children.length > 0) {
+      totalRows.push([
+        'TOTAL INCLUDING SUB-CLINS',
+        clin.totals.totalCost,
+        periods.map(period => clin.periods.find(p => p.periodId === period.periodId)?.totals.totalCost),
+      ]);
+    }
+    totalRows.forEach(([label, total, periodTotals], index) => {
+      worksheet.getCell(row, 1).value = label;
+      worksheet.getCell(row, 1).font = { bold: true };
+      periodTotals.forEach((value, periodIndex) => {
+        worksheet.getCell(row, periodIndex + 4).value = value ?? 0;
+        worksheet.getCell(row, periodIndex + 4).numFmt = '$#,##0.00';
+      });
+      worksheet.getCell(row, periods.length + 4).value = total;
+      worksheet.getCell(row, periods.length + 4).numFmt = '$#,##0.00';
+      worksheet.getCell(row, periods.length + 4).font = { bold: true };
+      for (let col = 1; col <= periods.length + 4; col++) {
+        worksheet.getCell(row, col).border = {
+          top: { style: index === 0 ? 'medium' : 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' }
+        };
+      }
+      row++;
+    });
+  }
+  
+  /**
+   * Every period used by any CLIN, in start date order
+   */
+  private static collectClinPeriods(clins: ClinResult[]): Array<{ periodId: string; name: string; startDate: string }> {
+    const periods = new Map<string, { periodId: string; name: string; startDate: string }>();
+    const collect = (list: ClinResult[]) => list.forEach(clin => {
+      clin.periods.forEach(period => {
+        if (!periods.has(period.periodId)) {
+          periods.set(period.periodId, { periodId: period.periodId, name: period.name, startDate: period.startDate });
+        }
+      });
+      collect(clin.children);
+    });
+    collect(clins);
+    return [...periods.values()].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  }
+  
   /**
    * Add main calculation sheet with project details and totals
    */
@@ -343,6 +630,287 @@ export class ExcelExportService {
     }
   }
   
+  /**
+   * Add sensitivity sheet with inputs ranked by their price swing
+   */
+  private static addSensitivitySheet(
+    worksheet: ExcelJS.Worksheet,
+    sensitivity: SensitivityAnalysis
+  ): void {
+    // Set column widths
+    worksheet.getColumn('A').width = 35;
+    for (let col = 2; col <= 9; col++) {
+      worksheet.getColumn(col).width = 15;
+    }
+    
+    // Title
+    worksheet.getCell('A1').value = `Sensitivity Analysis (±${(sensitivity.perturbation * 100).toFixed(1)}%)`;
+    worksheet.getCell('A1').font = { bold: true, size: 16 };
+    
+    worksheet.getCell('A2').value = 'Base Price:';
+    worksheet.getCell('B2').value = sensitivity.basePrice;
+    worksheet.getCell('B2').numFmt = '$#,##0.00';
+    worksheet.getCell('C2').value = 'Base Profit:';
+    worksheet.getCell('D2').value = sensitivity.baseProfit;
+    worksheet.getCell('D2').numFmt = '$#,##0.00';
+    
+    // Headers
+    const headerRow = 4;
+    const headers = [
+      'Input',
+      'Base Value',
+      'Low Value',
+      'High Value',
+      'Low Price',
+      'High Price',
+      'Price Swing',
+      'Low Profit',
+      'High Profit'
+    ];
+    
+    headers.forEach((header, index) => {
+      const cell = worksheet.getCell(headerRow, index + 1);
+      cell.value = header;
+      cell.font = { bold: true };
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' }
+      };
+      cell.border = {
+        top: { style: 'thin' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' }
+      };
+    });
+    
+    // Data rows
+    sensitivity.items.forEach((item, rowIndex) => {
+      const row = headerRow + rowIndex + 1;
+      const valueFormat = item.key.endsWith('.annualSalary') ? '$#,##0.00' : item.group === 'labor' ? '#,##0.00' : '0.00%';
+      
+      worksheet.getCell(row, 1).value = item.label;
+      worksheet.getCell(row, 2).value = item.baseValue;
+      worksheet.getCell(row, 3).value = item.lowValue;
+      worksheet.getCell(row, 4).value = item.highValue;
+      for (let col = 2; col <= 4; col++) {
+        worksheet.getCell(row, col).numFmt = valueFormat;
+      }
+      worksheet.getCell(row, 5).value = item.lowPrice;
+      worksheet.getCell(row, 6).value = item.highPrice;
+      worksheet.getCell(row, 7).value = item.priceSwing;
+      worksheet.getCell(row, 8).value = item.lowProfit;
+      worksheet.getCell(row, 9).value = item.highProfit;
+      for (let col = 5; col <= 9; col++) {
+        worksheet.getCell(row, col).numFmt = '$#,##0.00';
+      }
+      
+      // Add borders to data rows
+      for (let col = 1; col <= 9; col++) {
+        worksheet.getCell(row, col).border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' }
+        };
+      }
+    });
+  }
+  
+  /**
+   * Add calculation trace sheet: each figure followed by its steps in calculation order
+   */
+  private static addTraceSheet(
+    worksheet: ExcelJS.Worksheet,
+    explanation: CalculationExplanation
+  ): void {
+    const formats: Record<string, string> = {
+      currency: '$#,##0.00',
+      rate: '$#,##0.00',
+      percent: '0.00%',
+      hours: '#,##0.00',
+      factor: '0.000000',
+      count: '#,##0.00',
+    };
+    
+    // Set column widths
+    worksheet.getColumn('A').width = 35;
+    worksheet.getColumn('B').width = 30;
+    worksheet.getColumn('C').width = 15;
+    worksheet.getColumn('D').width = 50;
+    worksheet.getColumn('E').width = 18;
+    worksheet.getColumn('F').width = 30;
+    
+    // Title
+    worksheet.getCell('A1').value = 'Calculation Trace';
+    worksheet.getCell('A1').font = { bold: true, size: 16 };
+    
+    // Headers
+    const headerRow = 3;
+    const headers = ['Figure', 'Step', 'Value', 'Formula', 'Source', 'Detail'];
+    
+    headers.forEach((header, index) => {
+      const cell = worksheet.getCell(headerRow, index + 1);
+      cell.value = header;
+      cell.font = { bold: true };
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' }
+      };
+    });
+    
+    // Whole-contract traces come before their period traces
+    const flatten = (traces: CalculationTrace[]): CalculationTrace[] =>
+      traces.flatMap(trace => [trace, ...flatten(trace.children ?? [])]);
+    const traces = flatten([...explanation.laborCategories, ...explanation.otherDirectCosts, ...explanation.totals]);
+    
+    let row = headerRow + 1;
+    traces.forEach(trace => {
+      worksheet.getCell(row, 1).value = trace.label;
+      worksheet.getCell(row, 1).font = { bold: true };
+      worksheet.getCell(row, 3).value = trace.value;
+      worksheet.getCell(row, 3).numFmt = '$#,##0.00';
+      worksheet.getCell(row, 3).font = { bold: true };
+      row++;
+      
+      trace.steps.forEach(step => {
+        worksheet.getCell(row, 2).value = step.label;
+        worksheet.getCell(row, 3).value = step.value;
+        worksheet.getCell(row, 3).numFmt = formats[step.unit] ?? '#,##0.00';
+        worksheet.getCell(row, 4).value = step.formula ?? '';
+        worksheet.getCell(row, 5).value = step.source ?? '';
+        worksheet.getCell(row, 6).value = step.detail ?? '';
+        row++;
+      });
+      row++;
+    });
+  }
+  
+  /**
+   * Add workshare sheet with cost and hours by company, overall and per period
+   */
+  private static addWorkshareSheet(
+    worksheet: ExcelJS.Worksheet,
+    workshare: WorkshareReport
+  ): void {
+    // Set column widths
+    worksheet.getColumn('A').width = 35;
+    worksheet.getColumn('B').width = 15;
+    for (let col = 3; col <= 6; col++) {
+      worksheet.getColumn(col).width = 15;
+    }
+    
+    // Title
+    worksheet.getCell('A1').value = 'Workshare';
+    worksheet.getCell('A1').font = { bold: true, size: 16 };
+    
+    let row = 3;
+    if (workshare.requirement) {
+      const { requirement } = workshare;
+      worksheet.getCell(row, 1).value = 'Requirement:';
+      worksheet.getCell(row, 2).value = requirement.citation ?? 'Limitations on subcontracting';
+      row++;
+      worksheet.getCell(row, 1).value = `Minimum Prime Share (${requirement.basis}):`;
+      worksheet.getCell(row, 2).value = requirement.minimumPrimeShare;
+      worksheet.getCell(row, 2).numFmt = '0.0%';
+      row++;
+      worksheet.getCell(row, 1).value = 'Prime Share:';
+      worksheet.getCell(row, 2).value = workshare.primeShare ?? 0;
+      worksheet.getCell(row, 2).numFmt = '0.0%';
+      row++;
+      worksheet.getCell(row, 1).value = 'Status:';
+      worksheet.getCell(row, 2).value = workshare.compliant ? 'Compliant' : `Below minimum (${requirement.enforcement})`;
+      worksheet.getCell(row, 2).font = { bold: true, color: { argb: workshare.compliant ? 'FF2E7D32' : 'FFC62828' } };
+      row += 2;
+    }
+    
+    row = this.addWorkshareTable(worksheet, row, 'Overall', workshare.overall);
+    workshare.periods.forEach(period => {
+      row = this.addWorkshareTable(worksheet, row + 1, period.name, period);
+    });
+  }
+  
+  /**
+   * Add one company workshare table starting at a row; returns the row after the total
+   */
+  private static addWorkshareTable(
+    worksheet: ExcelJS.Worksheet,
+    startRow: number,
+    title: string,
+    breakdown: WorkshareBreakdown
+  ): number {
+    worksheet.getCell(startRow, 1).value = title;
+    worksheet.getCell(startRow, 1).font = { bold: true, size: 12 };
+    
+    // Headers
+    const headerRow = startRow + 1;
+    const headers = ['Company', 'Prime / Sub', 'Labor Cost', 'Cost Share', 'Hours', 'Hours Share'];
+    
+    headers.forEach((header, index) => {
+      const cell = worksheet.getCell(headerRow, index + 1);
+      cell.value = header;
+      cell.font = { bold: true };
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' }
+      };
+      cell.border = {
+        top: { style: 'thin' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' }
+      };
+    });
+    
+    // Data rows
+    breakdown.companies.forEach((company, rowIndex) => {
+      const row = headerRow + rowIndex + 1;
+      
+      worksheet.getCell(row, 1).value = company.company;
+      worksheet.getCell(row, 2).value = company.primeOrSub;
+      worksheet.getCell(row, 3).value = company.cost;
+      worksheet.getCell(row, 3).numFmt = '$#,##0.00';
+      worksheet.getCell(row, 4).value = company.costShare;
+      worksheet.getCell(row, 4).numFmt = '0.0%';
+      worksheet.getCell(row, 5).value = company.hours;
+      worksheet.getCell(row, 5).numFmt = '#,##0.00';
+      worksheet.getCell(row, 6).value = company.hoursShare;
+      worksheet.getCell(row, 6).numFmt = '0.0%';
+      
+      // Add borders to data rows
+      for (let col = 1; col <= 6; col++) {
+        worksheet.getCell(row, col).border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' }
+        };
+      }
+    });
+    
+    // Add total row
+    const totalRow = headerRow + breakdown.companies.length + 1;
+    worksheet.getCell(totalRow, 1).value = 'TOTAL';
+    worksheet.getCell(totalRow, 1).font = { bold: true };
+    worksheet.getCell(totalRow, 3).value = breakdown.totalCost;
+    worksheet.getCell(totalRow, 3).numFmt = '$#,##0.00';
+    worksheet.getCell(totalRow, 5).value = breakdown.totalHours;
+    worksheet.getCell(totalRow, 5).numFmt = '#,##0.00';
+    for (let col = 1; col <= 6; col++) {
+      worksheet.getCell(totalRow, col).border = {
+        top: { style: 'medium' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' }
+      };
+    }
+    
+    return totalRow + 1;
+  }
+  
   /**
    * Add summary sheet with key metrics
    */
@@ -0,0 +1,68 @@
+/**
+ * Goal Seek Service
+ * Validates goal seek requests and delegates solving to the core GoalSeekSolver
+ */
+
+import { GoalSeekRequest, GoalSeekResult } from '@pricing-calculator/types';
+import { GoalSeekSolver } from '@pricing-calculator/core';
+import { PricingCalculationService, ValidationContext, ValidationError } from './pricing-calculation.service';
+
+export class GoalSeekService {
+  /**
+   * Goal seek final rates for a target profit percentage
+   */
+  public static solve(request: GoalSeekRequest, context?: ValidationContext): GoalSeekResult {
+    const errors = [
+      ...this.validateRequest(request),
+      ...PricingCalculationService.validateWithOverrides(request, context).errors,
+    ];
+
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.map(e => e.message).join(', ')}`);
+    }
+
+    return GoalSeekSolver.solve(request);
+  }
+
+  /**
+   * Validate the target profit percentage and line selection
+   */
+  public static validateRequest(request: GoalSeekRequest): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (typeof request.targetProfitPercentage !== 'number' || request.targetProfitPercentage < 0 || request.targetProfitPercentage >= 1) {
+      errors.push({
+        field: 'targetProfitPercentage',
+        message: 'Target profit percentage must be at least 0% and below 100%',
+        value: request.targetProfitPercentage,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (!request.settings.salaryPricing) {
+      errors.push({
+        field: 'salaryPricing',
+        message: 'Wrap rate and minimum profit rate are required for goal seek',
+        value: request.settings.salaryPricing,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    const knownIds = new Set(request.laborCategories.map(lc => lc.id).filter(Boolean));
+    (request.laborCategoryIds ?? []).forEach(id => {
+      if (!knownIds.has(id)) {
+        errors.push({
+          field: 'laborCategoryIds',
+          message: `Labor category "${id}" does not exist`,
+          value: id,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Monte Carlo Service
+ * Validates cost-risk simulation requests and delegates sampling to the core MonteCarloSimulator
+ */
+
+import { Distribution, MonteCarloRequest, MonteCarloResult } from '@pricing-calculator/types';
+import { MonteCarloSimulator } from '@pricing-calculator/core';
+import { PricingCalculationService, ValidationContext, ValidationError } from './pricing-calculation.service';
+
+export class MonteCarloService {
+  // Keep a single request from tying up the server
+  static readonly MAX_ITERATIONS = 10000;
+
+  /**
+   * Run a seeded cost-risk simulation
+   */
+  public static simulate(request: MonteCarloRequest, context?: ValidationContext): MonteCarloResult {
+    const errors = [
+      ...this.validateRequest(request),
+      ...PricingCalculationService.validateWithOverrides(request, context).errors,
+    ];
+
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.map(e => e.message).join(', ')}`);
+    }
+
+    return MonteCarloSimulator.simulate(request);
+  }
+
+  /**
+   * Validate iterations, seed, bins and each variable's target and distribution
+   */
+  public static validateRequest(request: MonteCarloRequest): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!Array.isArray(request.variables) || request.variables.length === 0) {
+      errors.push({
+        field: 'variables',
+        message: 'At least one simulation variable is required',
+        value: request.variables,
+        severity: 'error',
+        canOverride: false,
+      });
+      return errors;
+    }
+
+    if (request.iterations !== undefined
+      && (!Number.isInteger(request.iterations) || request.iterations < 1 || request.iterations > this.MAX_ITERATIONS)) {
+      errors.push({
+        field: 'iterations',
+        message: `Iterations must be a whole number from 1 to ${this.MAX_ITERATIONS}`,
+        value: request.iterations,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (request.seed !== undefined && (!Number.isInteger(request.seed) || request.seed < 0)) {
+      errors.push({
+        field: 'seed',
+        message: 'Seed must be a non-negative whole number',
+        value: request.seed,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (request.histogramBins !== undefined
+      && (!Number.isInteger(request.histogramBins) || request.histogramBins < 1 || request.histogramBins > 200)) {
+      errors.push({
+        field: 'histogramBins',
+        message: 'Histogram bins must be a whole number from 1 to 200',
+        value: request.histogramBins,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    request.variables.forEach((variable, index) => {
+      const prefix = `variables[${index}]`;
+      const target = variable.input;
+
+      if (!target || !['overheadRate', 'gaRate', 'wrapRate', 'hours', 'annualSalary', 'odcAmount'].includes(target.type)) {
+        errors.push({
+          field: `${prefix}.input.type`,
+          message: 'Variable input must be overheadRate, gaRate, wrapRate, hours, annualSalary, or odcAmount',
+          value: target?.type,
+          severity: 'error',
+          canOverride: false,
+        });
+      } else if ((target.type === 'hours' || target.type === 'annualSalary')
+        && !request.laborCategories.some(lc => lc.id === target.laborCategoryId)) {
+        errors.push({
+          field: `${prefix}.input.laborCategoryId`,
+          message: `Labor category ${target.laborCategoryId} not found`,
+          value: target.laborCategoryId,
+          severity: 'error',
+          canOverride: false,
+        });
+      } else if (target.type === 'odcAmount'
+        && !request.otherDirectCosts.some(odc => odc.id === target.otherDirectCostId)) {
+        errors.push({
+          field: `${prefix}.input.otherDirectCostId`,
+          message: `Other direct cost ${target.otherDirectCostId} not found`,
+          value: target.otherDirectCostId,
+          severity: 'error',
+          canOverride: false,
+        });
+      } else if (target.type === 'wrapRate' && !request.settings.salaryPricing) {
+        errors.push({
+          field: `${prefix}.input.type`,
+          message: 'Salary pricing settings are required to simulate the wrap rate',
+          value: target.type,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+
+      const distributionError = this.validateDistribution(variable.distribution);
+      if (distributionError) {
+        errors.push({
+          field: `${prefix}.distribution`,
+          message: distributionError,
+          value: variable.distribution,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+    });
+
+    return errors;
+  }
+
+  private static validateDistribution(distribution: Distribution | undefined): string | undefined {
+    switch (distribution?.type) {
+      case 'uniform':
+        return distribution.min <= distribution.max ? undefined : 'Uniform distribution min cannot exceed max';
+      case 'triangular':
+        return distribution.min <= distribution.mode && distribution.mode <= distribution.max
+          ? undefined
+          : 'Triangular distribution must satisfy min ≤ mode ≤ max';
+      case 'normal':
+        return distribution.standardDeviation >= 0 ? undefined : 'Normal distribution standard deviation cannot be negative';
+      default:
+        return 'Distribution type must be triangular, normal, or uniform';
+    }
+  }
+}
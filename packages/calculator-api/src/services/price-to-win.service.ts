@@ -0,0 +1,89 @@
+/**
+ * Price-to-Win Service
+ * Validates price-to-win requests and delegates solving to the core PriceToWinSolver
+ */
+
+import { PriceToWinRequest, PriceToWinResult } from '@pricing-calculator/types';
+import { PriceToWinSolver } from '@pricing-calculator/core';
+import { PricingCalculationService, ValidationContext, ValidationError } from './pricing-calculation.service';
+
+export class PriceToWinService {
+  /**
+   * Solve a price-to-win request
+   */
+  public static solve(request: PriceToWinRequest, context?: ValidationContext): PriceToWinResult {
+    const errors = [
+      ...this.validateRequest(request),
+      ...PricingCalculationService.validateWithOverrides(request, context).errors,
+    ];
+
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.map(e => e.message).join(', ')}`);
+    }
+
+    return PriceToWinSolver.solve(request);
+  }
+
+  /**
+   * Validate the target and solve variable
+   */
+  public static validateRequest(request: PriceToWinRequest): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!request.target || !['totalPrice', 'blendedRate'].includes(request.target.type)) {
+      errors.push({
+        field: 'target.type',
+        message: 'Target type must be totalPrice or blendedRate',
+        value: request.target?.type,
+        severity: 'error',
+        canOverride: false,
+      });
+    } else if (!(request.target.value > 0)) {
+      errors.push({
+        field: 'target.value',
+        message: 'Target value must be greater than 0',
+        value: request.target.value,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (!['feeRate', 'ceilingDiscount', 'hoursScale'].includes(request.solveFor)) {
+      errors.push({
+        field: 'solveFor',
+        message: 'Solve variable must be feeRate, ceilingDiscount, or hoursScale',
+        value: request.solveFor,
+        severity: 'error',
+        canOverride: false,
+      });
+    } else if (request.solveFor === 'hoursScale' && request.target?.type === 'blendedRate') {
+      errors.push({
+        field: 'solveFor',
+        message: 'Hours scaling does not change the blended rate; target a total price instead',
+        value: request.solveFor,
+        severity: 'error',
+        canOverride: false,
+      });
+    } else if (request.solveFor === 'ceilingDiscount' && !request.laborCategories.some(lc => (lc.ceilingRate ?? 0) > 0)) {
+      errors.push({
+        field: 'laborCategories',
+        message: 'At least one labor category must have an LCAT ceiling rate to solve for a discount',
+        value: request.solveFor,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (request.laborCategories.length === 0) {
+      errors.push({
+        field: 'laborCategories',
+        message: 'At least one labor category is required',
+        value: request.laborCategories.length,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    return errors;
+  }
+}
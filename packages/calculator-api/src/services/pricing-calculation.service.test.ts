@@ -0,0 +1,102 @@
+import { CalculationInput, LaborCategoryCalculationInput, PricingSettings } from '@pricing-calculator/types';
+import { PricingCalculationService } from './pricing-calculation.service';
+
+const settings: PricingSettings = {
+  overheadRate: 0.3,
+  gaRate: 0.1,
+  feeRate: 0.08,
+  contractType: 'FFP',
+  periodOfPerformance: { startDate: '2025-01-01', endDate: '2025-12-31' },
+};
+
+const line = (overrides: Partial<LaborCategoryCalculationInput> = {}): LaborCategoryCalculationInput => ({
+  id: 'dev',
+  title: 'Developer',
+  baseRate: 90,
+  hours: 2080,
+  ftePercentage: 100,
+  clearanceLevel: 'None',
+  location: 'Remote',
+  ...overrides,
+});
+
+describe('PricingCalculationService validation severity', () => {
+  const salaryInput: CalculationInput = {
+    settings: { ...settings, pricingMode: 'salary', salaryPricing: { wrapRate: 0.875, minimumProfitRate: 0.0753 } },
+    laborCategories: [line({ finalRate: 150 })],
+    otherDirectCosts: [],
+  };
+
+  it('prices a project that only has warnings and returns them', () => {
+    const result = PricingCalculationService.calculateProject(salaryInput);
+
+    expect(result.totals.totalCost).toBeGreaterThan(0);
+    expect(result.validationWarnings?.map(w => w.message)).toContain(
+      'No annual salary for salary pricing; line is priced at the burdened rate'
+    );
+  });
+
+  it('still rejects a project with errors', () => {
+    expect(() => PricingCalculationService.calculateProject({ ...salaryInput, laborCategories: [line({ hours: 0 })] }))
+      .toThrow('Validation failed');
+  });
+
+  it('prices a subcontractor line without a sub rate at its base rate and warns', () => {
+    const result = PricingCalculationService.calculateProject({
+      settings,
+      laborCategories: [line(), line({ id: 'sub', title: 'Sub Developer', primeOrSub: 'Subcontractor', subcontractorCompany: 'Acme' })],
+      otherDirectCosts: [],
+    });
+
+    expect(result.laborCategories[1]?.finalSubcontractorRate).toBe(90);
+    expect(result.validationWarnings).toContainEqual(expect.objectContaining({
+      field: 'laborCategories[1].finalSubcontractorRate',
+      message: 'Subcontractor rate not set; the base rate is used as the sub rate',
+      severity: 'warning',
+    }));
+  });
+
+  it('compares scenarios that only have warnings', () => {
+    const comparison = PricingCalculationService.compareScenarios([
+      { ...salaryInput, name: 'Base' },
+      { ...salaryInput, name: 'Alternative', laborCategories: [line({ finalRate: 160 })] },
+    ]);
+
+    expect(comparison.comparisons.map(c => c.scenarioName)).toContain('Alternative');
+  });
+
+  it('prices CLINs whose lines only have warnings', () => {
+    const result = PricingCalculationService.calculateClins({
+      settings: salaryInput.settings,
+      clins: [{ id: 'c1', number: '0001', title: 'Development', laborCategories: [line({ finalRate: 150 })], otherDirectCosts: [] }],
+    });
+
+    expect(result.totals.totalCost).toBeGreaterThan(0);
+  });
+});
+
+describe('PricingCalculationService LCAT ceiling rates', () => {
+  // Developer bills 90 × 1.5444 = 139.00, over a 130.00 ceiling
+  const input: CalculationInput = { settings, laborCategories: [line({ ceilingRate: 130 })], otherDirectCosts: [] };
+  const violation = 'Developer: Base Period rate of $139.00 exceeds the LCAT ceiling of $130.00';
+
+  it('reports a rate over the ceiling as an error that cannot be overridden', () => {
+    expect(PricingCalculationService.validateCalculationInput(input)).toEqual([{
+      field: 'laborCategories[0].finalRate',
+      message: violation,
+      value: 139,
+      severity: 'error',
+      canOverride: false,
+    }]);
+  });
+
+  it('rejects the project even for a user who can override validation', () => {
+    expect(() => PricingCalculationService.calculateProjectWithContext(input, {
+      permissions: { canOverrideRates: true, canOverrideContractLimits: true, canOverrideValidation: true, userRole: 'admin' },
+    })).toThrow(`Validation failed: ${violation}`);
+    expect(PricingCalculationService.tryCalculateProject(input)).toEqual({
+      result: null,
+      errors: [expect.objectContaining({ message: violation, canOverride: false })],
+    });
+  });
+});
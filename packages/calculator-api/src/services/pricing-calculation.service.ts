@@ -1,43 +1,52 @@
 /**
  * Pricing Calculation Service
- * Core calculation engine for government contracting pricing
- * Provides stateless calculation methods with validation and scenario modeling
+ * API-facing validation and pricing for government contracting
+ * Validates inputs with override support and delegates all math to the core PricingCalculationEngine
  */
 
 import { 
   PricingSettings, 
   CalculationResult,
+  CalculationInput,
+  LaborCategoryCalculationInput,
   LaborCategoryResult,
+  OtherDirectCostInput,
   OtherDirectCostResult,
   ScenarioComparison,
+  ScenarioInput,
+  SensitivityAnalysis,
+  SensitivityOptions,
   ClearanceLevel,
-  LocationType
+  PremiumTable,
+  PricingPeriod,
+  PeriodResult,
+  CompanyWorkshare,
+  PeriodWorkshare,
+  PositionSlotResult,
+  CeilingRateViolation,
+  PricingFinding,
+  PricingHealthReport,
+  ClinCalculationInput,
+  ClinStructureResult
 } from '@pricing-calculator/types';
-
-export interface CalculationInput {
-  settings: PricingSettings;
-  laborCategories: LaborCategoryInput[];
-  otherDirectCosts: OtherDirectCostInput[];
-}
-
-export interface LaborCategoryInput {
-  id?: string;
-  title: string;
-  baseRate: number;
-  hours: number;
-  ftePercentage: number;
-  clearanceLevel: ClearanceLevel;
-  location: LocationType;
-}
-
-export interface OtherDirectCostInput {
-  id?: string;
-  description: string;
-  amount: number;
-  category: 'Travel' | 'Equipment' | 'Software' | 'Other';
-  taxable: boolean;
-  taxRate: number;
-}
+import {
+  CalculationTraces,
+  CeilingRates,
+  ClinStructures,
+  ContractTypes,
+  IndirectRateStructures,
+  PremiumTables,
+  PricingCalculationEngine,
+  PricingHealth,
+  PositionSlots,
+  RoundingPolicies,
+  SensitivityAnalysisService,
+  WorkCalendar,
+  WorkshareCompliance
+} from '@pricing-calculator/core';
+
+export type { CalculationInput, OtherDirectCostInput, ScenarioInput };
+export type LaborCategoryInput = LaborCategoryCalculationInput;
 
 export interface ValidationError {
   field: string;
@@ -48,13 +57,6 @@ export interface ValidationError {
   overrideReason?: string;
 }
 
-export interface ScenarioInput {
-  name: string;
-  settings: PricingSettings;
-  laborCategories: LaborCategoryInput[];
-  otherDirectCosts: OtherDirectCostInput[];
-}
-
 export interface OverridePermissions {
   canOverrideRates: boolean;
   canOverrideContractLimits: boolean;
@@ -96,8 +98,17 @@ export class PricingCalculationService {
     warnings: ValidationError[]; 
     canProceed: boolean; 
   } {
-    const allErrors = this.validateCalculationInput(input, context);
-    
+    return this.withOverrides(this.validateCalculationInput(input, context), context);
+  }
+
+  /**
+   * Split validation errors into blocking errors and warnings, and whether overrides let the calculation proceed
+   */
+  private static withOverrides(allErrors: ValidationError[], context?: ValidationContext): {
+    errors: ValidationError[];
+    warnings: ValidationError[];
+    canProceed: boolean;
+  } {
     const errors = allErrors.filter(e => e.severity === 'error');
     const warnings = allErrors.filter(e => e.severity === 'warning' || e.severity === 'info');
     
@@ -110,11 +121,15 @@ export class PricingCalculationService {
   }
 
   /**
-   * Calculate complete pricing for a project with validation context
+   * Calculate complete pricing for a project with validation context; explain mode attaches a step-by-step trace
    */
-  public static calculateProjectWithContext(input: CalculationInput, context?: ValidationContext): CalculationResult {
-    // Validate inputs with override support
-    const validation = this.validateWithOverrides(input, context);
+  public static calculateProjectWithContext(
+    input: CalculationInput,
+    context?: ValidationContext,
+    options: { explain?: boolean } = {}
+  ): CalculationResult {
+    // Validate inputs with override support; ceiling rates are checked against the result below
+    const validation = this.withOverrides(this.validateInputFields(input, context), context);
     
     if (!validation.canProceed) {
       const errorMessages = validation.errors.map(e => e.message).join(', ');
@@ -126,213 +141,259 @@ export class PricingCalculationService {
       console.warn('Validation warnings:', validation.warnings.map(w => w.message));
     }
 
-    // Calculate labor categories
-    const laborResults = input.laborCategories.map(lc => 
-      this.calculateLaborCategory(lc, input.settings)
-    );
+    // Contract-type totals (ceiling, fixed fee, contingency, ...) come back on result.contract
+    const result = PricingCalculationEngine.calculateProject(input);
+    const ceilingErrors = this.validateCeilingRates(result);
+    if (ceilingErrors.length > 0) {
+      throw new Error(`Validation failed: ${ceilingErrors.map(e => e.message).join(', ')}`);
+    }
 
-    // Calculate other direct costs
-    const odcResults = input.otherDirectCosts.map(odc => 
-      this.calculateOtherDirectCost(odc)
-    );
+    const contractWarnings: ValidationError[] = (result.contract?.warnings ?? []).map(message => ({
+      field: 'contractType',
+      message,
+      value: input.settings.contractType,
+      severity: 'warning',
+      canOverride: true,
+    }));
 
-    // Calculate totals
-    const totalLaborCost = laborResults.reduce((sum, result) => sum + result.totalCost, 0);
-    const totalODCCost = odcResults.reduce((sum, result) => sum + result.totalAmount, 0);
-    const totalProjectCost = totalLaborCost + totalODCCost;
+    const subcontractorWarnings: ValidationError[] = [];
+    result.laborCategories.forEach((lc: LaborCategoryResult, index: number) => {
+      if (lc.exceedsMaxSubcontractorRate) {
+        subcontractorWarnings.push({
+          field: `laborCategories[${index}].finalSubcontractorRate`,
+          message: `${lc.title}: subcontractor rate exceeds the maximum of ${lc.maxSubcontractorRate} that still earns minimum profit`,
+          value: lc.finalSubcontractorRate,
+          severity: 'warning',
+          canOverride: true,
+        });
+      }
+    });
+
+    const workshareErrors = this.validateWorkshare(result, context);
+    const blockingWorkshare = workshareErrors.filter(e => e.severity === 'error');
+    if (blockingWorkshare.length > 0) {
+      throw new Error(`Validation failed: ${blockingWorkshare.map(e => e.message).join(', ')}`);
+    }
 
     return {
-      projectId: input.settings.projectId || '',
-      settings: input.settings,
-      laborCategories: laborResults,
-      otherDirectCosts: odcResults,
-      totals: {
-        laborCost: totalLaborCost,
-        odcCost: totalODCCost,
-        totalCost: totalProjectCost,
-      },
-      calculatedAt: new Date().toISOString(),
-      validationWarnings: validation.warnings,
+      ...result,
+      ...(options.explain ? { trace: CalculationTraces.explain(result, input) } : {}),
+      validationWarnings: [...validation.warnings, ...contractWarnings, ...subcontractorWarnings, ...workshareErrors],
     };
   }
   
   /**
-   * Calculate complete pricing for a project
+   * Calculate complete pricing for a project; explain mode attaches a step-by-step trace
    */
-  public static calculateProject(input: CalculationInput): CalculationResult {
-    // Validate inputs
-    const validationErrors = this.validateCalculationInput(input);
-    if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+  public static calculateProject(input: CalculationInput, options: { explain?: boolean } = {}): CalculationResult {
+    const { result, errors } = this.tryCalculateProject(input, options);
+    if (!result) {
+      throw new Error(`Validation failed: ${errors.map(e => e.message).join(', ')}`);
     }
+    return result;
+  }
 
-    // Calculate labor categories
-    const laborResults = input.laborCategories.map(lc => 
-      this.calculateLaborCategory(lc, input.settings)
-    );
+  /**
+   * Calculate a project without throwing on invalid input: the result is null and the blocking errors come back instead.
+   * Only errors block; warnings come back on the result
+   */
+  public static tryCalculateProject(
+    input: CalculationInput,
+    options: { explain?: boolean } = {}
+  ): { result: CalculationResult | null; errors: ValidationError[] } {
+    const validationErrors = this.validateInputFields(input);
+    const blockingErrors = validationErrors.filter(e => e.severity === 'error');
+    if (blockingErrors.length > 0) {
+      return { result: null, errors: blockingErrors };
+    }
 
-    // Calculate other direct costs
-    const odcResults = input.otherDirectCosts.map(odc => 
-      this.calculateOtherDirectCost(odc)
-    );
+    const result = PricingCalculationEngine.calculateProject(input);
+    const ceilingErrors = this.validateCeilingRates(result);
+    if (ceilingErrors.length > 0) {
+      return { result: null, errors: ceilingErrors };
+    }
 
-    // Calculate totals
-    const totalLaborCost = laborResults.reduce((sum, lr) => sum + lr.totalCost, 0);
-    const totalODCCost = odcResults.reduce((sum, odc) => sum + odc.totalAmount, 0);
-    const totalProjectCost = totalLaborCost + totalODCCost;
+    const workshareErrors = this.validateWorkshare(result);
+    const blockingWorkshare = workshareErrors.filter(e => e.severity === 'error');
+    if (blockingWorkshare.length > 0) {
+      return { result: null, errors: blockingWorkshare };
+    }
 
+    const validationWarnings = [...validationErrors, ...workshareErrors];
     return {
-      projectId: input.settings.projectId || '',
-      laborCategories: laborResults,
-      otherDirectCosts: odcResults,
-      totals: {
-        laborCost: totalLaborCost,
-        odcCost: totalODCCost,
-        totalCost: totalProjectCost,
+      result: {
+        ...result,
+        ...(options.explain ? { trace: CalculationTraces.explain(result, input) } : {}),
+        ...(validationWarnings.length > 0 ? { validationWarnings } : {}),
       },
-      settings: input.settings,
-      calculatedAt: new Date().toISOString(),
+      errors: [],
     };
   }
 
   /**
-   * Calculate individual labor category with full breakdown
+   * Check the prime's workshare against the limitations-on-subcontracting requirement
+   * Blocking requirements are errors unless the user can override contract limits
    */
-  public static calculateLaborCategory(
-    laborCategory: LaborCategoryInput, 
-    settings: PricingSettings
-  ): LaborCategoryResult {
-    // Calculate effective hours
-    const effectiveHours = laborCategory.hours * (laborCategory.ftePercentage / 100);
+  public static validateWorkshare(result: CalculationResult, context?: ValidationContext): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const workshare = result.workshare;
+    const requirement = workshare?.requirement;
+    if (!workshare || !requirement) {
+      return errors;
+    }
 
-    // Calculate clearance premium
-    const clearancePremium = this.calculateClearancePremium(laborCategory.clearanceLevel);
-    
-    // Calculate clearance adjusted rate
-    const clearanceAdjustedRate = laborCategory.baseRate * (1 + clearancePremium);
+    const rule = requirement.citation ?? 'Limitations on subcontracting';
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
 
-    // Calculate burdened rate with compounding OH, G&A, and Fee
-    const burdenedRate = clearanceAdjustedRate * 
-      (1 + settings.overheadRate) * 
-      (1 + settings.gaRate) * 
-      (1 + settings.feeRate);
+    if (workshare.compliant === false) {
+      const canOverride = context?.permissions?.canOverrideContractLimits || false;
+      const blocking = requirement.enforcement === 'blocking' && !canOverride;
+      errors.push({
+        field: 'workshare',
+        message: `Prime performs ${percent(workshare.primeShare ?? 0)} of labor ${requirement.basis}; ${rule} requires at least ${percent(requirement.minimumPrimeShare)}`,
+        value: workshare.primeShare,
+        severity: blocking ? 'error' : 'warning',
+        canOverride,
+        ...(canOverride ? { overrideReason: 'Workshare requirement not met' } : {}),
+      });
+    }
 
-    // Calculate individual burden components
-    const overheadAmount = clearanceAdjustedRate * settings.overheadRate * effectiveHours;
-    const gaAmount = clearanceAdjustedRate * (1 + settings.overheadRate) * settings.gaRate * effectiveHours;
-    const feeAmount = clearanceAdjustedRate * (1 + settings.overheadRate) * (1 + settings.gaRate) * settings.feeRate * effectiveHours;
+    workshare.periods
+      .filter((period: PeriodWorkshare) => workshare.periodsBelowMinimum?.includes(period.periodId))
+      .forEach((period: PeriodWorkshare) => {
+        const share = requirement.basis === 'hours' ? period.primeHoursShare : period.primeCostShare;
+        errors.push({
+          field: `workshare.periods.${period.periodId}`,
+          message: `${period.name}: prime performs ${percent(share)} of labor ${requirement.basis}, below the ${percent(requirement.minimumPrimeShare)} minimum`,
+          value: share,
+          severity: 'warning',
+          canOverride: true,
+        });
+      });
 
-    // Calculate total cost
-    const totalCost = burdenedRate * effectiveHours;
+    return errors;
+  }
 
-    return {
-      id: laborCategory.id || '',
-      title: laborCategory.title,
-      baseRate: laborCategory.baseRate,
-      hours: laborCategory.hours,
-      ftePercentage: laborCategory.ftePercentage,
-      effectiveHours,
-      clearanceLevel: laborCategory.clearanceLevel,
-      location: laborCategory.location,
-      clearancePremium,
-      clearanceAdjustedRate,
-      overheadAmount,
-      overheadRate: settings.overheadRate,
-      gaAmount,
-      gaRate: settings.gaRate,
-      feeAmount,
-      feeRate: settings.feeRate,
-      totalCost,
-      burdenedRate,
-    };
+  /**
+   * Calculate individual labor category with full breakdown
+   */
+  public static calculateLaborCategory(
+    laborCategory: LaborCategoryInput, 
+    settings: PricingSettings
+  ): LaborCategoryResult {
+    return PricingCalculationEngine.calculateLaborCategory(laborCategory, settings);
   }
 
   /**
    * Calculate other direct cost with tax
    */
   public static calculateOtherDirectCost(odc: OtherDirectCostInput): OtherDirectCostResult {
-    const taxAmount = odc.taxable ? odc.amount * odc.taxRate : 0;
-    const totalAmount = odc.amount + taxAmount;
-
-    return {
-      id: odc.id || '',
-      description: odc.description,
-      amount: odc.amount,
-      category: odc.category,
-      taxable: odc.taxable,
-      taxAmount,
-      totalAmount,
-      taxRate: odc.taxRate,
-    };
+    return PricingCalculationEngine.calculateOtherDirectCost(odc);
   }
 
   /**
-   * Calculate clearance premium percentage
+   * Calculate clearance premium percentage from a premium table (defaults to the standard table)
    */
-  public static calculateClearancePremium(clearanceLevel: ClearanceLevel): number {
-    switch (clearanceLevel) {
-      case 'Public Trust': return 0.05; // 5%
-      case 'Secret': return 0.10; // 10%
-      case 'Top Secret': return 0.20; // 20%
-      case 'None':
-      default: return 0;
-    }
+  public static calculateClearancePremium(clearanceLevel: ClearanceLevel, premiumTable?: PremiumTable): number {
+    return PricingCalculationEngine.calculateClearancePremium(clearanceLevel, premiumTable);
   }
 
   /**
    * Compare multiple scenarios
    */
   public static compareScenarios(scenarios: ScenarioInput[]): ScenarioComparison {
-    if (scenarios.length < 2) {
-      throw new Error('At least 2 scenarios required for comparison');
+    scenarios.forEach(scenario => {
+      const validationErrors = this.validateCalculationInput(scenario).filter(e => e.severity === 'error');
+      if (validationErrors.length > 0) {
+        throw new Error(`Validation failed for ${scenario.name}: ${validationErrors.map(e => e.message).join(', ')}`);
+      }
+    });
+
+    return PricingCalculationEngine.compareScenarios(scenarios);
+  }
+
+  /**
+   * Score the pricing health of a project from its findings
+   * Only blocking validation errors stop the report; warnings are what it is for
+   */
+  public static analyzeHealth(input: CalculationInput): PricingHealthReport {
+    const validationErrors = this.validateInputFields(input).filter(e => e.severity === 'error');
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
     }
 
-    const results = scenarios.map(scenario => ({
-      name: scenario.name,
-      result: this.calculateProject(scenario),
-    }));
+    const result = PricingCalculationEngine.calculateProject(input);
+    const ceilingErrors = this.validateCeilingRates(result);
+    if (ceilingErrors.length > 0) {
+      throw new Error(`Validation failed: ${ceilingErrors.map(e => e.message).join(', ')}`);
+    }
+
+    return PricingHealth.report(result, result.findings ?? []);
+  }
 
-    // Use first scenario as baseline
-    const baseline = results[0];
-    if (!baseline) {
-      throw new Error('No baseline scenario found');
+  /**
+   * Price a CLIN / task tree with per-CLIN, per-period and CLIN × period subtotals
+   */
+  public static calculateClins(input: ClinCalculationInput): ClinStructureResult {
+    const structureErrors = ClinStructures.validate(input.clins);
+    if (structureErrors.length > 0) {
+      throw new Error(`Validation failed: ${structureErrors.join(', ')}`);
     }
-    
-    const comparisons = results.slice(1).map(scenario => {
-      const laborVariance = scenario.result.totals.laborCost - baseline.result.totals.laborCost;
-      const odcVariance = scenario.result.totals.odcCost - baseline.result.totals.odcCost;
-      const totalVariance = scenario.result.totals.totalCost - baseline.result.totals.totalCost;
-      
-      const laborVariancePercent = baseline.result.totals.laborCost > 0 
-        ? (laborVariance / baseline.result.totals.laborCost) * 100 
-        : 0;
-      
-      const totalVariancePercent = baseline.result.totals.totalCost > 0 
-        ? (totalVariance / baseline.result.totals.totalCost) * 100 
-        : 0;
-
-      return {
-        scenarioName: scenario.name,
-        laborVariance,
-        laborVariancePercent,
-        odcVariance,
-        totalVariance,
-        totalVariancePercent,
-        settings: scenario.result.settings,
-      };
+
+    ClinStructures.flatten(input.clins).forEach(clin => {
+      const validationErrors = this.validateCalculationInput({
+        settings: clin.periods && clin.periods.length > 0 ? { ...input.settings, periods: clin.periods } : input.settings,
+        laborCategories: clin.laborCategories,
+        otherDirectCosts: clin.otherDirectCosts,
+      }).filter(e => e.severity === 'error');
+      if (validationErrors.length > 0) {
+        throw new Error(`Validation failed for CLIN ${clin.number}: ${validationErrors.map(e => e.message).join(', ')}`);
+      }
     });
 
-    return {
-      baseline: baseline.result,
-      comparisons,
-      comparedAt: new Date().toISOString(),
-    };
+    return ClinStructures.calculate(input);
+  }
+
+  /**
+   * Rank inputs by their impact on total price and profit when perturbed by ± a share of their value
+   */
+  public static analyzeSensitivity(input: CalculationInput, options: SensitivityOptions = {}): SensitivityAnalysis {
+    const validationErrors = this.validateCalculationInput(input).filter(e => e.severity === 'error');
+    if (options.perturbation !== undefined && !(options.perturbation > 0 && options.perturbation < 1)) {
+      validationErrors.push({
+        field: 'perturbation',
+        message: 'Perturbation must be greater than 0 and less than 1',
+        value: options.perturbation,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+    }
+
+    return SensitivityAnalysisService.analyze(input, options);
   }
 
   /**
    * Validate calculation input with optional override support
    */
   public static validateCalculationInput(input: CalculationInput, context?: ValidationContext): ValidationError[] {
+    const errors = this.validateInputFields(input, context);
+
+    // Validate proposed rates against LCAT ceilings; only valid input can be priced per period
+    if (!errors.some(e => e.severity === 'error') && input.laborCategories.some(lc => (lc.ceilingRate ?? 0) > 0)) {
+      errors.push(...this.validateCeilingRates(PricingCalculationEngine.calculateProject(input)));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the input without pricing it; callers that price the input check its ceiling rates on their result
+   */
+  private static validateInputFields(input: CalculationInput, context?: ValidationContext): ValidationError[] {
     const errors: ValidationError[] = [];
 
     // Validate settings
@@ -341,16 +402,62 @@ export class PricingCalculationService {
     // Validate labor categories
     input.laborCategories.forEach((lc, index) => {
       errors.push(...this.validateLaborCategory(lc, index, context));
+
+      if (input.settings.pricingMode === 'salary' && lc.annualSalary === undefined) {
+        errors.push({
+          field: `laborCategories[${index}].annualSalary`,
+          message: 'No annual salary for salary pricing; line is priced at the burdened rate',
+          value: lc.annualSalary,
+          severity: 'warning',
+          canOverride: true,
+          overrideReason: 'Missing company role salary',
+        });
+      }
+    });
+
+    // Validate position slots: assignee capacity shares must sum to the slot FTE
+    PositionSlots.validate(input.positionSlots ?? [], input.laborCategories).forEach(message => {
+      errors.push({
+        field: 'positionSlots',
+        message,
+        severity: 'error',
+        canOverride: false,
+      });
     });
 
     // Validate other direct costs
+    const periodIds = new Set((input.settings.periods ?? []).map((p: PricingPeriod) => p.id));
     input.otherDirectCosts.forEach((odc, index) => {
       errors.push(...this.validateOtherDirectCost(odc, index, context));
+
+      if (odc.periodId && periodIds.size > 0 && !periodIds.has(odc.periodId)) {
+        errors.push({
+          field: `otherDirectCosts[${index}].periodId`,
+          message: `Period "${odc.periodId}" does not exist`,
+          value: odc.periodId,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
     });
 
     return errors;
   }
 
+  /**
+   * Check every period's proposed rate in a priced project against the LCAT ceiling escalated to that period
+   * Ceiling rates are contractual, so violations cannot be overridden
+   */
+  public static validateCeilingRates(result: CalculationResult): ValidationError[] {
+    return CeilingRates.findViolations(result).map((violation: CeilingRateViolation) => ({
+      field: `laborCategories[${violation.lineIndex}].finalRate`,
+      message: `${violation.title}: ${violation.periodName} rate of $${violation.proposedRate.toFixed(2)} exceeds the LCAT ceiling of $${violation.ceilingRate.toFixed(2)}`,
+      value: violation.proposedRate,
+      severity: 'error',
+      canOverride: false,
+    }));
+  }
+
   /**
    * Validate pricing settings with contract vehicle limits and override support
    */
@@ -478,14 +585,24 @@ export class PricingCalculationService {
     }
 
     // Contract type validation
-    if (!settings.contractType || !['FFP', 'T&M', 'CPFF'].includes(settings.contractType)) {
+    if (!settings.contractType || !ContractTypes.TYPES.includes(settings.contractType)) {
       errors.push({
         field: 'contractType',
-        message: 'Contract type must be FFP, T&M, or CPFF',
+        message: 'Contract type must be FFP, T&M, LH, CPFF, CPIF, or CPAF',
         value: settings.contractType,
         severity: 'error',
         canOverride: false,
       });
+    } else {
+      ContractTypes.validateTerms(settings.contractType, settings.contractTerms).forEach(message => {
+        errors.push({
+          field: 'contractTerms',
+          message,
+          value: settings.contractTerms,
+          severity: 'error',
+          canOverride: false,
+        });
+      });
     }
 
     // Period of performance validation
@@ -514,6 +631,279 @@ export class PricingCalculationService {
       }
     }
 
+    // Escalation validation
+    if (settings.escalationRate !== undefined && settings.escalationRate < 0) {
+      errors.push({
+        field: 'escalationRate',
+        message: 'Escalation rate cannot be negative',
+        value: settings.escalationRate,
+        severity: 'error',
+        canOverride: false,
+      });
+    } else if (settings.escalationRate !== undefined && settings.escalationRate > 0.1) { // 10%
+      errors.push({
+        field: 'escalationRate',
+        message: 'Escalation rate exceeds 10% per year',
+        value: settings.escalationRate,
+        severity: 'warning',
+        canOverride: true,
+        overrideReason: 'Escalation rate limit exceeded',
+      });
+    }
+
+    if (settings.targetProfitRate !== undefined && (settings.targetProfitRate < 0 || settings.targetProfitRate >= 1)) {
+      errors.push({
+        field: 'targetProfitRate',
+        message: 'Target profit rate must be at least 0% and below 100%',
+        value: settings.targetProfitRate,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (settings.ceilingEscalationRate !== undefined && settings.ceilingEscalationRate < 0) {
+      errors.push({
+        field: 'ceilingEscalationRate',
+        message: 'Ceiling escalation rate cannot be negative',
+        value: settings.ceilingEscalationRate,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    errors.push(...this.validatePeriods(settings.periods ?? []));
+
+    if (settings.workCalendar) {
+      WorkCalendar.validate(settings.workCalendar).forEach(message => {
+        errors.push({
+          field: 'workCalendar',
+          message,
+          value: settings.workCalendar,
+          severity: 'error',
+          canOverride: false,
+        });
+      });
+    }
+
+    if (settings.sprintSchedule) {
+      const { startDate, lengthDays } = settings.sprintSchedule;
+      if (!Number.isInteger(lengthDays) || lengthDays < 1) {
+        errors.push({
+          field: 'sprintSchedule.lengthDays',
+          message: 'Sprint length must be a whole number of days',
+          value: lengthDays,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+      if (startDate && Number.isNaN(Date.parse(startDate))) {
+        errors.push({
+          field: 'sprintSchedule.startDate',
+          message: 'Sprint start date is not a valid date',
+          value: startDate,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+    }
+
+    if (settings.subcontractorPricing) {
+      const { passThroughMarkup, minimumProfitRate } = settings.subcontractorPricing;
+      if (passThroughMarkup < 0 || passThroughMarkup > 1) {
+        errors.push({
+          field: 'subcontractorPricing.passThroughMarkup',
+          message: 'Pass-through markup must be between 0% and 100%',
+          value: passThroughMarkup,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+      if (minimumProfitRate !== undefined && (minimumProfitRate < 0 || minimumProfitRate > 1)) {
+        errors.push({
+          field: 'subcontractorPricing.minimumProfitRate',
+          message: 'Subcontractor minimum profit rate must be between 0% and 100%',
+          value: minimumProfitRate,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+    }
+
+    // Salary pricing validation
+    if (settings.pricingMode !== undefined && !['burden', 'salary'].includes(settings.pricingMode)) {
+      errors.push({
+        field: 'pricingMode',
+        message: 'Pricing mode must be burden or salary',
+        value: settings.pricingMode,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (settings.pricingMode === 'salary') {
+      const salaryPricing = settings.salaryPricing;
+      if (!salaryPricing) {
+        errors.push({
+          field: 'salaryPricing',
+          message: 'Wrap rate and minimum profit rate are required for salary pricing',
+          value: salaryPricing,
+          severity: 'error',
+          canOverride: false,
+        });
+      } else {
+        if (salaryPricing.wrapRate < 0 || salaryPricing.wrapRate > 10) {
+          errors.push({
+            field: 'salaryPricing.wrapRate',
+            message: 'Wrap rate must be between 0% and 1000%',
+            value: salaryPricing.wrapRate,
+            severity: 'error',
+            canOverride: false,
+          });
+        }
+        if (salaryPricing.minimumProfitRate < 0 || salaryPricing.minimumProfitRate > 1) {
+          errors.push({
+            field: 'salaryPricing.minimumProfitRate',
+            message: 'Minimum profit rate must be between 0% and 100%',
+            value: salaryPricing.minimumProfitRate,
+            severity: 'error',
+            canOverride: false,
+          });
+        }
+        if (salaryPricing.annualHours !== undefined && (salaryPricing.annualHours < 1 || salaryPricing.annualHours > 8784)) {
+          errors.push({
+            field: 'salaryPricing.annualHours',
+            message: 'Annual hours must be between 1 and 8784',
+            value: salaryPricing.annualHours,
+            severity: 'error',
+            canOverride: false,
+          });
+        }
+      }
+    }
+
+    if (settings.roundingPolicy) {
+      RoundingPolicies.validate(settings.roundingPolicy).forEach(message => {
+        errors.push({
+          field: 'roundingPolicy',
+          message,
+          value: settings.roundingPolicy,
+          severity: 'error',
+          canOverride: false,
+        });
+      });
+    }
+
+    if (settings.indirectRateStructure) {
+      IndirectRateStructures.validate(settings.indirectRateStructure).forEach(message => {
+        errors.push({
+          field: 'indirectRateStructure',
+          message,
+          value: settings.indirectRateStructure?.id,
+          severity: 'error',
+          canOverride: false,
+        });
+      });
+    }
+
+    if (settings.premiumTable) {
+      PremiumTables.validate(settings.premiumTable).forEach(message => {
+        errors.push({
+          field: 'premiumTable',
+          message,
+          value: settings.premiumTable?.id,
+          severity: 'error',
+          canOverride: false,
+        });
+      });
+    }
+
+    if (settings.workshareRequirement) {
+      WorkshareCompliance.validateRequirement(settings.workshareRequirement).forEach(message => {
+        errors.push({
+          field: 'workshareRequirement',
+          message,
+          value: settings.workshareRequirement?.minimumPrimeShare,
+          severity: 'error',
+          canOverride: false,
+        });
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate base and option periods
+   */
+  public static validatePeriods(periods: PricingPeriod[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (periods.length === 0) {
+      return errors;
+    }
+
+    if (periods.filter(p => p.type === 'Base').length !== 1) {
+      errors.push({
+        field: 'periods',
+        message: 'Exactly one base period is required',
+        value: periods.map(p => p.type),
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    const seenIds = new Set<string>();
+    periods.forEach((period, index) => {
+      const prefix = `periods[${index}]`;
+
+      if (!period.id || seenIds.has(period.id)) {
+        errors.push({
+          field: `${prefix}.id`,
+          message: 'Period id is required and must be unique',
+          value: period.id,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+      seenIds.add(period.id);
+
+      if (!period.startDate || !period.endDate || new Date(period.startDate) >= new Date(period.endDate)) {
+        errors.push({
+          field: prefix,
+          message: `${period.name || 'Period'} start date must be before end date`,
+          value: period,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+    });
+
+    const sorted = [...periods].sort(
+      (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+    );
+    if (sorted[0] && sorted[0].type !== 'Base') {
+      errors.push({
+        field: 'periods',
+        message: 'Base period must precede all option periods',
+        value: sorted[0].name,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1];
+      const current = sorted[i];
+      if (previous && current && new Date(current.startDate) <= new Date(previous.endDate)) {
+        errors.push({
+          field: 'periods',
+          message: `${current.name} overlaps ${previous.name}`,
+          value: { previous: previous.id, current: current.id },
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+    }
+
     return errors;
   }
 
@@ -574,7 +964,57 @@ export class PricingCalculationService {
       });
     }
 
-    if (!lc.clearanceLevel || !['None', 'Public Trust', 'Secret', 'Top Secret'].includes(lc.clearanceLevel)) {
+    if (lc.capacity !== undefined && (lc.capacity < 0.1 || lc.capacity > 100)) {
+      errors.push({
+        field: `${prefix}.capacity`,
+        message: 'Capacity must be between 0.1 and 100',
+        value: lc.capacity,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (lc.annualSalary !== undefined && lc.annualSalary < 0) {
+      errors.push({
+        field: `${prefix}.annualSalary`,
+        message: 'Annual salary cannot be negative',
+        value: lc.annualSalary,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (lc.ceilingRate !== undefined && lc.ceilingRate < 0) {
+      errors.push({
+        field: `${prefix}.ceilingRate`,
+        message: 'Ceiling rate cannot be negative',
+        value: lc.ceilingRate,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (lc.clearancePremium !== undefined && lc.clearancePremium < 0) {
+      errors.push({
+        field: `${prefix}.clearancePremium`,
+        message: 'Clearance premium cannot be negative',
+        value: lc.clearancePremium,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (lc.finalRate !== undefined && lc.finalRate < 0) {
+      errors.push({
+        field: `${prefix}.finalRate`,
+        message: 'Final rate cannot be negative',
+        value: lc.finalRate,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (!lc.clearanceLevel || !PremiumTables.CLEARANCE_LEVELS.includes(lc.clearanceLevel)) {
       errors.push({
         field: `${prefix}.clearanceLevel`,
         message: 'Invalid clearance level',
@@ -594,6 +1034,79 @@ export class PricingCalculationService {
       });
     }
 
+    if (lc.primeOrSub !== undefined && !['Prime', 'Subcontractor'].includes(lc.primeOrSub)) {
+      errors.push({
+        field: `${prefix}.primeOrSub`,
+        message: 'Prime or sub must be Prime or Subcontractor',
+        value: lc.primeOrSub,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (lc.finalSubcontractorRate !== undefined && lc.finalSubcontractorRate <= 0) {
+      errors.push({
+        field: `${prefix}.finalSubcontractorRate`,
+        message: 'Subcontractor rate must be greater than 0',
+        value: lc.finalSubcontractorRate,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (lc.primeOrSub === 'Subcontractor' && lc.finalSubcontractorRate === undefined) {
+      errors.push({
+        field: `${prefix}.finalSubcontractorRate`,
+        message: 'Subcontractor rate not set; the base rate is used as the sub rate',
+        value: lc.baseRate,
+        severity: 'warning',
+        canOverride: true,
+      });
+    }
+
+    (['startDate', 'endDate'] as const).forEach(field => {
+      const value = lc[field];
+      if (value !== undefined && Number.isNaN(Date.parse(value))) {
+        errors.push({
+          field: `${prefix}.${field}`,
+          message: `${field === 'startDate' ? 'Start' : 'End'} date is not a valid date`,
+          value,
+          severity: 'error',
+          canOverride: false,
+        });
+      }
+    });
+
+    if (lc.startDate && lc.endDate && new Date(lc.startDate) > new Date(lc.endDate)) {
+      errors.push({
+        field: `${prefix}.endDate`,
+        message: 'End date cannot be before start date',
+        value: lc.endDate,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (lc.startSprint !== undefined && (!Number.isInteger(lc.startSprint) || lc.startSprint < 1)) {
+      errors.push({
+        field: `${prefix}.startSprint`,
+        message: 'Start sprint must be a whole number of at least 1',
+        value: lc.startSprint,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
+    if (lc.sprintCount !== undefined && (!Number.isInteger(lc.sprintCount) || lc.sprintCount < 1)) {
+      errors.push({
+        field: `${prefix}.sprintCount`,
+        message: 'Sprint count must be a whole number of at least 1',
+        value: lc.sprintCount,
+        severity: 'error',
+        canOverride: false,
+      });
+    }
+
     return errors;
   }
 
@@ -624,7 +1137,7 @@ export class PricingCalculationService {
       });
     }
 
-    if (odc.taxRate < 0 || odc.taxRate > 1) {
+    if (odc.taxRate !== undefined && (odc.taxRate < 0 || odc.taxRate > 1)) {
       errors.push({
         field: `${prefix}.taxRate`,
         message: 'Tax rate must be between 0% and 100%',
@@ -656,27 +1169,94 @@ export class PricingCalculationService {
         calculatedAt: result.calculatedAt,
         contractType: result.settings.contractType,
         periodOfPerformance: result.settings.periodOfPerformance,
+        roundingPolicy: result.roundingPolicy?.name ?? RoundingPolicies.DEFAULT.name,
+        indirectRateStructure: PricingCalculationEngine.resolveIndirectRateStructure(result.settings).name,
+        premiumTable: PricingCalculationEngine.resolvePremiumTable(result.settings).name,
       },
       settings: {
         overheadRate: result.settings.overheadRate,
         gaRate: result.settings.gaRate,
         feeRate: result.settings.feeRate,
+        escalationRate: result.settings.escalationRate ?? 0,
+        pricingMode: result.settings.pricingMode ?? 'burden',
+        ...(result.settings.salaryPricing ? { salaryPricing: result.settings.salaryPricing } : {}),
       },
+      periods: (result.periods ?? []).map((period: PeriodResult) => ({
+        name: period.name,
+        type: period.type,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        hoursFactor: period.hoursFactor,
+        totalEffectiveHours: period.totals.totalEffectiveHours,
+        laborCost: period.totals.laborCost,
+        odcCost: period.totals.odcCost,
+        feeAmount: period.totals.feeAmount,
+        totalCost: period.totals.totalCost,
+        laborCategories: period.laborCategories.map((lc: LaborCategoryResult) => ({
+          title: lc.title,
+          baseRate: lc.baseRate,
+          hours: lc.hours,
+          effectiveHours: lc.effectiveHours,
+          burdenedRate: lc.burdenedRate,
+          escalationFactor: lc.escalationFactor ?? 1,
+          ...(lc.ceilingRate !== undefined ? {
+            ceilingRate: lc.ceilingRate,
+            ceilingDiscount: lc.ceilingDiscount,
+          } : {}),
+          feeAmount: lc.feeAmount,
+          totalCost: lc.totalCost,
+        })),
+      })),
       laborCategories: result.laborCategories.map(lc => ({
         title: lc.title,
         baseRate: lc.baseRate,
         hours: lc.hours,
         ftePercentage: lc.ftePercentage,
+        capacity: lc.capacity ?? 1,
+        ...(lc.slotId !== undefined ? { slotId: lc.slotId, assigneeName: lc.assigneeName } : {}),
+        ...(lc.startDate !== undefined ? { startDate: lc.startDate } : {}),
+        ...(lc.endDate !== undefined ? { endDate: lc.endDate } : {}),
         effectiveHours: lc.effectiveHours,
         clearanceLevel: lc.clearanceLevel,
         location: lc.location,
+        ...(lc.locality !== undefined ? { locality: lc.locality } : {}),
         clearancePremium: lc.clearancePremium,
+        clearancePremiumSource: lc.clearancePremiumSource,
+        locationDifferential: lc.locationDifferential,
+        locationDifferentialSource: lc.locationDifferentialSource,
         clearanceAdjustedRate: lc.clearanceAdjustedRate,
+        ...(lc.fringeAmount !== undefined ? { fringeAmount: lc.fringeAmount } : {}),
         overheadAmount: lc.overheadAmount,
         gaAmount: lc.gaAmount,
+        indirectAmounts: lc.indirectAmounts,
         feeAmount: lc.feeAmount,
         totalCost: lc.totalCost,
         burdenedRate: lc.burdenedRate,
+        finalRate: lc.finalRate ?? lc.burdenedRate,
+        ...(lc.ceilingRate !== undefined ? {
+          ceilingRate: lc.ceilingRate,
+          ceilingDiscount: lc.ceilingDiscount,
+          exceedsCeilingRate: lc.exceedsCeilingRate,
+        } : {}),
+        ...(lc.actualCost !== undefined ? {
+          annualSalary: lc.annualSalary,
+          wrapAmount: lc.wrapAmount,
+          minimumProfitAmount: lc.minimumProfitAmount,
+          minimumAnnualRevenue: lc.minimumAnnualRevenue,
+          companyMinimumRate: lc.companyMinimumRate,
+          actualCost: lc.actualCost,
+          actualProfit: lc.actualProfit,
+          actualProfitPercentage: lc.actualProfitPercentage,
+        } : {}),
+        ...(lc.subcontractorCost !== undefined ? {
+          primeOrSub: lc.primeOrSub,
+          subcontractorCompany: lc.subcontractorCompany,
+          finalSubcontractorRate: lc.finalSubcontractorRate,
+          passThroughMarkup: lc.passThroughMarkup,
+          subcontractorCost: lc.subcontractorCost,
+          maxSubcontractorRate: lc.maxSubcontractorRate,
+          exceedsMaxSubcontractorRate: lc.exceedsMaxSubcontractorRate,
+        } : {}),
       })),
       otherDirectCosts: result.otherDirectCosts.map(odc => ({
         description: odc.description,
@@ -688,9 +1268,47 @@ export class PricingCalculationService {
         taxRate: odc.taxRate,
       })),
       totals: result.totals,
+      ...(result.positionSlots ? {
+        positionSlots: result.positionSlots.map((slot: PositionSlotResult) => ({
+          title: slot.title,
+          projectRole: slot.projectRole,
+          fte: slot.fte,
+          cost: slot.cost,
+          price: slot.price,
+          profit: slot.profit,
+          assignees: slot.assignees,
+        })),
+      } : {}),
+      ...(result.workshare ? {
+        workshare: {
+          ...(result.workshare.requirement ? {
+            minimumPrimeShare: result.workshare.requirement.minimumPrimeShare,
+            basis: result.workshare.requirement.basis,
+            enforcement: result.workshare.requirement.enforcement,
+            citation: result.workshare.requirement.citation,
+            primeShare: result.workshare.primeShare,
+            compliant: result.workshare.compliant,
+          } : {}),
+          overall: result.workshare.overall.companies.map((company: CompanyWorkshare) => ({ ...company })),
+          periods: result.workshare.periods.map((period: PeriodWorkshare) => ({
+            name: period.name,
+            primeCostShare: period.primeCostShare,
+            primeHoursShare: period.primeHoursShare,
+            companies: period.companies,
+          })),
+        },
+      } : {}),
+      ...(result.findings ? {
+        findings: result.findings.map((finding: PricingFinding) => ({
+          type: finding.type,
+          severity: finding.severity,
+          message: finding.message,
+        })),
+      } : {}),
     };
   }
 
+
   /**
    * Calculate burden rate for a given base rate and settings
    */
@@ -699,19 +1317,13 @@ export class PricingCalculationService {
     clearanceLevel: ClearanceLevel, 
     settings: PricingSettings
   ): number {
-    const clearancePremium = this.calculateClearancePremium(clearanceLevel);
-    const clearanceAdjustedRate = baseRate * (1 + clearancePremium);
-    
-    return clearanceAdjustedRate * 
-      (1 + settings.overheadRate) * 
-      (1 + settings.gaRate) * 
-      (1 + settings.feeRate);
+    return PricingCalculationEngine.calculateBurdenRate(baseRate, clearanceLevel, settings);
   }
 
   /**
    * Calculate effective hours for labor category
    */
-  public static calculateEffectiveHours(hours: number, ftePercentage: number): number {
-    return hours * (ftePercentage / 100);
+  public static calculateEffectiveHours(hours: number, ftePercentage: number, capacity: number = 1): number {
+    return PricingCalculationEngine.calculateEffectiveHours(hours, ftePercentage, capacity);
   }
 }
@@ -0,0 +1,181 @@
+/**
+ * Conformance between the API and the web app
+ * The web app builds its input with ProjectInputs and prices it through POST /calculate; a saved project is priced
+ * from PricingProject.toCalculationInput. Both must resolve and price to exactly the same result
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { CalculationResult, PricingSettings, StoredLaborCategory } from '@pricing-calculator/types';
+import { ProjectInputs } from '@pricing-calculator/core';
+import { CompanyRole, ContractVehicle, LCAT, SystemSettings } from '../models';
+import { PricingProject } from '../models/PricingProject';
+import calculationRoutes from '../routes/calculation.routes';
+import { CalculationContextService } from './calculation-context.service';
+import { PricingCalculationService } from './pricing-calculation.service';
+
+jest.mock('../models', () => ({
+  CompanyRole: { findAll: jest.fn() },
+  ContractVehicle: { findOne: jest.fn() },
+  LCAT: { findAll: jest.fn() },
+  SystemSettings: { findOne: jest.fn() },
+}));
+
+interface ConformanceFixture {
+  name: string;
+  contractVehicle?: string;
+  settings: PricingSettings;
+  laborCategories: StoredLaborCategory[];
+}
+
+// A line the way the web app keeps it, with the LCAT and company role it was picked from
+const line = (overrides: Partial<StoredLaborCategory>): StoredLaborCategory => ({
+  id: 'line',
+  title: 'Software Engineer',
+  baseRate: 85,
+  hours: 2080,
+  ftePercentage: 100,
+  capacity: 1,
+  clearanceLevel: 'None',
+  location: 'Remote',
+  companyRoleId: '',
+  companyRoleName: '',
+  companyRoleRate: 0,
+  finalRate: 0,
+  finalRateMetadata: { source: 'lcat' },
+  ...overrides,
+});
+
+const settings = (overrides: Partial<PricingSettings> = {}): PricingSettings => ({
+  overheadRate: 0.3,
+  gaRate: 0.1,
+  feeRate: 0.08,
+  contractType: 'FFP',
+  periodOfPerformance: { startDate: '2025-01-01', endDate: '2025-12-31' },
+  ...overrides,
+});
+
+const fixtures: ConformanceFixture[] = [
+  {
+    name: 'burdened lines with clearances, locations and capacity',
+    settings: settings(),
+    laborCategories: [
+      line({ id: 'pm', title: 'Project Manager', baseRate: 110, clearanceLevel: 'Secret', location: 'On-site' }),
+      line({ id: 'dev', title: 'Developer', baseRate: 92.5, capacity: 3, location: 'Hybrid' }),
+      line({ id: 'ba', title: 'Business Analyst', baseRate: 70, ftePercentage: 50, clearanceLevel: 'Public Trust' }),
+    ],
+  },
+  {
+    name: 'negotiated final rates',
+    settings: settings({ overheadRate: 0.45, gaRate: 0.12, feeRate: 0.1 }),
+    laborCategories: [
+      line({ id: 'arch', title: 'Architect', baseRate: 120, finalRate: 210, finalRateMetadata: { source: 'manual' } }),
+      line({ id: 'qa', title: 'QA Engineer', baseRate: 65, hours: 1040 }),
+    ],
+  },
+  {
+    name: 'salary pricing from company role salaries',
+    settings: settings({
+      pricingMode: 'salary',
+      salaryPricing: { wrapRate: 0.875, minimumProfitRate: 0.0753 },
+    }),
+    laborCategories: [
+      line({ id: 'lead', title: 'Tech Lead', baseRate: 100, finalRate: 185, companyRoleId: 'role-1', companyRoleRate: 165000 }),
+      line({ id: 'eng', title: 'Engineer', baseRate: 80, finalRate: 140, capacity: 2, companyRoleId: 'role-2', companyRoleRate: 120000 }),
+    ],
+  },
+  {
+    name: 'staffing windows inside the period of performance',
+    settings: settings(),
+    laborCategories: [
+      line({ id: 'full', title: 'Full Year', baseRate: 90 }),
+      line({ id: 'late', title: 'Second Half', baseRate: 90, startDate: '2025-07-01' }),
+      line({ id: 'window', title: 'Spring Only', baseRate: 75, startDate: '2025-03-01', endDate: '2025-05-31' }),
+    ],
+  },
+  {
+    name: 'contract vehicle escalation, role rate increases and LCAT ceilings',
+    contractVehicle: 'GSA-MAS',
+    settings: settings({
+      periodOfPerformance: { startDate: '2025-01-01', endDate: '2026-12-31' },
+      periods: [
+        { id: 'base', name: 'Base', type: 'Base', startDate: '2025-01-01', endDate: '2025-12-31' },
+        { id: 'op1', name: 'Option 1', type: 'Option', startDate: '2026-01-01', endDate: '2026-12-31' },
+      ],
+    }),
+    laborCategories: [
+      line({ id: 'cloud', title: 'Cloud Engineer', baseRate: 95, lcatId: 'lcat-1', companyRoleId: 'role-1' }),
+      line({ id: 'dba', title: 'Database Administrator', baseRate: 88, lcatId: 'lcat-2', lcatRate: 150 }),
+    ],
+  },
+];
+
+const app = express().use(express.json()).use('/api/calculation', calculationRoutes);
+
+// The result the web app renders: its input, through the wire, through POST /calculate
+const priceInWebApp = async (fixture: ConformanceFixture, projectId: string): Promise<CalculationResult> => {
+  const input = ProjectInputs.build({ ...fixture.settings, projectId }, fixture.laborCategories);
+  const response = await request(app)
+    .post('/api/calculation/calculate')
+    .send({ ...input, contractVehicle: fixture.contractVehicle });
+
+  expect(response.status).toBe(200);
+  return response.body.result;
+};
+
+// The result for the saved project, as its summary is calculated
+const priceSavedProject = async (fixture: ConformanceFixture): Promise<CalculationResult> => {
+  const project = PricingProject.build({
+    tenantId: 'tenant',
+    name: fixture.name,
+    ...(fixture.contractVehicle ? { contractVehicle: fixture.contractVehicle } : {}),
+    settings: fixture.settings,
+    laborCategoriesData: fixture.laborCategories,
+    createdBy: 'user',
+    updatedBy: 'user',
+  });
+  const input = await CalculationContextService.resolve(project.toCalculationInput(), project.contractVehicle);
+  return PricingCalculationService.calculateProject(input);
+};
+
+describe('API and web app pricing conformance', () => {
+  beforeAll(() => {
+    PricingProject.initModel();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(ContractVehicle.findOne).mockResolvedValue({
+      escalationRate: '0.03',
+      premiumTable: null,
+      roundingPolicy: null,
+      workshareRequirement: null,
+    } as never);
+    jest.mocked(SystemSettings.findOne).mockResolvedValue(null);
+    jest.mocked(CompanyRole.findAll).mockResolvedValue([{ id: 'role-1', rate: '150000', rateIncrease: '0.05' }] as never);
+    jest.mocked(LCAT.findAll).mockResolvedValue([{ id: 'lcat-1', rate: '180' }] as never);
+  });
+
+  it.each(fixtures)('prices "$name" identically', async fixture => {
+    const saved = await priceSavedProject(fixture);
+    const web = await priceInWebApp(fixture, saved.projectId ?? '');
+
+    expect({ ...web, calculatedAt: saved.calculatedAt }).toEqual(saved);
+  });
+
+  it('looks up the contract vehicle on both paths', async () => {
+    const fixture = fixtures[fixtures.length - 1] as ConformanceFixture;
+    const web = await priceInWebApp(fixture, 'project-1');
+    const [cloud, dba] = web.periods?.[1]?.laborCategories ?? [];
+
+    // Role rate increase beats the vehicle's 3%; the LCAT supplies the ceiling the line did not store
+    expect(cloud).toMatchObject({ baseRate: 99.75, escalationFactor: 1.05, ceilingRate: 185.4 });
+    expect(dba).toMatchObject({ baseRate: 90.64, escalationFactor: 1.03, ceilingRate: 154.5 });
+
+    await priceSavedProject(fixture);
+    expect(jest.mocked(ContractVehicle.findOne).mock.calls).toEqual([
+      [{ where: expect.anything() }],
+      [{ where: expect.anything() }],
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { Op } from 'sequelize';
+import { PricingProject } from '../models';
+import { ProjectSearchService } from './project-search.service';
+
+jest.mock('../models', () => ({
+  PricingProject: { findAndCountAll: jest.fn() },
+}));
+
+const project = (id: string, totalCost?: number) => ({
+  id,
+  name: `Project ${id}`,
+  status: 'active',
+  version: 2,
+  calculationSummary: totalCost === undefined
+    ? null
+    : {
+      totals: { totalCost, totalEffectiveHours: 1920 },
+      margin: 0.1,
+      headcount: 1,
+      calculatedAt: '2025-02-01T00:00:00.000Z',
+    },
+  summaryStale: false,
+  laborCategoriesData: [{}],
+  updatedAt: '2025-02-01T00:00:00.000Z',
+  createdBy: 'user',
+  isTemplate: false,
+  tags: [],
+});
+
+const found = (count: number, rows = [project('a', 1000)]) => {
+  jest.mocked(PricingProject.findAndCountAll).mockResolvedValue({ rows, count } as never);
+};
+
+const query = () => jest.mocked(PricingProject.findAndCountAll).mock.calls[0]?.[0];
+
+describe('ProjectSearchService.search', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('pages by limit and offset and reports whether more pages follow', async () => {
+    found(45);
+
+    const result = await ProjectSearchService.search({}, { page: 2, limit: 20 });
+
+    expect(query()).toMatchObject({ limit: 20, offset: 20 });
+    expect(result.meta).toEqual({ total: 45, page: 2, limit: 20, hasMore: true });
+  });
+
+  it('has no more pages once the last page is reached', async () => {
+    found(45);
+
+    expect((await ProjectSearchService.search({}, { page: 3, limit: 20 })).meta.hasMore).toBe(false);
+  });
+
+  it('defaults to the first page of 20 and clamps out-of-range paging', async () => {
+    found(0, []);
+
+    expect((await ProjectSearchService.search({})).meta).toEqual({ total: 0, page: 1, limit: 20, hasMore: false });
+    expect((await ProjectSearchService.search({}, { page: -3, limit: 500 })).meta).toMatchObject({ page: 1, limit: 100 });
+    expect(query()).toMatchObject({ limit: 20, offset: 0 });
+  });
+
+  it('sorts with a stable tie-break and keeps uncalculated projects last by price', async () => {
+    found(1);
+
+    await ProjectSearchService.search({}, { sortBy: 'totalCost', sortOrder: 'asc' });
+    await ProjectSearchService.search({}, { sortBy: 'unknown' as never });
+
+    const [byPrice, byDefault] = jest.mocked(PricingProject.findAndCountAll).mock.calls.map(([options]) => options?.order);
+    expect(byPrice).toEqual([['totalCost', 'ASC NULLS LAST'], ['id', 'ASC']]);
+    expect(byDefault).toEqual([['updatedAt', 'DESC'], ['id', 'ASC']]);
+  });
+
+  it('filters by text, tags and a date-only end that includes the whole day', async () => {
+    found(1);
+
+    await ProjectSearchService.search({ name: ' cloud ', tags: ['gsa'], dateRange: { start: '2025-01-01', end: '2025-01-31' } });
+
+    expect(query()?.where).toEqual({
+      isTemplate: false,
+      [Op.or]: [{ name: { [Op.iLike]: '%cloud%' } }, { description: { [Op.iLike]: '%cloud%' } }],
+      tags: { [Op.contains]: ['gsa'] },
+      updatedAt: { [Op.gte]: new Date('2025-01-01'), [Op.lte]: new Date('2025-01-31T23:59:59.999Z') },
+    });
+  });
+
+  it('summarizes projects from their persisted calculation summary', async () => {
+    found(2, [project('a', 1000), project('b')]);
+
+    const { projects } = await ProjectSearchService.search({});
+
+    expect(projects.map(p => [p.id, p.totalCost, p.calculatedAt])).toEqual([
+      ['a', 1000, '2025-02-01T00:00:00.000Z'],
+      ['b', 0, undefined],
+    ]);
+    expect(projects[0]?.laborCategoryCount).toBe(1);
+  });
+});
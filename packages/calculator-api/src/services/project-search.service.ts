@@ -0,0 +1,114 @@
+/**
+ * Project Search Service
+ * Server-side project search: text search, filters, sorting by last modified, name or total price, and paging
+ */
+
+import { Op, OrderItem, WhereOptions } from 'sequelize';
+import {
+  PaginationParams,
+  ProjectListResponse,
+  ProjectSearchFilters,
+  ProjectSortField,
+  ProjectSummary,
+} from '@pricing-calculator/types';
+import { PricingProject } from '../models';
+
+export const PROJECT_SORT_FIELDS: ProjectSortField[] = ['totalCost', 'lastModified', 'name'];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export class ProjectSearchService {
+  /**
+   * One page of project summaries matching the filters; templates are left out unless asked for
+   */
+  public static async search(filters: ProjectSearchFilters, pagination: PaginationParams = {}): Promise<ProjectListResponse> {
+    const page = Math.max(1, Math.floor(pagination.page || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(pagination.limit || DEFAULT_PAGE_SIZE)));
+    const sortBy = PROJECT_SORT_FIELDS.find(field => field === pagination.sortBy) ?? 'lastModified';
+    const direction = pagination.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const { rows, count } = await PricingProject.findAndCountAll({
+      where: this.where(filters),
+      order: [this.order(sortBy, direction), ['id', 'ASC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return {
+      projects: rows.map(project => this.summarize(project)),
+      meta: {
+        total: count,
+        page,
+        limit,
+        hasMore: page * limit < count,
+      },
+    };
+  }
+
+  /**
+   * Summary of a project from its persisted calculation summary
+   */
+  public static summarize(project: PricingProject): ProjectSummary {
+    const calculation = project.calculationSummary;
+
+    return {
+      id: project.id,
+      name: project.name,
+      ...(project.description ? { description: project.description } : {}),
+      ...(project.contractVehicle ? { contractVehicle: project.contractVehicle } : {}),
+      status: project.status || 'draft',
+      version: project.version,
+      totalCost: calculation?.totals.totalCost ?? 0,
+      totalHours: calculation?.totals.totalEffectiveHours ?? 0,
+      ...(calculation
+        ? { margin: calculation.margin, headcount: calculation.headcount, calculatedAt: calculation.calculatedAt }
+        : {}),
+      stale: project.summaryStale,
+      laborCategoryCount: (project.laborCategoriesData || []).length,
+      lastModified: new Date(project.updatedAt).toISOString(),
+      createdBy: project.createdBy,
+      isTemplate: project.isTemplate,
+      tags: project.tags || [],
+    };
+  }
+
+  private static where(filters: ProjectSearchFilters): WhereOptions {
+    const search = filters.name?.trim();
+    const start = filters.dateRange?.start;
+    const end = filters.dateRange?.end;
+
+    return {
+      isTemplate: filters.isTemplate === true,
+      ...(search
+        ? { [Op.or]: [{ name: { [Op.iLike]: `%${search}%` } }, { description: { [Op.iLike]: `%${search}%` } }] }
+        : {}),
+      ...(filters.tags && filters.tags.length > 0 ? { tags: { [Op.contains]: filters.tags } } : {}),
+      ...(filters.contractType ? { settings: { contractType: filters.contractType } } : {}),
+      ...(filters.contractVehicle ? { contractVehicle: filters.contractVehicle } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.createdBy ? { createdBy: filters.createdBy } : {}),
+      ...(start || end
+        ? {
+          updatedAt: {
+            ...(start ? { [Op.gte]: new Date(start) } : {}),
+            // A date-only end includes the whole day
+            ...(end ? { [Op.lte]: new Date(end.includes('T') ? end : `${end}T23:59:59.999Z`) } : {}),
+          },
+        }
+        : {}),
+    };
+  }
+
+  private static order(sortBy: ProjectSortField, direction: 'ASC' | 'DESC'): OrderItem {
+    switch (sortBy) {
+      case 'totalCost':
+        // Projects that do not calculate go last either way
+        return ['totalCost', `${direction} NULLS LAST`];
+      case 'name':
+        return ['name', direction];
+      default:
+        return ['updatedAt', direction];
+    }
+  }
+}
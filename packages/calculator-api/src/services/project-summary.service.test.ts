@@ -0,0 +1,101 @@
+import { Op } from 'sequelize';
+import { CalculationInput, LaborCategoryCalculationInput, PricingSettings } from '@pricing-calculator/types';
+import { PricingProject } from '../models';
+import { ProjectSummaryService } from './project-summary.service';
+
+jest.mock('../models', () => ({
+  PricingProject: { update: jest.fn() },
+}));
+jest.mock('./calculation-context.service', () => ({
+  CalculationContextService: { resolve: jest.fn(async (input: unknown) => input) },
+}));
+
+const settings: PricingSettings = {
+  overheadRate: 0.3,
+  gaRate: 0.1,
+  feeRate: 0.08,
+  contractType: 'FFP',
+  periodOfPerformance: { startDate: '2025-01-01', endDate: '2025-12-31' },
+};
+
+const line = (overrides: Partial<LaborCategoryCalculationInput> = {}): LaborCategoryCalculationInput => ({
+  id: 'dev',
+  title: 'Developer',
+  baseRate: 100,
+  hours: 1000,
+  ftePercentage: 100,
+  clearanceLevel: 'None',
+  location: 'Remote',
+  ...overrides,
+});
+
+const updatedAt = new Date('2025-02-01T12:00:00.000Z');
+
+const project = (input: Omit<CalculationInput, 'otherDirectCosts'>) => ({
+  id: 'project-1',
+  version: 3,
+  updatedAt,
+  toCalculationInput: () => ({ ...input, otherDirectCosts: [] }),
+}) as unknown as PricingProject;
+
+const written = () => jest.mocked(PricingProject.update).mock.calls[0];
+
+describe('ProjectSummaryService.refresh', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(PricingProject.update).mockResolvedValue([1] as never);
+  });
+
+  it('persists the summary and clears the stale flag only if the project is unchanged since it was read', async () => {
+    const totals = await ProjectSummaryService.refresh(project({ settings, laborCategories: [line()] }), []);
+
+    // 100 × 1.3 × 1.1 × 1.08 × 1000 hours
+    expect(totals?.totalCost).toBe(154440);
+    expect(written()).toEqual([
+      expect.objectContaining({ totalCost: 154440, summaryStale: false }),
+      { where: { id: 'project-1', version: 3, updatedAt }, silent: true },
+    ]);
+  });
+
+  it('summarizes a project that only has warnings', async () => {
+    const totals = await ProjectSummaryService.refresh(project({
+      settings: { ...settings, pricingMode: 'salary', salaryPricing: { wrapRate: 0.875, minimumProfitRate: 0.0753 } },
+      laborCategories: [line({ finalRate: 150 })],
+    }), []);
+
+    expect(totals?.totalCost).toBeGreaterThan(0);
+    expect(written()?.[0]).toMatchObject({ calculationSummary: { headcount: 1 } });
+  });
+
+  it('persists an empty summary for a project that does not calculate', async () => {
+    const totals = await ProjectSummaryService.refresh(project({ settings, laborCategories: [line({ hours: 0 })] }), []);
+
+    expect(totals).toBeNull();
+    expect(written()?.[0]).toEqual({ calculationSummary: null, totalCost: null, summaryStale: false });
+  });
+});
+
+describe('ProjectSummaryService.markStaleForContractVehicles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(PricingProject.update).mockResolvedValue([2] as never);
+  });
+
+  it('marks projects that name the vehicle by its name or code stale', async () => {
+    const count = await ProjectSummaryService.markStaleForContractVehicles([
+      { name: 'GSA MAS', code: 'MAS' },
+      { name: 'GSA MAS', code: 'GSA-MAS' },
+    ]);
+
+    expect(count).toBe(2);
+    expect(written()).toEqual([
+      { summaryStale: true },
+      { where: { summaryStale: false, contractVehicle: { [Op.in]: ['GSA MAS', 'MAS', 'GSA-MAS'] } }, silent: true },
+    ]);
+  });
+
+  it('marks nothing without a vehicle', async () => {
+    expect(await ProjectSummaryService.markStaleForContractVehicles([])).toBe(0);
+    expect(PricingProject.update).not.toHaveBeenCalled();
+  });
+});
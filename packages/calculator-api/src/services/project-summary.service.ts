@@ -0,0 +1,207 @@
+/**
+ * Project Summary Service
+ * Persists each project's calculated totals, margin and headcount on save so listings need not recalculate,
+ * marks summaries stale when the LCATs, company roles or system settings they depend on change,
+ * and recomputes stale summaries in the background
+ */
+
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import {
+  CalculationInput,
+  CalculationResult,
+  OtherDirectCostInput,
+  PricingTotals,
+  ProjectCalculationSummary,
+} from '@pricing-calculator/types';
+import { Decimal, PricingCalculationEngine } from '@pricing-calculator/core';
+import { logger } from '../config/logger';
+import { PricingProject } from '../models';
+import { CalculationContextService } from './calculation-context.service';
+import { PricingCalculationService } from './pricing-calculation.service';
+
+const DEFAULT_REFRESH_INTERVAL_MS = 60 * 1000;
+const REFRESH_BATCH_SIZE = 25;
+
+export class ProjectSummaryService {
+  private static refreshTimer: NodeJS.Timeout | null = null;
+  private static refreshing = false;
+
+  /**
+   * Recalculate a project and persist its summary; returns the totals, or null when it does not calculate.
+   * Pass the transaction of the save being summarized so the summary commits with it
+   */
+  public static async refresh(
+    project: PricingProject,
+    otherDirectCosts?: OtherDirectCostInput[],
+    transaction?: Transaction
+  ): Promise<PricingTotals | null> {
+    const summary = await this.calculate(project, otherDirectCosts ?? await project.getOtherDirectCostInputs(transaction));
+
+    // Skip the write, and leave the stale flag, when the project was saved meanwhile; that save persists its own summary
+    await PricingProject.update(
+      {
+        calculationSummary: summary,
+        totalCost: summary ? summary.totals.totalCost : null,
+        summaryStale: false,
+      },
+      {
+        where: {
+          id: project.id,
+          version: project.version,
+          ...(project.updatedAt ? { updatedAt: project.updatedAt } : {}),
+        },
+        silent: true,
+        ...(transaction ? { transaction } : {}),
+      }
+    );
+
+    return summary ? summary.totals : null;
+  }
+
+  /**
+   * Summary of a calculated project
+   */
+  public static summarize(input: CalculationInput, result: CalculationResult, calculatedAt: Date = new Date()): ProjectCalculationSummary {
+    const { totals } = result;
+    const profit = totals.actualProfit ?? totals.feeAmount;
+
+    return {
+      totals,
+      margin: totals.totalCost > 0 ? Decimal.from(profit).dividedBy(totals.totalCost).round(4).toNumber() : 0,
+      headcount: Decimal.sum(input.laborCategories.map(line => line.capacity || 1)).toNumber(),
+      engineVersion: PricingCalculationEngine.VERSION,
+      calculatedAt: calculatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Mark summaries of projects with lines on any of the LCATs stale
+   */
+  public static async markStaleForLcats(lcatIds: string[]): Promise<number> {
+    return this.markStaleReferencing('lcatId', lcatIds);
+  }
+
+  /**
+   * Mark summaries of projects with lines on any of the company roles stale
+   */
+  public static async markStaleForCompanyRoles(companyRoleIds: string[]): Promise<number> {
+    return this.markStaleReferencing('companyRoleId', companyRoleIds);
+  }
+
+  /**
+   * Mark summaries of projects on any of the contract vehicles stale; projects refer to a vehicle by name or code
+   */
+  public static async markStaleForContractVehicles(vehicles: Array<{ name: string; code: string }>): Promise<number> {
+    const references = [...new Set(vehicles.flatMap(vehicle => [vehicle.name, vehicle.code]))];
+    if (references.length === 0) {
+      return 0;
+    }
+
+    return this.markStale({ summaryStale: false, contractVehicle: { [Op.in]: references } });
+  }
+
+  /**
+   * Mark every summary stale, e.g. after system settings change
+   */
+  public static async markAllStale(): Promise<number> {
+    return this.markStale({ summaryStale: false });
+  }
+
+  /**
+   * Recompute up to a batch of stale summaries, and summaries from another engine version; returns how many ran
+   */
+  public static async recomputeStale(limit: number = REFRESH_BATCH_SIZE): Promise<number> {
+    const projects = await PricingProject.findAll({
+      where: {
+        isTemplate: false,
+        [Op.or]: [
+          { summaryStale: true },
+          { calculationSummary: { engineVersion: { [Op.ne]: PricingCalculationEngine.VERSION } } },
+        ],
+      },
+      order: [['updatedAt', 'DESC']],
+      limit,
+    });
+
+    for (const project of projects) {
+      await this.refresh(project);
+    }
+
+    return projects.length;
+  }
+
+  /**
+   * Recompute stale summaries on an interval until stopped
+   */
+  public static startBackgroundRefresh(intervalMs: number = DEFAULT_REFRESH_INTERVAL_MS): void {
+    if (this.refreshTimer) return;
+
+    this.refreshTimer = setInterval(async () => {
+      // A slow pass must not overlap the next one
+      if (this.refreshing) return;
+
+      this.refreshing = true;
+      try {
+        const refreshed = await this.recomputeStale();
+        if (refreshed > 0) {
+          logger.info(`Recomputed ${refreshed} stale project summaries`);
+        }
+      } catch (error) {
+        logger.error('Failed to recompute stale project summaries', error);
+      } finally {
+        this.refreshing = false;
+      }
+    }, intervalMs);
+    this.refreshTimer.unref();
+  }
+
+  /**
+   * Stop the background refresh
+   */
+  public static stopBackgroundRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Summary for the saved project; null when it does not calculate, e.g. while lines are still incomplete
+   */
+  private static async calculate(
+    project: PricingProject,
+    otherDirectCosts: OtherDirectCostInput[]
+  ): Promise<ProjectCalculationSummary | null> {
+    try {
+      const input = await CalculationContextService.resolve(
+        project.toCalculationInput(otherDirectCosts),
+        project.contractVehicle
+      );
+      const { result, errors } = PricingCalculationService.tryCalculateProject(input);
+      if (!result) {
+        logger.debug(`Project ${project.id} version ${project.version} does not calculate: ${errors.map(e => e.message).join(', ')}`);
+        return null;
+      }
+      return this.summarize(input, result);
+    } catch (error) {
+      logger.warn(`Project ${project.id} version ${project.version} failed to calculate: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  private static async markStaleReferencing(field: 'lcatId' | 'companyRoleId', ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    return this.markStale({
+      summaryStale: false,
+      [Op.or]: ids.map(id => ({ laborCategoriesData: { [Op.contains]: [{ [field]: id }] } })),
+    });
+  }
+
+  private static async markStale(where: WhereOptions): Promise<number> {
+    const [count] = await PricingProject.update({ summaryStale: true }, { where, silent: true });
+    return count;
+  }
+}
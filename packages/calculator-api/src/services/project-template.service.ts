@@ -0,0 +1,161 @@
+/**
+ * Project Template Service
+ * Saves projects as templates without named individuals or salaries, searches templates and creates projects from them
+ */
+
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreateTemplateRequest,
+  InstantiateTemplateRequest,
+  ProjectTemplate,
+  TemplateListResponse,
+  TemplateSearchFilters,
+} from '@pricing-calculator/types';
+import { ProjectTemplates } from '@pricing-calculator/core';
+import { sequelize } from '../config/database';
+import { OtherDirectCost, PricingProject } from '../models';
+import { ProjectVersionService } from './project-version.service';
+
+const TEMPLATE_CATEGORIES: ProjectTemplate['category'][] = ['FFP', 'T&M', 'CPFF', 'General'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export class ProjectTemplateService {
+  /**
+   * Save a copy of a project as a template; assignees, salaries and the project's own ids are not copied
+   */
+  public static async create(project: PricingProject, request: CreateTemplateRequest): Promise<ProjectTemplate> {
+    const otherDirectCosts = await project.getOtherDirectCosts();
+
+    const template = await sequelize.transaction(async transaction => {
+      const created = await PricingProject.create({
+        tenantId: project.tenantId,
+        name: request.name.trim(),
+        description: request.description?.trim() || '',
+        ...(project.contractVehicle ? { contractVehicle: project.contractVehicle } : {}),
+        settings: ProjectTemplates.stripSettings(project.settings),
+        laborCategoriesData: ProjectTemplates.stripLines(project.laborCategoriesData || []),
+        clinsData: ProjectTemplates.stripClins(project.clinsData || []),
+        tags: project.tags || [],
+        isTemplate: true,
+        templateCategory: this.category(request.category, project.settings.contractType),
+        isPublicTemplate: request.isPublic === true,
+        createdBy: uuidv4(), // In real app, get from auth context
+        updatedBy: uuidv4(), // In real app, get from auth context
+      }, { transaction });
+
+      await this.copyOtherDirectCosts(otherDirectCosts, created, transaction);
+      return created;
+    });
+
+    return template.toProjectTemplate(await template.getOtherDirectCostInputs());
+  }
+
+  /**
+   * Search templates by name or description, category, contract type and vehicle; most used first
+   */
+  public static async search(filters: TemplateSearchFilters): Promise<TemplateListResponse> {
+    const page = Math.max(1, Math.floor(filters.page || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(filters.limit || DEFAULT_PAGE_SIZE)));
+    const search = filters.search?.trim();
+
+    const { rows, count } = await PricingProject.findAndCountAll({
+      where: {
+        isTemplate: true,
+        ...(search
+          ? { [Op.or]: [{ name: { [Op.iLike]: `%${search}%` } }, { description: { [Op.iLike]: `%${search}%` } }] }
+          : {}),
+        ...(filters.category ? { templateCategory: filters.category } : {}),
+        ...(filters.contractVehicle ? { contractVehicle: filters.contractVehicle } : {}),
+        ...(filters.contractType ? { settings: { contractType: filters.contractType } } : {}),
+      },
+      include: [{ model: OtherDirectCost, as: 'otherDirectCosts' }],
+      distinct: true,
+      order: [['usageCount', 'DESC'], ['name', 'ASC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return {
+      templates: rows.map(template => template.toProjectTemplate(
+        (template.otherDirectCosts || []).map(odc => odc.toOtherDirectCostInput())
+      )),
+      total: count,
+      page,
+      limit,
+      hasMore: page * limit < count,
+    };
+  }
+
+  /**
+   * The template row with an id; null when there is none or the project is not a template
+   */
+  public static async findTemplate(id: string): Promise<PricingProject | null> {
+    return PricingProject.findOne({ where: { id, isTemplate: true } });
+  }
+
+  /**
+   * One template with its ODCs
+   */
+  public static async find(id: string): Promise<ProjectTemplate | null> {
+    const template = await this.findTemplate(id);
+    return template ? template.toProjectTemplate(await template.getOtherDirectCostInputs()) : null;
+  }
+
+  /**
+   * Create a project from a template with its dates moved to a new start, and count the use
+   */
+  public static async instantiate(template: PricingProject, request: InstantiateTemplateRequest): Promise<PricingProject> {
+    const startDate = request.startDate || new Date().toISOString().slice(0, 10);
+    const days = ProjectTemplates.dateOffsetDays(template.settings, startDate);
+    const contractVehicle = request.contractVehicle || template.contractVehicle;
+    const otherDirectCosts = await template.getOtherDirectCosts();
+
+    const project = await sequelize.transaction(async transaction => {
+      const created = await PricingProject.create({
+        tenantId: uuidv4(), // In real app, get from auth context
+        name: request.name.trim(),
+        description: request.description?.trim() ?? template.description ?? '',
+        ...(contractVehicle ? { contractVehicle } : {}),
+        settings: ProjectTemplates.shiftSettings(template.settings, days),
+        laborCategoriesData: ProjectTemplates.shiftLines(template.laborCategoriesData || [], days),
+        clinsData: ProjectTemplates.shiftClins(template.clinsData || [], days),
+        tags: template.tags || [],
+        createdBy: uuidv4(), // In real app, get from auth context
+        updatedBy: uuidv4(), // In real app, get from auth context
+      }, { transaction });
+
+      await this.copyOtherDirectCosts(otherDirectCosts, created, transaction);
+      await template.increment('usageCount', { transaction });
+      return created;
+    });
+
+    await ProjectVersionService.snapshot(project, `Created from template ${template.name}`);
+    return project;
+  }
+
+  /**
+   * Requested template category, else the one matching the project's contract type, else General
+   */
+  private static category(requested: string | undefined, contractType: string): ProjectTemplate['category'] {
+    const matching = TEMPLATE_CATEGORIES.find(category => category === requested)
+      ?? TEMPLATE_CATEGORIES.find(category => category === contractType);
+    return matching ?? 'General';
+  }
+
+  /**
+   * Copy ODC rows onto another project
+   */
+  private static async copyOtherDirectCosts(otherDirectCosts: OtherDirectCost[], project: PricingProject, transaction: Transaction): Promise<void> {
+    await OtherDirectCost.bulkCreate(otherDirectCosts.map(odc => ({
+      tenantId: project.tenantId,
+      projectId: project.id,
+      description: odc.description,
+      amount: odc.amount,
+      category: odc.category,
+      taxable: odc.taxable,
+      taxRate: odc.taxRate,
+    })), { transaction });
+  }
+}
@@ -0,0 +1,158 @@
+import { ProjectVersion } from '@pricing-calculator/types';
+import { OtherDirectCost, PricingProject, PricingProjectVersion } from '../models';
+import { ProjectSummaryService } from './project-summary.service';
+import { ProjectVersionService } from './project-version.service';
+
+const transaction = { LOCK: { UPDATE: 'UPDATE' } };
+
+jest.mock('../config/database', () => ({
+  sequelize: { transaction: jest.fn(async (run: (t: unknown) => Promise<unknown>) => run(transaction)) },
+}));
+jest.mock('../models', () => ({
+  OtherDirectCost: { destroy: jest.fn(), bulkCreate: jest.fn() },
+  PricingProject: { findByPk: jest.fn() },
+  PricingProjectVersion: { findOne: jest.fn(), create: jest.fn() },
+}));
+jest.mock('./project-summary.service', () => ({
+  ProjectSummaryService: { refresh: jest.fn() },
+}));
+
+const stored = (version: number) => {
+  const project = {
+    id: 'project-1',
+    tenantId: 'tenant',
+    name: 'Current',
+    settings: {},
+    version,
+    updatedBy: 'user',
+    getOtherDirectCostInputs: jest.fn().mockResolvedValue([]),
+    update: jest.fn(async (changes: { version: number }) => {
+      project.version = changes.version;
+    }),
+  };
+  return project;
+};
+
+const restoredVersion: ProjectVersion = {
+  id: 'version-2',
+  projectId: 'project-1',
+  version: 2,
+  changes: '',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  createdBy: 'user',
+  data: {
+    name: 'Restored',
+    settings: {
+      overheadRate: 0.3,
+      gaRate: 0.1,
+      feeRate: 0.08,
+      contractType: 'FFP',
+      periodOfPerformance: { startDate: '2025-01-01', endDate: '2025-12-31' },
+    },
+    laborCategories: [],
+    otherDirectCosts: [{ description: 'Travel', amount: 1000, category: 'Travel', taxable: false }],
+    clins: [],
+    tags: [],
+  },
+};
+
+describe('ProjectVersionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(PricingProjectVersion.findOne).mockResolvedValue({ toProjectVersion: () => restoredVersion } as never);
+    jest.mocked(PricingProjectVersion.create).mockImplementation((async (values: { version: number }) => ({
+      toProjectVersion: () => ({ ...restoredVersion, version: values.version }),
+    })) as never);
+  });
+
+  describe('update', () => {
+    it('saves the next version with the project row locked', async () => {
+      const project = stored(4);
+      jest.mocked(PricingProject.findByPk).mockResolvedValue(project as never);
+
+      const result = await ProjectVersionService.update('project-1', 4, async () => ({ name: 'Renamed' }), 'Renamed');
+
+      expect(PricingProject.findByPk).toHaveBeenCalledWith('project-1', { transaction, lock: 'UPDATE' });
+      expect(project.update).toHaveBeenCalledWith(
+        { name: 'Renamed', version: 5, updatedBy: expect.any(String) },
+        { transaction }
+      );
+      expect(result).toEqual({ project, saved: true, version: expect.objectContaining({ version: 5 }) });
+    });
+
+    it('snapshots the new version in the same transaction as the version bump', async () => {
+      const project = stored(4);
+      jest.mocked(PricingProject.findByPk).mockResolvedValue(project as never);
+
+      await ProjectVersionService.update('project-1', 4, async () => ({ name: 'Renamed' }), 'Renamed');
+
+      expect(project.getOtherDirectCostInputs).toHaveBeenCalledWith(transaction);
+      expect(ProjectSummaryService.refresh).toHaveBeenCalledWith(project, [], transaction);
+      expect(PricingProjectVersion.create).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 'project-1', version: 5, changeNote: 'Renamed' }),
+        { transaction }
+      );
+    });
+
+    it('leaves a project saved since the expected version untouched', async () => {
+      const project = stored(5);
+      const changes = jest.fn();
+      jest.mocked(PricingProject.findByPk).mockResolvedValue(project as never);
+
+      const result = await ProjectVersionService.update('project-1', 4, changes);
+
+      expect(result).toEqual({ project, saved: false });
+      expect(changes).not.toHaveBeenCalled();
+      expect(project.update).not.toHaveBeenCalled();
+      // The body of the 409 the routes send back
+      expect(ProjectVersionService.conflict(project as unknown as PricingProject, 4)).toMatchObject({
+        error: 'Version conflict',
+        message: 'Project was saved as version 5 since version 4 was loaded',
+        expectedVersion: 4,
+        currentVersion: 5,
+      });
+    });
+
+    it('reports a project deleted before the lock as missing', async () => {
+      jest.mocked(PricingProject.findByPk).mockResolvedValue(null);
+
+      expect(await ProjectVersionService.update('project-1', 4, jest.fn())).toEqual({ project: null, saved: false });
+    });
+  });
+
+  describe('restore', () => {
+    it('replaces the ODCs in the same transaction as the project and snapshots the new version', async () => {
+      const project = stored(4);
+      jest.mocked(PricingProject.findByPk).mockResolvedValue(project as never);
+
+      const result = await ProjectVersionService.restore(project as unknown as PricingProject, 2, 4);
+
+      expect(OtherDirectCost.destroy).toHaveBeenCalledWith({ where: { projectId: 'project-1' }, transaction });
+      expect(OtherDirectCost.bulkCreate).toHaveBeenCalledWith([expect.objectContaining({
+        projectId: 'project-1',
+        description: 'Travel',
+        amount: 1000,
+      })], { transaction });
+      expect(project.update).toHaveBeenCalledWith(expect.objectContaining({ name: 'Restored', version: 5 }), { transaction });
+      expect(result.saved).toBe(true);
+      expect(result.version?.version).toBe(5);
+      expect(PricingProjectVersion.create).toHaveBeenCalledWith(
+        expect.objectContaining({ changeNote: 'Restored from version 2' }),
+        { transaction }
+      );
+    });
+
+    it('restores nothing over a newer save', async () => {
+      const project = stored(4);
+      jest.mocked(PricingProject.findByPk).mockResolvedValue(stored(5) as never);
+
+      const result = await ProjectVersionService.restore(project as unknown as PricingProject, 2, 4);
+
+      expect(result.saved).toBe(false);
+      expect(result.version).toBeUndefined();
+      expect(OtherDirectCost.destroy).not.toHaveBeenCalled();
+      expect(OtherDirectCost.bulkCreate).not.toHaveBeenCalled();
+      expect(PricingProjectVersion.create).not.toHaveBeenCalled();
+    });
+  });
+});
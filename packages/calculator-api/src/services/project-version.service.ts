@@ -0,0 +1,202 @@
+/**
+ * Project Version Service
+ * Snapshots projects on every save, lists, diffs and restores their versions, and checks saves against the current version
+ */
+
+import { Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectVersion, ProjectVersionDiff } from '@pricing-calculator/types';
+import { ProjectVersions } from '@pricing-calculator/core';
+import { sequelize } from '../config/database';
+import { OtherDirectCost, PricingProject, PricingProjectVersion } from '../models';
+import { PricingProjectAttributes } from '../models/PricingProject';
+import { ProjectSummaryService } from './project-summary.service';
+
+export interface VersionedUpdate {
+  project: PricingProject | null; // Null when the project no longer exists
+  saved: boolean; // False when the project was saved as another version since the expected one
+}
+
+export class ProjectVersionService {
+  /**
+   * Snapshot a project as saved, with the totals it calculates to; the project's persisted summary is refreshed too.
+   * Pass the save's transaction so the version row commits, or rolls back, with the version bump
+   */
+  public static async snapshot(
+    project: PricingProject,
+    changeNote: string = '',
+    transaction?: Transaction
+  ): Promise<ProjectVersion> {
+    const otherDirectCosts = await project.getOtherDirectCostInputs(transaction);
+    const totals = await ProjectSummaryService.refresh(project, otherDirectCosts, transaction);
+
+    const version = await PricingProjectVersion.create({
+      tenantId: project.tenantId,
+      projectId: project.id,
+      version: project.version,
+      changeNote,
+      snapshot: {
+        name: project.name,
+        ...(project.description ? { description: project.description } : {}),
+        ...(project.contractVehicle ? { contractVehicle: project.contractVehicle } : {}),
+        settings: project.settings,
+        laborCategories: project.laborCategoriesData || [],
+        otherDirectCosts,
+        clins: project.clinsData || [],
+        tags: project.tags || [],
+      },
+      totals,
+      createdBy: project.updatedBy,
+    }, transaction ? { transaction } : {});
+
+    return version.toProjectVersion();
+  }
+
+  /**
+   * Snapshot the project's current version if it has none yet, so projects saved before versioning keep their history
+   */
+  public static async ensureSnapshot(project: PricingProject): Promise<void> {
+    const existing = await PricingProjectVersion.findOne({
+      where: { projectId: project.id, version: project.version }
+    });
+
+    if (!existing) {
+      await this.snapshot(project, 'Snapshot before first versioned save');
+    }
+  }
+
+  /**
+   * All versions of a project, newest first
+   */
+  public static async list(projectId: string): Promise<ProjectVersion[]> {
+    const versions = await PricingProjectVersion.findAll({
+      where: { projectId },
+      order: [['version', 'DESC']]
+    });
+    return versions.map(version => version.toProjectVersion());
+  }
+
+  /**
+   * One version of a project
+   */
+  public static async find(projectId: string, version: number): Promise<ProjectVersion | null> {
+    const found = await PricingProjectVersion.findOne({ where: { projectId, version } });
+    return found ? found.toProjectVersion() : null;
+  }
+
+  /**
+   * Field-level diff between two versions of a project
+   */
+  public static async diff(projectId: string, fromVersion: number, toVersion: number): Promise<ProjectVersionDiff> {
+    const [from, to] = await Promise.all([this.find(projectId, fromVersion), this.find(projectId, toVersion)]);
+
+    if (!from || !to) {
+      throw new Error(`Version ${!from ? fromVersion : toVersion} not found for project ${projectId}`);
+    }
+
+    return ProjectVersions.diff(from, to);
+  }
+
+  /**
+   * Restore an older version as a new version; the versions in between are kept.
+   * Not saved when the project has moved past the expected version
+   */
+  public static async restore(
+    project: PricingProject,
+    version: number,
+    expectedVersion: number,
+    changeNote?: string
+  ): Promise<VersionedUpdate & { version?: ProjectVersion }> {
+    const restored = await this.find(project.id, version);
+    if (!restored) {
+      throw new Error(`Version ${version} not found for project ${project.id}`);
+    }
+
+    await this.ensureSnapshot(project);
+
+    const { data } = restored;
+    return this.update(project.id, expectedVersion, async (locked, transaction) => {
+      // ODCs live in their own table; replace them with the restored set
+      await OtherDirectCost.destroy({ where: { projectId: locked.id }, transaction });
+      await OtherDirectCost.bulkCreate(data.otherDirectCosts.map(odc => ({
+        tenantId: locked.tenantId,
+        projectId: locked.id,
+        description: odc.description,
+        amount: odc.amount,
+        category: odc.category,
+        taxable: odc.taxable,
+        ...(odc.taxRate !== undefined ? { taxRate: odc.taxRate } : {}),
+      })), { transaction });
+
+      return {
+        name: data.name,
+        description: data.description ?? '',
+        contractVehicle: data.contractVehicle ?? '',
+        settings: data.settings,
+        laborCategoriesData: data.laborCategories,
+        clinsData: data.clins,
+        tags: data.tags,
+      };
+    }, changeNote || `Restored from version ${version}`);
+  }
+
+  /**
+   * Save changes as the project's next version with its row locked, so a save landing after the caller's own
+   * version check is caught too. The changes are built inside the transaction and may write related rows with it;
+   * the new version is snapshotted in the same transaction
+   */
+  public static async update(
+    id: string,
+    expectedVersion: number,
+    changes: (project: PricingProject, transaction: Transaction) => Promise<Partial<PricingProjectAttributes>>,
+    changeNote: string = ''
+  ): Promise<VersionedUpdate & { version?: ProjectVersion }> {
+    return sequelize.transaction(async transaction => {
+      const locked = await PricingProject.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!locked || locked.version !== expectedVersion) {
+        return { project: locked, saved: false };
+      }
+
+      await locked.update({
+        ...(await changes(locked, transaction)),
+        version: locked.version + 1,
+        updatedBy: uuidv4(), // In real app, get from auth context
+      }, { transaction });
+      return { project: locked, saved: true, version: await this.snapshot(locked, changeNote, transaction) };
+    });
+  }
+
+  /**
+   * ETag for a project version
+   */
+  public static etag(version: number): string {
+    return `"${version}"`;
+  }
+
+  /**
+   * Version a save is based on: the body's version, else the If-Match ETag; undefined when neither names one
+   */
+  public static expectedVersion(bodyVersion: unknown, ifMatch?: string): number | undefined {
+    if (bodyVersion !== undefined && bodyVersion !== null && bodyVersion !== '') {
+      const version = Number(bodyVersion);
+      return Number.isInteger(version) ? version : undefined;
+    }
+
+    const tag = ifMatch?.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+    const version = tag ? Number(tag) : NaN;
+    return Number.isInteger(version) ? version : undefined;
+  }
+
+  /**
+   * Body of a 409 for a stale save, carrying the server's current project so the client can merge
+   */
+  public static conflict(project: PricingProject, expectedVersion: number) {
+    return {
+      error: 'Version conflict',
+      message: `Project was saved as version ${project.version} since version ${expectedVersion} was loaded`,
+      expectedVersion,
+      currentVersion: project.version,
+      project,
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { CalculationInput, OtherDirectCostInput } from '@pricing-calculator/types';
+import { PricingCalculationEngine } from './calculation-engine';
+import { basePeriod, line, optionPeriod, settings, twoPeriodSettings } from './pricing.fixtures';
+
+const travel: OtherDirectCostInput = { description: 'Travel', amount: 1000, category: 'Travel', taxable: false };
+const licenses: OtherDirectCostInput = { description: 'Licenses', amount: 500, category: 'Other', taxable: false, periodId: 'op1' };
+
+// Option period listed first; 3% escalation, with one line escalating at its own 5%
+const input: CalculationInput = {
+  settings: { ...twoPeriodSettings, escalationRate: 0.03, periods: [optionPeriod, basePeriod] },
+  laborCategories: [line({ id: 'engineer' }), line({ id: 'analyst', escalationRate: 0.05 })],
+  otherDirectCosts: [travel, licenses],
+};
+
+describe('PricingCalculationEngine.calculateProject', () => {
+  it('prices periods in chronological order, defaulting to one period over the period of performance', () => {
+    const result = PricingCalculationEngine.calculateProject(input);
+
+    expect(result.periods?.map(period => [period.periodId, period.hoursFactor])).toEqual([['base', 1], ['op1', 1]]);
+    expect(PricingCalculationEngine.resolvePeriods(settings)).toEqual([{
+      id: 'base',
+      name: 'Base Period',
+      type: 'Base',
+      startDate: '2025-01-01',
+      endDate: '2025-12-31',
+    }]);
+  });
+
+  it('escalates each line at its own rate and reports the factor per period line', () => {
+    const [base, option] = PricingCalculationEngine.calculateProject(input).periods ?? [];
+
+    expect(base?.laborCategories.map(lc => [lc.baseRate, lc.escalationFactor, lc.burdenedRate])).toEqual([
+      [100, 1, 154.44],
+      [100, 1, 154.44],
+    ]);
+    expect(option?.laborCategories.map(lc => [lc.baseRate, lc.escalationFactor, lc.burdenedRate])).toEqual([
+      [103, 1.03, 159.07],
+      [105, 1.05, 162.16],
+    ]);
+  });
+
+  it('rolls period totals up into the project lines and totals', () => {
+    const result = PricingCalculationEngine.calculateProject(input);
+    const [base, option] = result.periods ?? [];
+
+    expect(base?.totals).toMatchObject({ laborCost: 308880, odcCost: 1000, totalCost: 309880 });
+    expect(option?.totals).toMatchObject({ laborCost: 321230, odcCost: 500, totalCost: 321730 });
+    expect(result.totals).toMatchObject({ laborCost: 630110, odcCost: 1500, totalCost: 631610 });
+    // Blended across periods; the project line has no single escalation factor
+    expect(result.laborCategories.map(lc => [lc.hours, lc.totalCost, lc.burdenedRate, lc.escalationFactor])).toEqual([
+      [2000, 313510, 156.76, undefined],
+      [2000, 316600, 158.3, undefined],
+    ]);
+    expect(result.findings).toBeUndefined();
+  });
+
+  it('counts an ODC for an unknown period toward the project only and flags it', () => {
+    const lost: OtherDirectCostInput = { description: 'Lost', amount: 250, category: 'Other', taxable: false, periodId: 'op9' };
+    const result = PricingCalculationEngine.calculateProject({ ...input, otherDirectCosts: [travel, licenses, lost] });
+
+    expect(result.periods?.map(period => period.totals.odcCost)).toEqual([1000, 500]);
+    expect(result.totals.odcCost).toBe(1750);
+    expect(result.findings).toEqual([{
+      type: 'unassigned-odc',
+      severity: 'warning',
+      message: 'Lost: assigned to unknown period op9, so it is left out of every period',
+      odcIndex: 2,
+      value: 250,
+    }]);
+  });
+});
+
+describe('PricingCalculationEngine staffing windows', () => {
+  // Sprint 1 starts 2025-12-01, so sprint 2 starts 2025-12-15
+  const sprintSettings = { ...twoPeriodSettings, sprintSchedule: { startDate: '2025-12-01', lengthDays: 14 } };
+  const midYear = line({ id: 'mid-year', startDate: '2025-07-01' });
+  const sprints = line({ id: 'sprints', startSprint: 2, sprintCount: 4 });
+
+  it('pro-rates a line starting mid-period by the days it is staffed', () => {
+    const [base, option] = PricingCalculationEngine.resolvePeriods(sprintSettings);
+
+    // 184 of 365 days, then the whole option year
+    expect(base && PricingCalculationEngine.calculateStaffingFactor(midYear, base, sprintSettings)).toBe(0.50411);
+    expect(option && PricingCalculationEngine.calculateStaffingFactor(midYear, option, sprintSettings)).toBe(1);
+  });
+
+  it('splits a sprint-count line that crosses a period boundary between both periods', () => {
+    const [base, option] = PricingCalculationEngine.resolvePeriods(sprintSettings);
+
+    // Four 14-day sprints from 2025-12-15: 17 days in the base year and 39 in the option year
+    expect(PricingCalculationEngine.resolveStaffingWindow(sprints, sprintSettings)).toEqual({
+      startDate: '2025-12-15',
+      endDate: '2026-02-08',
+    });
+    expect(base && PricingCalculationEngine.calculateStaffingFactor(sprints, base, sprintSettings)).toBe(0.046575);
+    expect(option && PricingCalculationEngine.calculateStaffingFactor(sprints, option, sprintSettings)).toBe(0.106849);
+  });
+
+  it('prices only the staffed hours in each period and rolls them up', () => {
+    const result = PricingCalculationEngine.calculateProject({
+      settings: sprintSettings,
+      laborCategories: [midYear, sprints],
+      otherDirectCosts: [],
+    });
+
+    expect(result.periods?.map(period => period.laborCategories.map(lc => [lc.hours, lc.totalCost]))).toEqual([
+      [[504.11, 77854.75], [46.575, 7193.04]],
+      [[1000, 154440], [106.849, 16501.76]],
+    ]);
+    expect(result.laborCategories.map(lc => [lc.hours, lc.totalCost])).toEqual([
+      [1504.11, 232294.75],
+      [153.424, 23694.8],
+    ]);
+  });
+});
@@ -1,165 +1,840 @@
 /**
  * Core pricing calculation engine
- * Implements government contracting pricing calculations with compounding burden rates
+ * Implements government contracting pricing calculations with indirect rate pools applied in structure order
+ * This is the single source of pricing math shared by the API and the web app
+ * Money is computed in exact decimal and rounded per the applied RoundingPolicy
  */
 
 import {
+  CalculationInput,
   CalculationResult,
-  LaborCategory,
+  LaborCategoryCalculationInput,
   LaborCategoryResult,
-  OtherDirectCost,
+  OtherDirectCostInput,
   OtherDirectCostResult,
+  PeriodResult,
+  PricingFinding,
+  PricingPeriod,
   PricingSettings,
+  PricingTotals,
+  RoundingPolicy,
+  IndirectRateStructure,
+  LocationType,
+  PremiumTable,
+  SalaryBreakdown,
+  SalaryPricingSettings,
+  ScenarioComparison,
+  ScenarioInput,
+  SubcontractingTotals,
+  WorkCalendarSettings,
   ClearanceLevel
 } from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { RoundingPolicies } from './rounding';
+import { IndirectAllocation, IndirectRateStructures } from './indirect-rates';
+import { ContractTypes } from './contract-types';
+import { PremiumTables } from './premiums';
+import { WorkshareCompliance } from './workshare';
+import { PositionSlots } from './position-slots';
+import { WorkCalendar } from './work-calendar';
+import { CeilingRates } from './ceiling-rates';
+import { PricingHealth } from './pricing-health';
 
-export class PricingCalculationEngine {
-  private static readonly CLEARANCE_PREMIUMS: Record<ClearanceLevel, number> = {
-    'None': 0.0,
-    'Public Trust': 0.05,
-    'Secret': 0.10,
-    'Top Secret': 0.20
-  };
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
 
-  private static readonly TAX_RATE = 0.0875; // 8.75% default tax rate
+export class PricingCalculationEngine {
+  static readonly VERSION = '1.0.0'; // Bump when a change alters calculated results; persisted project summaries are recomputed
+  static readonly DEFAULT_TAX_RATE = 0.0875; // 8.75% default tax rate
+  static readonly DEFAULT_ANNUAL_HOURS = 1920; // Billable hours per FTE-year
+  static readonly DEFAULT_SUBCONTRACTOR_MARKUP = 0.10; // Prime pass-through markup on sub rates
+  static readonly DEFAULT_SPRINT_LENGTH_DAYS = 14;
 
   /**
    * Calculate pricing for a complete project
    */
-  static calculateProject(
-    settings: PricingSettings,
-    laborCategories: LaborCategory[],
-    otherDirectCosts: OtherDirectCost[] = []
-  ): CalculationResult {
-    const laborResults = this.calculateLaborCategories(settings, laborCategories);
-    const odcResults = this.calculateOtherDirectCosts(otherDirectCosts);
-    
-    const totalLaborCost = laborResults.reduce((sum, result) => sum + result.totalCost, 0);
-    const totalODCCost = odcResults.reduce((sum, result) => sum + result.totalAmount, 0);
-    const totalProjectCost = totalLaborCost + totalODCCost;
-    const totalEffectiveHours = laborResults.reduce((sum, result) => sum + result.effectiveHours, 0);
-    const averageBurdenedRate = totalEffectiveHours > 0 ? totalLaborCost / totalEffectiveHours : 0;
+  static calculateProject(input: CalculationInput): CalculationResult {
+    const roundingPolicy = this.resolveRoundingPolicy(input.settings);
+    const hasExplicitPeriods = (input.settings.periods?.length ?? 0) > 0;
+    const resolvedPeriods = this.resolvePeriods(input.settings);
+    const firstPeriodId = resolvedPeriods[0]?.id;
+
+    // Per period, per line; combined into the project-level lines below
+    const periodLines: LaborCategoryResult[][] = [];
+
+    const periods: PeriodResult[] = resolvedPeriods.map((period, periodIndex) => {
+      // Without explicit periods, hours are whole-contract hours and are not pro-rated
+      const hoursFactor = hasExplicitPeriods ? this.calculatePeriodHoursFactor(period, input.settings.workCalendar) : 1;
+      const periodSettings = this.resolvePeriodSettings(input.settings, period);
+      const ceilingEscalationFactor = this.calculateEscalationFactor(
+        input.settings.ceilingEscalationRate ?? input.settings.escalationRate ?? 0,
+        periodIndex
+      );
+
+      const escalationFactors = input.laborCategories.map(lc =>
+        this.calculateEscalationFactor(lc.escalationRate ?? input.settings.escalationRate ?? 0, periodIndex)
+      );
+      const laborResults = input.laborCategories.map((lc, index) => {
+        // Lines with their own start/end dates only price the part of the period they are staffed
+        const staffingFactor = this.calculateStaffingFactor(lc, period, input.settings);
+        const line = this.calculateLaborCategory(lc, periodSettings, escalationFactors[index], hoursFactor * staffingFactor);
+        return lc.ceilingRate && lc.ceilingRate > 0
+          ? { ...line, ...CeilingRates.compare(line, lc.ceilingRate, ceilingEscalationFactor, roundingPolicy) }
+          : line;
+      });
+      periodLines.push(laborResults);
+
+      const odcResults = input.otherDirectCosts
+        .filter(odc => (odc.periodId ?? firstPeriodId) === period.id)
+        .map(odc => this.calculateOtherDirectCost(odc, roundingPolicy, input.settings));
+
+      return {
+        periodId: period.id,
+        name: period.name,
+        type: period.type,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        hoursFactor,
+        ...(input.settings.workCalendar ? {
+          availableHours: this.calculatePeriodAvailableHours(period, input.settings.workCalendar),
+        } : {}),
+        // Lines escalate at their own rate, so the factor is reported per line
+        laborCategories: laborResults.map((line, index) => ({ ...line, escalationFactor: escalationFactors[index] ?? 1 })),
+        otherDirectCosts: odcResults,
+        totals: this.calculateTotals(laborResults, odcResults, roundingPolicy),
+      };
+    });
+
+    // ODCs assigned to an unknown period still count toward the project, and are flagged below
+    const odcResults = input.otherDirectCosts.map(odc => this.calculateOtherDirectCost(odc, roundingPolicy, input.settings));
+
+    const laborResults = input.laborCategories.map((_lc, index) => this.combinePeriodLines(
+      periodLines
+        .map(lines => lines[index])
+        .filter((line): line is LaborCategoryResult => line !== undefined),
+      roundingPolicy
+    ));
+
+    const totals = this.calculateTotals(laborResults, odcResults, roundingPolicy);
+    const contract = ContractTypes.calculateTotals(
+      {
+        laborCategories: laborResults,
+        otherDirectCosts: odcResults,
+        totals,
+        ...(periods[0] ? { baseLaborCategories: periods[0].laborCategories } : {}),
+      },
+      input.settings,
+      roundingPolicy
+    );
+    const workshare = totals.subcontracting || input.settings.workshareRequirement
+      ? WorkshareCompliance.calculate({ laborCategories: laborResults, periods }, input.settings.workshareRequirement)
+      : undefined;
+    const positionSlots = input.positionSlots?.length
+      ? PositionSlots.calculate(input.positionSlots, input.laborCategories, laborResults)
+      : undefined;
+    // Outside salary mode, lines with a salary are still checked against the company minimum rate
+    const findings = PricingHealth.findFindings({
+      laborCategories: laborResults,
+      ...(positionSlots ? { positionSlots } : {}),
+      ...(input.settings.salaryPricing && input.settings.pricingMode !== 'salary' ? {
+        companyMinimumRates: input.laborCategories.map(lc => this.calculateCompanyMinimumRate(lc, input.settings)),
+      } : {}),
+      totals,
+      settings: input.settings,
+    }).concat(this.findUnassignedOtherDirectCosts(input.otherDirectCosts, resolvedPeriods));
 
     return {
+      projectId: input.settings.projectId || '',
       laborCategories: laborResults,
       otherDirectCosts: odcResults,
-      totals: {
-        totalLaborCost,
-        totalODCCost,
-        totalProjectCost,
-        totalEffectiveHours,
-        averageBurdenedRate
+      periods,
+      totals,
+      settings: input.settings,
+      calculatedAt: new Date().toISOString(),
+      roundingPolicy,
+      contract,
+      ...(workshare ? { workshare } : {}),
+      ...(positionSlots ? { positionSlots } : {}),
+      ...(findings.length > 0 ? { findings } : {}),
+    };
+  }
+
+  /**
+   * Resolve the rounding policy for a calculation (defaults to rounding the rate to the cent)
+   */
+  static resolveRoundingPolicy(settings: PricingSettings): RoundingPolicy {
+    return settings.roundingPolicy ?? RoundingPolicies.DEFAULT;
+  }
+
+  /**
+   * Resolve the indirect rate structure for a calculation (defaults to overhead → G&A)
+   */
+  static resolveIndirectRateStructure(settings: PricingSettings): IndirectRateStructure {
+    return settings.indirectRateStructure ?? IndirectRateStructures.DEFAULT;
+  }
+
+  /**
+   * Resolve the clearance premium and location differential table for a calculation (defaults to the standard table)
+   */
+  static resolvePremiumTable(settings: PricingSettings): PremiumTable {
+    return settings.premiumTable ?? PremiumTables.DEFAULT;
+  }
+
+  /**
+   * Resolve pricing periods in chronological order (defaults to a single period spanning the PoP)
+   */
+  static resolvePeriods(settings: PricingSettings): PricingPeriod[] {
+    if (settings.periods && settings.periods.length > 0) {
+      return [...settings.periods].sort(
+        (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+      );
+    }
+
+    return [{
+      id: 'base',
+      name: 'Base Period',
+      type: 'Base',
+      startDate: settings.periodOfPerformance?.startDate ?? '',
+      endDate: settings.periodOfPerformance?.endDate ?? '',
+    }];
+  }
+
+  /**
+   * Flag ODCs assigned to a period that does not exist; they count toward the project but toward no period
+   */
+  static findUnassignedOtherDirectCosts(otherDirectCosts: OtherDirectCostInput[], periods: PricingPeriod[]): PricingFinding[] {
+    const periodIds = new Set(periods.map(period => period.id));
+
+    return otherDirectCosts.flatMap((odc, odcIndex): PricingFinding[] =>
+      odc.periodId === undefined || periodIds.has(odc.periodId)
+        ? []
+        : [{
+          type: 'unassigned-odc',
+          severity: 'warning',
+          message: `${odc.description}: assigned to unknown period ${odc.periodId}, so it is left out of every period`,
+          odcIndex,
+          value: odc.amount,
+        }]
+    );
+  }
+
+  /**
+   * Calculate the share of annual hours priced in a period
+   * With a work calendar this is the period's working hours ÷ a year's; otherwise it is rounded to whole months
+   */
+  static calculatePeriodHoursFactor(period: PricingPeriod, workCalendar?: WorkCalendarSettings): number {
+    if (workCalendar) {
+      const periodHours = this.calculatePeriodAvailableHours(period, workCalendar);
+      const annualHours = periodHours > 0 ? WorkCalendar.calculateAnnualHours(period.startDate, workCalendar) : 0;
+      return annualHours > 0 ? Decimal.from(periodHours).dividedBy(annualHours).round(6).toNumber() : 0;
+    }
+
+    const startDate = new Date(period.startDate);
+    const endDate = new Date(period.endDate);
+    const days = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24) + 1;
+
+    if (!Number.isFinite(days) || days <= 0) {
+      return 0;
+    }
+
+    const months = Math.max(1, Math.round(days / (365.25 / 12)));
+    return months / 12;
+  }
+
+  /**
+   * Working hours per FTE in a period; 0 when the period dates are missing or invalid
+   */
+  static calculatePeriodAvailableHours(period: PricingPeriod, workCalendar: WorkCalendarSettings): number {
+    const start = Date.parse(period.startDate);
+    const end = Date.parse(period.endDate);
+    if (!(end >= start)) {
+      return 0;
+    }
+    return WorkCalendar.calculateWorkingHours(period.startDate, period.endDate, workCalendar).availableHours;
+  }
+
+  /**
+   * Settings for pricing one period: with a work calendar, salary annual hours default to the period's working year
+   */
+  private static resolvePeriodSettings(settings: PricingSettings, period: PricingPeriod): PricingSettings {
+    const { workCalendar, salaryPricing } = settings;
+    if (!workCalendar || !salaryPricing || salaryPricing.annualHours !== undefined || !Number.isFinite(Date.parse(period.startDate))) {
+      return settings;
+    }
+
+    return {
+      ...settings,
+      salaryPricing: {
+        ...salaryPricing,
+        annualHours: WorkCalendar.calculateAnnualHours(period.startDate, workCalendar),
       },
-      settings
     };
   }
 
   /**
-   * Calculate pricing for labor categories
+   * Resolve a line's staffing window from its dates, or from its start sprint and sprint count
    */
-  private static calculateLaborCategories(
-    settings: PricingSettings,
-    laborCategories: LaborCategory[]
-  ): LaborCategoryResult[] {
-    return laborCategories.map(category => this.calculateLaborCategory(settings, category));
+  static resolveStaffingWindow(
+    category: LaborCategoryCalculationInput,
+    settings: PricingSettings
+  ): { startDate?: string; endDate?: string } {
+    const usesSprints = category.startSprint !== undefined || category.sprintCount !== undefined;
+    if (!usesSprints) {
+      return {
+        ...(category.startDate ? { startDate: category.startDate } : {}),
+        ...(category.endDate ? { endDate: category.endDate } : {}),
+      };
+    }
+
+    const lengthDays = settings.sprintSchedule?.lengthDays ?? this.DEFAULT_SPRINT_LENGTH_DAYS;
+    const sprintOne = settings.sprintSchedule?.startDate || settings.periodOfPerformance?.startDate;
+    const startDate = category.startDate
+      || (sprintOne ? this.addDays(sprintOne, ((category.startSprint ?? 1) - 1) * lengthDays) : undefined);
+    const endDate = startDate && category.sprintCount !== undefined
+      ? this.addDays(startDate, category.sprintCount * lengthDays - 1)
+      : category.endDate;
+
+    return {
+      ...(startDate ? { startDate } : {}),
+      ...(endDate ? { endDate } : {}),
+    };
+  }
+
+  /**
+   * Share of a period's days inside a line's staffing window (1 without line dates or period dates)
+   */
+  static calculateStaffingFactor(
+    category: LaborCategoryCalculationInput,
+    period: PricingPeriod,
+    settings: PricingSettings
+  ): number {
+    const window = this.resolveStaffingWindow(category, settings);
+    const periodStart = Date.parse(period.startDate);
+    const periodEnd = Date.parse(period.endDate);
+    if ((!window.startDate && !window.endDate) || !(periodEnd >= periodStart)) {
+      return 1;
+    }
+
+    const windowStart = window.startDate ? Date.parse(window.startDate) : NaN;
+    const windowEnd = window.endDate ? Date.parse(window.endDate) : NaN;
+    const start = Number.isFinite(windowStart) ? Math.max(periodStart, windowStart) : periodStart;
+    const end = Number.isFinite(windowEnd) ? Math.min(periodEnd, windowEnd) : periodEnd;
+    if (end < start) {
+      return 0;
+    }
+
+    const staffedDays = (end - start) / MS_PER_DAY + 1;
+    const periodDays = (periodEnd - periodStart) / MS_PER_DAY + 1;
+    return Decimal.from(staffedDays).dividedBy(periodDays).round(6).toNumber();
+  }
+
+  /**
+   * ISO date a number of days after another; invalid dates are returned unchanged
+   */
+  private static addDays(date: string, days: number): string {
+    const time = Date.parse(date);
+    return Number.isFinite(time) ? new Date(time + days * MS_PER_DAY).toISOString().slice(0, 10) : date;
+  }
+
+  /**
+   * Calculate compounded escalation factor for a period index (base period = 0)
+   */
+  static calculateEscalationFactor(escalationRate: number, periodIndex: number): number {
+    return Math.pow(1 + escalationRate, periodIndex);
+  }
+
+  /**
+   * Calculate totals for a set of labor and ODC results
+   */
+  static calculateTotals(
+    laborResults: LaborCategoryResult[],
+    odcResults: OtherDirectCostResult[],
+    roundingPolicy: RoundingPolicy = RoundingPolicies.DEFAULT
+  ): PricingTotals {
+    const laborCost = Decimal.sum(laborResults.map(lr => lr.totalCost));
+    const odcCost = Decimal.sum(odcResults.map(odc => odc.totalAmount));
+    const feeAmount = Decimal.sum(laborResults.map(lr => lr.feeAmount));
+    const totalEffectiveHours = Decimal.sum(laborResults.map(lr => lr.effectiveHours));
+    const salaryLines = laborResults.filter(lr => lr.actualCost !== undefined);
+    const hasSubcontractors = laborResults.some(lr => lr.subcontractorCost !== undefined);
+
+    return {
+      ...(salaryLines.length > 0 ? this.calculateActualProfit(
+        Decimal.sum(salaryLines.map(lr => lr.totalCost)),
+        Decimal.sum(salaryLines.map(lr => lr.actualCost ?? 0))
+      ) : {}),
+      laborCost: laborCost.toNumber(),
+      odcCost: odcCost.toNumber(),
+      feeAmount: feeAmount.toNumber(),
+      totalCost: laborCost.plus(odcCost).toNumber(),
+      totalEffectiveHours: totalEffectiveHours.toNumber(),
+      averageBurdenedRate: totalEffectiveHours.isZero()
+        ? 0
+        : RoundingPolicies.roundAmount(laborCost.dividedBy(totalEffectiveHours), roundingPolicy).toNumber(),
+      ...(hasSubcontractors ? { subcontracting: this.calculateSubcontractingTotals(laborResults) } : {}),
+    };
+  }
+
+  /**
+   * Split labor price, cost and profit between prime and subcontractor lines
+   */
+  static calculateSubcontractingTotals(laborResults: LaborCategoryResult[]): SubcontractingTotals {
+    const subLines = laborResults.filter(lr => lr.subcontractorCost !== undefined);
+    const primeLines = laborResults.filter(lr => lr.subcontractorCost === undefined);
+
+    const primePrice = Decimal.sum(primeLines.map(lr => lr.totalCost));
+    const primeProfit = Decimal.sum(primeLines.map(lr => lr.actualProfit ?? lr.feeAmount));
+    const subcontractorPrice = Decimal.sum(subLines.map(lr => lr.totalCost));
+    const subcontractorCost = Decimal.sum(subLines.map(lr => lr.subcontractorCost ?? 0));
+
+    return {
+      primeCost: primePrice.minus(primeProfit).toNumber(),
+      primePrice: primePrice.toNumber(),
+      primeProfit: primeProfit.toNumber(),
+      subcontractorCost: subcontractorCost.toNumber(),
+      subcontractorPrice: subcontractorPrice.toNumber(),
+      subcontractorProfit: subcontractorPrice.minus(subcontractorCost).toNumber(),
+    };
+  }
+
+  /**
+   * Calculate actual profit $ and % from a labor price and the actual salary + wrap cost
+   */
+  private static calculateActualProfit(
+    price: Decimal,
+    actualCost: Decimal
+  ): { actualCost: number; actualProfit: number; actualProfitPercentage: number } {
+    const actualProfit = price.minus(actualCost);
+
+    return {
+      actualCost: actualCost.toNumber(),
+      actualProfit: actualProfit.toNumber(),
+      actualProfitPercentage: price.isZero() ? 0 : actualProfit.dividedBy(price).round(4).toNumber(),
+    };
+  }
+
+  /**
+   * Combine a labor category's per-period lines into a single project-level line
+   */
+  private static combinePeriodLines(
+    periodLines: LaborCategoryResult[],
+    roundingPolicy: RoundingPolicy
+  ): LaborCategoryResult {
+    const [first, ...rest] = periodLines;
+    if (!first) {
+      throw new Error('Labor category has no period results');
+    }
+    if (rest.length === 0) {
+      return first;
+    }
+
+    const effectiveHours = Decimal.sum(periodLines.map(line => line.effectiveHours));
+    const totalCost = Decimal.sum(periodLines.map(line => line.totalCost));
+
+    return {
+      ...first,
+      hours: Decimal.sum(periodLines.map(line => line.hours)).toNumber(),
+      effectiveHours: effectiveHours.toNumber(),
+      overheadAmount: Decimal.sum(periodLines.map(line => line.overheadAmount)).toNumber(),
+      gaAmount: Decimal.sum(periodLines.map(line => line.gaAmount)).toNumber(),
+      ...(first.fringeAmount !== undefined
+        ? { fringeAmount: Decimal.sum(periodLines.map(line => line.fringeAmount ?? 0)).toNumber() }
+        : {}),
+      indirectAmounts: first.indirectAmounts.map((pool, poolIndex) => ({
+        ...pool,
+        amount: Decimal.sum(periodLines.map(line => line.indirectAmounts[poolIndex]?.amount ?? 0)).toNumber(),
+      })),
+      feeAmount: Decimal.sum(periodLines.map(line => line.feeAmount)).toNumber(),
+      totalCost: totalCost.toNumber(),
+      ...(first.actualCost !== undefined
+        ? this.calculateActualProfit(totalCost, Decimal.sum(periodLines.map(line => line.actualCost ?? 0)))
+        : {}),
+      ...(first.subcontractorCost !== undefined ? {
+        subcontractorCost: Decimal.sum(periodLines.map(line => line.subcontractorCost ?? 0)).toNumber(),
+        exceedsMaxSubcontractorRate: periodLines.some(line => line.exceedsMaxSubcontractorRate === true),
+      } : {}),
+      ...(first.ceilingRate !== undefined ? CeilingRates.combine(periodLines) : {}),
+      // Blended across periods
+      burdenedRate: effectiveHours.isZero()
+        ? first.burdenedRate
+        : RoundingPolicies.roundAmount(totalCost.dividedBy(effectiveHours), roundingPolicy).toNumber(),
+    };
   }
 
   /**
    * Calculate pricing for a single labor category
    */
-  private static calculateLaborCategory(
+  static calculateLaborCategory(
+    category: LaborCategoryCalculationInput,
     settings: PricingSettings,
-    category: LaborCategory
+    escalationFactor: number = 1,
+    hoursFactor: number = 1
   ): LaborCategoryResult {
-    const effectiveHours = (category.hours * category.ftePercentage) / 100;
-    const clearancePremium = this.CLEARANCE_PREMIUMS[category.clearanceLevel];
-    const clearanceAdjustedRate = category.baseRate * (1 + clearancePremium);
-    
-    // Compounding burden calculation: Base → +Overhead → +G&A → +Fee
-    const overheadAmount = clearanceAdjustedRate * settings.overheadRate;
-    const overheadRate = clearanceAdjustedRate + overheadAmount;
-    
-    const gaAmount = overheadRate * settings.gaRate;
-    const gaRate = overheadRate + gaAmount;
-    
-    const feeAmount = gaRate * settings.feeRate;
-    const feeRate = gaRate + feeAmount;
-    
-    const burdenedRate = feeRate;
-    const totalCost = burdenedRate * effectiveHours;
+    const roundingPolicy = this.resolveRoundingPolicy(settings);
+
+    // Apply period escalation and pro-rate hours to the period
+    const escalation = Decimal.from(escalationFactor);
+    const baseRate = RoundingPolicies.roundRate(Decimal.from(category.baseRate).times(escalation), roundingPolicy);
+    const hours = Decimal.from(category.hours).times(hoursFactor);
+    const capacity = category.capacity ?? 1;
+
+    const effectiveHours = hours.times(category.ftePercentage).dividedBy(100).times(capacity);
+    // Clearance premium and location differential both apply to the base rate
+    const premiumTable = this.resolvePremiumTable(settings);
+    const clearance = category.clearancePremium !== undefined
+      ? { rate: category.clearancePremium, source: 'line' as const }
+      : PremiumTables.clearancePremium(premiumTable, category.clearanceLevel);
+    const differential = PremiumTables.locationDifferential(premiumTable, category.location, category.locality);
+    const staffingWindow = this.resolveStaffingWindow(category, settings);
+    const clearanceAdjustedRate = baseRate.times(Decimal.ONE.plus(clearance.rate).plus(differential.rate));
+
+    // Subcontractor lines price from the sub rate + pass-through markup; prime indirects do not apply
+    const subcontractor = category.primeOrSub === 'Subcontractor'
+      ? this.resolveSubcontractorRate(category, settings, escalation, roundingPolicy)
+      : undefined;
+
+    // Indirect pools in structure order (default: Base → +Overhead → +G&A), then +Fee
+    const structure = this.resolveIndirectRateStructure(settings);
+    const allocations: IndirectAllocation[] = subcontractor ? [] : IndirectRateStructures.allocate(
+      structure,
+      settings,
+      { directLabor: clearanceAdjustedRate },
+      category.location
+    );
+    const costRate = subcontractor?.rate
+      ?? clearanceAdjustedRate.plus(Decimal.sum(allocations.map(allocation => allocation.amount)));
+    const feeRate = subcontractor?.markup ?? settings.feeRate;
+    const burdenedRate = RoundingPolicies.roundRate(costRate.times(Decimal.ONE.plus(feeRate)), roundingPolicy);
+
+    const poolAmount = (pools: IndirectAllocation[]) => RoundingPolicies.roundAmount(
+      Decimal.sum(pools.map(allocation => allocation.amount)).times(effectiveHours),
+      roundingPolicy
+    );
+    const poolRate = (pools: IndirectAllocation[]) => Decimal.sum(pools.map(allocation => allocation.rate)).toNumber();
+    const overheadPools = allocations.filter(allocation => allocation.pool.type === 'overhead');
+    const gaPools = allocations.filter(allocation => allocation.pool.type === 'ga');
+    const hasFringe = structure.pools.some(pool => pool.type === 'fringe');
+
+    // Salary mode prices from the escalated annual salary + wrap + minimum profit
+    const salaryPricing = settings.pricingMode === 'salary' && !subcontractor ? settings.salaryPricing : undefined;
+    const annualHours = salaryPricing?.annualHours ?? category.hours * (category.ftePercentage / 100);
+    const salary = salaryPricing && category.annualSalary !== undefined && annualHours > 0
+      ? this.calculateSalaryBreakdown(
+        Decimal.from(category.annualSalary).times(escalation).toNumber(),
+        salaryPricing,
+        annualHours,
+        roundingPolicy
+      )
+      : undefined;
+
+    // A negotiated final rate replaces the burdened rate (or company minimum rate); fee absorbs the difference
+    const finalRate = category.finalRate && category.finalRate > 0
+      ? RoundingPolicies.roundRate(Decimal.from(category.finalRate).times(escalation), roundingPolicy)
+      : undefined;
+    const billedRate = finalRate ?? (salary ? Decimal.from(salary.companyMinimumRate) : burdenedRate);
+    const totalCost = RoundingPolicies.roundAmount(billedRate.times(effectiveHours), roundingPolicy);
+
+    const subcontractorCost = subcontractor
+      ? RoundingPolicies.roundAmount(subcontractor.rate.times(effectiveHours), roundingPolicy)
+      : undefined;
+
+    // Actual cost is salary + wrap for the share of an FTE-year priced on this line (sub cost on sub lines)
+    const actualProfit = salary
+      ? this.calculateActualProfit(
+        totalCost,
+        RoundingPolicies.roundAmount(
+          Decimal.from(salary.annualSalary).plus(salary.wrapAmount).times(effectiveHours).dividedBy(annualHours),
+          roundingPolicy
+        )
+      )
+      : subcontractorCost && settings.pricingMode === 'salary'
+        ? this.calculateActualProfit(totalCost, subcontractorCost)
+        : undefined;
+    const feeAmount = actualProfit
+      ? Decimal.from(actualProfit.actualProfit)
+      : totalCost.minus(RoundingPolicies.roundAmount(costRate.times(effectiveHours), roundingPolicy));
 
     return {
-      id: category.id,
+      id: category.id || '',
       title: category.title,
-      baseRate: category.baseRate,
-      hours: category.hours,
+      baseRate: baseRate.toNumber(),
+      hours: hours.toNumber(),
       ftePercentage: category.ftePercentage,
-      effectiveHours,
+      capacity,
+      effectiveHours: effectiveHours.toNumber(),
       clearanceLevel: category.clearanceLevel,
       location: category.location,
-      clearancePremium,
-      clearanceAdjustedRate,
-      overheadAmount,
-      overheadRate,
-      gaAmount,
-      gaRate,
-      feeAmount,
+      ...(category.locality !== undefined ? { locality: category.locality } : {}),
+      ...(category.slotId !== undefined ? { slotId: category.slotId } : {}),
+      ...(category.assigneeName ? { assigneeName: category.assigneeName } : {}),
+      ...staffingWindow,
+      clearancePremium: clearance.rate,
+      clearancePremiumSource: clearance.source,
+      locationDifferential: differential.rate,
+      locationDifferentialSource: differential.source,
+      clearanceAdjustedRate: clearanceAdjustedRate.toNumber(),
+      overheadAmount: poolAmount(overheadPools).toNumber(),
+      overheadRate: poolRate(overheadPools),
+      gaAmount: poolAmount(gaPools).toNumber(),
+      gaRate: poolRate(gaPools),
+      ...(hasFringe
+        ? { fringeAmount: poolAmount(allocations.filter(allocation => allocation.pool.type === 'fringe')).toNumber() }
+        : {}),
+      indirectAmounts: allocations.map(allocation => ({
+        poolId: allocation.pool.id,
+        name: allocation.pool.name,
+        type: allocation.pool.type,
+        rate: allocation.rate,
+        amount: poolAmount([allocation]).toNumber(),
+      })),
+      feeAmount: feeAmount.toNumber(),
       feeRate,
-      totalCost,
-      burdenedRate
+      totalCost: totalCost.toNumber(),
+      burdenedRate: burdenedRate.toNumber(),
+      ...(finalRate !== undefined ? { finalRate: finalRate.toNumber() } : {}),
+      escalationRate: category.escalationRate ?? settings.escalationRate ?? 0,
+      ...(salary ?? {}),
+      ...(actualProfit ?? {}),
+      ...(subcontractor && subcontractorCost ? this.describeSubcontractorLine(
+        category,
+        subcontractor,
+        subcontractorCost,
+        billedRate,
+        settings
+      ) : {}),
     };
   }
 
   /**
-   * Calculate pricing for other direct costs
+   * Highest sub hourly rate the prime can pay and still earn minimum profit on sub cost at a billed rate
    */
-  private static calculateOtherDirectCosts(
-    otherDirectCosts: OtherDirectCost[]
-  ): OtherDirectCostResult[] {
-    return otherDirectCosts.map(odc => {
-      const taxAmount = odc.taxable ? odc.amount * this.TAX_RATE : 0;
-      const totalAmount = odc.amount + taxAmount;
+  static calculateMaxSubcontractorRate(billedRate: number, minimumProfitRate: number): number {
+    return Decimal.from(billedRate).dividedBy(Decimal.ONE.plus(minimumProfitRate)).round(2, 'down').toNumber();
+  }
 
-      return {
-        id: odc.id,
-        description: odc.description,
-        amount: odc.amount,
-        category: odc.category,
-        taxable: odc.taxable,
-        taxAmount,
-        totalAmount
-      };
-    });
+  /**
+   * Escalated sub rate (defaults to the base rate) and pass-through markup for a subcontractor line
+   */
+  private static resolveSubcontractorRate(
+    category: LaborCategoryCalculationInput,
+    settings: PricingSettings,
+    escalation: Decimal,
+    roundingPolicy: RoundingPolicy
+  ): { rate: Decimal; markup: number } {
+    return {
+      rate: RoundingPolicies.roundRate(
+        Decimal.from(category.finalSubcontractorRate ?? category.baseRate).times(escalation),
+        roundingPolicy
+      ),
+      markup: settings.subcontractorPricing?.passThroughMarkup ?? this.DEFAULT_SUBCONTRACTOR_MARKUP,
+    };
+  }
+
+  /**
+   * Subcontractor fields for a line result, including the minimum-profit cap on the sub rate
+   */
+  private static describeSubcontractorLine(
+    category: LaborCategoryCalculationInput,
+    subcontractor: { rate: Decimal; markup: number },
+    subcontractorCost: Decimal,
+    billedRate: Decimal,
+    settings: PricingSettings
+  ): Partial<LaborCategoryResult> {
+    const minimumProfitRate = settings.subcontractorPricing?.minimumProfitRate
+      ?? settings.salaryPricing?.minimumProfitRate
+      ?? 0;
+    const maxSubcontractorRate = this.calculateMaxSubcontractorRate(billedRate.toNumber(), minimumProfitRate);
+
+    return {
+      primeOrSub: 'Subcontractor',
+      ...(category.subcontractorCompany ? { subcontractorCompany: category.subcontractorCompany } : {}),
+      finalSubcontractorRate: subcontractor.rate.toNumber(),
+      passThroughMarkup: subcontractor.markup,
+      subcontractorCost: subcontractorCost.toNumber(),
+      maxSubcontractorRate,
+      exceedsMaxSubcontractorRate: subcontractor.rate.compare(maxSubcontractorRate) > 0,
+    };
+  }
+
+  /**
+   * Calculate a line's company minimum hourly rate, or undefined without salary or salary pricing
+   */
+  static calculateCompanyMinimumRate(
+    category: LaborCategoryCalculationInput,
+    settings: PricingSettings
+  ): number | undefined {
+    const salaryPricing = settings.salaryPricing;
+    const annualHours = salaryPricing?.annualHours ?? category.hours * (category.ftePercentage / 100);
+    if (!salaryPricing || category.annualSalary === undefined || annualHours <= 0) {
+      return undefined;
+    }
+
+    return this.calculateSalaryBreakdown(
+      category.annualSalary,
+      salaryPricing,
+      annualHours,
+      this.resolveRoundingPolicy(settings)
+    ).companyMinimumRate;
+  }
+
+  /**
+   * Calculate wrap, minimum profit and company minimum hourly rate from an annual salary
+   */
+  static calculateSalaryBreakdown(
+    annualSalary: number,
+    salaryPricing: SalaryPricingSettings,
+    annualHours: number = salaryPricing.annualHours ?? this.DEFAULT_ANNUAL_HOURS,
+    roundingPolicy: RoundingPolicy = RoundingPolicies.DEFAULT
+  ): SalaryBreakdown {
+    const salary = Decimal.from(annualSalary);
+    const wrapAmount = RoundingPolicies.roundAmount(salary.times(salaryPricing.wrapRate), roundingPolicy);
+    const minimumProfitAmount = RoundingPolicies.roundAmount(
+      salary.plus(wrapAmount).times(salaryPricing.minimumProfitRate),
+      roundingPolicy
+    );
+    const minimumAnnualRevenue = salary.plus(wrapAmount).plus(minimumProfitAmount);
+    const companyMinimumRate = annualHours > 0
+      ? RoundingPolicies.roundRate(minimumAnnualRevenue.dividedBy(annualHours), roundingPolicy)
+      : Decimal.ZERO;
+
+    return {
+      annualSalary: salary.toNumber(),
+      wrapAmount: wrapAmount.toNumber(),
+      minimumProfitAmount: minimumProfitAmount.toNumber(),
+      minimumAnnualRevenue: minimumAnnualRevenue.toNumber(),
+      companyMinimumRate: companyMinimumRate.toNumber(),
+    };
+  }
+
+  /**
+   * Calculate pricing for a single other direct cost
+   */
+  static calculateOtherDirectCost(
+    odc: OtherDirectCostInput,
+    roundingPolicy: RoundingPolicy = RoundingPolicies.DEFAULT,
+    settings?: PricingSettings
+  ): OtherDirectCostResult {
+    const taxRate = odc.taxRate ?? this.DEFAULT_TAX_RATE;
+    const amount = Decimal.from(odc.amount);
+    const taxAmount = odc.taxable ? RoundingPolicies.roundAmount(amount.times(taxRate), roundingPolicy) : Decimal.ZERO;
+
+    // Pools whose base includes ODCs (e.g. G&A on total cost input) burden the taxed amount
+    const indirectAmount = settings
+      ? RoundingPolicies.roundAmount(
+        Decimal.sum(IndirectRateStructures.allocate(
+          this.resolveIndirectRateStructure(settings),
+          settings,
+          { odc: amount.plus(taxAmount) }
+        ).map(allocation => allocation.amount)),
+        roundingPolicy
+      )
+      : Decimal.ZERO;
+    const totalAmount = amount.plus(taxAmount).plus(indirectAmount);
+
+    return {
+      id: odc.id || '',
+      description: odc.description,
+      amount: odc.amount,
+      category: odc.category,
+      taxable: odc.taxable,
+      taxAmount: taxAmount.toNumber(),
+      ...(!indirectAmount.isZero() ? { indirectAmount: indirectAmount.toNumber() } : {}),
+      totalAmount: totalAmount.toNumber(),
+      taxRate,
+      ...(odc.periodId ? { periodId: odc.periodId } : {}),
+    };
   }
 
   /**
-   * Calculate scenario comparison between different settings
+   * Get clearance premium percentage from a premium table (defaults to the standard table)
    */
-  static compareScenarios(
-    baseSettings: PricingSettings,
-    baseLaborCategories: LaborCategory[],
-    baseOtherDirectCosts: OtherDirectCost[],
-    scenarios: Array<{ name: string; settings: PricingSettings }>
-  ) {
-    const baseResult = this.calculateProject(baseSettings, baseLaborCategories, baseOtherDirectCosts);
-    
-    return scenarios.map(scenario => {
-      const result = this.calculateProject(scenario.settings, baseLaborCategories, baseOtherDirectCosts);
-      const totalCostVariance = result.totals.totalProjectCost - baseResult.totals.totalProjectCost;
-      const totalCostVariancePercent = baseResult.totals.totalProjectCost > 0 
-        ? (totalCostVariance / baseResult.totals.totalProjectCost) * 100 
+  static calculateClearancePremium(clearanceLevel: ClearanceLevel, premiumTable: PremiumTable = PremiumTables.DEFAULT): number {
+    return PremiumTables.clearancePremium(premiumTable, clearanceLevel).rate;
+  }
+
+  /**
+   * Calculate fully burdened rate for a given base rate and settings
+   */
+  static calculateBurdenRate(
+    baseRate: number,
+    clearanceLevel: ClearanceLevel,
+    settings: PricingSettings,
+    location?: LocationType,
+    locality?: string
+  ): number {
+    const premiumTable = this.resolvePremiumTable(settings);
+    const differential = location !== undefined
+      ? PremiumTables.locationDifferential(premiumTable, location, locality).rate
+      : 0;
+    const directRate = Decimal.from(baseRate).times(
+      Decimal.ONE.plus(PremiumTables.clearancePremium(premiumTable, clearanceLevel).rate).plus(differential)
+    );
+    const allocations = IndirectRateStructures.allocate(
+      this.resolveIndirectRateStructure(settings),
+      settings,
+      { directLabor: directRate },
+      location
+    );
+    const burdenedRate = directRate
+      .plus(Decimal.sum(allocations.map(allocation => allocation.amount)))
+      .times(Decimal.ONE.plus(settings.feeRate));
+
+    return RoundingPolicies.roundRate(burdenedRate, this.resolveRoundingPolicy(settings)).toNumber();
+  }
+
+  /**
+   * Calculate effective hours (hours × FTE% × capacity)
+   */
+  static calculateEffectiveHours(hours: number, ftePercentage: number, capacity: number = 1): number {
+    return Decimal.from(hours).times(ftePercentage).dividedBy(100).times(capacity).toNumber();
+  }
+
+  /**
+   * Compare scenarios against the first scenario as baseline
+   */
+  static compareScenarios(scenarios: ScenarioInput[]): ScenarioComparison {
+    if (scenarios.length < 2) {
+      throw new Error('At least 2 scenarios required for comparison');
+    }
+
+    const results = scenarios.map(scenario => ({
+      name: scenario.name,
+      result: this.calculateProject(scenario),
+    }));
+
+    const baseline = results[0];
+    if (!baseline) {
+      throw new Error('No baseline scenario found');
+    }
+
+    const comparisons = results.slice(1).map(scenario => {
+      const laborVariance = scenario.result.totals.laborCost - baseline.result.totals.laborCost;
+      const odcVariance = scenario.result.totals.odcCost - baseline.result.totals.odcCost;
+      const totalVariance = scenario.result.totals.totalCost - baseline.result.totals.totalCost;
+
+      const laborVariancePercent = baseline.result.totals.laborCost > 0
+        ? (laborVariance / baseline.result.totals.laborCost) * 100
+        : 0;
+
+      const totalVariancePercent = baseline.result.totals.totalCost > 0
+        ? (totalVariance / baseline.result.totals.totalCost) * 100
         : 0;
 
       return {
-        name: scenario.name,
-        settings: scenario.settings,
-        result,
-        variance: {
-          totalCostVariance,
-          totalCostVariancePercent
-        }
+        scenarioName: scenario.name,
+        laborVariance,
+        laborVariancePercent,
+        odcVariance,
+        totalVariance,
+        totalVariancePercent,
+        settings: scenario.result.settings,
       };
     });
+
+    return {
+      baseline: baseline.result,
+      comparisons,
+      comparedAt: new Date().toISOString(),
+    };
   }
 
   /**
@@ -167,7 +842,7 @@ export class PricingCalculationEngine {
    */
   static validateInputs(
     settings: PricingSettings,
-    laborCategories: LaborCategory[]
+    laborCategories: LaborCategoryCalculationInput[]
   ): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
@@ -0,0 +1,111 @@
+import { CalculationInput, CalculationTrace, OtherDirectCostInput } from '@pricing-calculator/types';
+import { PricingCalculationEngine } from './calculation-engine';
+import { CalculationTraces } from './calculation-trace';
+import { line, settings, twoPeriodSettings } from './pricing.fixtures';
+
+const laptop: OtherDirectCostInput = { description: 'Laptop', amount: 1000, category: 'Equipment', taxable: true };
+
+const explain = (input: CalculationInput) => CalculationTraces.explain(PricingCalculationEngine.calculateProject(input), input);
+
+const labels = (trace: CalculationTrace | undefined) => trace?.steps.map(step => step.label);
+const stepsOf = (trace: CalculationTrace | undefined) =>
+  Object.fromEntries((trace?.steps ?? []).map(step => [step.label, step]));
+
+describe('CalculationTraces', () => {
+  const input: CalculationInput = {
+    settings,
+    laborCategories: [line({ id: 'dev', title: 'Developer' })],
+    otherDirectCosts: [laptop],
+  };
+
+  it('explains a line from base rate to fee in calculation order', () => {
+    const [trace] = explain(input).laborCategories;
+
+    expect(trace).toMatchObject({ target: 'laborCategories[0].totalCost', label: 'Developer', value: 154440 });
+    expect(labels(trace)).toEqual([
+      'Base rate',
+      'Clearance premium',
+      'Location differential',
+      'Clearance-adjusted rate',
+      'Overhead rate',
+      'G&A rate',
+      'Fee rate',
+      'Burdened rate',
+      'Billed rate',
+      'Hours',
+      'FTE',
+      'Capacity',
+      'Effective hours',
+      'Price',
+      'Fee',
+    ]);
+  });
+
+  it('names where each setting came from', () => {
+    const steps = stepsOf(explain(input).laborCategories[0]);
+
+    expect(steps['Base rate']).toEqual({ label: 'Base rate', value: 100, unit: 'rate', source: 'line' });
+    expect(steps['Clearance premium']).toMatchObject({ value: 0, source: 'default', detail: 'None' });
+    expect(steps['Overhead rate']).toMatchObject({ value: 0.3, source: 'default' });
+    expect(steps['Fee rate']).toMatchObject({ value: 0.08, source: 'project' });
+    expect(steps['Billed rate']).toMatchObject({ value: 154.44, formula: 'burdened rate' });
+  });
+
+  it('explains each period of a multi-period line, with escalation and the final rate override', () => {
+    const [trace] = explain({
+      settings: { ...twoPeriodSettings, escalationRate: 0.03, settingSources: { escalationRate: 'contract-vehicle' } },
+      laborCategories: [line({ id: 'lead', title: 'Lead', finalRate: 200, finalRateMetadata: { source: 'manual', reason: 'Negotiated' } })],
+      otherDirectCosts: [],
+    }).laborCategories;
+    const [base, option] = trace?.children ?? [];
+
+    expect(labels(trace)).toEqual(['Lead - Base', 'Lead - Option 1', 'Effective hours', 'Blended rate', 'Price']);
+    expect(stepsOf(trace)['Blended rate']).toMatchObject({ value: 203, formula: 'price ÷ effective hours' });
+    expect(base?.target).toBe('periods[0].laborCategories[0].totalCost');
+    expect(labels(base)).not.toContain('Escalation rate');
+    expect(labels(option)?.slice(0, 4)).toEqual(['Base rate', 'Escalation rate', 'Escalation factor', 'Escalated base rate']);
+    expect(stepsOf(option)['Escalation rate']).toMatchObject({ value: 0.03, source: 'contract-vehicle' });
+    expect(stepsOf(option)['Final rate']).toEqual({
+      label: 'Final rate',
+      value: 206,
+      unit: 'rate',
+      source: 'override',
+      formula: 'final rate × escalation factor',
+      detail: 'manual: Negotiated',
+    });
+    expect(stepsOf(option)['Billed rate']).toMatchObject({ value: 206, formula: 'final rate' });
+  });
+
+  it('takes a line escalation rate from the line', () => {
+    const [trace] = explain({
+      settings: { ...twoPeriodSettings, escalationRate: 0.03 },
+      laborCategories: [line({ escalationRate: 0.05 })],
+      otherDirectCosts: [],
+    }).laborCategories;
+
+    expect(stepsOf(trace?.children?.[1])['Escalation rate']).toMatchObject({ value: 0.05, source: 'line' });
+  });
+
+  it('explains ODC tax at the default rate', () => {
+    const [trace] = explain(input).otherDirectCosts;
+
+    expect(trace).toMatchObject({ target: 'otherDirectCosts[0].totalAmount', label: 'Laptop', value: 1087.5 });
+    expect(trace?.steps.map(step => [step.label, step.value, step.source])).toEqual([
+      ['Amount', 1000, 'line'],
+      ['Tax rate', 0.0875, 'default'],
+      ['Tax', 87.5, undefined],
+      ['Total', 1087.5, undefined],
+    ]);
+  });
+
+  it('explains the totals and the contract-type price', () => {
+    expect(explain(input).totals.map(trace => [trace.target, trace.value, labels(trace)])).toEqual([
+      ['totals.laborCost', 154440, ['Developer', 'Labor']],
+      ['totals.odcCost', 1087.5, ['Laptop', 'Other direct costs']],
+      ['totals.feeAmount', 11440, ['Developer', 'Fee']],
+      ['totals.averageBurdenedRate', 154.44, ['Labor', 'Effective hours', 'Average burdened rate']],
+      ['totals.totalCost', 155527.5, ['Labor', 'Other direct costs', 'Total price']],
+      ['contract.totalPrice', 155527.5, ['Estimated cost', 'Fee', 'Contingency', 'FFP price']],
+    ]);
+  });
+});
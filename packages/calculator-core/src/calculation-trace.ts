@@ -0,0 +1,366 @@
+/**
+ * Calculation traces
+ * Explains every line, ODC and total step by step: the inputs, the setting or rule applied with its source,
+ * and the intermediate values in calculation order
+ */
+
+import {
+  CalculationExplanation,
+  CalculationInput,
+  CalculationResult,
+  CalculationTrace,
+  LaborCategoryCalculationInput,
+  LaborCategoryResult,
+  OtherDirectCostInput,
+  OtherDirectCostResult,
+  PricingSettings,
+  RoundingPolicy,
+  SettingSource,
+  TraceStep
+} from '@pricing-calculator/types';
+import { PricingCalculationEngine } from './calculation-engine';
+import { CeilingRates } from './ceiling-rates';
+
+export class CalculationTraces {
+  /**
+   * Explain a result; with the input, steps also show the line inputs before escalation and pro-rating
+   */
+  static explain(result: CalculationResult, input?: CalculationInput): CalculationExplanation {
+    const roundingPolicy = result.roundingPolicy ?? PricingCalculationEngine.resolveRoundingPolicy(result.settings);
+    const periods = result.periods ?? [];
+
+    return {
+      laborCategories: result.laborCategories.map((line, index) => {
+        const category = input?.laborCategories[index];
+        const target = `laborCategories[${index}]`;
+        if (periods.length <= 1) {
+          return this.explainLine(line, category, result.settings, roundingPolicy, 0, target, line.title);
+        }
+
+        const children = periods.flatMap((period, periodIndex) => {
+          const periodLine = period.laborCategories[index];
+          return periodLine
+            ? [this.explainLine(
+              periodLine,
+              category,
+              result.settings,
+              roundingPolicy,
+              periodIndex,
+              `periods[${periodIndex}].${target}`,
+              `${line.title} - ${period.name}`
+            )]
+            : [];
+        });
+
+        return {
+          target: `${target}.totalCost`,
+          label: line.title,
+          value: line.totalCost,
+          steps: [
+            ...children.map(child => this.step(child.label, child.value, 'currency', { source: 'calculated' })),
+            this.step('Effective hours', line.effectiveHours, 'hours', { formula: 'sum of period effective hours' }),
+            this.step('Blended rate', line.burdenedRate, 'rate', {
+              formula: 'price ÷ effective hours',
+              detail: `Rounded per ${roundingPolicy.name}`,
+            }),
+            this.step('Price', line.totalCost, 'currency', { formula: 'sum of period prices' }),
+          ],
+          children,
+        };
+      }),
+      otherDirectCosts: result.otherDirectCosts.map((odc, index) =>
+        this.explainOtherDirectCost(odc, input?.otherDirectCosts[index], result.settings, roundingPolicy, index)
+      ),
+      totals: this.explainTotals(result, roundingPolicy),
+    };
+  }
+
+  /**
+   * Trace one labor line for one period, from base rate to price and fee
+   */
+  private static explainLine(
+    line: LaborCategoryResult,
+    category: LaborCategoryCalculationInput | undefined,
+    settings: PricingSettings,
+    roundingPolicy: RoundingPolicy,
+    periodIndex: number,
+    target: string,
+    label: string
+  ): CalculationTrace {
+    const steps: TraceStep[] = [];
+    const escalationRate = line.escalationRate ?? 0;
+    const escalationFactor = PricingCalculationEngine.calculateEscalationFactor(escalationRate, periodIndex);
+    const isSub = line.subcontractorCost !== undefined;
+    const hasSalary = line.companyMinimumRate !== undefined && line.annualSalary !== undefined;
+
+    // Base rate and escalation
+    if (category) {
+      steps.push(this.step('Base rate', category.baseRate, 'rate', { source: 'line' }));
+    }
+    if (periodIndex > 0) {
+      steps.push(
+        this.step('Escalation rate', escalationRate, 'percent', {
+          source: category?.escalationRate !== undefined
+            ? 'line'
+            : settings.settingSources?.escalationRate ?? (settings.escalationRate !== undefined ? 'project' : 'default'),
+        }),
+        this.step('Escalation factor', escalationFactor, 'factor', { formula: `(1 + escalation rate)^${periodIndex}` }),
+        this.step('Escalated base rate', line.baseRate, 'rate', {
+          formula: 'base rate × escalation factor',
+          detail: `Rounded per ${roundingPolicy.name}`,
+        })
+      );
+    } else if (!category) {
+      steps.push(this.step('Base rate', line.baseRate, 'rate', { source: 'line' }));
+    }
+
+    // Premiums
+    steps.push(
+      this.step('Clearance premium', line.clearancePremium, 'percent', {
+        source: line.clearancePremiumSource,
+        detail: line.clearanceLevel,
+      }),
+      this.step('Location differential', line.locationDifferential, 'percent', {
+        source: line.locationDifferentialSource,
+        detail: line.locality ?? line.location,
+      }),
+      this.step('Clearance-adjusted rate', line.clearanceAdjustedRate, 'rate', {
+        formula: `${periodIndex > 0 ? 'escalated base rate' : 'base rate'} × (1 + clearance premium + location differential)`,
+      })
+    );
+
+    // Burdened rate: sub rate + pass-through markup, or indirect pools + fee
+    if (isSub) {
+      steps.push(
+        this.step('Subcontractor rate', line.finalSubcontractorRate ?? 0, 'rate', { source: 'line' }),
+        this.step('Pass-through markup', line.passThroughMarkup ?? line.feeRate, 'percent', {
+          source: settings.subcontractorPricing ? 'project' : 'default',
+        }),
+        this.step('Burdened rate', line.burdenedRate, 'rate', {
+          formula: 'subcontractor rate × (1 + pass-through markup)',
+          detail: `Rounded per ${roundingPolicy.name}`,
+        })
+      );
+    } else {
+      const structure = PricingCalculationEngine.resolveIndirectRateStructure(settings);
+      line.indirectAmounts.forEach(pool => {
+        steps.push(this.step(`${pool.name} rate`, pool.rate, 'percent', {
+          source: structure.source ?? 'default',
+          detail: structure.name,
+        }));
+      });
+      steps.push(
+        this.step('Fee rate', line.feeRate, 'percent', { source: 'project' }),
+        this.step('Burdened rate', line.burdenedRate, 'rate', {
+          formula: 'clearance-adjusted rate burdened by each pool in order × (1 + fee rate)',
+          detail: `Rounded per ${roundingPolicy.name}`,
+        })
+      );
+    }
+
+    // Salary pricing: company minimum rate from salary + wrap + minimum profit
+    if (hasSalary) {
+      steps.push(
+        this.step('Annual salary', line.annualSalary ?? 0, 'currency', {
+          source: 'line',
+          ...(periodIndex > 0 ? { formula: 'salary × escalation factor' } : {}),
+        }),
+        this.step('Wrap', line.wrapAmount ?? 0, 'currency', {
+          formula: 'annual salary × wrap rate',
+          source: settings.settingSources?.salaryPricing ?? 'project',
+        }),
+        this.step('Minimum profit', line.minimumProfitAmount ?? 0, 'currency', {
+          formula: '(annual salary + wrap) × minimum profit rate',
+          source: settings.settingSources?.salaryPricing ?? 'project',
+        }),
+        this.step('Company minimum rate', line.companyMinimumRate ?? 0, 'rate', {
+          formula: '(annual salary + wrap + minimum profit) ÷ annual hours',
+          detail: `Rounded per ${roundingPolicy.name}`,
+        })
+      );
+    }
+
+    if (line.finalRate !== undefined) {
+      const metadata = category?.finalRateMetadata;
+      steps.push(this.step('Final rate', line.finalRate, 'rate', {
+        source: 'override',
+        ...(periodIndex > 0 ? { formula: 'final rate × escalation factor' } : {}),
+        ...(metadata ? { detail: metadata.reason ? `${metadata.source}: ${metadata.reason}` : metadata.source } : {}),
+      }));
+    }
+    steps.push(this.step('Billed rate', CeilingRates.proposedRate(line), 'rate', {
+      formula: line.finalRate !== undefined ? 'final rate' : hasSalary && !isSub ? 'company minimum rate' : 'burdened rate',
+    }));
+
+    // Hours
+    steps.push(
+      this.step('Hours', line.hours, 'hours', {
+        source: 'line',
+        ...(category && category.hours !== line.hours
+          ? { formula: `${category.hours} hours × share of the period priced and staffed` }
+          : {}),
+      }),
+      this.step('FTE', line.ftePercentage / 100, 'percent', { source: 'line' }),
+      this.step('Capacity', line.capacity ?? 1, 'count', { source: 'line' }),
+      this.step('Effective hours', line.effectiveHours, 'hours', { formula: 'hours × FTE × capacity' })
+    );
+
+    // Price, fee and ceiling
+    steps.push(this.step('Price', line.totalCost, 'currency', {
+      formula: 'billed rate × effective hours',
+      detail: `Rounded per ${roundingPolicy.name}`,
+    }));
+    steps.push(line.actualProfit !== undefined
+      ? this.step('Actual profit', line.feeAmount, 'currency', { formula: 'price − actual cost' })
+      : this.step(isSub ? 'Markup' : 'Fee', line.feeAmount, 'currency', { formula: 'price − cost rate × effective hours' }));
+    if (line.ceilingRate !== undefined) {
+      steps.push(
+        this.step('Ceiling rate', line.ceilingRate, 'rate', {
+          source: 'contract-vehicle',
+          ...(periodIndex > 0 ? { formula: 'LCAT ceiling × ceiling escalation factor' } : {}),
+        }),
+        this.step('Final rate discount', line.ceilingDiscount ?? 0, 'percent', { formula: '1 − billed rate ÷ ceiling rate' })
+      );
+    }
+
+    return {
+      target: `${target}.totalCost`,
+      label,
+      value: line.totalCost,
+      steps,
+    };
+  }
+
+  /**
+   * Trace one ODC: amount, tax and any indirect pools that burden ODCs
+   */
+  private static explainOtherDirectCost(
+    odc: OtherDirectCostResult,
+    input: OtherDirectCostInput | undefined,
+    settings: PricingSettings,
+    roundingPolicy: RoundingPolicy,
+    index: number
+  ): CalculationTrace {
+    const steps: TraceStep[] = [
+      this.step('Amount', odc.amount, 'currency', { source: 'line' }),
+    ];
+
+    if (odc.taxable) {
+      steps.push(
+        this.step('Tax rate', odc.taxRate, 'percent', { source: input?.taxRate !== undefined ? 'line' : 'default' }),
+        this.step('Tax', odc.taxAmount, 'currency', {
+          formula: 'amount × tax rate',
+          detail: `Rounded per ${roundingPolicy.name}`,
+        })
+      );
+    }
+    if (odc.indirectAmount !== undefined) {
+      const structure = PricingCalculationEngine.resolveIndirectRateStructure(settings);
+      steps.push(this.step('Indirects', odc.indirectAmount, 'currency', {
+        formula: '(amount + tax) × pools whose base includes ODCs',
+        source: structure.source ?? 'default',
+        detail: structure.name,
+      }));
+    }
+    steps.push(this.step('Total', odc.totalAmount, 'currency', { formula: 'amount + tax + indirects' }));
+
+    return {
+      target: `otherDirectCosts[${index}].totalAmount`,
+      label: odc.description,
+      value: odc.totalAmount,
+      steps,
+    };
+  }
+
+  /**
+   * Trace the project totals and, when present, the contract-type price
+   */
+  private static explainTotals(result: CalculationResult, roundingPolicy: RoundingPolicy): CalculationTrace[] {
+    const { totals } = result;
+    const traces: CalculationTrace[] = [
+      {
+        target: 'totals.laborCost',
+        label: 'Labor',
+        value: totals.laborCost,
+        steps: [
+          ...result.laborCategories.map(line => this.step(line.title, line.totalCost, 'currency', { source: 'calculated' })),
+          this.step('Labor', totals.laborCost, 'currency', { formula: 'sum of line prices' }),
+        ],
+      },
+      {
+        target: 'totals.odcCost',
+        label: 'Other direct costs',
+        value: totals.odcCost,
+        steps: [
+          ...result.otherDirectCosts.map(odc => this.step(odc.description, odc.totalAmount, 'currency', { source: 'calculated' })),
+          this.step('Other direct costs', totals.odcCost, 'currency', { formula: 'sum of ODC totals' }),
+        ],
+      },
+      {
+        target: 'totals.feeAmount',
+        label: 'Fee',
+        value: totals.feeAmount,
+        steps: [
+          ...result.laborCategories.map(line => this.step(line.title, line.feeAmount, 'currency', { source: 'calculated' })),
+          this.step('Fee', totals.feeAmount, 'currency', { formula: 'sum of line fees' }),
+        ],
+      },
+      {
+        target: 'totals.averageBurdenedRate',
+        label: 'Average burdened rate',
+        value: totals.averageBurdenedRate,
+        steps: [
+          this.step('Labor', totals.laborCost, 'currency', { source: 'calculated' }),
+          this.step('Effective hours', totals.totalEffectiveHours, 'hours', { formula: 'sum of line effective hours' }),
+          this.step('Average burdened rate', totals.averageBurdenedRate, 'rate', {
+            formula: 'labor ÷ effective hours',
+            detail: `Rounded per ${roundingPolicy.name}`,
+          }),
+        ],
+      },
+      {
+        target: 'totals.totalCost',
+        label: 'Total price',
+        value: totals.totalCost,
+        steps: [
+          this.step('Labor', totals.laborCost, 'currency', { source: 'calculated' }),
+          this.step('Other direct costs', totals.odcCost, 'currency', { source: 'calculated' }),
+          this.step('Total price', totals.totalCost, 'currency', { formula: 'labor + other direct costs' }),
+        ],
+      },
+    ];
+
+    const contract = result.contract;
+    if (contract) {
+      traces.push({
+        target: 'contract.totalPrice',
+        label: `${contract.contractType} price`,
+        value: contract.totalPrice,
+        steps: [
+          this.step('Estimated cost', contract.estimatedCost, 'currency', { formula: 'labor before fee + other direct costs' }),
+          this.step('Fee', contract.fee, 'currency', { detail: contract.contractType }),
+          ...(contract.contingency !== undefined
+            ? [this.step('Contingency', contract.contingency, 'currency', { source: 'project' as const })]
+            : []),
+          this.step(`${contract.contractType} price`, contract.totalPrice, 'currency', {
+            formula: contract.contingency !== undefined ? 'estimated cost + fee + contingency' : 'estimated cost + fee',
+          }),
+        ],
+      });
+    }
+
+    return traces;
+  }
+
+  /**
+   * Build a trace step
+   */
+  private static step(
+    label: string,
+    value: number,
+    unit: TraceStep['unit'],
+    options: { formula?: string; source?: SettingSource | 'calculated'; detail?: string } = {}
+  ): TraceStep {
+    return { label, value, unit, ...options };
+  }
+}
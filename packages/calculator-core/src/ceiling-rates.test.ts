@@ -0,0 +1,53 @@
+import { CalculationInput } from '@pricing-calculator/types';
+import { PricingCalculationEngine } from './calculation-engine';
+import { CeilingRates } from './ceiling-rates';
+import { line, twoPeriodSettings } from './pricing.fixtures';
+
+// Lines bill 154.44 in the base year and 159.07 in the option year at 3% escalation
+const price = (overrides: Partial<CalculationInput['settings']>, laborCategories = [line({ id: 'dev', ceilingRate: 160 })]) =>
+  PricingCalculationEngine.calculateProject({
+    settings: { ...twoPeriodSettings, escalationRate: 0.03, ...overrides },
+    laborCategories,
+    otherDirectCosts: [],
+  });
+
+const periodCeilings = (overrides: Partial<CalculationInput['settings']>) =>
+  (price(overrides).periods ?? []).map(period => {
+    const [dev] = period.laborCategories;
+    return [period.periodId, dev?.ceilingRate, dev?.ceilingDiscount, dev?.exceedsCeilingRate];
+  });
+
+describe('CeilingRates', () => {
+  it('escalates the ceiling per period at the ceiling escalation rate', () => {
+    expect(periodCeilings({ ceilingEscalationRate: 0.05 })).toEqual([
+      ['base', 160, 0.0348, false],
+      ['op1', 168, 0.0532, false],
+    ]);
+  });
+
+  it('escalates the ceiling with the rates when no ceiling escalation rate is set', () => {
+    expect(periodCeilings({})).toEqual([
+      ['base', 160, 0.0348, false],
+      ['op1', 164.8, 0.0348, false],
+    ]);
+  });
+
+  it('weights a whole-contract line discount by period hours', () => {
+    // (160 + 168) × 1,000 at the ceiling against (154.44 + 159.07) × 1,000 proposed
+    expect(price({ ceilingEscalationRate: 0.05 }).laborCategories[0]).toMatchObject({
+      ceilingRate: 160,
+      ceilingDiscount: 0.0442,
+      exceedsCeilingRate: false,
+    });
+  });
+
+  it('finds every period a line is proposed above its ceiling', () => {
+    const result = price({}, [line({ id: 'dev', ceilingRate: 160 }), line({ id: 'lead', title: 'Lead', ceilingRate: 180, finalRate: 182 })]);
+
+    expect(result.laborCategories[1]).toMatchObject({ ceilingDiscount: -0.0111, exceedsCeilingRate: true });
+    expect(CeilingRates.findViolations(result)).toEqual([
+      { lineIndex: 1, title: 'Lead', periodId: 'base', periodName: 'Base', proposedRate: 182, ceilingRate: 180 },
+      { lineIndex: 1, title: 'Lead', periodId: 'op1', periodName: 'Option 1', proposedRate: 187.46, ceilingRate: 185.4 },
+    ]);
+  });
+});
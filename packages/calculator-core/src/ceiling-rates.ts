@@ -0,0 +1,82 @@
+/**
+ * LCAT ceiling rate compliance
+ * Escalates each line's LCAT ceiling to the period and compares it with the proposed rate
+ */
+
+import {
+  CalculationResult,
+  CeilingRateViolation,
+  LaborCategoryResult,
+  RoundingPolicy
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { RoundingPolicies } from './rounding';
+
+interface CeilingComparison {
+  ceilingRate?: number;
+  ceilingDiscount: number;
+  exceedsCeilingRate: boolean;
+}
+
+export class CeilingRates {
+  /**
+   * Rate the line is proposed at: final rate, then company minimum rate, then burdened rate
+   */
+  static proposedRate(line: LaborCategoryResult): number {
+    return line.finalRate ?? line.companyMinimumRate ?? line.burdenedRate;
+  }
+
+  /**
+   * Compare a period line with its ceiling escalated to the period; discounts are rounded to 4 places
+   */
+  static compare(
+    line: LaborCategoryResult,
+    ceilingRate: number,
+    escalationFactor: number,
+    roundingPolicy: RoundingPolicy
+  ): CeilingComparison {
+    const ceiling = RoundingPolicies.roundRate(Decimal.from(ceilingRate).times(escalationFactor), roundingPolicy);
+    const proposed = Decimal.from(this.proposedRate(line));
+
+    return {
+      ceilingRate: ceiling.toNumber(),
+      ceilingDiscount: Decimal.ONE.minus(proposed.dividedBy(ceiling)).round(4).toNumber(),
+      exceedsCeilingRate: proposed.compare(ceiling) > 0,
+    };
+  }
+
+  /**
+   * Combine period comparisons for a whole-contract line: the discount is weighted by period hours
+   */
+  static combine(periodLines: LaborCategoryResult[]): CeilingComparison {
+    const [first] = periodLines;
+    const atCeiling = Decimal.sum(periodLines.map(line => Decimal.from(line.ceilingRate ?? 0).times(line.effectiveHours)));
+    const proposed = Decimal.sum(periodLines.map(line => Decimal.from(this.proposedRate(line)).times(line.effectiveHours)));
+
+    return {
+      ...(first?.ceilingRate !== undefined ? { ceilingRate: first.ceilingRate } : {}),
+      ceilingDiscount: atCeiling.isZero()
+        ? first?.ceilingDiscount ?? 0
+        : Decimal.ONE.minus(proposed.dividedBy(atCeiling)).round(4).toNumber(),
+      exceedsCeilingRate: periodLines.some(line => line.exceedsCeilingRate === true),
+    };
+  }
+
+  /**
+   * Every period line proposed above its escalated ceiling
+   */
+  static findViolations(result: CalculationResult): CeilingRateViolation[] {
+    return (result.periods ?? []).flatMap(period =>
+      period.laborCategories.flatMap((line, lineIndex) => line.exceedsCeilingRate && line.ceilingRate !== undefined
+        ? [{
+          lineIndex,
+          title: line.title,
+          periodId: period.periodId,
+          periodName: period.name,
+          proposedRate: this.proposedRate(line),
+          ceilingRate: line.ceilingRate,
+        }]
+        : [])
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { ClinInput } from '@pricing-calculator/types';
+import { ClinStructures } from './clins';
+import { basePeriod, line, twoPeriodSettings as settings } from './pricing.fixtures';
+
+// 154.44 an hour, 1000 hours in each period the line works
+const baseWork: ClinInput = {
+  id: 'base-work',
+  number: '0001',
+  title: 'Base work',
+  laborCategories: [line({ id: 'engineer' })],
+  otherDirectCosts: [],
+  children: [{
+    id: 'travel',
+    number: '0001AA',
+    title: 'Travel',
+    laborCategories: [],
+    otherDirectCosts: [{ description: 'Travel', amount: 1000, category: 'Travel', taxable: false }],
+  }],
+};
+
+const surge: ClinInput = {
+  id: 'surge',
+  number: '0002',
+  title: 'Surge support',
+  optional: true,
+  laborCategories: [line({ id: 'surge-engineer', startDate: '2026-01-01' })],
+  otherDirectCosts: [],
+  children: [{
+    id: 'surge-travel',
+    number: '0002AA',
+    title: 'Surge travel',
+    laborCategories: [],
+    otherDirectCosts: [{ description: 'Travel', amount: 500, category: 'Travel', taxable: false }],
+  }],
+};
+
+const clins = [baseWork, surge];
+
+describe('ClinStructures', () => {
+  it('rolls children up into each CLIN by period', () => {
+    const result = ClinStructures.calculate({ settings, clins });
+
+    expect(ClinStructures.flattenResults(result.clins).map(clin => [
+      clin.number,
+      clin.totals.totalCost,
+      clin.periods.map(period => period.totals.totalCost),
+    ])).toEqual([
+      ['0001', 309880, [155440, 154440]],
+      ['0001AA', 1000, [1000, 0]],
+      ['0002', 154940, [500, 154440]],
+      ['0002AA', 500, [500, 0]],
+    ]);
+    // A CLIN's own result leaves its children out
+    expect(result.clins[0]?.result.totals.totalCost).toBe(308880);
+  });
+
+  it('totals every CLIN by period when optional CLINs are included', () => {
+    const result = ClinStructures.calculate({ settings, clins });
+
+    expect(result.includeOptional).toBe(true);
+    expect(result.totals.totalCost).toBe(464820);
+    expect(result.totalsWithOptional.totalCost).toBe(464820);
+    expect(result.periods.map(period => [period.periodId, period.totals.totalCost])).toEqual([
+      ['base', 155940],
+      ['op1', 308880],
+    ]);
+  });
+
+  it('leaves optional CLINs and their children out of the evaluated total when excluded', () => {
+    const result = ClinStructures.calculate({ settings, clins, includeOptional: false });
+
+    expect(ClinStructures.flattenResults(result.clins).map(clin => [clin.number, clin.included])).toEqual([
+      ['0001', true],
+      ['0001AA', true],
+      ['0002', false],
+      ['0002AA', false],
+    ]);
+    expect(result.totals.totalCost).toBe(309880);
+    expect(result.totalsWithOptional.totalCost).toBe(464820);
+    expect(result.periods.map(period => period.totals.totalCost)).toEqual([155440, 154440]);
+  });
+
+  it('prices a CLIN over its own periods', () => {
+    const result = ClinStructures.calculate({
+      settings,
+      clins: [{
+        ...baseWork,
+        periods: [basePeriod],
+      }],
+    });
+
+    expect(result.periods.map(period => [period.periodId, period.totals.totalCost])).toEqual([['base', 155440]]);
+  });
+
+  it('rejects duplicate ids and numbers and incomplete CLINs', () => {
+    expect(ClinStructures.validate([
+      ...clins,
+      { id: 'base-work', number: '0001AA', title: 'Copy', laborCategories: [], otherDirectCosts: [] },
+      { id: 'untitled', number: '0003', title: '', laborCategories: [], otherDirectCosts: [] },
+    ])).toEqual([
+      'Duplicate CLIN id: base-work',
+      'Duplicate CLIN number: 0001AA',
+      'CLIN must have an id, number and title',
+    ]);
+    expect(ClinStructures.validate(clins)).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * CLIN / task structure
+ * Prices a tree of CLINs, each with its own lines, ODCs and periods, and subtotals it per CLIN, period and CLIN × period
+ */
+
+import {
+  CalculationResult,
+  ClinCalculationInput,
+  ClinInput,
+  ClinPeriodTotals,
+  ClinResult,
+  ClinStructureResult,
+  LaborCategoryResult,
+  OtherDirectCostResult,
+  PricingSettings,
+  PricingTotals,
+  RoundingPolicy
+} from '@pricing-calculator/types';
+import { PricingCalculationEngine } from './calculation-engine';
+
+interface PeriodLines {
+  name: string;
+  startDate: string;
+  endDate: string;
+  laborCategories: LaborCategoryResult[];
+  otherDirectCosts: OtherDirectCostResult[];
+}
+
+export class ClinStructures {
+  /**
+   * Price every CLIN and roll up subtotals; optional CLINs are left out of the evaluated total when excluded
+   */
+  static calculate(input: ClinCalculationInput): ClinStructureResult {
+    const includeOptional = input.includeOptional ?? true;
+    const roundingPolicy = PricingCalculationEngine.resolveRoundingPolicy(input.settings);
+    const clins = input.clins.map(clin => this.calculateClin(clin, input.settings, includeOptional, true, roundingPolicy));
+
+    const all = this.flattenResults(clins).map(clin => clin.result);
+    const included = this.flattenResults(clins).filter(clin => clin.included).map(clin => clin.result);
+
+    return {
+      clins,
+      periods: this.calculatePeriodTotals(included, roundingPolicy),
+      totals: this.calculateTotals(included, roundingPolicy),
+      totalsWithOptional: this.calculateTotals(all, roundingPolicy),
+      includeOptional,
+      calculatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Every CLIN in the tree, parents before their children
+   */
+  static flatten(clins: ClinInput[]): ClinInput[] {
+    return clins.flatMap(clin => [clin, ...this.flatten(clin.children ?? [])]);
+  }
+
+  /**
+   * Every CLIN result in the tree, parents before their children
+   */
+  static flattenResults(clins: ClinResult[]): ClinResult[] {
+    return clins.flatMap(clin => [clin, ...this.flattenResults(clin.children)]);
+  }
+
+  /**
+   * Validate the CLIN tree structure; line and ODC inputs are validated per CLIN by the caller
+   */
+  static validate(clins: ClinInput[]): string[] {
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    const numbers = new Set<string>();
+
+    this.flatten(clins).forEach(clin => {
+      if (!clin.id || !clin.number || !clin.title) {
+        errors.push('CLIN must have an id, number and title');
+        return;
+      }
+      if (ids.has(clin.id)) {
+        errors.push(`Duplicate CLIN id: ${clin.id}`);
+      }
+      if (numbers.has(clin.number)) {
+        errors.push(`Duplicate CLIN number: ${clin.number}`);
+      }
+      ids.add(clin.id);
+      numbers.add(clin.number);
+
+      if (!Array.isArray(clin.laborCategories) || !Array.isArray(clin.otherDirectCosts)) {
+        errors.push(`CLIN ${clin.number}: labor categories and other direct costs must be lists`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Price one CLIN and its children; children inherit the CLIN's periods
+   */
+  private static calculateClin(
+    clin: ClinInput,
+    settings: PricingSettings,
+    includeOptional: boolean,
+    parentIncluded: boolean,
+    roundingPolicy: RoundingPolicy
+  ): ClinResult {
+    const optional = clin.optional === true;
+    const included = parentIncluded && (includeOptional || !optional);
+    const clinSettings: PricingSettings = clin.periods && clin.periods.length > 0
+      ? { ...settings, periods: clin.periods }
+      : settings;
+
+    const result = PricingCalculationEngine.calculateProject({
+      settings: clinSettings,
+      laborCategories: clin.laborCategories,
+      otherDirectCosts: clin.otherDirectCosts,
+    });
+    const children = (clin.children ?? []).map(child =>
+      this.calculateClin(child, clinSettings, includeOptional, included, roundingPolicy)
+    );
+    const subtree = [result, ...this.flattenResults(children).map(child => child.result)];
+
+    return {
+      id: clin.id,
+      number: clin.number,
+      title: clin.title,
+      optional,
+      included,
+      result,
+      periods: this.calculatePeriodTotals(subtree, roundingPolicy),
+      totals: this.calculateTotals(subtree, roundingPolicy),
+      children,
+    };
+  }
+
+  /**
+   * Totals across several CLIN results, recomputed from their lines so blended rates stay exact
+   */
+  private static calculateTotals(results: CalculationResult[], roundingPolicy: RoundingPolicy): PricingTotals {
+    return PricingCalculationEngine.calculateTotals(
+      results.flatMap(result => result.laborCategories),
+      results.flatMap(result => result.otherDirectCosts),
+      roundingPolicy
+    );
+  }
+
+  /**
+   * Per-period totals across several CLIN results, matched by period id and ordered by start date
+   */
+  private static calculatePeriodTotals(results: CalculationResult[], roundingPolicy: RoundingPolicy): ClinPeriodTotals[] {
+    const byPeriod = new Map<string, PeriodLines>();
+
+    results.flatMap(result => result.periods ?? []).forEach(period => {
+      const entry: PeriodLines = byPeriod.get(period.periodId) ?? {
+        name: period.name,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        laborCategories: [],
+        otherDirectCosts: [],
+      };
+      entry.laborCategories.push(...period.laborCategories);
+      entry.otherDirectCosts.push(...period.otherDirectCosts);
+      byPeriod.set(period.periodId, entry);
+    });
+
+    return [...byPeriod.entries()]
+      .sort(([, a], [, b]) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
+      .map(([periodId, entry]) => ({
+        periodId,
+        name: entry.name,
+        startDate: entry.startDate,
+        endDate: entry.endDate,
+        totals: PricingCalculationEngine.calculateTotals(entry.laborCategories, entry.otherDirectCosts, roundingPolicy),
+      }));
+  }
+}
@@ -0,0 +1,127 @@
+import { ContractTerms, ContractType, OtherDirectCostInput } from '@pricing-calculator/types';
+import { PricingCalculationEngine } from './calculation-engine';
+import { ContractTypes } from './contract-types';
+import { line, settings } from './pricing.fixtures';
+
+const travel: OtherDirectCostInput = { description: 'Travel', amount: 10000, category: 'Travel', taxable: false };
+
+// 154,440 of labor (11,440 of it fee) and 10,000 of travel: 153,000 of estimated cost
+const totals = (contractType: ContractType, contractTerms: ContractTerms = {}) => {
+  const projectSettings = { ...settings, contractType, contractTerms };
+  const priced = PricingCalculationEngine.calculateProject({
+    settings: projectSettings,
+    laborCategories: [line({ id: 'dev' })],
+    otherDirectCosts: [travel],
+  });
+  return ContractTypes.calculateTotals(priced, projectSettings);
+};
+
+describe('ContractTypes', () => {
+  describe('calculateTotals', () => {
+    it('prices FFP at total cost plus contingency', () => {
+      expect(totals('FFP', { contingencyRate: 0.05 })).toEqual({
+        contractType: 'FFP',
+        estimatedCost: 153000,
+        fee: 11440,
+        totalPrice: 172662,
+        contingency: 8222,
+        warnings: [],
+      });
+    });
+
+    it('prices T&M at the calculated price and flags a price over the ceiling', () => {
+      expect(totals('T&M', { ceilingPrice: 160000 })).toMatchObject({
+        totalPrice: 164440,
+        ceilingPrice: 160000,
+        ceilingExceeded: true,
+        hourlyRates: [{ id: 'dev', title: 'Engineer', rate: 154.44 }],
+        warnings: ['Calculated price exceeds the ceiling price'],
+      });
+    });
+
+    it('leaves ODCs out of a labor-hour price', () => {
+      expect(totals('LH', { ceilingPrice: 160000 })).toMatchObject({
+        estimatedCost: 143000,
+        totalPrice: 154440,
+        ceilingPrice: 160000,
+        ceilingExceeded: false,
+        warnings: ['Labor-hour contracts exclude materials; ODCs are not in the ceiling price'],
+      });
+    });
+
+    it('uses the calculated price as the ceiling when none is set', () => {
+      expect(totals('T&M')).toMatchObject({ totalPrice: 164440, ceilingPrice: 164440, ceilingExceeded: false });
+    });
+
+    it('fixes CPFF fee on estimated cost unless a fee is negotiated', () => {
+      expect(totals('CPFF')).toMatchObject({ fee: 12240, totalPrice: 165240 });
+      expect(totals('CPFF', { fixedFee: 10000 })).toMatchObject({ fee: 10000, totalPrice: 163000 });
+    });
+
+    it('sets the CPIF fee range and share from the terms', () => {
+      expect(totals('CPIF', { targetFeeRate: 0.1, minimumFeeRate: 0.02, contractorShare: 0.3 })).toMatchObject({
+        fee: 15300,
+        totalPrice: 168300,
+        minimumFee: 3060,
+        maximumFee: 30600,
+        contractorShare: 0.3,
+      });
+    });
+
+    it('prices CPAF with its base fee and award fee pool', () => {
+      expect(totals('CPAF', { baseFeeRate: 0.03 })).toMatchObject({
+        fee: 4590,
+        awardFeePool: 12240,
+        totalPrice: 169830,
+      });
+    });
+  });
+
+  describe('calculateIncentiveFee', () => {
+    // 12,240 target fee on 153,000, between 0 and 24,480, 80/20 share
+    const cpif = totals('CPIF');
+
+    it('adds the contractor share of an underrun and takes its share of an overrun', () => {
+      expect(ContractTypes.calculateIncentiveFee(cpif, 143000)).toBe(14240);
+      expect(ContractTypes.calculateIncentiveFee(cpif, 163000)).toBe(10240);
+    });
+
+    it('holds the fee within the minimum and maximum fee', () => {
+      expect(ContractTypes.calculateIncentiveFee(cpif, 50000)).toBe(24480);
+      expect(ContractTypes.calculateIncentiveFee(cpif, 250000)).toBe(0);
+    });
+
+    it('only applies to CPIF', () => {
+      expect(() => ContractTypes.calculateIncentiveFee(totals('CPFF'), 150000))
+        .toThrow('Incentive fee only applies to CPIF contracts');
+    });
+  });
+
+  describe('validateTerms', () => {
+    it('accepts missing and in-range terms', () => {
+      expect(ContractTypes.validateTerms('FFP', undefined)).toEqual([]);
+      expect(ContractTypes.validateTerms('CPIF', { targetFeeRate: 0.08, minimumFeeRate: 0.02, maximumFeeRate: 0.12 })).toEqual([]);
+    });
+
+    it('rejects rates outside 0-100% and negative amounts', () => {
+      expect(ContractTypes.validateTerms('FFP', {
+        contingencyRate: 1.5,
+        contractorShare: -0.1,
+        ceilingPrice: -1,
+        fixedFee: -1,
+      })).toEqual([
+        'Contingency rate must be between 0% and 100%',
+        'Contractor share must be between 0% and 100%',
+        'Ceiling price cannot be negative',
+        'Fixed fee cannot be negative',
+      ]);
+    });
+
+    it('rejects a CPIF fee range that does not contain the target fee', () => {
+      expect(ContractTypes.validateTerms('CPIF', { targetFeeRate: 0.08, minimumFeeRate: 0.1, maximumFeeRate: 0.05 })).toEqual([
+        'Minimum fee rate cannot exceed the target fee rate',
+        'Maximum fee rate cannot be below the target fee rate',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Contract-type pricing semantics
+ * Turns priced labor and ODCs into the totals each contract type is proposed and evaluated on
+ */
+
+import {
+  ContractTerms,
+  ContractType,
+  ContractTypeTotals,
+  LaborCategoryResult,
+  OtherDirectCostResult,
+  PricingSettings,
+  PricingTotals,
+  RoundingPolicy
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { RoundingPolicies } from './rounding';
+
+interface PricedProject {
+  laborCategories: LaborCategoryResult[];
+  otherDirectCosts: OtherDirectCostResult[];
+  totals: PricingTotals;
+  baseLaborCategories?: LaborCategoryResult[]; // Base-period lines for T&M / LH hourly rates
+}
+
+export class ContractTypes {
+  static readonly TYPES: ContractType[] = ['FFP', 'T&M', 'LH', 'CPFF', 'CPIF', 'CPAF'];
+  static readonly DEFAULT_CONTRACTOR_SHARE = 0.2;
+
+  /**
+   * Whether the contract type reimburses cost and pays fee separately
+   */
+  static isCostReimbursement(contractType: ContractType): boolean {
+    return contractType === 'CPFF' || contractType === 'CPIF' || contractType === 'CPAF';
+  }
+
+  /**
+   * Calculate totals under the contract type's semantics
+   */
+  static calculateTotals(
+    project: PricedProject,
+    settings: PricingSettings,
+    roundingPolicy: RoundingPolicy = RoundingPolicies.DEFAULT
+  ): ContractTypeTotals {
+    const terms: ContractTerms = settings.contractTerms ?? {};
+    const { totals } = project;
+    const round = (value: Decimal) => RoundingPolicies.roundAmount(value, roundingPolicy);
+    const estimatedCost = Decimal.from(totals.totalCost).minus(totals.feeAmount);
+    const warnings: string[] = [];
+
+    if (this.isCostReimbursement(settings.contractType)
+      && project.laborCategories.some(lc => lc.finalRate !== undefined)) {
+      warnings.push('Final rates do not apply to cost-reimbursement pricing; fee is calculated on estimated cost');
+    }
+
+    switch (settings.contractType) {
+      case 'T&M':
+      case 'LH': {
+        const laborOnly = settings.contractType === 'LH';
+        if (laborOnly && project.otherDirectCosts.length > 0) {
+          warnings.push('Labor-hour contracts exclude materials; ODCs are not in the ceiling price');
+        }
+
+        const price = laborOnly ? Decimal.from(totals.laborCost) : Decimal.from(totals.totalCost);
+        const ceilingPrice = terms.ceilingPrice !== undefined ? Decimal.from(terms.ceilingPrice) : price;
+        const ceilingExceeded = price.compare(ceilingPrice) > 0;
+        if (ceilingExceeded) {
+          warnings.push('Calculated price exceeds the ceiling price');
+        }
+
+        return {
+          contractType: settings.contractType,
+          estimatedCost: (laborOnly ? estimatedCost.minus(totals.odcCost) : estimatedCost).toNumber(),
+          fee: totals.feeAmount,
+          totalPrice: price.toNumber(),
+          ceilingPrice: ceilingPrice.toNumber(),
+          ceilingExceeded,
+          hourlyRates: (project.baseLaborCategories ?? project.laborCategories).map(lc => ({
+            id: lc.id,
+            title: lc.title,
+            rate: this.billedRate(lc),
+          })),
+          warnings,
+        };
+      }
+
+      case 'CPFF': {
+        // Fee is a dollar amount fixed on estimated cost; it does not move with cost growth
+        const fixedFee = terms.fixedFee !== undefined
+          ? Decimal.from(terms.fixedFee)
+          : round(estimatedCost.times(settings.feeRate));
+
+        return {
+          contractType: 'CPFF',
+          estimatedCost: estimatedCost.toNumber(),
+          fee: fixedFee.toNumber(),
+          totalPrice: estimatedCost.plus(fixedFee).toNumber(),
+          warnings,
+        };
+      }
+
+      case 'CPIF': {
+        const targetFeeRate = terms.targetFeeRate ?? settings.feeRate;
+        const targetFee = round(estimatedCost.times(targetFeeRate));
+
+        return {
+          contractType: 'CPIF',
+          estimatedCost: estimatedCost.toNumber(),
+          fee: targetFee.toNumber(),
+          totalPrice: estimatedCost.plus(targetFee).toNumber(),
+          minimumFee: round(estimatedCost.times(terms.minimumFeeRate ?? 0)).toNumber(),
+          maximumFee: round(estimatedCost.times(terms.maximumFeeRate ?? targetFeeRate * 2)).toNumber(),
+          contractorShare: terms.contractorShare ?? this.DEFAULT_CONTRACTOR_SHARE,
+          warnings,
+        };
+      }
+
+      case 'CPAF': {
+        const baseFee = round(estimatedCost.times(terms.baseFeeRate ?? 0));
+        const awardFeePool = round(estimatedCost.times(terms.awardFeeRate ?? settings.feeRate));
+
+        return {
+          contractType: 'CPAF',
+          estimatedCost: estimatedCost.toNumber(),
+          fee: baseFee.toNumber(),
+          totalPrice: estimatedCost.plus(baseFee).plus(awardFeePool).toNumber(),
+          awardFeePool: awardFeePool.toNumber(),
+          warnings,
+        };
+      }
+
+      case 'FFP':
+      default: {
+        const contingency = round(Decimal.from(totals.totalCost).times(terms.contingencyRate ?? 0));
+
+        return {
+          contractType: settings.contractType,
+          estimatedCost: estimatedCost.toNumber(),
+          fee: totals.feeAmount,
+          totalPrice: Decimal.from(totals.totalCost).plus(contingency).toNumber(),
+          contingency: contingency.toNumber(),
+          warnings,
+        };
+      }
+    }
+  }
+
+  /**
+   * CPIF fee earned at an actual cost: target fee adjusted by the contractor share, held within min and max fee
+   */
+  static calculateIncentiveFee(contract: ContractTypeTotals, actualCost: number): number {
+    if (contract.contractType !== 'CPIF') {
+      throw new Error('Incentive fee only applies to CPIF contracts');
+    }
+
+    const adjustment = Decimal.from(contract.estimatedCost)
+      .minus(actualCost)
+      .times(contract.contractorShare ?? this.DEFAULT_CONTRACTOR_SHARE);
+    const fee = Decimal.from(contract.fee).plus(adjustment).round(2);
+
+    if (contract.minimumFee !== undefined && fee.compare(contract.minimumFee) < 0) return contract.minimumFee;
+    if (contract.maximumFee !== undefined && fee.compare(contract.maximumFee) > 0) return contract.maximumFee;
+    return fee.toNumber();
+  }
+
+  /**
+   * Validate contract terms for a contract type
+   */
+  static validateTerms(contractType: ContractType, terms: ContractTerms | undefined): string[] {
+    const errors: string[] = [];
+    if (!terms) {
+      return errors;
+    }
+
+    const rates: Array<[keyof ContractTerms, string]> = [
+      ['contingencyRate', 'Contingency rate'],
+      ['targetFeeRate', 'Target fee rate'],
+      ['minimumFeeRate', 'Minimum fee rate'],
+      ['maximumFeeRate', 'Maximum fee rate'],
+      ['contractorShare', 'Contractor share'],
+      ['baseFeeRate', 'Base fee rate'],
+      ['awardFeeRate', 'Award fee rate'],
+    ];
+    rates.forEach(([key, label]) => {
+      const value = terms[key];
+      if (value !== undefined && (value < 0 || value > 1)) {
+        errors.push(`${label} must be between 0% and 100%`);
+      }
+    });
+
+    if (terms.ceilingPrice !== undefined && terms.ceilingPrice < 0) {
+      errors.push('Ceiling price cannot be negative');
+    }
+    if (terms.fixedFee !== undefined && terms.fixedFee < 0) {
+      errors.push('Fixed fee cannot be negative');
+    }
+
+    if (contractType === 'CPIF') {
+      const target = terms.targetFeeRate;
+      if (terms.minimumFeeRate !== undefined && target !== undefined && terms.minimumFeeRate > target) {
+        errors.push('Minimum fee rate cannot exceed the target fee rate');
+      }
+      if (terms.maximumFeeRate !== undefined && target !== undefined && terms.maximumFeeRate < target) {
+        errors.push('Maximum fee rate cannot be below the target fee rate');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Hourly rate a line bills at: final rate, then company minimum (salary mode), then burdened rate
+   */
+  private static billedRate(lc: LaborCategoryResult): number {
+    if (lc.finalRate !== undefined) return lc.finalRate;
+    if (lc.actualCost !== undefined && lc.companyMinimumRate !== undefined) return lc.companyMinimumRate;
+    return lc.burdenedRate;
+  }
+}
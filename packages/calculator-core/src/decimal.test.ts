@@ -0,0 +1,73 @@
+import { Decimal } from './decimal';
+import { RoundingPolicies } from './rounding';
+import { PricingCalculationEngine } from './calculation-engine';
+import { line, settings } from './pricing.fixtures';
+
+describe('Decimal', () => {
+  it('adds without floating point drift', () => {
+    expect(Decimal.from(0.1).plus(0.2).toString()).toBe('0.3');
+    expect(Decimal.sum([0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1]).toNumber()).toBe(1);
+  });
+
+  it('parses numeric strings exactly', () => {
+    expect(Decimal.from('1234.5678').times(100).toString()).toBe('123456.78');
+    expect(Decimal.from('-0.05').toString()).toBe('-0.05');
+    expect(() => Decimal.from('12a')).toThrow('Invalid decimal value');
+    expect(() => Decimal.from(Number.NaN)).toThrow('Cannot convert NaN');
+  });
+
+  it('rounds halves per mode', () => {
+    expect(Decimal.from('2.345').round(2, 'half-up').toString()).toBe('2.35');
+    expect(Decimal.from('2.345').round(2, 'half-even').toString()).toBe('2.34');
+    expect(Decimal.from('2.355').round(2, 'half-even').toString()).toBe('2.36');
+    expect(Decimal.from('2.341').round(2, 'up').toString()).toBe('2.35');
+    expect(Decimal.from('2.349').round(2, 'down').toString()).toBe('2.34');
+    expect(Decimal.from('-2.345').round(2, 'half-up').toString()).toBe('-2.35');
+  });
+
+  it('refuses to divide by zero', () => {
+    expect(() => Decimal.ONE.dividedBy(0)).toThrow('Division by zero');
+  });
+});
+
+describe('RoundingPolicies', () => {
+  const analyst = line({ title: 'Analyst', baseRate: 33.33 });
+
+  it('resolves project, then contract vehicle, then tenant, then default', () => {
+    const bankers = RoundingPolicies.get('bankers-rate-to-cent');
+    const extend = RoundingPolicies.get('extend-then-round');
+
+    expect(RoundingPolicies.resolve({ project: bankers ?? null, tenant: extend ?? null }).source).toBe('project');
+    expect(RoundingPolicies.resolve({ contractVehicle: bankers ?? null, tenant: extend ?? null }).source).toBe('contract-vehicle');
+    expect(RoundingPolicies.resolve({ tenant: extend ?? null })).toMatchObject({ id: 'extend-then-round', source: 'tenant' });
+    expect(RoundingPolicies.resolve({})).toEqual(RoundingPolicies.DEFAULT);
+  });
+
+  it('rounds the burdened rate to the cent before extending by hours by default', () => {
+    const result = PricingCalculationEngine.calculateProject({ settings, laborCategories: [analyst], otherDirectCosts: [] });
+
+    // 33.33 × 1.3 × 1.1 × 1.08 = 51.474852
+    expect(result.laborCategories[0]?.burdenedRate).toBe(51.47);
+    expect(result.totals.totalCost).toBe(51470);
+    expect(result.roundingPolicy?.id).toBe('rate-to-cent');
+  });
+
+  it('extends the exact rate and rounds only the amount under extend-then-round', () => {
+    const roundingPolicy = RoundingPolicies.get('extend-then-round');
+    const result = PricingCalculationEngine.calculateProject({
+      settings: { ...settings, ...(roundingPolicy ? { roundingPolicy } : {}) },
+      laborCategories: [analyst],
+      otherDirectCosts: [],
+    });
+
+    expect(result.laborCategories[0]?.burdenedRate).toBe(51.474852);
+    expect(result.totals.totalCost).toBe(51474.85);
+    expect(result.roundingPolicy?.id).toBe('extend-then-round');
+  });
+
+  it('rejects invalid policy definitions', () => {
+    expect(RoundingPolicies.validate({ id: 'x', name: 'x', mode: 'half-up', rateDecimals: 7, amountDecimals: 2 }))
+      .toEqual(['Rate decimals must be an integer between 0 and 6, or null']);
+    expect(RoundingPolicies.validate({ id: 'x', name: 'x', mode: 'half-up', rateDecimals: null, amountDecimals: 2 })).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Exact decimal arithmetic for money calculations
+ * Values are held as scaled BigInt integers so sums and products do not drift like floating point
+ */
+
+import { RoundingMode } from '@pricing-calculator/types';
+
+const SCALE_DIGITS = 10;
+const SCALE = BigInt(10) ** BigInt(SCALE_DIGITS);
+
+export class Decimal {
+  private constructor(private readonly units: bigint) {}
+
+  static readonly ZERO = new Decimal(BigInt(0));
+  static readonly ONE = new Decimal(SCALE);
+
+  /**
+   * Create a decimal from a number, numeric string or another decimal
+   */
+  static from(value: number | string | Decimal): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot convert ${value} to a decimal`);
+      }
+      // toFixed gives the shortest exact decimal at our scale for any float input
+      return Decimal.parse(value.toFixed(SCALE_DIGITS));
+    }
+
+    return Decimal.parse(value);
+  }
+
+  /**
+   * Sum a list of values exactly
+   */
+  static sum(values: Array<number | string | Decimal>): Decimal {
+    return values.reduce<Decimal>((total, value) => total.plus(value), Decimal.ZERO);
+  }
+
+  private static parse(text: string): Decimal {
+    const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text.trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid decimal value: ${text}`);
+    }
+
+    const negative = match[1] === '-';
+    const whole = match[2] || '0';
+    const fraction = (match[3] || '').padEnd(SCALE_DIGITS, '0').slice(0, SCALE_DIGITS);
+    const units = BigInt(whole) * SCALE + BigInt(fraction || '0');
+
+    return new Decimal(negative ? -units : units);
+  }
+
+  plus(other: number | string | Decimal): Decimal {
+    return new Decimal(this.units + Decimal.from(other).units);
+  }
+
+  minus(other: number | string | Decimal): Decimal {
+    return new Decimal(this.units - Decimal.from(other).units);
+  }
+
+  times(other: number | string | Decimal): Decimal {
+    return new Decimal(Decimal.divideRounded(this.units * Decimal.from(other).units, SCALE, 'half-up'));
+  }
+
+  dividedBy(other: number | string | Decimal): Decimal {
+    const divisor = Decimal.from(other).units;
+    if (divisor === BigInt(0)) {
+      throw new Error('Division by zero');
+    }
+    return new Decimal(Decimal.divideRounded(this.units * SCALE, divisor, 'half-up'));
+  }
+
+  /**
+   * Round to a number of decimal places using the given mode
+   */
+  round(decimals: number, mode: RoundingMode = 'half-up'): Decimal {
+    if (decimals >= SCALE_DIGITS) {
+      return this;
+    }
+
+    const step = BigInt(10) ** BigInt(SCALE_DIGITS - Math.max(0, decimals));
+    return new Decimal(Decimal.divideRounded(this.units, step, mode) * step);
+  }
+
+  isZero(): boolean {
+    return this.units === BigInt(0);
+  }
+
+  compare(other: number | string | Decimal): number {
+    const otherUnits = Decimal.from(other).units;
+    return this.units === otherUnits ? 0 : this.units > otherUnits ? 1 : -1;
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toString(): string {
+    const negative = this.units < BigInt(0);
+    const absolute = negative ? -this.units : this.units;
+    const whole = absolute / SCALE;
+    const fraction = (absolute % SCALE).toString().padStart(SCALE_DIGITS, '0').replace(/0+$/, '');
+
+    return `${negative ? '-' : ''}${whole.toString()}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Integer division with an explicit rounding mode for the remainder
+   */
+  private static divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+    const zero = BigInt(0);
+    const one = BigInt(1);
+    const negative = (numerator < zero) !== (denominator < zero);
+    const absNumerator = numerator < zero ? -numerator : numerator;
+    const absDenominator = denominator < zero ? -denominator : denominator;
+
+    let quotient = absNumerator / absDenominator;
+    const remainder = absNumerator % absDenominator;
+
+    if (remainder !== zero) {
+      const twiceRemainder = remainder * BigInt(2);
+      switch (mode) {
+        case 'half-up':
+          if (twiceRemainder >= absDenominator) quotient += one;
+          break;
+        case 'half-even':
+          if (twiceRemainder > absDenominator || (twiceRemainder === absDenominator && quotient % BigInt(2) === one)) {
+            quotient += one;
+          }
+          break;
+        case 'up':
+          quotient += one;
+          break;
+        case 'down':
+        default:
+          break;
+      }
+    }
+
+    return negative ? -quotient : quotient;
+  }
+}
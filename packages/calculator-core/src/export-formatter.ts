@@ -11,9 +11,9 @@ export class ExportFormatter {
   static formatForExcel(result: CalculationResult) {
     return {
       projectSummary: {
-        totalLaborCost: result.totals.totalLaborCost,
-        totalODCCost: result.totals.totalODCCost,
-        totalProjectCost: result.totals.totalProjectCost,
+        totalLaborCost: result.totals.laborCost,
+        totalODCCost: result.totals.odcCost,
+        totalProjectCost: result.totals.totalCost,
         totalEffectiveHours: result.totals.totalEffectiveHours,
         averageBurdenedRate: result.totals.averageBurdenedRate,
         overheadRate: result.settings.overheadRate,
@@ -53,6 +53,8 @@ export class ExportFormatter {
       effectiveHours: category.effectiveHours,
       clearanceLevel: category.clearanceLevel,
       clearancePremium: category.clearancePremium,
+      clearancePremiumSource: category.clearancePremiumSource,
+      locationDifferential: category.locationDifferential,
       clearanceAdjustedRate: category.clearanceAdjustedRate,
       overheadAmount: category.overheadAmount,
       overheadRate: category.overheadRate,
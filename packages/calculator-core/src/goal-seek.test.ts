@@ -0,0 +1,36 @@
+import { GoalSeekRequest } from '@pricing-calculator/types';
+import { GoalSeekSolver } from './goal-seek';
+import { line, settings } from './pricing.fixtures';
+
+const request = (targetProfitPercentage: number): GoalSeekRequest => ({
+  settings: { ...settings, salaryPricing: { wrapRate: 0.875, minimumProfitRate: 0.0753, annualHours: 1920 } },
+  laborCategories: [
+    line({ id: 'dev', title: 'Developer', baseRate: 80, hours: 1920, annualSalary: 120000 }),
+    line({ id: 'new', title: 'New Hire', baseRate: 70, hours: 1920 }),
+  ],
+  otherDirectCosts: [],
+  targetProfitPercentage,
+});
+
+describe('GoalSeekSolver', () => {
+  it('solves the rate that earns the target profit', () => {
+    const result = GoalSeekSolver.solve(request(0.1));
+    const [dev] = result.lines;
+
+    // (120000 + 87.5% wrap) ÷ (1920 × 0.9) = 130.208.., rounded up to the cent
+    expect(dev?.rate).toBe(130.21);
+    expect(dev?.achievedProfitPercentage).toBeGreaterThanOrEqual(0.1);
+    expect(result.laborCategories[0]?.finalRateMetadata?.source).toBe('goal-seek');
+  });
+
+  it('reports lines without an annual salary as unsolved', () => {
+    const line = GoalSeekSolver.solve(request(0.1)).lines[1];
+
+    expect(line?.solved).toBe(false);
+    expect(line?.message).toBe('New Hire has no annual salary to goal seek from');
+  });
+
+  it.each([1, 1.5, -0.1, Number.NaN])('rejects a target profit of %p', target => {
+    expect(() => GoalSeekSolver.solve(request(target))).toThrow('Target profit percentage must be at least 0% and below 100%');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Per-line goal seek for a target profit percentage
+ * Finds the final rate at which salary + wrap leaves the target share of price as actual profit
+ */
+
+import {
+  GoalSeekLineResult,
+  GoalSeekRequest,
+  GoalSeekResult,
+  LaborCategoryCalculationInput,
+  PricingSettings
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { PricingCalculationEngine } from './calculation-engine';
+
+export class GoalSeekSolver {
+  /**
+   * Calculate the base-period rate that yields the target profit %, or undefined without salary or salary pricing
+   */
+  static calculateTargetRate(
+    category: LaborCategoryCalculationInput,
+    settings: PricingSettings,
+    targetProfitPercentage: number
+  ): number | undefined {
+    this.assertTargetProfitPercentage(targetProfitPercentage);
+
+    const salaryPricing = settings.salaryPricing;
+    const annualHours = salaryPricing?.annualHours ?? category.hours * (category.ftePercentage / 100);
+    if (!salaryPricing || category.annualSalary === undefined || annualHours <= 0) {
+      return undefined;
+    }
+
+    const roundingPolicy = PricingCalculationEngine.resolveRoundingPolicy(settings);
+    const breakdown = PricingCalculationEngine.calculateSalaryBreakdown(
+      category.annualSalary,
+      salaryPricing,
+      annualHours,
+      roundingPolicy
+    );
+
+    // Profit % = 1 - (salary + wrap) ÷ (annual hours × rate); capacity scales cost and price alike
+    const rate = Decimal.from(breakdown.annualSalary)
+      .plus(breakdown.wrapAmount)
+      .dividedBy(Decimal.from(annualHours).times(Decimal.ONE.minus(targetProfitPercentage)));
+
+    // Round up so the rounded rate never lands under the target
+    return (roundingPolicy.rateDecimals === null ? rate : rate.round(roundingPolicy.rateDecimals, 'up')).toNumber();
+  }
+
+  /**
+   * Goal seek the final rate for selected lines (or all lines) and price the project at those rates
+   */
+  static solve(request: GoalSeekRequest): GoalSeekResult {
+    const { targetProfitPercentage } = request;
+    this.assertTargetProfitPercentage(targetProfitPercentage);
+
+    const selectedIds = request.laborCategoryIds ? new Set(request.laborCategoryIds) : undefined;
+    const reason = `Goal seek to ${Decimal.from(targetProfitPercentage).times(100).round(2).toString()}% target profit`;
+    const timestamp = new Date().toISOString();
+
+    const targetRates = request.laborCategories.map(lc => {
+      const selected = !selectedIds || (lc.id !== undefined && selectedIds.has(lc.id));
+      return selected ? this.calculateTargetRate(lc, request.settings, targetProfitPercentage) : undefined;
+    });
+
+    const laborCategories = request.laborCategories.map((lc, index) => {
+      const rate = targetRates[index];
+      return rate === undefined
+        ? lc
+        : { ...lc, finalRate: rate, finalRateMetadata: { source: 'goal-seek' as const, reason, timestamp } };
+    });
+
+    const settings: PricingSettings = { ...request.settings, pricingMode: 'salary' };
+    const result = PricingCalculationEngine.calculateProject({ ...request, settings, laborCategories });
+
+    const lines: GoalSeekLineResult[] = [];
+    request.laborCategories.forEach((lc, index) => {
+      if (selectedIds && (lc.id === undefined || !selectedIds.has(lc.id))) {
+        return;
+      }
+
+      const rate = targetRates[index];
+      const companyMinimumRate = PricingCalculationEngine.calculateCompanyMinimumRate(lc, request.settings);
+      const achievedProfitPercentage = result.laborCategories[index]?.actualProfitPercentage;
+      const belowCompanyMinimum = rate !== undefined && companyMinimumRate !== undefined && rate < companyMinimumRate;
+
+      lines.push({
+        index,
+        ...(lc.id ? { laborCategoryId: lc.id } : {}),
+        title: lc.title,
+        solved: rate !== undefined,
+        ...(rate !== undefined ? { rate } : {}),
+        ...(lc.finalRate !== undefined ? { previousRate: lc.finalRate } : {}),
+        ...(companyMinimumRate !== undefined ? { companyMinimumRate } : {}),
+        ...(rate !== undefined && achievedProfitPercentage !== undefined ? { achievedProfitPercentage } : {}),
+        belowCompanyMinimum,
+        message: rate === undefined
+          ? `${lc.title} has no annual salary to goal seek from`
+          : belowCompanyMinimum
+            ? `${lc.title} target rate is below its company minimum rate`
+            : `${lc.title} meets the target profit`,
+      });
+    });
+
+    return {
+      targetProfitPercentage,
+      lines,
+      laborCategories,
+      result,
+    };
+  }
+
+  /**
+   * No rate earns 100% or more of price as profit, and a negative target is a loss
+   */
+  private static assertTargetProfitPercentage(targetProfitPercentage: number): void {
+    if (!(targetProfitPercentage >= 0 && targetProfitPercentage < 1)) {
+      throw new Error('Target profit percentage must be at least 0% and below 100%');
+    }
+  }
+}
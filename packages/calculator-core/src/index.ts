@@ -4,3 +4,22 @@ export * from './validation';
 export * from './scenario-comparison';
 export * from './export-formatter';
 
+export * from './decimal';
+export * from './rounding';
+export * from './indirect-rates';
+export * from './contract-types';
+export * from './premiums';
+export * from './workshare';
+export * from './position-slots';
+export * from './ceiling-rates';
+export * from './pricing-health';
+export * from './calculation-trace';
+export * from './work-calendar';
+export * from './clins';
+export * from './project-versions';
+export * from './project-templates';
+export * from './project-inputs';
+export * from './price-to-win';
+export * from './goal-seek';
+export * from './sensitivity';
+export * from './monte-carlo';
@@ -0,0 +1,76 @@
+import { IndirectRateStructure } from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { IndirectRateStructures } from './indirect-rates';
+import { PricingCalculationEngine } from './calculation-engine';
+import { line, settings } from './pricing.fixtures';
+
+// Fringe on labor, overhead by work site on labor + fringe, G&A on everything before it plus ODCs
+const structure: IndirectRateStructure = {
+  id: 'fringe-site-ga',
+  name: 'Fringe, site overhead, G&A',
+  pools: [
+    { id: 'fringe', name: 'Fringe', type: 'fringe', rate: 0.25, costElements: ['directLabor'] },
+    { id: 'overhead-onsite', name: 'On-site overhead', type: 'overhead', rate: 0.2, costElements: ['directLabor'], pools: ['fringe'], locations: ['On-site'] },
+    { id: 'overhead-offsite', name: 'Off-site overhead', type: 'overhead', rate: 0.1, costElements: ['directLabor'], pools: ['fringe'], locations: ['Remote', 'Hybrid'] },
+    { id: 'ga', name: 'G&A', type: 'ga', costElements: ['directLabor', 'odc'], pools: ['fringe', 'overhead-onsite', 'overhead-offsite'] },
+  ],
+};
+
+describe('IndirectRateStructures', () => {
+  it('allocates pools in order on their cost elements and earlier pools', () => {
+    const allocations = IndirectRateStructures.allocate(structure, settings, { directLabor: Decimal.from(100000) }, 'On-site');
+
+    expect(allocations.map(a => [a.pool.id, a.amount.toNumber()])).toEqual([
+      ['fringe', 25000],
+      ['overhead-onsite', 25000],
+      ['ga', 15000],
+    ]);
+  });
+
+  it('takes overhead and G&A rates from the project settings when a pool has none', () => {
+    const [overhead, ga] = IndirectRateStructures.allocate(IndirectRateStructures.DEFAULT, settings, { directLabor: Decimal.from(1000) });
+
+    expect(overhead?.rate).toBe(0.3);
+    expect(ga?.amount.toNumber()).toBe(130);
+  });
+
+  it('prices lines through their location pools and burdens ODCs with G&A only', () => {
+    const result = PricingCalculationEngine.calculateProject({
+      settings: { ...settings, indirectRateStructure: structure },
+      laborCategories: [line({ id: 'onsite', location: 'On-site' }), line({ id: 'remote' })],
+      otherDirectCosts: [{ description: 'Travel', amount: 1000, category: 'Travel', taxable: false }],
+    });
+    const [onsite, remote] = result.laborCategories;
+
+    // (100 + 25 fringe + 25 overhead + 15 G&A) × 1.08 fee
+    expect(onsite?.burdenedRate).toBe(178.2);
+    expect(onsite?.fringeAmount).toBe(25000);
+    expect(onsite?.indirectAmounts.map(pool => pool.poolId)).toEqual(['fringe', 'overhead-onsite', 'ga']);
+    // (100 + 25 fringe + 12.5 overhead + 13.75 G&A) × 1.08 fee
+    expect(remote?.burdenedRate).toBe(163.35);
+    expect(result.otherDirectCosts[0]?.indirectAmount).toBe(100);
+  });
+
+  it('matches the overhead then G&A chain by default', () => {
+    const result = PricingCalculationEngine.calculateProject({ settings, laborCategories: [line()], otherDirectCosts: [] });
+
+    // 100 × 1.3 × 1.1 × 1.08
+    expect(result.laborCategories[0]?.burdenedRate).toBe(154.44);
+  });
+
+  it('resolves the project structure, then the tenant, then the default', () => {
+    expect(IndirectRateStructures.resolve({ project: structure, tenant: IndirectRateStructures.DEFAULT }).source).toBe('project');
+    expect(IndirectRateStructures.resolve({ tenant: structure }).source).toBe('tenant');
+    expect(IndirectRateStructures.resolve({})).toBe(IndirectRateStructures.DEFAULT);
+  });
+
+  it('only lets a pool build on earlier pools', () => {
+    const errors = IndirectRateStructures.validate({
+      ...structure,
+      pools: [{ id: 'ga', name: 'G&A', type: 'ga', costElements: ['directLabor'], pools: ['fringe'] }],
+    });
+
+    expect(errors).toEqual(['G&A can only include earlier pools in its base (fringe)']);
+    expect(IndirectRateStructures.validate(structure)).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Indirect rate structures for pricing calculations
+ * Defines the default overhead → G&A chain and evaluates ordered pools against their allocation bases
+ */
+
+import {
+  CostElement,
+  IndirectRatePool,
+  IndirectRateStructure,
+  LocationType,
+  PricingSettings
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+
+const OVERHEAD_GA: IndirectRateStructure = {
+  id: 'overhead-ga',
+  name: 'Overhead on direct labor, G&A on labor + overhead',
+  pools: [
+    { id: 'overhead', name: 'Overhead', type: 'overhead', costElements: ['directLabor'] },
+    { id: 'ga', name: 'G&A', type: 'ga', costElements: ['directLabor'], pools: ['overhead'] },
+  ],
+};
+
+export interface IndirectAllocation {
+  pool: IndirectRatePool;
+  rate: number;
+  amount: Decimal;
+}
+
+export class IndirectRateStructures {
+  static readonly DEFAULT: IndirectRateStructure = { ...OVERHEAD_GA, source: 'default' };
+
+  /**
+   * Resolve the applied structure: project override, then tenant, then default
+   */
+  static resolve(candidates: {
+    project?: IndirectRateStructure | null;
+    tenant?: IndirectRateStructure | null;
+  }): IndirectRateStructure {
+    if (candidates.project) return { ...candidates.project, source: candidates.project.source ?? 'project' };
+    if (candidates.tenant) return { ...candidates.tenant, source: 'tenant' };
+    return this.DEFAULT;
+  }
+
+  /**
+   * Rate applied by a pool; overhead and G&A pools without a rate follow the project settings
+   */
+  static resolveRate(pool: IndirectRatePool, settings: PricingSettings): number {
+    if (pool.rate !== undefined) return pool.rate;
+    if (pool.type === 'overhead') return settings.overheadRate;
+    if (pool.type === 'ga') return settings.gaRate;
+    return 0;
+  }
+
+  /**
+   * Allocate each pool in order to a set of direct costs
+   * Location-restricted pools only apply when the location matches, so they never apply to ODCs
+   */
+  static allocate(
+    structure: IndirectRateStructure,
+    settings: PricingSettings,
+    directCosts: Partial<Record<CostElement, Decimal>>,
+    location?: LocationType
+  ): IndirectAllocation[] {
+    const allocated = new Map<string, Decimal>();
+
+    return structure.pools
+      .filter(pool => !pool.locations || (location !== undefined && pool.locations.includes(location)))
+      .map(pool => {
+        const base = Decimal.sum([
+          ...pool.costElements.map(element => directCosts[element] ?? Decimal.ZERO),
+          ...(pool.pools ?? []).map(poolId => allocated.get(poolId) ?? Decimal.ZERO),
+        ]);
+        const rate = this.resolveRate(pool, settings);
+        const amount = base.times(rate);
+        allocated.set(pool.id, amount);
+        return { pool, rate, amount };
+      });
+  }
+
+  /**
+   * Validate an indirect rate structure definition
+   */
+  static validate(structure: IndirectRateStructure): string[] {
+    const errors: string[] = [];
+
+    if (!structure.id || !structure.name) {
+      errors.push('Indirect rate structure must have an id and name');
+    }
+    if (!Array.isArray(structure.pools) || structure.pools.length === 0) {
+      errors.push('Indirect rate structure must have at least one pool');
+      return errors;
+    }
+
+    const seen = new Set<string>();
+    structure.pools.forEach((pool, index) => {
+      const label = pool.name || pool.id || `Pool ${index + 1}`;
+
+      if (!pool.id) {
+        errors.push(`${label} must have an id`);
+      } else if (seen.has(pool.id)) {
+        errors.push(`Pool id ${pool.id} is used more than once`);
+      }
+      if (!['fringe', 'overhead', 'ga'].includes(pool.type)) {
+        errors.push(`${label} type must be fringe, overhead, or ga`);
+      }
+      if (pool.rate === undefined && pool.type === 'fringe') {
+        errors.push(`${label} must have a rate`);
+      }
+      if (pool.rate !== undefined && (pool.rate < 0 || pool.rate > 2)) {
+        errors.push(`${label} rate must be between 0% and 200%`);
+      }
+      if (!Array.isArray(pool.costElements) || pool.costElements.some(element => !['directLabor', 'odc'].includes(element))) {
+        errors.push(`${label} cost elements must be directLabor or odc`);
+      }
+      (pool.pools ?? []).forEach(poolId => {
+        if (!seen.has(poolId)) {
+          errors.push(`${label} can only include earlier pools in its base (${poolId})`);
+        }
+      });
+      if ((pool.costElements?.length ?? 0) === 0 && (pool.pools?.length ?? 0) === 0) {
+        errors.push(`${label} must have an allocation base`);
+      }
+      if (pool.locations && pool.locations.some(location => !['Remote', 'On-site', 'Hybrid'].includes(location))) {
+        errors.push(`${label} locations must be Remote, On-site, or Hybrid`);
+      }
+
+      if (pool.id) {
+        seen.add(pool.id);
+      }
+    });
+
+    return errors;
+  }
+}
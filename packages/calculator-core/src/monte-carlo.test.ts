@@ -0,0 +1,58 @@
+import { MonteCarloRequest, SalaryPricingSettings } from '@pricing-calculator/types';
+import { MonteCarloSimulator } from './monte-carlo';
+import { line, settings } from './pricing.fixtures';
+
+const request = (overrides: Partial<MonteCarloRequest> = {}): MonteCarloRequest => ({
+  settings,
+  laborCategories: [line({ id: 'dev', title: 'Developer', baseRate: 80, hours: 1920, annualSalary: 120000, finalRate: 140 })],
+  otherDirectCosts: [{ id: 'travel', description: 'Travel', amount: 10000, category: 'Travel', taxable: false }],
+  variables: [
+    { input: { type: 'hours', laborCategoryId: 'dev' }, distribution: { type: 'uniform', min: 1700, max: 2300 } },
+    { input: { type: 'odcAmount', otherDirectCostId: 'travel' }, distribution: { type: 'triangular', min: 8000, mode: 10000, max: 15000 } },
+  ],
+  iterations: 200,
+  seed: 42,
+  ...overrides,
+});
+
+// Hours are the only uncertain input, so any spread in cost comes from them
+const salaryMode = (salaryPricing: SalaryPricingSettings): Partial<MonteCarloRequest> => ({
+  settings: { ...settings, pricingMode: 'salary', salaryPricing },
+  variables: request().variables.slice(0, 1),
+});
+
+describe('MonteCarloSimulator', () => {
+  it('gives the same percentiles for the same seed', () => {
+    const first = MonteCarloSimulator.simulate(request());
+    const second = MonteCarloSimulator.simulate(request());
+
+    expect(second.cost).toEqual(first.cost);
+    expect(second.margin).toEqual(first.margin);
+    expect(second.histogram).toEqual(first.histogram);
+    expect(MonteCarloSimulator.simulate(request({ seed: 7 })).cost).not.toEqual(first.cost);
+  });
+
+  it('spreads cost with sampled hours in salary mode without annual hours', () => {
+    const result = MonteCarloSimulator.simulate(request(salaryMode({ wrapRate: 0.875, minimumProfitRate: 0.0753 })));
+
+    expect(result.cost.min).toBeLessThan(result.baseCost);
+    expect(result.cost.max).toBeGreaterThan(result.baseCost);
+  });
+
+  it('costs sampled hours the same with or without annual hours matching the line', () => {
+    const withoutAnnualHours = MonteCarloSimulator.simulate(request(salaryMode({ wrapRate: 0.875, minimumProfitRate: 0.0753 })));
+    const withAnnualHours = MonteCarloSimulator.simulate(
+      request(salaryMode({ wrapRate: 0.875, minimumProfitRate: 0.0753, annualHours: 1920 }))
+    );
+
+    expect(withoutAnnualHours.baseCost).toBe(withAnnualHours.baseCost);
+    expect(withoutAnnualHours.cost.p50).toBeCloseTo(withAnnualHours.cost.p50, 0);
+    expect(withoutAnnualHours.cost.p90).toBeCloseTo(withAnnualHours.cost.p90, 0);
+  });
+
+  it('rejects variables targeting missing lines', () => {
+    expect(() => MonteCarloSimulator.simulate(request({
+      variables: [{ input: { type: 'hours', laborCategoryId: 'missing' }, distribution: { type: 'uniform', min: 1, max: 2 } }],
+    }))).toThrow('Labor category missing not found for hours variable');
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Monte Carlo cost-risk simulation
+ * Samples uncertain inputs, reprices the project through the engine and measures cost against a fixed bid price
+ * A seeded generator makes every run reproducible
+ */
+
+import {
+  CalculationInput,
+  Distribution,
+  MonteCarloRequest,
+  MonteCarloResult,
+  SimulationHistogramBin,
+  SimulationStatistics,
+  SimulationVariable
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { PricingCalculationEngine } from './calculation-engine';
+
+export class MonteCarloSimulator {
+  static readonly DEFAULT_ITERATIONS = 1000;
+  static readonly MAX_ITERATIONS = 100000;
+  static readonly DEFAULT_HISTOGRAM_BINS = 20;
+
+  /**
+   * Run the simulation and summarize cost, profit and margin
+   */
+  static simulate(request: MonteCarloRequest): MonteCarloResult {
+    const iterations = request.iterations ?? this.DEFAULT_ITERATIONS;
+    const histogramBins = request.histogramBins ?? this.DEFAULT_HISTOGRAM_BINS;
+    const seed = request.seed ?? Math.floor(Math.random() * 0x100000000);
+
+    if (!Number.isInteger(iterations) || iterations < 1 || iterations > this.MAX_ITERATIONS) {
+      throw new Error(`Iterations must be a whole number from 1 to ${this.MAX_ITERATIONS}`);
+    }
+    if (!Number.isInteger(histogramBins) || histogramBins < 1) {
+      throw new Error('Histogram bins must be a whole number of at least 1');
+    }
+    request.variables.forEach(variable => {
+      this.validateDistribution(variable.distribution);
+      this.assertTargetExists(request, variable);
+    });
+
+    const base = this.measureCost(request);
+    const price = base.price;
+    const random = this.createRandom(seed);
+
+    const costs: number[] = [];
+    const profits: number[] = [];
+    const margins: number[] = [];
+    let overruns = 0;
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const sampled = this.scaleSalariesToHours(
+        request.variables.reduce(
+          (input, variable) => this.applySample(input, variable, this.sample(variable.distribution, random)),
+          request as CalculationInput
+        ),
+        request
+      );
+
+      const cost = this.measureCost(sampled).cost;
+      const profit = Decimal.from(price).minus(cost);
+      costs.push(cost);
+      profits.push(profit.toNumber());
+      margins.push(price === 0 ? 0 : profit.dividedBy(price).toNumber());
+      if (cost > price) {
+        overruns++;
+      }
+    }
+
+    return {
+      iterations,
+      seed,
+      price,
+      baseCost: base.cost,
+      cost: this.summarize(costs, 2),
+      profit: this.summarize(profits, 2),
+      margin: this.summarize(margins, 4),
+      overrunProbability: Decimal.from(overruns).dividedBy(iterations).round(4).toNumber(),
+      histogram: this.buildHistogram(costs, histogramBins),
+    };
+  }
+
+  /**
+   * Create a seeded uniform [0, 1) generator (mulberry32)
+   */
+  static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+  }
+
+  /**
+   * Draw one value from a distribution, floored at 0
+   */
+  static sample(distribution: Distribution, random: () => number): number {
+    switch (distribution.type) {
+      case 'uniform':
+        return Math.max(0, distribution.min + (distribution.max - distribution.min) * random());
+      case 'triangular': {
+        const { min, mode, max } = distribution;
+        const u = random();
+        const split = max === min ? 0 : (mode - min) / (max - min);
+        return Math.max(0, u < split
+          ? min + Math.sqrt(u * (max - min) * (mode - min))
+          : max - Math.sqrt((1 - u) * (max - min) * (max - mode)));
+      }
+      case 'normal': {
+        // Box-Muller; 1 - u keeps the log argument above 0
+        const u1 = 1 - random();
+        const u2 = random();
+        return Math.max(0, distribution.mean
+          + distribution.standardDeviation * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2));
+      }
+    }
+  }
+
+  /**
+   * Bid price and cost to perform; cost is everything in the price except fee (or actual profit in salary mode)
+   */
+  private static measureCost(input: CalculationInput): { price: number; cost: number } {
+    const { totals } = PricingCalculationEngine.calculateProject(input);
+    return {
+      price: totals.totalCost,
+      cost: Decimal.from(totals.totalCost).minus(totals.feeAmount).toNumber(),
+    };
+  }
+
+  /**
+   * Set a sampled value on the input a variable targets
+   */
+  private static applySample(input: CalculationInput, variable: SimulationVariable, value: number): CalculationInput {
+    const target = variable.input;
+
+    switch (target.type) {
+      case 'overheadRate':
+      case 'gaRate':
+        return { ...input, settings: { ...input.settings, [target.type]: value } };
+      case 'wrapRate':
+        return input.settings.salaryPricing
+          ? { ...input, settings: { ...input.settings, salaryPricing: { ...input.settings.salaryPricing, wrapRate: value } } }
+          : input;
+      case 'hours':
+      case 'annualSalary':
+        return {
+          ...input,
+          laborCategories: input.laborCategories.map(lc =>
+            lc.id === target.laborCategoryId ? { ...lc, [target.type]: value } : lc
+          ),
+        };
+      case 'odcAmount':
+        return {
+          ...input,
+          otherDirectCosts: input.otherDirectCosts.map(odc =>
+            odc.id === target.otherDirectCostId ? { ...odc, amount: value } : odc
+          ),
+        };
+    }
+  }
+
+  /**
+   * Without salaryPricing.annualHours the engine spreads each salary over the line's own hours, so sampled hours
+   * would not change salary cost; scale each salary by its line's sampled share of the base hours instead
+   */
+  private static scaleSalariesToHours(sampled: CalculationInput, base: CalculationInput): CalculationInput {
+    if (sampled.settings.pricingMode !== 'salary' || sampled.settings.salaryPricing?.annualHours !== undefined) {
+      return sampled;
+    }
+
+    return {
+      ...sampled,
+      laborCategories: sampled.laborCategories.map((lc, index) => {
+        const baseHours = base.laborCategories[index]?.hours;
+        return lc.annualSalary !== undefined && baseHours && lc.hours !== baseHours
+          ? { ...lc, annualSalary: Decimal.from(lc.annualSalary).times(lc.hours).dividedBy(baseHours).toNumber() }
+          : lc;
+      }),
+    };
+  }
+
+  private static validateDistribution(distribution: Distribution): void {
+    switch (distribution.type) {
+      case 'uniform':
+        if (distribution.min > distribution.max) {
+          throw new Error('Uniform distribution min cannot exceed max');
+        }
+        return;
+      case 'triangular':
+        if (!(distribution.min <= distribution.mode && distribution.mode <= distribution.max)) {
+          throw new Error('Triangular distribution must satisfy min ≤ mode ≤ max');
+        }
+        return;
+      case 'normal':
+        if (distribution.standardDeviation < 0) {
+          throw new Error('Normal distribution standard deviation cannot be negative');
+        }
+        return;
+      default:
+        throw new Error(`Unknown distribution type: ${(distribution as { type: string }).type}`);
+    }
+  }
+
+  private static assertTargetExists(input: CalculationInput, variable: SimulationVariable): void {
+    const target = variable.input;
+
+    if ((target.type === 'hours' || target.type === 'annualSalary')
+      && !input.laborCategories.some(lc => lc.id === target.laborCategoryId)) {
+      throw new Error(`Labor category ${target.laborCategoryId} not found for ${target.type} variable`);
+    }
+    if (target.type === 'odcAmount' && !input.otherDirectCosts.some(odc => odc.id === target.otherDirectCostId)) {
+      throw new Error(`Other direct cost ${target.otherDirectCostId} not found for odcAmount variable`);
+    }
+    if (target.type === 'wrapRate' && !input.settings.salaryPricing) {
+      throw new Error('Salary pricing settings are required for a wrapRate variable');
+    }
+  }
+
+  /**
+   * Mean, range and P10/P50/P80/P90 with linear interpolation between ranks
+   */
+  private static summarize(values: number[], decimals: number): SimulationStatistics {
+    const sorted = [...values].sort((a, b) => a - b);
+    const round = (value: number) => Decimal.from(value).round(decimals).toNumber();
+    const percentile = (p: number) => {
+      const rank = (sorted.length - 1) * p;
+      const lower = sorted[Math.floor(rank)] ?? 0;
+      const upper = sorted[Math.ceil(rank)] ?? lower;
+      return round(lower + (upper - lower) * (rank - Math.floor(rank)));
+    };
+
+    return {
+      mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+      min: round(sorted[0] ?? 0),
+      max: round(sorted[sorted.length - 1] ?? 0),
+      p10: percentile(0.1),
+      p50: percentile(0.5),
+      p80: percentile(0.8),
+      p90: percentile(0.9),
+    };
+  }
+
+  /**
+   * Equal-width bins from min to max; the last bin includes max
+   */
+  private static buildHistogram(values: number[], binCount: number): SimulationHistogramBin[] {
+    const min = values.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+    const max = values.reduce((highest, value) => Math.max(highest, value), -Infinity);
+    const width = (max - min) / binCount;
+
+    if (width === 0) {
+      return [{ start: min, end: max, count: values.length }];
+    }
+
+    const bins: SimulationHistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+      start: Decimal.from(min + width * index).round(2).toNumber(),
+      end: Decimal.from(index === binCount - 1 ? max : min + width * (index + 1)).round(2).toNumber(),
+      count: 0,
+    }));
+
+    values.forEach(value => {
+      const bin = bins[Math.min(binCount - 1, Math.floor((value - min) / width))];
+      if (bin) {
+        bin.count++;
+      }
+    });
+
+    return bins;
+  }
+}
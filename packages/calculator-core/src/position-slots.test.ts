@@ -0,0 +1,81 @@
+import { LaborCategoryCalculationInput, PositionSlot } from '@pricing-calculator/types';
+import { PricingCalculationEngine } from './calculation-engine';
+import { PositionSlots } from './position-slots';
+import { line, settings } from './pricing.fixtures';
+
+// One Lead PM position split between two people at different salaries
+const assignees: LaborCategoryCalculationInput[] = [
+  line({ id: 'pm-a', title: 'Lead PM', hours: 1920, capacity: 0.458, slotId: 'lead-pm', assigneeName: 'A. Smith', annualSalary: 150000, finalRate: 170 }),
+  line({ id: 'pm-b', title: 'Lead PM', hours: 1920, capacity: 0.583, slotId: 'lead-pm', assigneeName: 'B. Jones', annualSalary: 130000, finalRate: 160 }),
+];
+const developer = line({ id: 'dev', title: 'Developer', hours: 1920 });
+
+const price = (positionSlots: PositionSlot[]) => PricingCalculationEngine.calculateProject({
+  settings: { ...settings, pricingMode: 'salary', salaryPricing: { wrapRate: 0.875, minimumProfitRate: 0.0753, annualHours: 1920 } },
+  laborCategories: [...assignees, developer],
+  otherDirectCosts: [],
+  positionSlots,
+});
+
+describe('PositionSlots', () => {
+  describe('calculate', () => {
+    it('prices each assignee on their own line', () => {
+      const [slot] = price([{ id: 'lead-pm', title: 'Lead PM', projectRole: 'Lead PM', fte: 1.041 }]).positionSlots ?? [];
+
+      // Cost is salary + 87.5% wrap for the share of the year: 150,000 × 1.875 × 0.458
+      expect(slot?.assignees).toEqual([
+        { lineId: 'pm-a', assigneeName: 'A. Smith', annualSalary: 150000, capacity: 0.458, effectiveHours: 879.36, cost: 128812.5, price: 149491.2, profit: 20678.7 },
+        { lineId: 'pm-b', assigneeName: 'B. Jones', annualSalary: 130000, capacity: 0.583, effectiveHours: 1119.36, cost: 142106.25, price: 179097.6, profit: 36991.35 },
+      ]);
+    });
+
+    it('rolls the assignees up per slot and leaves lines outside the slot out', () => {
+      const [slot] = price([{ id: 'lead-pm', title: 'Lead PM', projectRole: 'Lead PM', fte: 1.041 }]).positionSlots ?? [];
+
+      expect(slot).toMatchObject({
+        slotId: 'lead-pm',
+        projectRole: 'Lead PM',
+        fte: 1.041,
+        assignedCapacity: 1.041,
+        effectiveHours: 1998.72,
+        cost: 270918.75,
+        price: 328588.8,
+        profit: 57670.05,
+      });
+    });
+
+    it('sizes a slot without an FTE to its assignees', () => {
+      const [slot] = price([{ id: 'lead-pm', title: 'Lead PM' }]).positionSlots ?? [];
+
+      expect(slot).toMatchObject({ fte: 1.041, assignedCapacity: 1.041 });
+    });
+  });
+
+  describe('validate', () => {
+    const lines = [...assignees, developer];
+
+    it('accepts shares that sum to the slot FTE, or any shares when the slot has none', () => {
+      expect(PositionSlots.validate([{ id: 'lead-pm', title: 'Lead PM', fte: 1.041 }], lines)).toEqual([]);
+      expect(PositionSlots.validate([{ id: 'lead-pm', title: 'Lead PM' }], lines)).toEqual([]);
+    });
+
+    it('rejects shares that do not sum to the slot FTE', () => {
+      expect(PositionSlots.validate([{ id: 'lead-pm', title: 'Lead PM', fte: 1 }], lines))
+        .toEqual(['Lead PM: assignee shares sum to 1.041, not the slot FTE of 1']);
+    });
+
+    it('rejects bad slots and lines in unknown slots', () => {
+      expect(PositionSlots.validate([
+        { id: 'lead-pm', title: 'Lead PM', fte: 0 },
+        { id: 'empty', title: 'Architect', fte: 1 },
+        { id: 'empty', title: 'Architect' },
+      ], [...lines, line({ title: 'Tester', slotId: 'qa' })])).toEqual([
+        'Lead PM: slot FTE must be greater than 0',
+        'Architect: slot has no assignees',
+        'Duplicate position slot: empty',
+        'Architect: slot has no assignees',
+        'Tester: unknown position slot qa',
+      ]);
+    });
+  });
+});
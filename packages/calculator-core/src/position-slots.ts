@@ -0,0 +1,106 @@
+/**
+ * Position slots
+ * A slot is one position (LCAT + project role) filled by several named assignees, each priced on their own line
+ * A slot without an FTE is as large as its assignees' shares, e.g. 0.458 + 0.583 = 1.041 FTE
+ */
+
+import {
+  LaborCategoryCalculationInput,
+  LaborCategoryResult,
+  PositionAssigneeResult,
+  PositionSlot,
+  PositionSlotResult
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+
+export class PositionSlots {
+  static readonly FTE_TOLERANCE = 0.001;
+
+  /**
+   * Roll assignee lines up per slot; lines and results are matched by index
+   */
+  static calculate(
+    slots: PositionSlot[],
+    lines: LaborCategoryCalculationInput[],
+    results: LaborCategoryResult[]
+  ): PositionSlotResult[] {
+    return slots.map(slot => {
+      const assignees: PositionAssigneeResult[] = [];
+      lines.forEach((line, index) => {
+        const result = results[index];
+        if (line.slotId !== slot.id || !result) {
+          return;
+        }
+        const cost = Decimal.from(result.totalCost).minus(result.feeAmount);
+        assignees.push({
+          lineId: result.id,
+          ...(line.assigneeName ? { assigneeName: line.assigneeName } : {}),
+          ...(line.companyRoleId ? { companyRoleId: line.companyRoleId } : {}),
+          ...(result.annualSalary !== undefined ? { annualSalary: result.annualSalary } : {}),
+          capacity: line.capacity ?? 1,
+          effectiveHours: result.effectiveHours,
+          cost: cost.toNumber(),
+          price: result.totalCost,
+          profit: result.feeAmount,
+        });
+      });
+
+      const assignedCapacity = Decimal.sum(assignees.map(assignee => assignee.capacity)).toNumber();
+      return {
+        slotId: slot.id,
+        title: slot.title,
+        ...(slot.projectRole ? { projectRole: slot.projectRole } : {}),
+        fte: slot.fte ?? assignedCapacity,
+        assignedCapacity,
+        assignees,
+        effectiveHours: Decimal.sum(assignees.map(assignee => assignee.effectiveHours)).toNumber(),
+        cost: Decimal.sum(assignees.map(assignee => assignee.cost)).toNumber(),
+        price: Decimal.sum(assignees.map(assignee => assignee.price)).toNumber(),
+        profit: Decimal.sum(assignees.map(assignee => assignee.profit)).toNumber(),
+      };
+    });
+  }
+
+  /**
+   * Validate slots against their assignee lines: shares must sum to the slot FTE when the slot sets one
+   */
+  static validate(slots: PositionSlot[], lines: LaborCategoryCalculationInput[]): string[] {
+    const errors: string[] = [];
+    const slotIds = new Set<string>();
+
+    slots.forEach(slot => {
+      if (!slot.id || !slot.title) {
+        errors.push('Position slot must have an id and title');
+        return;
+      }
+      if (slotIds.has(slot.id)) {
+        errors.push(`Duplicate position slot: ${slot.id}`);
+      }
+      slotIds.add(slot.id);
+
+      if (slot.fte !== undefined && (typeof slot.fte !== 'number' || slot.fte <= 0)) {
+        errors.push(`${slot.title}: slot FTE must be greater than 0`);
+        return;
+      }
+
+      const assignees = lines.filter(line => line.slotId === slot.id);
+      if (assignees.length === 0) {
+        errors.push(`${slot.title}: slot has no assignees`);
+        return;
+      }
+
+      const assigned = Decimal.sum(assignees.map(line => line.capacity ?? 1));
+      if (slot.fte !== undefined && Math.abs(assigned.minus(slot.fte).toNumber()) > this.FTE_TOLERANCE) {
+        errors.push(`${slot.title}: assignee shares sum to ${assigned.toNumber()}, not the slot FTE of ${slot.fte}`);
+      }
+    });
+
+    lines.forEach(line => {
+      if (line.slotId !== undefined && !slotIds.has(line.slotId)) {
+        errors.push(`${line.title}: unknown position slot ${line.slotId}`);
+      }
+    });
+
+    return errors;
+  }
+}
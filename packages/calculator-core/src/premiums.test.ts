@@ -0,0 +1,65 @@
+import { PremiumTable } from '@pricing-calculator/types';
+import { PremiumTables } from './premiums';
+import { PricingCalculationEngine } from './calculation-engine';
+import { line, settings } from './pricing.fixtures';
+
+const table: PremiumTable = {
+  id: 'vehicle',
+  name: 'Vehicle premiums',
+  clearancePremiums: { 'Secret': 0.15 },
+  locationDifferentials: { 'On-site': 0.05, 'Remote': -0.1 },
+  localities: { 'DC Metro': 0.12 },
+};
+
+describe('PremiumTables', () => {
+  it('falls back to the standard premium for levels the table leaves out', () => {
+    expect(PremiumTables.clearancePremium(table, 'Secret')).toEqual({ rate: 0.15, source: 'project' });
+    expect(PremiumTables.clearancePremium(table, 'Top Secret')).toEqual({ rate: 0.2, source: 'default' });
+  });
+
+  it('prefers a named locality over the location type', () => {
+    expect(PremiumTables.locationDifferential(table, 'Remote', 'DC Metro').rate).toBe(0.12);
+    expect(PremiumTables.locationDifferential(table, 'Remote', 'Unknown').rate).toBe(-0.1);
+    expect(PremiumTables.locationDifferential(table, 'Hybrid')).toEqual({ rate: 0, source: 'default' });
+  });
+
+  it('adds the clearance premium and location differential to the base rate', () => {
+    const result = PricingCalculationEngine.calculateProject({
+      settings: { ...settings, premiumTable: table },
+      laborCategories: [
+        line({ clearanceLevel: 'Secret', location: 'On-site' }),
+        line({ clearanceLevel: 'Top Secret', locality: 'DC Metro' }),
+        line({ clearanceLevel: 'Secret', clearancePremium: 0.3 }),
+      ],
+      otherDirectCosts: [],
+    });
+
+    expect(result.laborCategories.map(lc => [lc.clearancePremiumSource, lc.locationDifferentialSource, lc.clearanceAdjustedRate])).toEqual([
+      ['project', 'project', 120],
+      ['default', 'project', 132],
+      // A line premium overrides the table
+      ['line', 'project', 120],
+    ]);
+  });
+
+  it('resolves the project table, then the contract vehicle, then the tenant, then the standard table', () => {
+    expect(PremiumTables.resolve({ project: table, contractVehicle: table }).source).toBe('project');
+    expect(PremiumTables.resolve({ contractVehicle: table, tenant: table }).source).toBe('contract-vehicle');
+    expect(PremiumTables.resolve({ tenant: table }).source).toBe('tenant');
+    expect(PremiumTables.resolve({})).toBe(PremiumTables.DEFAULT);
+  });
+
+  it('rejects unknown levels and out-of-range rates', () => {
+    expect(PremiumTables.validate({
+      ...table,
+      clearancePremiums: { 'Secret': 1.5 },
+      locationDifferentials: { 'Remote': -0.6 },
+      localities: { ' ': 0.1 },
+    })).toEqual([
+      'Secret premium must be between 0% and 100%',
+      'Remote differential must be between -50% and 100%',
+      'Locality names cannot be blank',
+    ]);
+    expect(PremiumTables.validate(table)).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Clearance premiums and location differentials for pricing calculations
+ * Defines the standard premium table and how a tenant, contract vehicle or project table is resolved
+ */
+
+import {
+  ClearanceLevel,
+  LocationType,
+  PremiumSource,
+  PremiumTable
+} from '@pricing-calculator/types';
+
+const STANDARD: PremiumTable = {
+  id: 'standard',
+  name: 'Standard clearance premiums',
+  clearancePremiums: {
+    'None': 0,
+    'Public Trust': 0.05,
+    'Secret': 0.10,
+    'Top Secret': 0.20,
+    'TS/SCI': 0.25,
+    'TS/SCI with CI Poly': 0.30,
+    'TS/SCI with FS Poly': 0.35,
+  },
+  locationDifferentials: {
+    'Remote': 0,
+    'On-site': 0,
+    'Hybrid': 0,
+  },
+};
+
+export interface AppliedPremium {
+  rate: number;
+  source: PremiumSource;
+}
+
+export class PremiumTables {
+  static readonly CLEARANCE_LEVELS: ClearanceLevel[] = [
+    'None',
+    'Public Trust',
+    'Secret',
+    'Top Secret',
+    'TS/SCI',
+    'TS/SCI with CI Poly',
+    'TS/SCI with FS Poly',
+  ];
+  static readonly LOCATION_TYPES: LocationType[] = ['Remote', 'On-site', 'Hybrid'];
+  static readonly DEFAULT: PremiumTable = { ...STANDARD, source: 'default' };
+
+  /**
+   * Resolve the applied table: project override, then contract vehicle, then tenant, then default
+   */
+  static resolve(candidates: {
+    project?: PremiumTable | null;
+    contractVehicle?: PremiumTable | null;
+    tenant?: PremiumTable | null;
+  }): PremiumTable {
+    if (candidates.project) return { ...candidates.project, source: candidates.project.source ?? 'project' };
+    if (candidates.contractVehicle) return { ...candidates.contractVehicle, source: 'contract-vehicle' };
+    if (candidates.tenant) return { ...candidates.tenant, source: 'tenant' };
+    return this.DEFAULT;
+  }
+
+  /**
+   * Clearance premium for a level; levels the table leaves out use the standard premium
+   */
+  static clearancePremium(table: PremiumTable, clearanceLevel: ClearanceLevel): AppliedPremium {
+    const rate = table.clearancePremiums[clearanceLevel];
+    if (rate !== undefined) {
+      return { rate, source: table.source ?? 'project' };
+    }
+    return { rate: STANDARD.clearancePremiums[clearanceLevel] ?? 0, source: 'default' };
+  }
+
+  /**
+   * Location differential for a line: named locality first, then location type
+   */
+  static locationDifferential(table: PremiumTable, location: LocationType, locality?: string): AppliedPremium {
+    const source = table.source ?? 'project';
+    const localityRate = locality !== undefined ? table.localities?.[locality] : undefined;
+    if (localityRate !== undefined) {
+      return { rate: localityRate, source };
+    }
+
+    const rate = table.locationDifferentials[location];
+    if (rate !== undefined) {
+      return { rate, source };
+    }
+    return { rate: 0, source: 'default' };
+  }
+
+  /**
+   * Validate a premium table definition
+   */
+  static validate(table: PremiumTable): string[] {
+    const errors: string[] = [];
+
+    if (!table.id || !table.name) {
+      errors.push('Premium table must have an id and name');
+    }
+
+    Object.entries(table.clearancePremiums ?? {}).forEach(([level, rate]) => {
+      if (!this.CLEARANCE_LEVELS.includes(level as ClearanceLevel)) {
+        errors.push(`Unknown clearance level: ${level}`);
+      } else if (typeof rate !== 'number' || rate < 0 || rate > 1) {
+        errors.push(`${level} premium must be between 0% and 100%`);
+      }
+    });
+
+    Object.entries(table.locationDifferentials ?? {}).forEach(([location, rate]) => {
+      if (!this.LOCATION_TYPES.includes(location as LocationType)) {
+        errors.push(`Unknown location type: ${location}`);
+      } else if (typeof rate !== 'number' || rate < -0.5 || rate > 1) {
+        errors.push(`${location} differential must be between -50% and 100%`);
+      }
+    });
+
+    Object.entries(table.localities ?? {}).forEach(([locality, rate]) => {
+      if (!locality.trim()) {
+        errors.push('Locality names cannot be blank');
+      } else if (typeof rate !== 'number' || rate < -0.5 || rate > 1) {
+        errors.push(`${locality} differential must be between -50% and 100%`);
+      }
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,122 @@
+import { PriceToWinRequest, PriceToWinVariable } from '@pricing-calculator/types';
+import { PriceToWinSolver } from './price-to-win';
+import { line, settings } from './pricing.fixtures';
+
+const salaryPricing = { wrapRate: 0.875, minimumProfitRate: 0.0753, annualHours: 1920 };
+
+const request = (
+  solveFor: PriceToWinVariable,
+  value: number,
+  overrides: Partial<PriceToWinRequest> = {}
+): PriceToWinRequest => ({
+  settings,
+  laborCategories: [line({ id: 'dev', title: 'Developer' })],
+  otherDirectCosts: [],
+  target: { type: 'totalPrice', value },
+  solveFor,
+  ...overrides,
+});
+
+const summarize = (solveFor: PriceToWinVariable, value: number, overrides: Partial<PriceToWinRequest> = {}) => {
+  const result = PriceToWinSolver.solve(request(solveFor, value, overrides));
+  return {
+    ...result,
+    constraintSummary: result.constraints.map(constraint => [constraint.type, constraint.laborCategoryId, constraint.status]),
+  };
+};
+
+describe('PriceToWinSolver', () => {
+  describe('feeRate', () => {
+    const laborCategories = [
+      line({ id: 'dev', title: 'Developer' }),
+      line({ id: 'sub', title: 'Sub Developer', primeOrSub: 'Subcontractor', subcontractorCompany: 'Acme', finalSubcontractorRate: 90 }),
+      line({ id: 'lead', title: 'Lead', finalRate: 200 }),
+    ];
+
+    it('reprices prime lines and reports sub and negotiated lines as fixed', () => {
+      const result = summarize('feeRate', 500000, { laborCategories });
+
+      // 99,000 sub + 200,000 lead leave 201,000 for the developer: 100 × 1.43 × 1.405629 = 201.00
+      expect(result).toMatchObject({ value: 0.405629, feasible: true, achieved: 500000, gap: 0 });
+      expect(result.laborCategories.map(lc => lc.finalRate)).toEqual([201, undefined, 200]);
+      expect(result.constraints.filter(constraint => constraint.status === 'fixed')).toEqual([
+        expect.objectContaining({ laborCategoryId: 'sub', value: 99, message: 'Sub Developer is priced from its subcontractor rate' }),
+        expect.objectContaining({ laborCategoryId: 'lead', value: 200, message: 'Lead keeps its negotiated final rate' }),
+      ]);
+      expect(result.bindingConstraints).toEqual([]);
+    });
+
+    it('leaves salary-priced lines at their company minimum rate', () => {
+      const result = summarize('feeRate', 300000, {
+        settings: { ...settings, pricingMode: 'salary', salaryPricing },
+        laborCategories: [line({ id: 'dev', title: 'Developer' }), line({ id: 'pm', title: 'PM', annualSalary: 150000 })],
+      });
+
+      expect(result.laborCategories[1]).not.toHaveProperty('finalRate');
+      expect(result.constraints[0]).toMatchObject({ type: 'fixed-rate', laborCategoryId: 'pm', value: 157.51, message: 'PM is priced from its salary' });
+    });
+
+    it('holds a line at its company minimum rate and reports the floor and bound as binding', () => {
+      const result = summarize('feeRate', 300000, {
+        settings: { ...settings, salaryPricing },
+        laborCategories: [line({ id: 'dev', title: 'Developer', annualSalary: 150000 }), line({ id: 'qa', title: 'QA' })],
+      });
+
+      // At 0% fee the developer would bill 143.00, under the 157.51 floor
+      expect(result).toMatchObject({ value: 0, feasible: false, achieved: 300510, gap: -510 });
+      expect(result.laborCategories.map(lc => lc.finalRate)).toEqual([157.51, 143]);
+      expect(result.constraintSummary).toEqual([
+        ['company-minimum-rate', 'dev', 'binding'],
+        ['variable-bound', undefined, 'binding'],
+      ]);
+      expect(result.bindingConstraints.map(constraint => constraint.message)).toEqual([
+        'Developer is held at its company minimum rate',
+        'feeRate reached its minimum of 0',
+      ]);
+    });
+  });
+
+  describe('ceilingDiscount', () => {
+    it('discounts lines with a ceiling and reports lines without one as fixed', () => {
+      const result = summarize('ceilingDiscount', 310000, {
+        laborCategories: [line({ id: 'dev', title: 'Developer', ceilingRate: 180 }), line({ id: 'qa', title: 'QA' })],
+      });
+
+      // 310,000 - 154,440 for QA leaves 155.56 an hour, 13.58% off the 180.00 ceiling
+      expect(result).toMatchObject({ value: 0.135751, feasible: true, achieved: 310000 });
+      expect(result.laborCategories.map(lc => lc.finalRate)).toEqual([155.56, undefined]);
+      expect(result.constraintSummary).toEqual([['fixed-rate', 'qa', 'fixed']]);
+    });
+
+    it('needs a line with a ceiling rate', () => {
+      expect(() => PriceToWinSolver.solve(request('ceilingDiscount', 100000)))
+        .toThrow('At least one labor category must have an LCAT ceiling rate to solve for a discount');
+    });
+  });
+
+  describe('hoursScale', () => {
+    it('scales hours to stay at or under the target price', () => {
+      const result = summarize('hoursScale', 100000);
+
+      expect(result).toMatchObject({ value: 0.6475, feasible: true, achieved: 99999.9, gap: 0.1 });
+      expect(result.laborCategories[0]?.hours).toBe(647.5);
+      expect(result.constraints).toEqual([]);
+    });
+
+    it('reports the minimum scale as binding when the target is out of reach', () => {
+      const result = summarize('hoursScale', 100);
+
+      expect(result).toMatchObject({ value: 0.01, feasible: false, achieved: 1544.4 });
+      expect(result.bindingConstraints).toEqual([expect.objectContaining({
+        type: 'variable-bound',
+        limit: 0.01,
+        message: 'hoursScale reached its minimum of 0.01',
+      })]);
+    });
+
+    it('cannot change a blended rate', () => {
+      expect(() => PriceToWinSolver.solve(request('hoursScale', 150, { target: { type: 'blendedRate', value: 150 } })))
+        .toThrow('Hours scaling does not change the blended rate');
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Price-to-win reverse solver
+ * Works backwards from a target total price or blended rate to a fee rate, ceiling discount or hours scale
+ * Every line is held at or above its company minimum rate; lines the variable cannot reprice are reported as fixed
+ */
+
+import {
+  CalculationResult,
+  LaborCategoryCalculationInput,
+  PriceToWinConstraint,
+  PriceToWinRequest,
+  PriceToWinResult,
+  PriceToWinTarget,
+  PriceToWinVariable
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { PricingCalculationEngine } from './calculation-engine';
+import { RoundingPolicies } from './rounding';
+
+interface AppliedSolution {
+  laborCategories: LaborCategoryCalculationInput[];
+  floored: boolean[];
+  result: CalculationResult;
+}
+
+export class PriceToWinSolver {
+  static readonly MAX_ITERATIONS = 100;
+  static readonly TOLERANCE = 0.000001;
+
+  static readonly BOUNDS: Record<PriceToWinVariable, { min: number; max: number }> = {
+    feeRate: { min: 0, max: 1 },
+    ceilingDiscount: { min: 0, max: 0.99 },
+    hoursScale: { min: 0.01, max: 10 },
+  };
+
+  /**
+   * Solve for the variable that brings the price closest to the target without exceeding it
+   */
+  static solve(request: PriceToWinRequest): PriceToWinResult {
+    const { target, solveFor } = request;
+
+    if (solveFor === 'hoursScale' && target.type === 'blendedRate') {
+      throw new Error('Hours scaling does not change the blended rate');
+    }
+    if (solveFor === 'ceilingDiscount' && !request.laborCategories.some(lc => (lc.ceilingRate ?? 0) > 0)) {
+      throw new Error('At least one labor category must have an LCAT ceiling rate to solve for a discount');
+    }
+
+    const minimumRates = request.laborCategories.map(lc =>
+      PricingCalculationEngine.calculateCompanyMinimumRate(lc, request.settings)
+    );
+
+    // Price rises with fee rate and hours scale and falls as the discount deepens
+    const increasing = solveFor !== 'ceilingDiscount';
+    const bounds = this.BOUNDS[solveFor];
+    const priceAt = (value: number) => this.measure(this.apply(request, value, minimumRates).result, target);
+
+    // Keep `within` on the at-or-under-target side and `beyond` on the over-target side
+    let within = increasing ? bounds.min : bounds.max;
+    let beyond = increasing ? bounds.max : bounds.min;
+    let iterations = 0;
+    let feasible = true;
+    let value: number;
+
+    if (priceAt(within) > target.value) {
+      feasible = false;
+      value = within;
+    } else if (priceAt(beyond) <= target.value) {
+      value = beyond;
+    } else {
+      while (Math.abs(beyond - within) > this.TOLERANCE && iterations < this.MAX_ITERATIONS) {
+        const midpoint = (within + beyond) / 2;
+        if (priceAt(midpoint) <= target.value) {
+          within = midpoint;
+        } else {
+          beyond = midpoint;
+        }
+        iterations++;
+      }
+      value = this.roundTowardTarget(within, increasing);
+    }
+
+    const solution = this.apply(request, value, minimumRates);
+    const achieved = this.measure(solution.result, target);
+    const constraints = this.evaluateConstraints(request, value, solution, minimumRates);
+
+    return {
+      solveFor,
+      target,
+      value,
+      feasible,
+      achieved,
+      gap: Decimal.from(target.value).minus(achieved).toNumber(),
+      iterations,
+      constraints,
+      bindingConstraints: constraints.filter(constraint => constraint.status === 'binding' || constraint.status === 'violated'),
+      laborCategories: solution.laborCategories,
+      result: solution.result,
+    };
+  }
+
+  /**
+   * Reprice the project with the solve variable set to a value
+   */
+  private static apply(
+    request: PriceToWinRequest,
+    value: number,
+    minimumRates: Array<number | undefined>
+  ): AppliedSolution {
+    const roundingPolicy = PricingCalculationEngine.resolveRoundingPolicy(request.settings);
+    const settings = request.solveFor === 'feeRate' ? { ...request.settings, feeRate: value } : request.settings;
+    const floored: boolean[] = [];
+
+    const laborCategories = request.laborCategories.map((lc, index) => {
+      const minimumRate = minimumRates[index];
+
+      if (request.solveFor === 'hoursScale') {
+        floored.push(false);
+        return { ...lc, hours: Decimal.from(lc.hours).times(value).toNumber() };
+      }
+      if (this.describeFixedLine(request, lc) !== undefined) {
+        floored.push(false);
+        return lc;
+      }
+
+      // Fee rate reprices prime lines at their burdened rate; discount reprices lines with a ceiling
+      const rate = request.solveFor === 'feeRate'
+        ? PricingCalculationEngine.calculateBurdenRate(lc.baseRate, lc.clearanceLevel, settings, lc.location, lc.locality)
+        : RoundingPolicies.roundRate(
+          Decimal.from(lc.ceilingRate ?? 0).times(Decimal.ONE.minus(value)),
+          roundingPolicy
+        ).toNumber();
+
+      const isFloored = minimumRate !== undefined && rate < minimumRate;
+      floored.push(isFloored);
+      return { ...lc, finalRate: isFloored ? minimumRate as number : rate };
+    });
+
+    return {
+      laborCategories,
+      floored,
+      result: PricingCalculationEngine.calculateProject({ ...request, settings, laborCategories }),
+    };
+  }
+
+  /**
+   * Why the solve variable leaves a line's rate unchanged, or undefined when it reprices the line
+   * Fee rate does not reach sub lines, salary-priced lines or negotiated final rates; discount needs a ceiling
+   */
+  private static describeFixedLine(request: PriceToWinRequest, lc: LaborCategoryCalculationInput): string | undefined {
+    if (request.solveFor === 'feeRate') {
+      if (lc.primeOrSub === 'Subcontractor') {
+        return `${lc.title} is priced from its subcontractor rate`;
+      }
+      if (request.settings.pricingMode === 'salary' && lc.annualSalary !== undefined) {
+        return `${lc.title} is priced from its salary`;
+      }
+      if (lc.finalRate && lc.finalRate > 0) {
+        return `${lc.title} keeps its negotiated final rate`;
+      }
+    }
+    if (request.solveFor === 'ceilingDiscount' && !(lc.ceilingRate && lc.ceilingRate > 0)) {
+      return `${lc.title} has no ceiling rate to discount`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Measure the priced project against the target type
+   */
+  private static measure(result: CalculationResult, target: PriceToWinTarget): number {
+    return target.type === 'totalPrice' ? result.totals.totalCost : result.totals.averageBurdenedRate;
+  }
+
+  /**
+   * Round a solved value to 6 decimals on the side that keeps the price at or under target
+   */
+  private static roundTowardTarget(value: number, increasing: boolean): number {
+    return Decimal.from(value).round(6, increasing ? 'down' : 'up').toNumber();
+  }
+
+  /**
+   * Report fixed lines, company minimum rate floors and solve-variable bounds
+   */
+  private static evaluateConstraints(
+    request: PriceToWinRequest,
+    value: number,
+    solution: AppliedSolution,
+    minimumRates: Array<number | undefined>
+  ): PriceToWinConstraint[] {
+    const { solveFor } = request;
+    const constraints: PriceToWinConstraint[] = [];
+
+    solution.laborCategories.forEach((lc, index) => {
+      const minimumRate = minimumRates[index];
+      const line = solution.result.periods?.[0]?.laborCategories[index];
+      if (!line) {
+        return;
+      }
+
+      const original = request.laborCategories[index];
+      const fixed = original && this.describeFixedLine(request, original);
+      if (fixed !== undefined) {
+        const billedRate = line.finalRate ?? line.companyMinimumRate ?? line.burdenedRate;
+        constraints.push({
+          type: 'fixed-rate',
+          ...(lc.id ? { laborCategoryId: lc.id } : {}),
+          title: lc.title,
+          limit: billedRate,
+          value: billedRate,
+          status: 'fixed',
+          message: fixed,
+        });
+      }
+      if (minimumRate === undefined) {
+        return;
+      }
+
+      // Compare in base-period terms; salary and final rate escalate together
+      const rate = lc.finalRate && lc.finalRate > 0 ? lc.finalRate : line.companyMinimumRate ?? line.burdenedRate;
+      const status = solution.floored[index] ? 'binding' : rate < minimumRate ? 'violated' : 'slack';
+      constraints.push({
+        type: 'company-minimum-rate',
+        ...(lc.id ? { laborCategoryId: lc.id } : {}),
+        title: lc.title,
+        limit: minimumRate,
+        value: rate,
+        status,
+        message: status === 'binding'
+          ? `${lc.title} is held at its company minimum rate`
+          : status === 'violated'
+            ? `${lc.title} is priced below its company minimum rate`
+            : `${lc.title} is above its company minimum rate`,
+      });
+    });
+
+    const bounds = this.BOUNDS[solveFor];
+    const atBound = value <= bounds.min ? bounds.min : value >= bounds.max ? bounds.max : undefined;
+    if (atBound !== undefined) {
+      constraints.push({
+        type: 'variable-bound',
+        limit: atBound,
+        value,
+        status: 'binding',
+        message: `${solveFor} reached its ${atBound === bounds.min ? 'minimum' : 'maximum'} of ${atBound}`,
+      });
+    }
+
+    return constraints;
+  }
+}
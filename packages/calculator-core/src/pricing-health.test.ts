@@ -0,0 +1,127 @@
+import { CalculationInput, LaborCategoryCalculationInput, PricingFinding, PricingSettings } from '@pricing-calculator/types';
+import { PricingCalculationEngine } from './calculation-engine';
+import { PricingHealth } from './pricing-health';
+import { line, settings } from './pricing.fixtures';
+
+const salaryPricing = { wrapRate: 0.875, minimumProfitRate: 0.0753, annualHours: 1920 };
+
+const price = (
+  overrides: Partial<PricingSettings>,
+  laborCategories: LaborCategoryCalculationInput[],
+  positionSlots?: CalculationInput['positionSlots']
+) => PricingCalculationEngine.calculateProject({
+  settings: { ...settings, ...overrides },
+  laborCategories,
+  otherDirectCosts: [],
+  ...(positionSlots ? { positionSlots } : {}),
+});
+
+const findings = (...args: Parameters<typeof price>) => PricingHealth.findFindings(price(...args));
+
+const finding = (severity: PricingFinding['severity']): PricingFinding => ({
+  type: 'over-capacity',
+  severity,
+  message: severity,
+  value: 2,
+  threshold: 1,
+});
+
+describe('PricingHealth', () => {
+  describe('findFindings', () => {
+    it('flags lines that lose money, and lines that only miss the target profit', () => {
+      // 154.44 earns 11,440 ÷ 154,440 = 7.41%; 120.00 is under the 143.00 cost rate
+      expect(findings({ targetProfitRate: 0.1 }, [
+        line({ id: 'dev', title: 'Developer' }),
+        line({ id: 'cut', title: 'Discounted', finalRate: 120 }),
+      ])).toEqual([
+        {
+          type: 'below-target-profit',
+          severity: 'warning',
+          message: 'Developer: 7.41% profit is below the 10.00% target',
+          lineIndex: 0,
+          lineId: 'dev',
+          value: 0.0741,
+          threshold: 0.1,
+        },
+        {
+          type: 'negative-margin',
+          severity: 'error',
+          message: 'Discounted: loses money at -19.17% profit',
+          lineIndex: 1,
+          lineId: 'cut',
+          value: -0.1917,
+          threshold: 0,
+        },
+      ]);
+    });
+
+    it('checks a line with a salary against its company minimum rate outside salary mode', () => {
+      // The engine passes the minimum rates it prices salary lines at
+      expect(price({ salaryPricing }, [line({ id: 'pm', title: 'PM', annualSalary: 150000, finalRate: 150 })]).findings).toEqual([{
+        type: 'below-minimum-rate',
+        severity: 'error',
+        message: 'PM: rate of $150.00 is below the company minimum rate of $157.51',
+        lineIndex: 0,
+        lineId: 'pm',
+        value: 150,
+        threshold: 157.51,
+      }]);
+    });
+
+    it('flags lines over 1.0 FTE and subs over the rate that keeps the minimum profit', () => {
+      // 105.00 billed less 10% minimum profit leaves 95.45 for the sub
+      const result = findings({ subcontractorPricing: { passThroughMarkup: 0.05, minimumProfitRate: 0.1 } }, [
+        line({ id: 'team', title: 'Team', capacity: 2 }),
+        line({ id: 'sub', title: 'Sub', primeOrSub: 'Subcontractor', subcontractorCompany: 'Acme', finalSubcontractorRate: 100 }),
+      ]);
+
+      expect(result.map(({ type, message, threshold }) => ({ type, message, threshold }))).toEqual([
+        { type: 'over-capacity', message: 'Team: capacity of 2 is over 1.0 FTE', threshold: 1 },
+        { type: 'sub-over-max-rate', message: 'Sub: subcontractor rate of $100.00 is over the max rate of $95.45', threshold: 95.45 },
+      ]);
+    });
+
+    it('reports open FTE, else unnamed assignees, on position slots', () => {
+      const analysts = [
+        line({ id: 'a', title: 'Analyst', slotId: 'analyst', capacity: 0.5, assigneeName: 'A. Smith' }),
+        line({ id: 'b', title: 'Analyst', slotId: 'analyst', capacity: 0.5 }),
+      ];
+
+      expect(findings({}, analysts, [{ id: 'analyst', title: 'Analyst', fte: 2 }]).map(f => f.message))
+        .toEqual(['Analyst: 1 of 2 FTE is not assigned']);
+      expect(findings({}, analysts, [{ id: 'analyst', title: 'Analyst' }])).toEqual([{
+        type: 'unfilled-position',
+        severity: 'info',
+        message: 'Analyst: 1 assignee is not named',
+        slotId: 'analyst',
+        value: 1,
+        threshold: 1,
+      }]);
+    });
+  });
+
+  describe('report', () => {
+    const priced = price({}, [line()]);
+
+    it('scores a project without findings as healthy', () => {
+      expect(PricingHealth.report(priced)).toMatchObject({
+        score: 100,
+        status: 'healthy',
+        findings: [],
+        counts: { error: 0, warning: 0, info: 0 },
+        totals: priced.totals,
+      });
+    });
+
+    it('takes 20 points per error, 5 per warning and 1 per info', () => {
+      expect(PricingHealth.report(priced, [finding('warning'), finding('warning'), finding('info')]))
+        .toMatchObject({ score: 89, status: 'at-risk', counts: { error: 0, warning: 2, info: 1 } });
+      expect(PricingHealth.report(priced, [finding('error'), finding('warning'), finding('info')]))
+        .toMatchObject({ score: 74, status: 'critical' });
+    });
+
+    it('never scores below 0', () => {
+      expect(PricingHealth.report(priced, Array.from({ length: 6 }, () => finding('error'))).score).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Pricing health
+ * Flags lines that lose money or miss targets, over-allocated lines, unfilled positions and subs over their max rate
+ * and scores the whole pricing from the findings
+ */
+
+import {
+  LaborCategoryResult,
+  PositionSlotResult,
+  PricingFinding,
+  PricingFindingSeverity,
+  PricingHealthReport,
+  PricingHealthStatus,
+  PricingSettings,
+  PricingTotals
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { CeilingRates } from './ceiling-rates';
+
+interface PricedLines {
+  laborCategories: LaborCategoryResult[];
+  positionSlots?: PositionSlotResult[];
+  companyMinimumRates?: Array<number | undefined>; // Per line, for lines priced outside salary mode
+  totals: PricingTotals;
+  settings: PricingSettings;
+}
+
+export class PricingHealth {
+  // Points taken off the score per finding
+  static readonly PENALTIES = { error: 20, warning: 5, info: 1 };
+
+  /**
+   * Structured findings for a priced project, in line order, then slots
+   */
+  static findFindings(priced: PricedLines): PricingFinding[] {
+    const findings: PricingFinding[] = [];
+    const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+    const targetProfitRate = priced.settings.targetProfitRate;
+
+    priced.laborCategories.forEach((line, lineIndex) => {
+      const about = { lineIndex, ...(line.id ? { lineId: line.id } : {}) };
+      const proposedRate = CeilingRates.proposedRate(line);
+      const profitShare = this.calculateProfitShare(line);
+      const companyMinimumRate = line.companyMinimumRate ?? priced.companyMinimumRates?.[lineIndex];
+
+      if (companyMinimumRate !== undefined && proposedRate < companyMinimumRate) {
+        findings.push({
+          type: 'below-minimum-rate',
+          severity: 'error',
+          message: `${line.title}: rate of $${proposedRate.toFixed(2)} is below the company minimum rate of $${companyMinimumRate.toFixed(2)}`,
+          ...about,
+          value: proposedRate,
+          threshold: companyMinimumRate,
+        });
+      }
+
+      if (profitShare !== undefined && profitShare < 0) {
+        findings.push({
+          type: 'negative-margin',
+          severity: 'error',
+          message: `${line.title}: loses money at ${percent(profitShare)} profit`,
+          ...about,
+          value: profitShare,
+          threshold: 0,
+        });
+      } else if (profitShare !== undefined && targetProfitRate !== undefined && profitShare < targetProfitRate) {
+        findings.push({
+          type: 'below-target-profit',
+          severity: 'warning',
+          message: `${line.title}: ${percent(profitShare)} profit is below the ${percent(targetProfitRate)} target`,
+          ...about,
+          value: profitShare,
+          threshold: targetProfitRate,
+        });
+      }
+
+      if ((line.capacity ?? 1) > 1) {
+        findings.push({
+          type: 'over-capacity',
+          severity: 'warning',
+          message: `${line.title}: capacity of ${line.capacity} is over 1.0 FTE`,
+          ...about,
+          value: line.capacity ?? 1,
+          threshold: 1,
+        });
+      }
+
+      if (line.exceedsMaxSubcontractorRate && line.maxSubcontractorRate !== undefined) {
+        findings.push({
+          type: 'sub-over-max-rate',
+          severity: 'warning',
+          message: `${line.title}: subcontractor rate of $${(line.finalSubcontractorRate ?? 0).toFixed(2)} is over the max rate of $${line.maxSubcontractorRate.toFixed(2)}`,
+          ...about,
+          value: line.finalSubcontractorRate ?? 0,
+          threshold: line.maxSubcontractorRate,
+        });
+      }
+    });
+
+    (priced.positionSlots ?? []).forEach(slot => {
+      const unnamed = slot.assignees.filter(assignee => !assignee.assigneeName);
+      const open = Decimal.from(slot.fte).minus(slot.assignedCapacity);
+      if (unnamed.length > 0 || open.compare(0) > 0) {
+        findings.push({
+          type: 'unfilled-position',
+          severity: 'info',
+          message: open.compare(0) > 0
+            ? `${slot.title}: ${open.toNumber()} of ${slot.fte} FTE is not assigned`
+            : `${slot.title}: ${unnamed.length} assignee${unnamed.length === 1 ? ' is' : 's are'} not named`,
+          slotId: slot.slotId,
+          value: slot.assignedCapacity,
+          threshold: slot.fte,
+        });
+      }
+    });
+
+    return findings;
+  }
+
+  /**
+   * Score a priced project from its findings: 100 less a penalty per finding, never below 0
+   */
+  static report(priced: PricedLines, findings: PricingFinding[] = this.findFindings(priced)): PricingHealthReport {
+    const count = (severity: PricingFindingSeverity) => findings.filter(finding => finding.severity === severity).length;
+    const counts = { error: count('error'), warning: count('warning'), info: count('info') };
+
+    const penalty = counts.error * this.PENALTIES.error
+      + counts.warning * this.PENALTIES.warning
+      + counts.info * this.PENALTIES.info;
+    const status: PricingHealthStatus = counts.error > 0 ? 'critical' : counts.warning > 0 ? 'at-risk' : 'healthy';
+
+    return {
+      score: Math.max(0, 100 - penalty),
+      status,
+      findings,
+      counts,
+      totals: priced.totals,
+      calculatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Profit ÷ price for a line: actual profit in salary mode, otherwise fee; undefined for unpriced lines
+   */
+  private static calculateProfitShare(line: LaborCategoryResult): number | undefined {
+    if (line.actualProfitPercentage !== undefined) {
+      return line.actualProfitPercentage;
+    }
+    if (line.totalCost === 0) {
+      return undefined;
+    }
+    return Decimal.from(line.feeAmount).dividedBy(line.totalCost).round(4).toNumber();
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Shared test fixtures
+ * Project settings and a labor line factory for the engine tests; not part of the package build
+ */
+
+import { LaborCategoryCalculationInput, PricingPeriod, PricingSettings } from '@pricing-calculator/types';
+
+// 100 × 1.3 overhead × 1.1 G&A × 1.08 fee = 154.44 an hour
+export const settings: PricingSettings = {
+  overheadRate: 0.3,
+  gaRate: 0.1,
+  feeRate: 0.08,
+  contractType: 'FFP',
+  periodOfPerformance: { startDate: '2025-01-01', endDate: '2025-12-31' },
+};
+
+export const basePeriod: PricingPeriod = { id: 'base', name: 'Base', type: 'Base', startDate: '2025-01-01', endDate: '2025-12-31' };
+export const optionPeriod: PricingPeriod = { id: 'op1', name: 'Option 1', type: 'Option', startDate: '2026-01-01', endDate: '2026-12-31' };
+
+// A base year and one option year
+export const twoPeriodSettings: PricingSettings = {
+  ...settings,
+  periodOfPerformance: { startDate: '2025-01-01', endDate: '2026-12-31' },
+  periods: [basePeriod, optionPeriod],
+};
+
+export const line = (overrides: Partial<LaborCategoryCalculationInput> = {}): LaborCategoryCalculationInput => ({
+  title: 'Engineer',
+  baseRate: 100,
+  hours: 1000,
+  ftePercentage: 100,
+  clearanceLevel: 'None',
+  location: 'Remote',
+  ...overrides,
+});
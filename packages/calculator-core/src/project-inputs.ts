@@ -0,0 +1,68 @@
+/**
+ * Project inputs
+ * Builds engine input from labor lines as the web app saves them; the web app and the API both price through it,
+ * so an unsaved project and its saved copy get the same input
+ */
+
+import {
+  CalculationInput,
+  LaborCategoryCalculationInput,
+  OtherDirectCostInput,
+  PricingSettings,
+  StoredLaborCategory
+} from '@pricing-calculator/types';
+
+export class ProjectInputs {
+  /**
+   * Engine input for a project's settings, stored lines and ODCs
+   */
+  static build(
+    settings: PricingSettings,
+    laborCategories: StoredLaborCategory[],
+    otherDirectCosts: OtherDirectCostInput[] = []
+  ): CalculationInput {
+    return {
+      settings,
+      laborCategories: laborCategories.map(lc => this.toLaborCategoryInput(lc)),
+      otherDirectCosts,
+    };
+  }
+
+  /**
+   * Engine input for a stored line; the company role salary wins over a stored annual salary
+   * Unset numbers (0 final rate, 0 LCAT rate) are left off so the engine applies its defaults
+   */
+  static toLaborCategoryInput(lc: StoredLaborCategory): LaborCategoryCalculationInput {
+    const annualSalary = Number(lc.companyRoleRate) > 0 ? Number(lc.companyRoleRate) : Number(lc.annualSalary);
+    const ceilingRate = Number(lc.ceilingRate) > 0 ? Number(lc.ceilingRate) : Number(lc.lcatRate);
+
+    return {
+      ...(lc.id ? { id: lc.id } : {}),
+      title: lc.title,
+      baseRate: Number(lc.baseRate),
+      hours: Number(lc.hours),
+      ftePercentage: Number(lc.ftePercentage),
+      capacity: Number(lc.capacity || 1),
+      clearanceLevel: lc.clearanceLevel,
+      location: lc.location,
+      ...(Number(lc.finalRate) > 0 ? { finalRate: Number(lc.finalRate) } : {}),
+      ...(lc.finalRateMetadata ? { finalRateMetadata: lc.finalRateMetadata } : {}),
+      ...(lc.companyRoleId ? { companyRoleId: lc.companyRoleId } : {}),
+      ...(lc.escalationRate != null ? { escalationRate: Number(lc.escalationRate) } : {}),
+      ...(annualSalary > 0 ? { annualSalary } : {}),
+      ...(ceilingRate > 0 ? { ceilingRate } : {}),
+      ...(lc.lcatId ? { lcatId: lc.lcatId } : {}),
+      ...(lc.clearancePremium != null ? { clearancePremium: Number(lc.clearancePremium) } : {}),
+      ...(lc.locality ? { locality: lc.locality } : {}),
+      ...(lc.primeOrSub ? { primeOrSub: lc.primeOrSub } : {}),
+      ...(lc.subcontractorCompany ? { subcontractorCompany: lc.subcontractorCompany } : {}),
+      ...(Number(lc.finalSubcontractorRate) > 0 ? { finalSubcontractorRate: Number(lc.finalSubcontractorRate) } : {}),
+      ...(lc.slotId ? { slotId: lc.slotId } : {}),
+      ...(lc.assigneeName ? { assigneeName: lc.assigneeName } : {}),
+      ...(lc.startDate ? { startDate: lc.startDate } : {}),
+      ...(lc.endDate ? { endDate: lc.endDate } : {}),
+      ...(lc.startSprint != null ? { startSprint: Number(lc.startSprint) } : {}),
+      ...(lc.sprintCount != null ? { sprintCount: Number(lc.sprintCount) } : {}),
+    };
+  }
+}
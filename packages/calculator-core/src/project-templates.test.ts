@@ -0,0 +1,53 @@
+import { LaborCategoryCalculationInput, PricingSettings } from '@pricing-calculator/types';
+import { ProjectTemplates } from './project-templates';
+import { basePeriod, line, settings as baseSettings } from './pricing.fixtures';
+
+const settings: PricingSettings = { ...baseSettings, projectId: 'project-1', periods: [basePeriod] };
+
+const stored: LaborCategoryCalculationInput & { companyRoleRate?: number } = {
+  ...line({
+    id: 'dev',
+    title: 'Developer',
+    baseRate: 80,
+    hours: 1920,
+    assigneeName: 'J. Doe',
+    annualSalary: 120000,
+    finalRate: 140,
+    finalRateMetadata: { source: 'manual', reason: 'Negotiated', userId: 'user-1' },
+    startDate: '2025-03-01',
+  }),
+  companyRoleRate: 120000,
+};
+
+describe('ProjectTemplates', () => {
+  it('strips assignees, salaries and who set the final rate from lines', () => {
+    expect(ProjectTemplates.stripLines([stored])).toEqual([{
+      id: 'dev',
+      title: 'Developer',
+      baseRate: 80,
+      hours: 1920,
+      ftePercentage: 100,
+      clearanceLevel: 'None',
+      location: 'Remote',
+      finalRate: 140,
+      finalRateMetadata: { source: 'manual', reason: 'Negotiated' },
+      startDate: '2025-03-01',
+    }]);
+  });
+
+  it('strips the source project from settings', () => {
+    const stripped = ProjectTemplates.stripSettings({ ...settings, settingSources: { escalationRate: 'contract-vehicle' } });
+
+    expect(stripped).not.toHaveProperty('projectId');
+    expect(stripped).not.toHaveProperty('settingSources');
+    expect(stripped.overheadRate).toBe(0.3);
+  });
+
+  it('moves dates to a new period of performance start', () => {
+    const days = ProjectTemplates.dateOffsetDays(settings, '2026-01-01');
+
+    expect(days).toBe(365);
+    expect(ProjectTemplates.shiftSettings(settings, days).periods?.[0]).toMatchObject({ startDate: '2026-01-01', endDate: '2026-12-31' });
+    expect(ProjectTemplates.shiftLines([stored], days)[0]?.startDate).toBe('2026-03-01');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Project templates
+ * Turns a project into a reusable template by removing named individuals and their salaries, and moves a
+ * template's dates to a new period of performance start when a project is created from it
+ */
+
+import { ClinInput, LaborCategoryCalculationInput, PricingPeriod, PricingSettings } from '@pricing-calculator/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Line fields that identify a person or carry their pay
+const PERSONAL_LINE_FIELDS = ['assigneeName', 'annualSalary', 'companyRoleRate'] as const;
+
+type PersonalLineField = typeof PERSONAL_LINE_FIELDS[number];
+
+// Labor line as saved on a project, which also keeps the company role salary the line was priced from
+type StoredLine = LaborCategoryCalculationInput & { companyRoleRate?: number };
+
+export class ProjectTemplates {
+  /**
+   * Labor lines without assignee names, salaries or the user who set the final rate
+   */
+  static stripLines<T extends StoredLine>(laborCategories: T[]): Omit<T, PersonalLineField>[] {
+    return (laborCategories ?? []).map(line => {
+      const stripped = this.omit(line, PERSONAL_LINE_FIELDS);
+      return line.finalRateMetadata
+        ? { ...stripped, finalRateMetadata: this.omit(line.finalRateMetadata, ['userId']) }
+        : stripped;
+    });
+  }
+
+  /**
+   * CLIN tree with every CLIN's labor lines stripped
+   */
+  static stripClins(clins: ClinInput[]): ClinInput[] {
+    return (clins ?? []).map(clin => ({
+      ...clin,
+      laborCategories: this.stripLines(clin.laborCategories),
+      ...(clin.children ? { children: this.stripClins(clin.children) } : {}),
+    }));
+  }
+
+  /**
+   * Settings without the project id and resolved setting sources, which belong to the source project
+   */
+  static stripSettings(settings: PricingSettings): PricingSettings {
+    return this.omit(settings, ['projectId', 'settingSources']);
+  }
+
+  /**
+   * Days to move a template's dates so its period of performance starts on startDate
+   */
+  static dateOffsetDays(settings: PricingSettings, startDate: string): number {
+    const from = Date.parse(settings.periodOfPerformance.startDate);
+    const to = Date.parse(startDate);
+    if (!Number.isFinite(from) || !Number.isFinite(to)) {
+      throw new Error(`Invalid start date: ${startDate}`);
+    }
+    return Math.round((to - from) / MS_PER_DAY);
+  }
+
+  /**
+   * Settings with the period of performance, periods and sprint schedule moved by a number of days
+   */
+  static shiftSettings(settings: PricingSettings, days: number): PricingSettings {
+    return {
+      ...settings,
+      periodOfPerformance: {
+        startDate: this.shiftDate(settings.periodOfPerformance.startDate, days),
+        endDate: this.shiftDate(settings.periodOfPerformance.endDate, days),
+      },
+      ...(settings.periods ? { periods: this.shiftPeriods(settings.periods, days) } : {}),
+      ...(settings.sprintSchedule
+        ? { sprintSchedule: { ...settings.sprintSchedule, startDate: this.shiftDate(settings.sprintSchedule.startDate, days) } }
+        : {}),
+    };
+  }
+
+  /**
+   * Labor lines with their staffing windows moved by a number of days; sprint-based windows move with the schedule
+   */
+  static shiftLines<T extends LaborCategoryCalculationInput>(laborCategories: T[], days: number): T[] {
+    return (laborCategories ?? []).map(line => ({
+      ...line,
+      ...(line.startDate ? { startDate: this.shiftDate(line.startDate, days) } : {}),
+      ...(line.endDate ? { endDate: this.shiftDate(line.endDate, days) } : {}),
+    }));
+  }
+
+  /**
+   * CLIN tree with its periods and labor line windows moved by a number of days
+   */
+  static shiftClins(clins: ClinInput[], days: number): ClinInput[] {
+    return (clins ?? []).map(clin => ({
+      ...clin,
+      laborCategories: this.shiftLines(clin.laborCategories, days),
+      ...(clin.periods ? { periods: this.shiftPeriods(clin.periods, days) } : {}),
+      ...(clin.children ? { children: this.shiftClins(clin.children, days) } : {}),
+    }));
+  }
+
+  private static shiftPeriods(periods: PricingPeriod[], days: number): PricingPeriod[] {
+    return periods.map(period => ({
+      ...period,
+      startDate: this.shiftDate(period.startDate, days),
+      endDate: this.shiftDate(period.endDate, days),
+    }));
+  }
+
+  /**
+   * Copy of an object without the given fields
+   */
+  private static omit<T extends object, K extends keyof T>(value: T, fields: readonly K[]): Omit<T, K> {
+    const omitted: readonly PropertyKey[] = fields;
+    return Object.fromEntries(Object.entries(value).filter(([key]) => !omitted.includes(key))) as Omit<T, K>;
+  }
+
+  /**
+   * Move a date by whole days, keeping date-only strings date-only
+   */
+  private static shiftDate(date: string, days: number): string {
+    const time = Date.parse(date);
+    if (!Number.isFinite(time)) {
+      return date;
+    }
+    const shifted = new Date(time + days * MS_PER_DAY).toISOString();
+    return date.includes('T') ? shifted : shifted.slice(0, 10);
+  }
+}
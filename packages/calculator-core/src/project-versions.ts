@@ -0,0 +1,110 @@
+/**
+ * Project versions
+ * Field-level diff between two saved project versions: project fields, settings, each labor line and ODC,
+ * and the resulting price delta
+ */
+
+import {
+  LaborCategoryCalculationInput,
+  OtherDirectCostInput,
+  ProjectFieldChange,
+  ProjectLineDiff,
+  ProjectVersion,
+  ProjectVersionDiff
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+
+type ProjectLine = LaborCategoryCalculationInput | OtherDirectCostInput;
+
+export class ProjectVersions {
+  /**
+   * Diff two versions of the same project; lines are matched by id, or by position when saved without one
+   */
+  static diff(from: ProjectVersion, to: ProjectVersion): ProjectVersionDiff {
+    const projectFields = (version: ProjectVersion) => ({
+      name: version.data.name,
+      description: version.data.description,
+      contractVehicle: version.data.contractVehicle,
+      tags: version.data.tags,
+    });
+
+    return {
+      projectId: to.projectId,
+      fromVersion: from.version,
+      toVersion: to.version,
+      project: this.compareFields(projectFields(from), projectFields(to)),
+      settings: this.compareFields(from.data.settings, to.data.settings),
+      laborCategories: this.compareLines(from.data.laborCategories, to.data.laborCategories),
+      otherDirectCosts: this.compareLines(from.data.otherDirectCosts, to.data.otherDirectCosts),
+      clinsChanged: JSON.stringify(from.data.clins ?? []) !== JSON.stringify(to.data.clins ?? []),
+      ...(from.totals ? { fromTotals: from.totals } : {}),
+      ...(to.totals ? { toTotals: to.totals } : {}),
+      ...(from.totals && to.totals
+        ? { priceDelta: Decimal.from(to.totals.totalCost).minus(from.totals.totalCost).toNumber() }
+        : {}),
+    };
+  }
+
+  /**
+   * Changed fields between two objects; nested objects are compared field by field, arrays as a whole
+   */
+  static compareFields(from: object | undefined, to: object | undefined): ProjectFieldChange[] {
+    const fromFields = this.flattenFields(from ?? {}, '');
+    const toFields = this.flattenFields(to ?? {}, '');
+    const fields = [...new Set([...fromFields.keys(), ...toFields.keys()])];
+
+    return fields.flatMap(field => {
+      const fromValue = fromFields.get(field);
+      const toValue = toFields.get(field);
+      return JSON.stringify(fromValue) === JSON.stringify(toValue)
+        ? []
+        : [{
+          field,
+          ...(fromValue !== undefined ? { from: fromValue } : {}),
+          ...(toValue !== undefined ? { to: toValue } : {}),
+        }];
+    });
+  }
+
+  /**
+   * Added, removed and changed lines, in the order of the newer version followed by removed lines
+   */
+  private static compareLines(from: ProjectLine[], to: ProjectLine[]): ProjectLineDiff[] {
+    const keyOf = (line: ProjectLine, index: number): string => line.id ? String(line.id) : `#${index}`;
+    const titleOf = (line: ProjectLine): string => ('title' in line ? line.title : line.description) ?? '';
+    const fromLines = new Map((from ?? []).map((line, index) => [keyOf(line, index), line]));
+    const toKeys = new Set((to ?? []).map((line, index) => keyOf(line, index)));
+
+    const current: ProjectLineDiff[] = (to ?? []).flatMap((line, index): ProjectLineDiff[] => {
+      const key = keyOf(line, index);
+      const previous = fromLines.get(key);
+      if (previous === undefined) {
+        return [{ key, title: titleOf(line), change: 'added' as const, fields: this.compareFields({}, line) }];
+      }
+      const fields = this.compareFields(previous, line);
+      return fields.length > 0 ? [{ key, title: titleOf(line), change: 'changed' as const, fields }] : [];
+    });
+
+    const removed: ProjectLineDiff[] = [...fromLines.entries()]
+      .filter(([key]) => !toKeys.has(key))
+      .map(([key, line]) => ({ key, title: titleOf(line), change: 'removed' as const, fields: this.compareFields(line, {}) }));
+
+    return [...current, ...removed];
+  }
+
+  /**
+   * Flatten nested objects into dot paths
+   */
+  private static flattenFields(value: object, prefix: string): Map<string, unknown> {
+    const fields = new Map<string, unknown>();
+    Object.entries(value).forEach(([key, fieldValue]: [string, unknown]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (fieldValue !== null && typeof fieldValue === 'object' && !Array.isArray(fieldValue)) {
+        this.flattenFields(fieldValue, path).forEach((nested, nestedPath) => fields.set(nestedPath, nested));
+      } else if (fieldValue !== undefined) {
+        fields.set(path, fieldValue);
+      }
+    });
+    return fields;
+  }
+}
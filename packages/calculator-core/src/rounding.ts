@@ -0,0 +1,98 @@
+/**
+ * Rounding policies for pricing calculations
+ * Defines the built-in policies and how a tenant, contract vehicle or project override is resolved
+ */
+
+import { RoundingPolicy } from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+
+const RATE_TO_CENT: RoundingPolicy = {
+  id: 'rate-to-cent',
+  name: 'Round hourly rate to the cent, then extend',
+  mode: 'half-up',
+  rateDecimals: 2,
+  amountDecimals: 2,
+};
+
+const EXTEND_THEN_ROUND: RoundingPolicy = {
+  id: 'extend-then-round',
+  name: 'Extend exact rate, round amounts to the cent',
+  mode: 'half-up',
+  rateDecimals: null,
+  amountDecimals: 2,
+};
+
+const BANKERS_RATE_TO_CENT: RoundingPolicy = {
+  id: 'bankers-rate-to-cent',
+  name: "Round hourly rate to the cent (banker's rounding), then extend",
+  mode: 'half-even',
+  rateDecimals: 2,
+  amountDecimals: 2,
+};
+
+export class RoundingPolicies {
+  static readonly DEFAULT: RoundingPolicy = { ...RATE_TO_CENT, source: 'default' };
+
+  private static readonly BUILT_IN: RoundingPolicy[] = [RATE_TO_CENT, EXTEND_THEN_ROUND, BANKERS_RATE_TO_CENT];
+
+  /**
+   * List built-in rounding policies
+   */
+  static list(): RoundingPolicy[] {
+    return [...this.BUILT_IN];
+  }
+
+  /**
+   * Get a built-in rounding policy by id
+   */
+  static get(id: string): RoundingPolicy | undefined {
+    return this.BUILT_IN.find(policy => policy.id === id);
+  }
+
+  /**
+   * Resolve the applied policy: project override, then contract vehicle, then tenant, then default
+   */
+  static resolve(candidates: {
+    project?: RoundingPolicy | null;
+    contractVehicle?: RoundingPolicy | null;
+    tenant?: RoundingPolicy | null;
+  }): RoundingPolicy {
+    if (candidates.project) return { ...candidates.project, source: 'project' };
+    if (candidates.contractVehicle) return { ...candidates.contractVehicle, source: 'contract-vehicle' };
+    if (candidates.tenant) return { ...candidates.tenant, source: 'tenant' };
+    return this.DEFAULT;
+  }
+
+  /**
+   * Round an hourly rate per policy
+   */
+  static roundRate(value: Decimal, policy: RoundingPolicy): Decimal {
+    return policy.rateDecimals === null ? value : value.round(policy.rateDecimals, policy.mode);
+  }
+
+  /**
+   * Round a dollar amount per policy
+   */
+  static roundAmount(value: Decimal, policy: RoundingPolicy): Decimal {
+    return value.round(policy.amountDecimals, policy.mode);
+  }
+
+  /**
+   * Validate a rounding policy definition
+   */
+  static validate(policy: RoundingPolicy): string[] {
+    const errors: string[] = [];
+
+    if (!['half-up', 'half-even', 'up', 'down'].includes(policy.mode)) {
+      errors.push('Rounding mode must be half-up, half-even, up, or down');
+    }
+    if (policy.rateDecimals !== null && (!Number.isInteger(policy.rateDecimals) || policy.rateDecimals < 0 || policy.rateDecimals > 6)) {
+      errors.push('Rate decimals must be an integer between 0 and 6, or null');
+    }
+    if (!Number.isInteger(policy.amountDecimals) || policy.amountDecimals < 0 || policy.amountDecimals > 6) {
+      errors.push('Amount decimals must be an integer between 0 and 6');
+    }
+
+    return errors;
+  }
+}
@@ -2,25 +2,23 @@
  * Scenario comparison utilities for pricing analysis
  */
 
-import { ScenarioComparison, PricingSettings, LaborCategory, OtherDirectCost } from '@pricing-calculator/types';
+import { ScenarioComparison, ScenarioInput, CalculationInput, PricingSettings } from '@pricing-calculator/types';
 import { PricingCalculationEngine } from './calculation-engine';
 
 export class ScenarioComparisonService {
   /**
-   * Compare multiple pricing scenarios
+   * Compare a base project against settings-only scenario variations
    */
   static compareScenarios(
-    baseSettings: PricingSettings,
-    baseLaborCategories: LaborCategory[],
-    baseOtherDirectCosts: OtherDirectCost[],
+    baseInput: CalculationInput,
     scenarios: Array<{ name: string; settings: PricingSettings }>
-  ): ScenarioComparison[] {
-    return PricingCalculationEngine.compareScenarios(
-      baseSettings,
-      baseLaborCategories,
-      baseOtherDirectCosts,
-      scenarios
-    );
+  ): ScenarioComparison {
+    const scenarioInputs: ScenarioInput[] = [
+      { ...baseInput, name: 'Baseline' },
+      ...scenarios.map(scenario => ({ ...baseInput, name: scenario.name, settings: scenario.settings })),
+    ];
+
+    return PricingCalculationEngine.compareScenarios(scenarioInputs);
   }
 
   /**
@@ -67,8 +65,12 @@ export class ScenarioComparisonService {
   /**
    * Analyze scenario variance
    */
-  static analyzeVariance(scenarios: ScenarioComparison[]) {
-    const costs = scenarios.map(s => s.result.totals.totalProjectCost);
+  static analyzeVariance(comparison: ScenarioComparison) {
+    const baselineCost = comparison.baseline.totals.totalCost;
+    const costs = [
+      baselineCost,
+      ...comparison.comparisons.map(c => baselineCost + c.totalVariance),
+    ];
     const minCost = Math.min(...costs);
     const maxCost = Math.max(...costs);
     const avgCost = costs.reduce((sum, cost) => sum + cost, 0) / costs.length;
@@ -79,11 +81,11 @@ export class ScenarioComparisonService {
       avgCost,
       range: maxCost - minCost,
       rangePercent: minCost > 0 ? ((maxCost - minCost) / minCost) * 100 : 0,
-      scenarios: scenarios.map(scenario => ({
-        name: scenario.name,
-        cost: scenario.result.totals.totalProjectCost,
-        variance: scenario.variance.totalCostVariance,
-        variancePercent: scenario.variance.totalCostVariancePercent
+      scenarios: comparison.comparisons.map(scenario => ({
+        name: scenario.scenarioName,
+        cost: baselineCost + scenario.totalVariance,
+        variance: scenario.totalVariance,
+        variancePercent: scenario.totalVariancePercent
       }))
     };
   }
@@ -0,0 +1,91 @@
+import { CalculationInput } from '@pricing-calculator/types';
+import { SensitivityAnalysisService } from './sensitivity';
+import { line, settings } from './pricing.fixtures';
+
+// Developer prices at 154,440 and QA at 500 hours × 92.66 = 46,330
+const input: CalculationInput = {
+  settings,
+  laborCategories: [line({ id: 'dev', title: 'Developer' }), line({ id: 'qa', title: 'QA', baseRate: 60, hours: 500 })],
+  otherDirectCosts: [],
+};
+
+const swings = (analysis: ReturnType<typeof SensitivityAnalysisService.analyze>) =>
+  analysis.items.map(item => [item.key, item.priceSwing, item.profitSwing]);
+
+describe('SensitivityAnalysisService', () => {
+  it('ranks inputs by price swing, largest first, with profit swing breaking ties', () => {
+    const analysis = SensitivityAnalysisService.analyze(input);
+
+    expect(analysis).toMatchObject({ perturbation: 0.1, sortBy: 'price', basePrice: 200770, baseProfit: 14870 });
+    expect(swings(analysis)).toEqual([
+      ['laborCategories[0].hours', 30888, 2288],
+      ['laborCategories[0].capacity', 30888, 2288],
+      ['laborCategories[1].hours', 9266, 686],
+      ['laborCategories[1].capacity', 9266, 686],
+      ['settings.overheadRate', 9255, 675],
+      ['settings.gaRate', 3645, 265],
+      ['settings.feeRate', 2965, 2965],
+    ]);
+  });
+
+  it('prices each input at ± the perturbation of its value', () => {
+    const [hours] = SensitivityAnalysisService.analyze(input).items;
+
+    // ±100 Developer hours move the price by 15,444 and the fee by 1,144 each way
+    expect(hours).toEqual({
+      key: 'laborCategories[0].hours',
+      label: 'Developer hours',
+      group: 'labor',
+      laborCategoryId: 'dev',
+      baseValue: 1000,
+      lowValue: 900,
+      highValue: 1100,
+      lowPrice: 185326,
+      highPrice: 216214,
+      lowProfit: 13726,
+      highProfit: 16014,
+      priceSwing: 30888,
+      profitSwing: 2288,
+    });
+  });
+
+  it('ranks by profit swing when asked', () => {
+    const analysis = SensitivityAnalysisService.analyze(input, { sortBy: 'profit' });
+
+    expect(swings(analysis).map(([key]) => key)).toEqual([
+      'settings.feeRate',
+      'laborCategories[0].hours',
+      'laborCategories[0].capacity',
+      'laborCategories[1].hours',
+      'laborCategories[1].capacity',
+      'settings.overheadRate',
+      'settings.gaRate',
+    ]);
+  });
+
+  it('perturbs salary inputs in salary mode and ranks inputs that do not move the price last', () => {
+    const analysis = SensitivityAnalysisService.analyze({
+      ...input,
+      settings: { ...settings, pricingMode: 'salary', salaryPricing: { wrapRate: 0.875, minimumProfitRate: 0.0753, annualHours: 1920 } },
+      laborCategories: [line({ id: 'pm', title: 'PM', annualSalary: 150000, clearanceLevel: 'Secret' })],
+    }, { perturbation: 0.2 });
+
+    expect(analysis).toMatchObject({ basePrice: 157510, baseProfit: 11025.62 });
+    expect(swings(analysis)).toEqual([
+      ['laborCategories[0].annualSalary', 63010, 4416.25],
+      ['laborCategories[0].hours', 63004, 4410.25],
+      ['laborCategories[0].capacity', 63004, 4410.25],
+      ['settings.salaryPricing.wrapRate', 29410, 2066.25],
+      ['settings.salaryPricing.minimumProfitRate', 4410, 4410],
+      ['settings.overheadRate', 0, 0],
+      ['settings.gaRate', 0, 0],
+      ['settings.feeRate', 0, 0],
+      ['laborCategories[0].clearancePremium', 0, 0],
+    ]);
+  });
+
+  it('needs a perturbation between 0 and 1', () => {
+    expect(() => SensitivityAnalysisService.analyze(input, { perturbation: 1 }))
+      .toThrow('Perturbation must be greater than 0 and less than 1');
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Sensitivity analysis for pricing inputs
+ * Perturbs each material input by ± a share of its value and measures the swing in total price and profit
+ */
+
+import {
+  CalculationInput,
+  CalculationResult,
+  LaborCategoryCalculationInput,
+  PricingSettings,
+  SensitivityAnalysis,
+  SensitivityInputGroup,
+  SensitivityItem,
+  SensitivityOptions
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+import { PricingCalculationEngine } from './calculation-engine';
+
+interface SensitivityInput {
+  key: string;
+  label: string;
+  group: SensitivityInputGroup;
+  laborCategoryId?: string;
+  baseValue: number;
+  apply: (input: CalculationInput, value: number) => CalculationInput;
+}
+
+type SettingsRateKey = 'overheadRate' | 'gaRate' | 'feeRate' | 'escalationRate';
+type LaborCategoryInputKey = 'hours' | 'capacity' | 'annualSalary' | 'escalationRate' | 'clearancePremium';
+
+const SETTINGS_INPUTS: Array<{ key: SettingsRateKey; label: string; group: SensitivityInputGroup }> = [
+  { key: 'overheadRate', label: 'Overhead rate', group: 'indirect-rate' },
+  { key: 'gaRate', label: 'G&A rate', group: 'indirect-rate' },
+  { key: 'feeRate', label: 'Fee rate', group: 'indirect-rate' },
+  { key: 'escalationRate', label: 'Escalation rate', group: 'escalation' },
+];
+
+const LABOR_CATEGORY_INPUTS: Array<{ key: LaborCategoryInputKey; label: string; group: SensitivityInputGroup }> = [
+  { key: 'hours', label: 'hours', group: 'labor' },
+  { key: 'capacity', label: 'capacity', group: 'labor' },
+  { key: 'annualSalary', label: 'salary', group: 'salary' },
+  { key: 'escalationRate', label: 'escalation rate', group: 'escalation' },
+  { key: 'clearancePremium', label: 'clearance premium', group: 'clearance' },
+];
+
+export class SensitivityAnalysisService {
+  static readonly DEFAULT_PERTURBATION = 0.1;
+
+  /**
+   * Perturb every material input by ± the perturbation and rank the inputs by their swing
+   */
+  static analyze(input: CalculationInput, options: SensitivityOptions = {}): SensitivityAnalysis {
+    const perturbation = options.perturbation ?? this.DEFAULT_PERTURBATION;
+    const sortBy = options.sortBy ?? 'price';
+
+    if (perturbation <= 0 || perturbation >= 1) {
+      throw new Error('Perturbation must be greater than 0 and less than 1');
+    }
+
+    const base = this.measure(PricingCalculationEngine.calculateProject(input));
+
+    const items: SensitivityItem[] = this.collectInputs(input).map(sensitivityInput => {
+      const lowValue = Decimal.from(sensitivityInput.baseValue).times(Decimal.ONE.minus(perturbation)).toNumber();
+      const highValue = Decimal.from(sensitivityInput.baseValue).times(Decimal.ONE.plus(perturbation)).toNumber();
+      const low = this.measure(PricingCalculationEngine.calculateProject(sensitivityInput.apply(input, lowValue)));
+      const high = this.measure(PricingCalculationEngine.calculateProject(sensitivityInput.apply(input, highValue)));
+
+      return {
+        key: sensitivityInput.key,
+        label: sensitivityInput.label,
+        group: sensitivityInput.group,
+        ...(sensitivityInput.laborCategoryId ? { laborCategoryId: sensitivityInput.laborCategoryId } : {}),
+        baseValue: sensitivityInput.baseValue,
+        lowValue,
+        highValue,
+        lowPrice: low.price,
+        highPrice: high.price,
+        lowProfit: low.profit,
+        highProfit: high.profit,
+        priceSwing: Math.abs(Decimal.from(high.price).minus(low.price).toNumber()),
+        profitSwing: Math.abs(Decimal.from(high.profit).minus(low.profit).toNumber()),
+      };
+    });
+
+    items.sort((a, b) => sortBy === 'profit'
+      ? b.profitSwing - a.profitSwing || b.priceSwing - a.priceSwing
+      : b.priceSwing - a.priceSwing || b.profitSwing - a.profitSwing
+    );
+
+    return {
+      perturbation,
+      sortBy,
+      basePrice: base.price,
+      baseProfit: base.profit,
+      items,
+      analyzedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * List the non-zero inputs that can be perturbed for a project
+   */
+  private static collectInputs(input: CalculationInput): SensitivityInput[] {
+    const inputs: SensitivityInput[] = [];
+    const { settings } = input;
+
+    SETTINGS_INPUTS.forEach(({ key, label, group }) => {
+      const baseValue = settings[key] ?? 0;
+      if (baseValue !== 0) {
+        inputs.push({
+          key: `settings.${key}`,
+          label,
+          group,
+          baseValue,
+          apply: (current, value) => ({ ...current, settings: { ...current.settings, [key]: value } }),
+        });
+      }
+    });
+
+    // Pools with their own rate; overhead and G&A pools without one follow the settings rates above
+    settings.indirectRateStructure?.pools.forEach((pool, poolIndex) => {
+      if (pool.rate !== undefined && pool.rate !== 0) {
+        inputs.push({
+          key: `settings.indirectRateStructure.pools[${poolIndex}].rate`,
+          label: `${pool.name} rate`,
+          group: 'indirect-rate',
+          baseValue: pool.rate,
+          apply: (current, value) => {
+            const structure = current.settings.indirectRateStructure;
+            return structure
+              ? {
+                ...current,
+                settings: {
+                  ...current.settings,
+                  indirectRateStructure: {
+                    ...structure,
+                    pools: structure.pools.map((candidate, index) => index === poolIndex ? { ...candidate, rate: value } : candidate),
+                  },
+                },
+              }
+              : current;
+          },
+        });
+      }
+    });
+
+    // Wrap and minimum profit only move the price in salary mode
+    const salaryPricing = settings.salaryPricing;
+    if (settings.pricingMode === 'salary' && salaryPricing) {
+      ([
+        { key: 'wrapRate', label: 'Wrap rate' },
+        { key: 'minimumProfitRate', label: 'Minimum profit rate' },
+      ] as const).forEach(({ key, label }) => {
+        if (salaryPricing[key] !== 0) {
+          inputs.push({
+            key: `settings.salaryPricing.${key}`,
+            label,
+            group: 'salary',
+            baseValue: salaryPricing[key],
+            apply: (current, value) => ({
+              ...current,
+              settings: { ...current.settings, salaryPricing: { ...salaryPricing, [key]: value } },
+            }),
+          });
+        }
+      });
+    }
+
+    input.laborCategories.forEach((lc, index) => {
+      LABOR_CATEGORY_INPUTS.forEach(({ key, label, group }) => {
+        const baseValue = this.laborCategoryValue(lc, key, settings);
+        if (baseValue === undefined || baseValue === 0) {
+          return;
+        }
+
+        inputs.push({
+          key: `laborCategories[${index}].${key}`,
+          label: `${lc.title} ${label}`,
+          group,
+          ...(lc.id ? { laborCategoryId: lc.id } : {}),
+          baseValue,
+          apply: (current, value) => ({
+            ...current,
+            laborCategories: current.laborCategories.map((line, lineIndex) =>
+              lineIndex === index ? { ...line, [key]: value } : line
+            ),
+          }),
+        });
+      });
+    });
+
+    return inputs;
+  }
+
+  /**
+   * Resolve the value a line is priced with for an input, or undefined when the input does not apply
+   */
+  private static laborCategoryValue(
+    lc: LaborCategoryCalculationInput,
+    key: LaborCategoryInputKey,
+    settings: PricingSettings
+  ): number | undefined {
+    switch (key) {
+      case 'hours':
+        return lc.hours;
+      case 'capacity':
+        return lc.capacity ?? 1;
+      case 'annualSalary':
+        return settings.pricingMode === 'salary' ? lc.annualSalary : undefined;
+      case 'escalationRate':
+        // Lines without their own rate follow settings.escalationRate
+        return lc.escalationRate;
+      case 'clearancePremium':
+        return lc.clearancePremium ?? PricingCalculationEngine.calculateClearancePremium(
+          lc.clearanceLevel,
+          PricingCalculationEngine.resolvePremiumTable(settings)
+        );
+    }
+  }
+
+  /**
+   * Total price and profit; profit is actual profit in salary mode, otherwise fee
+   */
+  private static measure(result: CalculationResult): { price: number; profit: number } {
+    return {
+      price: result.totals.totalCost,
+      profit: result.totals.actualProfit ?? result.totals.feeAmount,
+    };
+  }
+}
@@ -2,7 +2,11 @@
  * Input validation utilities for pricing calculations
  */
 
-import { PricingSettings, LaborCategory, LaborCategoryInput } from '@pricing-calculator/types';
+import { ClearanceLevel, PricingSettings, LaborCategory, LaborCategoryInput } from '@pricing-calculator/types';
+import { ContractTypes } from './contract-types';
+import { PremiumTables } from './premiums';
+import { WorkshareCompliance } from './workshare';
+import { WorkCalendar } from './work-calendar';
 
 export class ValidationService {
   /**
@@ -23,8 +27,26 @@ export class ValidationService {
       errors.push('Fee rate must be between 0% and 100%');
     }
 
-    if (!settings.contractType || !['FFP', 'T&M', 'CPFF'].includes(settings.contractType)) {
-      errors.push('Contract type must be FFP, T&M, or CPFF');
+    if (!settings.contractType || !ContractTypes.TYPES.includes(settings.contractType)) {
+      errors.push('Contract type must be FFP, T&M, LH, CPFF, CPIF, or CPAF');
+    } else {
+      errors.push(...ContractTypes.validateTerms(settings.contractType, settings.contractTerms));
+    }
+
+    if (settings.premiumTable) {
+      errors.push(...PremiumTables.validate(settings.premiumTable));
+    }
+
+    if (settings.workshareRequirement) {
+      errors.push(...WorkshareCompliance.validateRequirement(settings.workshareRequirement));
+    }
+
+    if (settings.workCalendar) {
+      errors.push(...WorkCalendar.validate(settings.workCalendar));
+    }
+
+    if (settings.targetProfitRate !== undefined && (settings.targetProfitRate < 0 || settings.targetProfitRate >= 1)) {
+      errors.push('Target profit rate must be at least 0% and below 100%');
     }
 
     return {
@@ -55,8 +77,8 @@ export class ValidationService {
       errors.push('FTE percentage must be between 0.01% and 100%');
     }
 
-    if (!input.clearanceLevel || !['None', 'Public Trust', 'Secret', 'Top Secret'].includes(input.clearanceLevel)) {
-      errors.push('Clearance level must be None, Public Trust, Secret, or Top Secret');
+    if (!input.clearanceLevel || !PremiumTables.CLEARANCE_LEVELS.includes(input.clearanceLevel as ClearanceLevel)) {
+      errors.push(`Clearance level must be one of: ${PremiumTables.CLEARANCE_LEVELS.join(', ')}`);
     }
 
     if (!input.location || !['Remote', 'On-site', 'Hybrid'].includes(input.location)) {
@@ -0,0 +1,76 @@
+import { WorkCalendar } from './work-calendar';
+
+const JUNETEENTH = 'Juneteenth National Independence Day';
+
+describe('WorkCalendar', () => {
+  describe('federalHolidays', () => {
+    it('observes Saturday holidays the Friday before and Sunday holidays the Monday after', () => {
+      const holidays = WorkCalendar.federalHolidays(2021);
+
+      expect(holidays.filter(holiday => holiday.observed)).toEqual([
+        { name: JUNETEENTH, date: '2021-06-18', observed: true },
+        { name: 'Independence Day', date: '2021-07-05', observed: true },
+        { name: 'Christmas Day', date: '2021-12-24', observed: true },
+      ]);
+      expect(holidays.find(holiday => holiday.name === 'Thanksgiving Day')).toEqual({
+        name: 'Thanksgiving Day',
+        date: '2021-11-25',
+        observed: false,
+      });
+    });
+
+    it('observes a Saturday New Year on December 31 of the year before', () => {
+      expect(WorkCalendar.federalHolidays(2022)[0]).toEqual({ name: "New Year's Day", date: '2021-12-31', observed: true });
+      expect(WorkCalendar.holidaysBetween('2021-12-01', '2021-12-31').map(holiday => holiday.date))
+        .toEqual(['2021-12-24', '2021-12-31']);
+      expect(WorkCalendar.holidaysBetween('2022-01-01', '2022-01-31').map(holiday => holiday.name))
+        .toEqual(['Birthday of Martin Luther King, Jr.']);
+    });
+
+    it('observes Juneteenth from 2021', () => {
+      expect(WorkCalendar.federalHolidays(2020).map(holiday => holiday.name)).not.toContain(JUNETEENTH);
+      expect(WorkCalendar.federalHolidays(2020)).toHaveLength(10);
+      expect(WorkCalendar.federalHolidays(2023).find(holiday => holiday.name === JUNETEENTH))
+        .toEqual({ name: JUNETEENTH, date: '2023-06-19', observed: false });
+    });
+  });
+
+  describe('calculateWorkingHours', () => {
+    it('takes a full year of leave from a full year', () => {
+      expect(WorkCalendar.calculateWorkingHours('2025-01-01', '2025-12-31', { leaveHoursPerYear: 80 })).toMatchObject({
+        calendarDays: 365,
+        weekdays: 261,
+        workingDays: 250,
+        grossHours: 2000,
+        leaveHours: 80,
+        availableHours: 1920,
+      });
+    });
+
+    it('pro-rates leave over the days past whole years', () => {
+      // 181 days ÷ 365 × 80 = 39.67
+      expect(WorkCalendar.calculateWorkingHours('2025-01-01', '2025-06-30', { leaveHoursPerYear: 80 }))
+        .toMatchObject({ calendarDays: 181, grossHours: 992, leaveHours: 39.67, availableHours: 952.33 });
+      expect(WorkCalendar.calculateWorkingHours('2025-01-01', '2026-06-30', { leaveHoursPerYear: 80 }))
+        .toMatchObject({ calendarDays: 546, leaveHours: 119.67, availableHours: 2872.33 });
+    });
+
+    it('counts a leap year as one year of leave', () => {
+      expect(WorkCalendar.calculateWorkingHours('2023-03-01', '2024-02-29', { leaveHoursPerYear: 80 }))
+        .toMatchObject({ calendarDays: 366, leaveHours: 80, availableHours: 1928 });
+    });
+
+    it('rejects an end date before the start date', () => {
+      expect(() => WorkCalendar.calculateWorkingHours('2025-02-01', '2025-01-31')).toThrow('End date cannot be before start date');
+    });
+  });
+
+  describe('calculateAnnualHours', () => {
+    it('counts the year from its start date, including February 29 when the year has one', () => {
+      expect(WorkCalendar.calculateAnnualHours('2024-01-01')).toBe(2008);
+      expect(WorkCalendar.calculateAnnualHours('2023-03-01')).toBe(2008);
+      expect(WorkCalendar.calculateAnnualHours('2024-03-01')).toBe(2000);
+      expect(WorkCalendar.calculateAnnualHours('2024-01-01', { leaveHoursPerYear: 80 })).toBe(1928);
+    });
+  });
+});
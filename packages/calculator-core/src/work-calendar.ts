@@ -0,0 +1,195 @@
+/**
+ * Working-hours calendar
+ * Counts available working hours for a date range: weekdays less US federal holidays, less a leave allowance
+ * Holidays follow 5 U.S.C. 6103 and are computed from rules, so no holiday data has to be fetched
+ */
+
+import { FederalHoliday, WorkCalendarSettings, WorkingHours } from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+interface HolidayRule {
+  name: string;
+  month: number; // 0-based
+  day?: number; // Fixed-date holidays
+  weekday?: number; // 0 = Sunday; with week, e.g. third Monday
+  week?: number; // 1-4, or -1 for the last
+  since?: number; // First year the holiday was observed
+}
+
+const FEDERAL_HOLIDAY_RULES: HolidayRule[] = [
+  { name: "New Year's Day", month: 0, day: 1 },
+  { name: 'Birthday of Martin Luther King, Jr.', month: 0, weekday: 1, week: 3, since: 1986 },
+  { name: "Washington's Birthday", month: 1, weekday: 1, week: 3 },
+  { name: 'Memorial Day', month: 4, weekday: 1, week: -1 },
+  { name: 'Juneteenth National Independence Day', month: 5, day: 19, since: 2021 },
+  { name: 'Independence Day', month: 6, day: 4 },
+  { name: 'Labor Day', month: 8, weekday: 1, week: 1 },
+  { name: 'Columbus Day', month: 9, weekday: 1, week: 2 },
+  { name: 'Veterans Day', month: 10, day: 11 },
+  { name: 'Thanksgiving Day', month: 10, weekday: 4, week: 4 },
+  { name: 'Christmas Day', month: 11, day: 25 },
+];
+
+export class WorkCalendar {
+  static readonly DEFAULT_HOURS_PER_DAY = 8;
+
+  /**
+   * Observed federal holidays for a calendar year
+   */
+  static federalHolidays(year: number): FederalHoliday[] {
+    return FEDERAL_HOLIDAY_RULES
+      .filter(rule => rule.since === undefined || year >= rule.since)
+      .map(rule => {
+        const actual = rule.day !== undefined
+          ? Date.UTC(year, rule.month, rule.day)
+          : this.nthWeekday(year, rule.month, rule.weekday ?? 1, rule.week ?? 1);
+        // Saturday holidays are observed the Friday before, Sunday holidays the Monday after
+        const weekday = new Date(actual).getUTCDay();
+        const shift = weekday === 6 ? -1 : weekday === 0 ? 1 : 0;
+        return {
+          name: rule.name,
+          date: this.toIsoDate(actual + shift * MS_PER_DAY),
+          observed: shift !== 0,
+        };
+      });
+  }
+
+  /**
+   * Observed federal holidays between two dates, inclusive
+   */
+  static holidaysBetween(startDate: string, endDate: string): FederalHoliday[] {
+    const start = this.parseDate(startDate);
+    const end = this.parseDate(endDate);
+    const holidays: FederalHoliday[] = [];
+
+    // A January 1 holiday on a Saturday is observed in the prior year
+    for (let year = new Date(start).getUTCFullYear(); year <= new Date(end).getUTCFullYear() + 1; year++) {
+      holidays.push(...this.federalHolidays(year).filter(holiday => {
+        const date = Date.parse(holiday.date);
+        return date >= start && date <= end;
+      }));
+    }
+
+    return holidays;
+  }
+
+  /**
+   * Available working hours for a date range, inclusive
+   */
+  static calculateWorkingHours(
+    startDate: string,
+    endDate: string,
+    calendar: WorkCalendarSettings = {}
+  ): WorkingHours {
+    const start = this.parseDate(startDate);
+    const end = this.parseDate(endDate);
+    if (end < start) {
+      throw new Error('End date cannot be before start date');
+    }
+
+    const calendarDays = Math.round((end - start) / MS_PER_DAY) + 1;
+    let weekdays = 0;
+    for (let day = 0; day < calendarDays; day++) {
+      const weekday = new Date(start + day * MS_PER_DAY).getUTCDay();
+      if (weekday !== 0 && weekday !== 6) weekdays++;
+    }
+
+    const holidays = this.holidaysBetween(startDate, endDate);
+    const workingDays = weekdays - holidays.length;
+    const hoursPerDay = calendar.hoursPerDay ?? this.DEFAULT_HOURS_PER_DAY;
+    const grossHours = Decimal.from(workingDays).times(hoursPerDay);
+    const leaveHours = Decimal.from(calendar.leaveHoursPerYear ?? 0)
+      .times(this.calculateYears(start, calendarDays))
+      .round(2);
+    const availableHours = grossHours.minus(leaveHours);
+
+    return {
+      startDate: this.toIsoDate(start),
+      endDate: this.toIsoDate(end),
+      calendarDays,
+      weekdays,
+      holidays,
+      workingDays,
+      hoursPerDay,
+      grossHours: grossHours.toNumber(),
+      leaveHours: leaveHours.toNumber(),
+      availableHours: availableHours.compare(0) > 0 ? availableHours.toNumber() : 0,
+    };
+  }
+
+  /**
+   * Available working hours for the year starting on a date
+   */
+  static calculateAnnualHours(startDate: string, calendar: WorkCalendarSettings = {}): number {
+    const start = new Date(this.parseDate(startDate));
+    const nextYear = Date.UTC(start.getUTCFullYear() + 1, start.getUTCMonth(), start.getUTCDate());
+    return this.calculateWorkingHours(startDate, this.toIsoDate(nextYear - MS_PER_DAY), calendar).availableHours;
+  }
+
+  /**
+   * Validate work calendar settings
+   */
+  static validate(calendar: WorkCalendarSettings): string[] {
+    const errors: string[] = [];
+
+    if (calendar.hoursPerDay !== undefined && (calendar.hoursPerDay <= 0 || calendar.hoursPerDay > 24)) {
+      errors.push('Hours per day must be greater than 0 and at most 24');
+    }
+    if (calendar.leaveHoursPerYear !== undefined && (calendar.leaveHoursPerYear < 0 || calendar.leaveHoursPerYear > 2080)) {
+      errors.push('Leave hours per year must be between 0 and 2080');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Length of a range in years: whole years exactly, the remainder by days ÷ 365
+   */
+  private static calculateYears(start: number, calendarDays: number): Decimal {
+    const first = new Date(start);
+    let years = 0;
+    let yearStart = start;
+    for (;;) {
+      const next = Date.UTC(first.getUTCFullYear() + years + 1, first.getUTCMonth(), first.getUTCDate());
+      if ((next - start) / MS_PER_DAY > calendarDays) break;
+      years++;
+      yearStart = next;
+    }
+    const remainingDays = calendarDays - Math.round((yearStart - start) / MS_PER_DAY);
+    return Decimal.from(years).plus(Decimal.from(remainingDays).dividedBy(365));
+  }
+
+  /**
+   * UTC timestamp of the nth weekday of a month (week -1 is the last)
+   */
+  private static nthWeekday(year: number, month: number, weekday: number, week: number): number {
+    if (week < 0) {
+      const last = Date.UTC(year, month + 1, 0);
+      const offset = (new Date(last).getUTCDay() - weekday + 7) % 7;
+      return last - offset * MS_PER_DAY;
+    }
+    const first = Date.UTC(year, month, 1);
+    const offset = (weekday - new Date(first).getUTCDay() + 7) % 7;
+    return first + (offset + (week - 1) * 7) * MS_PER_DAY;
+  }
+
+  /**
+   * Parse an ISO date (or date-time) to midnight UTC of that day
+   */
+  private static parseDate(date: string): number {
+    const time = Date.parse(date);
+    if (!Number.isFinite(time)) {
+      throw new Error(`Invalid date: ${date}`);
+    }
+    return Math.floor(time / MS_PER_DAY) * MS_PER_DAY;
+  }
+
+  /**
+   * ISO date for a UTC timestamp
+   */
+  private static toIsoDate(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,81 @@
+import { PricingSettings, WorkshareReport, WorkshareRequirement } from '@pricing-calculator/types';
+import { WorkshareCompliance } from './workshare';
+import { PricingCalculationEngine } from './calculation-engine';
+import { line, twoPeriodSettings } from './pricing.fixtures';
+
+const requirement: WorkshareRequirement = { minimumPrimeShare: 0.5, basis: 'cost', enforcement: 'blocking' };
+
+const settings: PricingSettings = { ...twoPeriodSettings, workshareRequirement: requirement };
+
+const workshareFor = (workshareSettings: PricingSettings = settings): WorkshareReport => {
+  const { workshare } = PricingCalculationEngine.calculateProject({
+    settings: workshareSettings,
+    laborCategories: [
+      line({ id: 'prime' }),
+      line({ id: 'acme', primeOrSub: 'Subcontractor', subcontractorCompany: 'Acme', finalSubcontractorRate: 150, startDate: '2026-01-01' }),
+      line({ id: 'unnamed', primeOrSub: 'Subcontractor', finalSubcontractorRate: 40 }),
+    ],
+    otherDirectCosts: [],
+  });
+  if (!workshare) {
+    throw new Error('Expected a workshare report for a project with subcontractors');
+  }
+  return workshare;
+};
+
+describe('WorkshareCompliance', () => {
+  it('splits labor cost and hours by company, prime first', () => {
+    const { overall } = workshareFor();
+
+    // Prime cost is the burdened cost before fee: 100 × 1.3 × 1.1 per hour
+    expect(overall.companies.map(c => [c.company, c.primeOrSub, c.cost, c.hours])).toEqual([
+      ['Prime', 'Prime', 286000, 2000],
+      ['Acme', 'Subcontractor', 150000, 1000],
+      ['Unnamed subcontractor', 'Subcontractor', 80000, 2000],
+    ]);
+    expect(overall.totalCost).toBe(516000);
+    expect(overall.primeCostShare).toBe(0.5543);
+    expect(overall.primeHoursShare).toBe(0.4);
+  });
+
+  it('flags periods below the minimum even when the overall share complies', () => {
+    const workshare = workshareFor();
+
+    expect(workshare.periods.map(p => [p.periodId, p.primeCostShare])).toEqual([
+      ['base', 0.7814],
+      ['op1', 0.4294],
+    ]);
+    expect(workshare.primeShare).toBe(0.5543);
+    expect(workshare.compliant).toBe(true);
+    expect(workshare.periodsBelowMinimum).toEqual(['op1']);
+  });
+
+  it('measures compliance on hours when the requirement says so', () => {
+    const workshare = workshareFor({ ...settings, workshareRequirement: { ...requirement, basis: 'hours' } });
+
+    expect(workshare.primeShare).toBe(0.4);
+    expect(workshare.compliant).toBe(false);
+    expect(workshare.periodsBelowMinimum).toEqual(['op1']);
+  });
+
+  it('reports shares without compliance when there is no requirement', () => {
+    const workshare = workshareFor(twoPeriodSettings);
+
+    expect(workshare.overall.primeCostShare).toBe(0.5543);
+    expect(workshare.requirement).toBeUndefined();
+    expect(workshare.compliant).toBeUndefined();
+  });
+
+  it('rejects out-of-range shares and unknown bases or enforcement', () => {
+    expect(WorkshareCompliance.validateRequirement({
+      minimumPrimeShare: 1.2,
+      basis: 'revenue' as WorkshareRequirement['basis'],
+      enforcement: 'advisory' as WorkshareRequirement['enforcement'],
+    })).toEqual([
+      'Minimum prime share must be between 0% and 100%',
+      'Workshare basis must be cost or hours',
+      'Workshare enforcement must be blocking or warning',
+    ]);
+    expect(WorkshareCompliance.validateRequirement(requirement)).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Limitations on subcontracting and workshare compliance
+ * Splits labor cost and hours by company, per period and overall, and checks the prime's share against a minimum
+ */
+
+import {
+  CompanyWorkshare,
+  LaborCategoryResult,
+  PeriodResult,
+  WorkshareBreakdown,
+  WorkshareReport,
+  WorkshareRequirement
+} from '@pricing-calculator/types';
+import { Decimal } from './decimal';
+
+interface PricedLabor {
+  laborCategories: LaborCategoryResult[];
+  periods?: PeriodResult[];
+}
+
+export class WorkshareCompliance {
+  static readonly PRIME_COMPANY = 'Prime';
+  static readonly UNNAMED_SUBCONTRACTOR = 'Unnamed subcontractor';
+
+  /**
+   * Calculate workshare by company and, with a requirement, whether the prime performs enough of the work
+   */
+  static calculate(priced: PricedLabor, requirement?: WorkshareRequirement): WorkshareReport {
+    const overall = this.calculateBreakdown(priced.laborCategories);
+    const periods = (priced.periods ?? []).map(period => ({
+      periodId: period.periodId,
+      name: period.name,
+      ...this.calculateBreakdown(period.laborCategories),
+    }));
+
+    if (!requirement) {
+      return { overall, periods };
+    }
+
+    const share = (breakdown: WorkshareBreakdown) =>
+      requirement.basis === 'hours' ? breakdown.primeHoursShare : breakdown.primeCostShare;
+
+    return {
+      overall,
+      periods,
+      requirement,
+      primeShare: share(overall),
+      compliant: share(overall) >= requirement.minimumPrimeShare,
+      periodsBelowMinimum: periods
+        .filter(period => share(period) < requirement.minimumPrimeShare)
+        .map(period => period.periodId),
+    };
+  }
+
+  /**
+   * Validate a workshare requirement definition
+   */
+  static validateRequirement(requirement: WorkshareRequirement): string[] {
+    const errors: string[] = [];
+
+    if (typeof requirement.minimumPrimeShare !== 'number'
+      || requirement.minimumPrimeShare < 0 || requirement.minimumPrimeShare > 1) {
+      errors.push('Minimum prime share must be between 0% and 100%');
+    }
+    if (!['cost', 'hours'].includes(requirement.basis)) {
+      errors.push('Workshare basis must be cost or hours');
+    }
+    if (!['blocking', 'warning'].includes(requirement.enforcement)) {
+      errors.push('Workshare enforcement must be blocking or warning');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Labor cost and hours by company for a set of lines; shares are rounded to 4 places
+   */
+  private static calculateBreakdown(lines: LaborCategoryResult[]): WorkshareBreakdown {
+    const byCompany = new Map<string, { primeOrSub: CompanyWorkshare['primeOrSub']; cost: Decimal; hours: Decimal }>();
+
+    lines.forEach(line => {
+      const isSub = line.subcontractorCost !== undefined;
+      const company = isSub
+        ? line.subcontractorCompany || this.UNNAMED_SUBCONTRACTOR
+        : this.PRIME_COMPANY;
+      // Prime cost is what the prime spends to perform: salary + wrap, or price before fee
+      const cost = isSub
+        ? Decimal.from(line.subcontractorCost ?? 0)
+        : line.actualCost !== undefined
+          ? Decimal.from(line.actualCost)
+          : Decimal.from(line.totalCost).minus(line.feeAmount);
+
+      const entry = byCompany.get(company) ?? {
+        primeOrSub: isSub ? 'Subcontractor' : 'Prime',
+        cost: Decimal.ZERO,
+        hours: Decimal.ZERO,
+      };
+      byCompany.set(company, {
+        ...entry,
+        cost: entry.cost.plus(cost),
+        hours: entry.hours.plus(line.effectiveHours),
+      });
+    });
+
+    const totalCost = Decimal.sum([...byCompany.values()].map(entry => entry.cost));
+    const totalHours = Decimal.sum([...byCompany.values()].map(entry => entry.hours));
+    const shareOf = (value: Decimal, total: Decimal) => total.isZero() ? 0 : value.dividedBy(total).round(4).toNumber();
+
+    const companies: CompanyWorkshare[] = [...byCompany.entries()]
+      .map(([company, entry]) => ({
+        company,
+        primeOrSub: entry.primeOrSub,
+        cost: entry.cost.toNumber(),
+        hours: entry.hours.toNumber(),
+        costShare: shareOf(entry.cost, totalCost),
+        hoursShare: shareOf(entry.hours, totalHours),
+      }))
+      .sort((a, b) => {
+        if (a.primeOrSub !== b.primeOrSub) return a.primeOrSub === 'Prime' ? -1 : 1;
+        return b.cost - a.cost;
+      });
+
+    const prime = companies.find(company => company.primeOrSub === 'Prime');
+
+    return {
+      companies,
+      totalCost: totalCost.toNumber(),
+      totalHours: totalHours.toNumber(),
+      primeCostShare: prime?.costShare ?? 0,
+      primeHoursShare: prime?.hoursShare ?? 0,
+    };
+  }
+}
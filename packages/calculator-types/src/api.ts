@@ -2,6 +2,8 @@
  * API request/response types and error handling
  */
 
+import { ProjectStatus, ProjectSummary, ProjectTemplate } from './project';
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -40,6 +42,7 @@ export interface CreateProjectRequest {
   settings: any; // Will be PricingSettings
   laborCategories: any[]; // Will be LaborCategory[]
   otherDirectCosts: any[]; // Will be OtherDirectCost[]
+  status?: ProjectStatus;
   tags?: string[];
 }
 
@@ -49,15 +52,18 @@ export interface UpdateProjectRequest {
   settings?: any; // Will be PricingSettings
   laborCategories?: any[]; // Will be LaborCategory[]
   otherDirectCosts?: any[]; // Will be OtherDirectCost[]
+  status?: ProjectStatus;
   tags?: string[];
 }
 
 export interface ProjectListResponse {
-  projects: any[]; // Will be ProjectSummary[]
-  total: number;
-  page: number;
-  limit: number;
-  hasMore: boolean;
+  projects: ProjectSummary[];
+  meta: {
+    total: number;
+    page: number;
+    limit: number;
+    hasMore: boolean;
+  };
 }
 
 // Calculation API types
@@ -96,8 +102,15 @@ export interface CreateTemplateRequest {
   isPublic?: boolean;
 }
 
+export interface InstantiateTemplateRequest {
+  name: string;
+  description?: string;
+  contractVehicle?: string; // Defaults to the template's
+  startDate?: string; // New period of performance start; the template's dates move with it. Defaults to today
+}
+
 export interface TemplateListResponse {
-  templates: any[]; // Will be ProjectTemplate[]
+  templates: ProjectTemplate[];
   total: number;
   page: number;
   limit: number;
@@ -2,12 +2,241 @@
  * Core pricing calculation types and interfaces
  */
 
-export type ContractType = 'FFP' | 'T&M' | 'CPFF';
+export type ContractType = 'FFP' | 'T&M' | 'LH' | 'CPFF' | 'CPIF' | 'CPAF';
 
-export type ClearanceLevel = 'None' | 'Public Trust' | 'Secret' | 'Top Secret';
+export interface ContractTerms {
+  contingencyRate?: number; // FFP: risk contingency as a share of price (0.05 = 5%)
+  ceilingPrice?: number; // T&M / LH: not-to-exceed price; defaults to the calculated price
+  fixedFee?: number; // CPFF: negotiated fee in dollars; defaults to feeRate × estimated cost
+  targetFeeRate?: number; // CPIF: defaults to feeRate
+  minimumFeeRate?: number; // CPIF: defaults to 0
+  maximumFeeRate?: number; // CPIF: defaults to 2 × target fee rate
+  contractorShare?: number; // CPIF: contractor share of an underrun or overrun; defaults to 0.2 (80/20)
+  baseFeeRate?: number; // CPAF: defaults to 0
+  awardFeeRate?: number; // CPAF: award fee pool rate; defaults to feeRate
+}
+
+export interface ContractTypeTotals {
+  contractType: ContractType;
+  estimatedCost: number; // Labor cost before fee plus ODCs
+  fee: number; // Profit (FFP), fee at rates (T&M/LH), fixed fee, target fee or base fee
+  totalPrice: number; // Price to propose for the contract type
+  contingency?: number; // FFP
+  ceilingPrice?: number; // T&M / LH
+  ceilingExceeded?: boolean; // T&M / LH: calculated price is over the ceiling
+  hourlyRates?: Array<{ id: string; title: string; rate: number }>; // T&M / LH fully burdened rates
+  minimumFee?: number; // CPIF
+  maximumFee?: number; // CPIF
+  contractorShare?: number; // CPIF
+  awardFeePool?: number; // CPAF
+  warnings: string[];
+}
+
+export type ClearanceLevel =
+  | 'None'
+  | 'Public Trust'
+  | 'Secret'
+  | 'Top Secret'
+  | 'TS/SCI'
+  | 'TS/SCI with CI Poly'
+  | 'TS/SCI with FS Poly';
 
 export type LocationType = 'Remote' | 'On-site' | 'Hybrid';
 
+export type PremiumSource = 'default' | 'tenant' | 'contract-vehicle' | 'project' | 'line';
+
+export interface PremiumTable {
+  id: string; // e.g. "standard"
+  name: string;
+  clearancePremiums: Partial<Record<ClearanceLevel, number>>; // Share of base rate (0.10 = 10%); missing levels use the standard table
+  locationDifferentials: Partial<Record<LocationType, number>>; // Share of base rate; may be negative
+  localities?: Record<string, number>; // Named localities (e.g. "Washington-Baltimore"); override the location differential
+  source?: Exclude<PremiumSource, 'line'>; // Where the applied table came from
+}
+
+export type PeriodType = 'Base' | 'Option';
+
+export interface PricingPeriod {
+  id: string;
+  name: string; // e.g. "Base Period", "Option Period 1"
+  type: PeriodType;
+  startDate: string; // ISO date string
+  endDate: string; // ISO date string
+}
+
+export interface WorkCalendarSettings {
+  hoursPerDay?: number; // Defaults to 8
+  leaveHoursPerYear?: number; // PTO/leave allowance per FTE-year, pro-rated over shorter ranges; defaults to 0
+}
+
+export interface FederalHoliday {
+  name: string;
+  date: string; // ISO date the holiday is observed (weekend holidays move to Friday or Monday)
+  observed: boolean; // True when the observed date differs from the actual date
+}
+
+export interface WorkingHours {
+  startDate: string;
+  endDate: string;
+  calendarDays: number;
+  weekdays: number;
+  holidays: FederalHoliday[]; // Observed holidays falling on weekdays in the range
+  workingDays: number; // Weekdays less holidays
+  hoursPerDay: number;
+  grossHours: number; // Working days × hours per day
+  leaveHours: number;
+  availableHours: number; // Gross hours less leave
+}
+
+export interface SprintSchedule {
+  startDate: string; // ISO date sprint 1 starts; defaults to the PoP start
+  lengthDays: number; // Calendar days per sprint
+}
+
+export type RoundingMode = 'half-up' | 'half-even' | 'up' | 'down';
+
+export interface RoundingPolicy {
+  id: string; // e.g. "rate-to-cent"
+  name: string;
+  mode: RoundingMode;
+  rateDecimals: number | null; // Round hourly rates before extending by hours; null = no intermediate rounding
+  amountDecimals: number; // Round extended dollar amounts
+  source?: 'default' | 'tenant' | 'contract-vehicle' | 'project'; // Where the applied policy came from
+}
+
+export type PricingMode = 'burden' | 'salary';
+
+export interface SalaryPricingSettings {
+  wrapRate: number; // Fringe/indirect wrap as a share of salary (0.875 = 87.5%)
+  minimumProfitRate: number; // Minimum profit on salary + wrap (0.0753 = 7.53%)
+  annualHours?: number; // Billable hours per FTE-year (e.g. 1920); defaults to each line's own hours × FTE%
+}
+
+export interface SalaryBreakdown {
+  annualSalary: number;
+  wrapAmount: number;
+  minimumProfitAmount: number;
+  minimumAnnualRevenue: number; // salary + wrap + minimum profit
+  companyMinimumRate: number; // minimum annual revenue ÷ annual hours
+}
+
+export type PrimeOrSub = 'Prime' | 'Subcontractor';
+
+export interface SubcontractorPricingSettings {
+  passThroughMarkup: number; // Prime markup on subcontractor rates (0.08 = 8%)
+  minimumProfitRate?: number; // Minimum prime profit on sub cost; defaults to salaryPricing.minimumProfitRate
+}
+
+export interface SubcontractingTotals {
+  primeCost: number; // Salary + wrap (salary mode) or cost before fee on prime lines
+  primePrice: number;
+  primeProfit: number;
+  subcontractorCost: number; // Negotiated sub rates × hours
+  subcontractorPrice: number;
+  subcontractorProfit: number; // Pass-through markup earned on sub lines
+}
+
+export type WorkshareBasis = 'cost' | 'hours';
+
+export interface WorkshareRequirement {
+  minimumPrimeShare: number; // Share of labor the prime must perform (0.5 = 50%)
+  basis: WorkshareBasis;
+  enforcement: 'blocking' | 'warning';
+  citation?: string; // e.g. "FAR 52.219-14"
+}
+
+export interface CompanyWorkshare {
+  company: string;
+  primeOrSub: PrimeOrSub;
+  cost: number; // Prime: cost before fee; sub: amount paid to the sub
+  hours: number;
+  costShare: number; // Share of labor cost (0.6 = 60%)
+  hoursShare: number;
+}
+
+export interface WorkshareBreakdown {
+  companies: CompanyWorkshare[]; // Prime first, then subs by cost
+  totalCost: number;
+  totalHours: number;
+  primeCostShare: number;
+  primeHoursShare: number;
+}
+
+export interface PeriodWorkshare extends WorkshareBreakdown {
+  periodId: string;
+  name: string;
+}
+
+export interface WorkshareReport {
+  overall: WorkshareBreakdown;
+  periods: PeriodWorkshare[];
+  requirement?: WorkshareRequirement;
+  primeShare?: number; // Overall prime share on the requirement's basis
+  compliant?: boolean; // Overall prime share meets the minimum
+  periodsBelowMinimum?: string[]; // Ids of periods where the prime share is under the minimum
+}
+
+export interface PositionSlot {
+  id: string;
+  title: string; // Labor category the slot is staffed under
+  projectRole?: string; // e.g. "Lead PM"
+  fte?: number; // Capacity the assignees' shares must sum to (1 = one full-time position); defaults to their sum
+}
+
+export interface PositionAssigneeResult {
+  lineId: string;
+  assigneeName?: string;
+  companyRoleId?: string;
+  annualSalary?: number;
+  capacity: number; // Share of the slot's FTE
+  effectiveHours: number;
+  cost: number; // Line price before fee (salary + wrap in salary mode)
+  price: number;
+  profit: number;
+}
+
+export interface PositionSlotResult {
+  slotId: string;
+  title: string;
+  projectRole?: string;
+  fte: number; // The slot's FTE, or the assignees' shares summed when the slot has none
+  assignedCapacity: number; // Sum of assignee capacity shares
+  assignees: PositionAssigneeResult[];
+  effectiveHours: number;
+  cost: number;
+  price: number;
+  profit: number;
+}
+
+export type IndirectPoolType = 'fringe' | 'overhead' | 'ga';
+
+export type CostElement = 'directLabor' | 'odc';
+
+export interface IndirectRatePool {
+  id: string; // e.g. "fringe", "overhead-onsite", "ga"
+  name: string;
+  type: IndirectPoolType; // Reported as fringe, overhead or G&A
+  rate?: number; // Omit on overhead and G&A pools to use settings.overheadRate / settings.gaRate
+  costElements: CostElement[]; // Direct costs in the allocation base
+  pools?: string[]; // Earlier pools whose amounts are in the allocation base
+  locations?: LocationType[]; // Labor at these locations only; omit for all labor
+}
+
+export interface IndirectRateStructure {
+  id: string; // e.g. "overhead-ga"
+  name: string;
+  pools: IndirectRatePool[]; // Evaluated in order
+  source?: 'default' | 'tenant' | 'project'; // Where the applied structure came from
+}
+
+export interface IndirectPoolAmount {
+  poolId: string;
+  name: string;
+  type: IndirectPoolType;
+  rate: number;
+  amount: number;
+}
+
 export interface PricingSettings {
   projectId?: string;
   overheadRate: number; // 0-200% (0.0-2.0)
@@ -18,6 +247,30 @@ export interface PricingSettings {
     startDate: string; // ISO date string
     endDate: string; // ISO date string
   };
+  contractTerms?: ContractTerms; // Contract-type-specific terms; see ContractTerms for defaults
+  periods?: PricingPeriod[]; // Base + option periods; defaults to a single period spanning the PoP
+  escalationRate?: number; // Annual escalation applied per option period (0.03 = 3%)
+  roundingPolicy?: RoundingPolicy; // Defaults to rounding the burdened rate to the cent
+  pricingMode?: PricingMode; // 'burden' (default) prices from base rate; 'salary' prices from annual salary + wrap
+  salaryPricing?: SalaryPricingSettings; // Required when pricingMode is 'salary'
+  indirectRateStructure?: IndirectRateStructure; // Defaults to overhead on direct labor, then G&A on labor + overhead
+  premiumTable?: PremiumTable; // Clearance premiums and location differentials; defaults to the standard table
+  subcontractorPricing?: SubcontractorPricingSettings; // Defaults to a 10% pass-through markup
+  workshareRequirement?: WorkshareRequirement; // Limitations on subcontracting, usually from the contract vehicle
+  sprintSchedule?: SprintSchedule; // Converts line sprints to dates; defaults to 14-day sprints from the PoP start
+  workCalendar?: WorkCalendarSettings; // Pro-rates period hours by working days and defaults salary annual hours
+  ceilingEscalationRate?: number; // Annual escalation of LCAT ceiling rates, usually the vehicle's; defaults to escalationRate
+  targetProfitRate?: number; // Profit ÷ price each line should earn (0.10 = 10%); lines below it are flagged
+  settingSources?: SettingSources; // Where resolved settings came from; set by the API and shown in calculation traces
+}
+
+export type SettingSource = 'default' | 'tenant' | 'contract-vehicle' | 'project' | 'line' | 'override';
+
+export interface SettingSources {
+  escalationRate?: SettingSource;
+  ceilingEscalationRate?: SettingSource;
+  salaryPricing?: SettingSource;
+  workshareRequirement?: SettingSource;
 }
 
 export interface LaborCategory {
@@ -37,6 +290,83 @@ export interface OtherDirectCost {
   amount: number;
   category: 'Travel' | 'Equipment' | 'Software' | 'Other';
   taxable: boolean;
+  periodId?: string; // Period the cost is incurred in; defaults to the first period
+}
+
+export type FinalRateSource = 'lcat' | 'company' | 'manual' | 'goal-seek';
+
+export interface FinalRateMetadata {
+  source: FinalRateSource;
+  reason?: string;
+  timestamp?: string;
+  userId?: string;
+}
+
+export interface LaborCategoryCalculationInput {
+  id?: string;
+  title: string;
+  baseRate: number;
+  hours: number;
+  ftePercentage: number; // 0.01-100%
+  clearanceLevel: ClearanceLevel;
+  location: LocationType;
+  capacity?: number; // Number of identical positions; defaults to 1
+  finalRate?: number; // Negotiated billed rate; overrides the burdened rate when greater than 0
+  companyRoleId?: string;
+  escalationRate?: number; // Per-role annual escalation (CompanyRole.rateIncrease); overrides settings.escalationRate
+  annualSalary?: number; // CompanyRole.rate; used in salary pricing mode
+  ceilingRate?: number; // LCAT ceiling rate on the contract vehicle, in the base period
+  lcatId?: string; // LCAT the line is priced under; supplies ceilingRate when it is omitted
+  finalRateMetadata?: FinalRateMetadata; // Where the final rate came from; not used in pricing
+  clearancePremium?: number; // Overrides the premium table for the clearance level (0.10 = 10%)
+  locality?: string; // Named locality in the premium table; overrides the location differential
+  primeOrSub?: PrimeOrSub; // Defaults to 'Prime'
+  subcontractorCompany?: string;
+  finalSubcontractorRate?: number; // Negotiated sub hourly rate; required on subcontractor lines
+  slotId?: string; // Position slot this line staffs; capacity is the assignee's share of the slot FTE
+  assigneeName?: string; // Named individual filling the slot
+  // Staffing window; hours are pro-rated to the share of each period inside it
+  startDate?: string; // ISO date; defaults to the period start
+  endDate?: string; // ISO date; defaults to the period end
+  startSprint?: number; // 1-based sprint the line starts in; used when startDate is omitted
+  sprintCount?: number; // Number of sprints staffed; sets the end date
+}
+
+/**
+ * A labor line as the web app saves it: the engine's line fields plus the LCAT and company role it was picked from
+ */
+export interface StoredLaborCategory extends LaborCategoryCalculationInput {
+  lcatName?: string;
+  lcatCode?: string;
+  lcatDescription?: string;
+  lcatRate?: number; // LCAT ceiling rate; becomes ceilingRate
+  vehicle?: string;
+  projectRoleId?: string;
+  projectRoleName?: string;
+  projectRoleDescription?: string;
+  companyRoleName?: string;
+  companyRoleRate?: number; // Company role annual salary; becomes annualSalary
+}
+
+export interface OtherDirectCostInput {
+  id?: string;
+  description: string;
+  amount: number;
+  category: 'Travel' | 'Equipment' | 'Software' | 'Other';
+  taxable: boolean;
+  taxRate?: number; // Defaults to the engine's standard tax rate
+  periodId?: string;
+}
+
+export interface CalculationInput {
+  settings: PricingSettings;
+  laborCategories: LaborCategoryCalculationInput[];
+  otherDirectCosts: OtherDirectCostInput[];
+  positionSlots?: PositionSlot[]; // Positions split across several assignee lines
+}
+
+export interface ScenarioInput extends CalculationInput {
+  name: string;
 }
 
 export interface ValidationError {
@@ -48,41 +378,174 @@ export interface ValidationError {
   overrideReason?: string;
 }
 
+export interface PricingTotals {
+  laborCost: number;
+  odcCost: number;
+  feeAmount: number;
+  totalCost: number;
+  totalEffectiveHours: number;
+  averageBurdenedRate: number;
+  // Salary pricing mode only
+  actualCost?: number;
+  actualProfit?: number;
+  actualProfitPercentage?: number; // actual profit ÷ labor price (0.12 = 12%)
+  subcontracting?: SubcontractingTotals; // Only when a line is priced as a subcontractor
+}
+
+export interface PeriodResult {
+  periodId: string;
+  name: string;
+  type: PeriodType;
+  startDate: string;
+  endDate: string;
+  hoursFactor: number; // Share of annual hours priced in this period (1.0 = a full year)
+  availableHours?: number; // Working hours per FTE in the period; only with a work calendar
+  laborCategories: LaborCategoryResult[];
+  otherDirectCosts: OtherDirectCostResult[];
+  totals: PricingTotals;
+}
+
 export interface CalculationResult {
   projectId?: string;
   laborCategories: LaborCategoryResult[];
   otherDirectCosts: OtherDirectCostResult[];
-  totals: {
-    laborCost: number;
-    odcCost: number;
-    totalCost: number;
-    totalEffectiveHours: number;
-    averageBurdenedRate: number;
-  };
+  periods?: PeriodResult[];
+  totals: PricingTotals;
   settings: PricingSettings;
   calculatedAt: string;
+  roundingPolicy?: RoundingPolicy; // Policy applied to this result
+  contract?: ContractTypeTotals; // Totals under the contract type's semantics
+  workshare?: WorkshareReport; // Only with subcontractor lines or a workshare requirement
+  positionSlots?: PositionSlotResult[]; // Per-assignee cost and profit rolled up per slot
+  findings?: PricingFinding[]; // Pricing health findings; only when there are any
+  trace?: CalculationExplanation; // Only in explain mode
   validationWarnings?: ValidationError[];
 }
 
+export type TraceUnit = 'currency' | 'rate' | 'percent' | 'hours' | 'factor' | 'count';
+
+export interface TraceStep {
+  label: string;
+  value: number;
+  unit: TraceUnit;
+  formula?: string; // How the value was computed from earlier steps
+  source?: SettingSource | 'calculated'; // Where an input or setting came from
+  detail?: string; // Rule, policy or table applied
+}
+
+export interface CalculationTrace {
+  target: string; // Result field the trace explains, e.g. laborCategories[0].totalCost
+  label: string;
+  value: number;
+  steps: TraceStep[]; // Inputs, settings and intermediate values, in calculation order
+  children?: CalculationTrace[]; // Per-period traces that roll up into this one
+}
+
+export interface CalculationExplanation {
+  laborCategories: CalculationTrace[];
+  otherDirectCosts: CalculationTrace[];
+  totals: CalculationTrace[];
+}
+
+export type PricingFindingType =
+  | 'negative-margin'
+  | 'below-minimum-rate'
+  | 'below-target-profit'
+  | 'over-capacity'
+  | 'unfilled-position'
+  | 'sub-over-max-rate'
+  | 'unassigned-odc';
+
+export type PricingFindingSeverity = 'error' | 'warning' | 'info';
+
+export interface PricingFinding {
+  type: PricingFindingType;
+  severity: PricingFindingSeverity;
+  message: string;
+  lineIndex?: number; // Labor line the finding is about
+  lineId?: string;
+  slotId?: string; // Position slot the finding is about
+  odcIndex?: number; // Other direct cost the finding is about
+  value?: number; // Offending value: rate, profit share or capacity
+  threshold?: number; // Limit it was checked against
+}
+
+export type PricingHealthStatus = 'healthy' | 'at-risk' | 'critical';
+
+export interface PricingHealthReport {
+  score: number; // 0-100; 100 with no findings
+  status: PricingHealthStatus;
+  findings: PricingFinding[];
+  counts: Record<PricingFindingSeverity, number>;
+  totals: PricingTotals;
+  calculatedAt: string;
+}
+
 export interface LaborCategoryResult {
   id: string;
   title: string;
   baseRate: number;
   hours: number;
   ftePercentage: number;
-  effectiveHours: number;
+  capacity?: number;
+  effectiveHours: number; // hours * ftePercentage / 100 * capacity
   clearanceLevel: ClearanceLevel;
   location: LocationType;
+  locality?: string;
   clearancePremium: number;
-  clearanceAdjustedRate: number;
+  clearancePremiumSource: PremiumSource;
+  locationDifferential: number;
+  locationDifferentialSource: PremiumSource;
+  clearanceAdjustedRate: number; // Base rate with clearance premium and location differential
   overheadAmount: number;
   overheadRate: number;
   gaAmount: number;
   gaRate: number;
+  fringeAmount?: number; // Only when the indirect rate structure has a fringe pool
+  indirectAmounts: IndirectPoolAmount[]; // Per pool, in structure order
   feeAmount: number;
   feeRate: number;
   totalCost: number;
   burdenedRate: number;
+  finalRate?: number; // Billed rate when it overrides the burdened rate
+  escalationRate?: number;
+  escalationFactor?: number; // Compounded escalation applied to the line's rates; period lines only
+  // Salary pricing mode only
+  annualSalary?: number;
+  wrapAmount?: number;
+  minimumProfitAmount?: number;
+  minimumAnnualRevenue?: number;
+  companyMinimumRate?: number;
+  actualCost?: number; // (salary + wrap) for the hours priced on this line
+  actualProfit?: number; // totalCost - actualCost
+  actualProfitPercentage?: number; // actualProfit ÷ totalCost (0.12 = 12%)
+  // Subcontractor lines only
+  primeOrSub?: PrimeOrSub;
+  subcontractorCompany?: string;
+  finalSubcontractorRate?: number;
+  passThroughMarkup?: number;
+  subcontractorCost?: number; // Sub rate × effective hours
+  maxSubcontractorRate?: number; // Highest sub rate that still earns minimum profit at the billed rate
+  exceedsMaxSubcontractorRate?: boolean;
+  // Position slot lines only
+  slotId?: string;
+  assigneeName?: string;
+  // Lines with a staffing window only
+  startDate?: string;
+  endDate?: string;
+  // Lines with an LCAT ceiling rate only
+  ceilingRate?: number; // Ceiling escalated to the period; the base period ceiling on whole-contract lines
+  ceilingDiscount?: number; // 1 - proposed rate ÷ ceiling (0.05 = 5% below ceiling); hours-weighted on whole-contract lines
+  exceedsCeilingRate?: boolean;
+}
+
+export interface CeilingRateViolation {
+  lineIndex: number;
+  title: string;
+  periodId: string;
+  periodName: string;
+  proposedRate: number; // Final rate, company minimum rate or burdened rate, escalated to the period
+  ceilingRate: number; // LCAT ceiling escalated to the period
 }
 
 export interface OtherDirectCostResult {
@@ -92,8 +555,153 @@ export interface OtherDirectCostResult {
   category: string;
   taxable: boolean;
   taxAmount: number;
+  indirectAmount?: number; // Indirect pools whose base includes ODCs
   totalAmount: number;
   taxRate: number;
+  periodId?: string;
+}
+
+export type PriceToWinVariable = 'feeRate' | 'ceilingDiscount' | 'hoursScale';
+
+export interface PriceToWinTarget {
+  type: 'totalPrice' | 'blendedRate';
+  value: number;
+}
+
+export interface PriceToWinRequest extends CalculationInput {
+  target: PriceToWinTarget;
+  solveFor: PriceToWinVariable;
+}
+
+export interface PriceToWinConstraint {
+  type: 'company-minimum-rate' | 'variable-bound' | 'fixed-rate'; // fixed-rate: a line the solve variable does not reprice
+  laborCategoryId?: string;
+  title?: string;
+  limit: number;
+  value: number;
+  status: 'binding' | 'slack' | 'violated' | 'fixed';
+  message: string;
+}
+
+export interface PriceToWinResult {
+  solveFor: PriceToWinVariable;
+  target: PriceToWinTarget;
+  value: number; // Solved fee rate, discount (0.1 = 10% off ceiling) or hours scale factor
+  feasible: boolean; // False when the target cannot be reached within bounds and constraints
+  achieved: number; // Total price or blended rate at the solved value
+  gap: number; // target - achieved; never negative when feasible
+  iterations: number;
+  constraints: PriceToWinConstraint[];
+  bindingConstraints: PriceToWinConstraint[]; // Binding or violated
+  laborCategories: LaborCategoryCalculationInput[]; // Inputs with solved final rates and hours
+  result: CalculationResult;
+}
+
+export interface GoalSeekRequest extends CalculationInput {
+  targetProfitPercentage: number; // Actual profit ÷ price (0.07 = 7%)
+  laborCategoryIds?: string[]; // Lines to solve; all lines when omitted
+}
+
+export interface GoalSeekLineResult {
+  index: number;
+  laborCategoryId?: string;
+  title: string;
+  solved: boolean; // False when the line has no salary to solve from
+  rate?: number; // Base-period final rate that meets the target
+  previousRate?: number;
+  companyMinimumRate?: number;
+  achievedProfitPercentage?: number;
+  belowCompanyMinimum: boolean;
+  message: string;
+}
+
+export interface GoalSeekResult {
+  targetProfitPercentage: number;
+  lines: GoalSeekLineResult[];
+  laborCategories: LaborCategoryCalculationInput[]; // Inputs with goal-seek final rates and metadata
+  result: CalculationResult; // Priced in salary mode so actual profit is reported
+}
+
+export type SensitivityInputGroup = 'indirect-rate' | 'labor' | 'salary' | 'escalation' | 'clearance';
+
+export interface SensitivityOptions {
+  perturbation?: number; // ± share of each input's value (0.1 = ±10%)
+  sortBy?: 'price' | 'profit';
+}
+
+export interface SensitivityItem {
+  key: string; // e.g. 'settings.overheadRate' or 'laborCategories[0].hours'
+  label: string;
+  group: SensitivityInputGroup;
+  laborCategoryId?: string;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  lowPrice: number; // Total price with the input at its low value
+  highPrice: number;
+  lowProfit: number; // Total profit with the input at its low value
+  highProfit: number;
+  priceSwing: number; // |highPrice - lowPrice|
+  profitSwing: number; // |highProfit - lowProfit|
+}
+
+export interface SensitivityAnalysis {
+  perturbation: number;
+  sortBy: 'price' | 'profit';
+  basePrice: number;
+  baseProfit: number; // Actual profit in salary mode, otherwise fee
+  items: SensitivityItem[]; // Sorted by swing, largest first
+  analyzedAt: string;
+}
+
+export type Distribution =
+  | { type: 'triangular'; min: number; mode: number; max: number }
+  | { type: 'normal'; mean: number; standardDeviation: number }
+  | { type: 'uniform'; min: number; max: number };
+
+export type SimulationInput =
+  | { type: 'overheadRate' | 'gaRate' | 'wrapRate' }
+  | { type: 'hours' | 'annualSalary'; laborCategoryId: string }
+  | { type: 'odcAmount'; otherDirectCostId: string };
+
+export interface SimulationVariable {
+  input: SimulationInput;
+  distribution: Distribution; // In the input's own units; samples are floored at 0
+}
+
+export interface MonteCarloRequest extends CalculationInput {
+  variables: SimulationVariable[];
+  iterations?: number; // Defaults to 1000
+  seed?: number; // Same seed, same result; random when omitted
+  histogramBins?: number; // Defaults to 20
+}
+
+export interface SimulationStatistics {
+  mean: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p80: number;
+  p90: number;
+}
+
+export interface SimulationHistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number;
+  price: number; // Bid price from the unperturbed inputs; held fixed as for FFP
+  baseCost: number;
+  cost: SimulationStatistics;
+  profit: SimulationStatistics;
+  margin: SimulationStatistics; // Profit ÷ price (0.1 = 10%)
+  overrunProbability: number; // Share of iterations where cost exceeds price
+  histogram: SimulationHistogramBin[]; // Cost distribution
 }
 
 export interface ScenarioComparison {
@@ -110,3 +718,49 @@ export interface ScenarioComparison {
   comparedAt: string;
 }
 
+
+export interface ClinInput {
+  id: string;
+  number: string; // e.g. "0001", or "0001AA" for a sub-CLIN
+  title: string;
+  optional?: boolean; // Optional task / option CLIN
+  periods?: PricingPeriod[]; // Defaults to the parent CLIN's, then the project's periods
+  laborCategories: LaborCategoryCalculationInput[];
+  otherDirectCosts: OtherDirectCostInput[];
+  children?: ClinInput[];
+}
+
+export interface ClinCalculationInput {
+  settings: PricingSettings;
+  clins: ClinInput[];
+  includeOptional?: boolean; // Count optional CLINs in the evaluated total; defaults to true
+}
+
+export interface ClinPeriodTotals {
+  periodId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  totals: PricingTotals;
+}
+
+export interface ClinResult {
+  id: string;
+  number: string;
+  title: string;
+  optional: boolean;
+  included: boolean; // In the evaluated total; children of an excluded CLIN are excluded too
+  result: CalculationResult; // This CLIN's own lines and ODCs
+  periods: ClinPeriodTotals[]; // CLIN × period subtotals, including children
+  totals: PricingTotals; // Including children
+  children: ClinResult[];
+}
+
+export interface ClinStructureResult {
+  clins: ClinResult[];
+  periods: ClinPeriodTotals[]; // Per period across included CLINs
+  totals: PricingTotals; // Evaluated total: included CLINs only
+  totalsWithOptional: PricingTotals; // Every CLIN
+  includeOptional: boolean;
+  calculatedAt: string;
+}
@@ -2,6 +2,10 @@
  * Project management and persistence types
  */
 
+import { ClinInput, LaborCategoryCalculationInput, OtherDirectCostInput, PricingSettings, PricingTotals } from './pricing';
+
+export type ProjectStatus = 'draft' | 'active' | 'archived';
+
 export interface PricingProject {
   id: string;
   tenantId: string;
@@ -16,6 +20,7 @@ export interface PricingProject {
   updatedBy: string;
   version: number;
   isTemplate: boolean;
+  status?: ProjectStatus; // Defaults to draft
   tags: string[];
 }
 
@@ -25,6 +30,7 @@ export interface ProjectTemplate {
   name: string;
   description: string;
   project: Omit<PricingProject, 'id' | 'tenantId' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy' | 'version'>;
+  contractVehicle?: string;
   category: 'FFP' | 'T&M' | 'CPFF' | 'General';
   isPublic: boolean;
   createdAt: string;
@@ -32,12 +38,27 @@ export interface ProjectTemplate {
   usageCount: number;
 }
 
+export interface ProjectCalculationSummary {
+  totals: PricingTotals;
+  margin: number; // Profit ÷ total price (0.12 = 12%); actual profit in salary pricing mode, else fee
+  headcount: number; // People across labor lines, i.e. the sum of line capacity
+  engineVersion: string; // Engine version that calculated it; other versions are recomputed
+  calculatedAt: string;
+}
+
 export interface ProjectSummary {
   id: string;
   name: string;
   description?: string;
-  totalCost: number;
+  contractVehicle?: string;
+  status: ProjectStatus;
+  version: number;
+  totalCost: number; // 0 when the project has not calculated
   totalHours: number;
+  margin?: number;
+  headcount?: number;
+  calculatedAt?: string;
+  stale: boolean; // Referenced rates or settings changed since it was calculated; recomputed in the background
   laborCategoryCount: number;
   lastModified: string;
   createdBy: string;
@@ -45,11 +66,15 @@ export interface ProjectSummary {
   tags: string[];
 }
 
+export type ProjectSortField = 'totalCost' | 'lastModified' | 'name';
+
 export interface ProjectSearchFilters {
-  name?: string;
-  tags?: string[];
+  name?: string; // Matches the project name or description
+  tags?: string[]; // Projects carrying every listed tag
   contractType?: string;
-  dateRange?: {
+  contractVehicle?: string;
+  status?: ProjectStatus;
+  dateRange?: { // Last modified between; either end may be open
     start: string;
     end: string;
   };
@@ -57,12 +82,62 @@ export interface ProjectSearchFilters {
   isTemplate?: boolean;
 }
 
+export interface TemplateSearchFilters {
+  search?: string; // Matches the template name or description
+  category?: ProjectTemplate['category'];
+  contractType?: string;
+  contractVehicle?: string;
+  page?: number; // 1-based
+  limit?: number;
+}
+
+export interface ProjectSnapshot {
+  name: string;
+  description?: string;
+  contractVehicle?: string;
+  settings: PricingSettings;
+  laborCategories: LaborCategoryCalculationInput[]; // As saved on the project, including any catalog fields
+  otherDirectCosts: OtherDirectCostInput[];
+  clins: ClinInput[];
+  tags: string[];
+}
+
 export interface ProjectVersion {
   id: string;
   projectId: string;
   version: number;
-  changes: string;
+  changes: string; // Change note
   createdAt: string;
   createdBy: string;
-  data: PricingProject;
+  data: ProjectSnapshot;
+  totals?: PricingTotals; // Computed when the version was saved; absent when the project did not calculate
+}
+
+export interface ProjectFieldChange {
+  field: string; // Dot path, e.g. "periodOfPerformance.endDate"
+  from?: unknown;
+  to?: unknown;
+}
+
+export type ProjectLineChangeType = 'added' | 'removed' | 'changed';
+
+export interface ProjectLineDiff {
+  key: string; // Line id, or "#<index>" for lines saved without one
+  title: string;
+  change: ProjectLineChangeType;
+  fields: ProjectFieldChange[]; // Changed fields; every field for added and removed lines
+}
+
+export interface ProjectVersionDiff {
+  projectId: string;
+  fromVersion: number;
+  toVersion: number;
+  project: ProjectFieldChange[]; // Name, description, contract vehicle and tags
+  settings: ProjectFieldChange[];
+  laborCategories: ProjectLineDiff[];
+  otherDirectCosts: ProjectLineDiff[];
+  clinsChanged: boolean;
+  fromTotals?: PricingTotals;
+  toTotals?: PricingTotals;
+  priceDelta?: number; // Change in total price; only when both versions calculated
 }